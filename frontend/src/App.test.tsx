@@ -1,20 +1,32 @@
 import React from "react";
-import { render, screen, fireEvent, waitFor, act } from "@testing-library/react";
+import { render, screen, fireEvent, waitFor, act, within } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { describe, expect, it, vi, beforeEach } from "vitest";
 import App from "./App";
 import type { PdfDocumentProxy, PdfPageProxy } from "./lib/pdf";
+import type { LoadSourceOptions } from "./hooks/useViewerState";
 
 const mockDetectOrientationForPage = vi.fn();
+const mockDetectSkewForPage = vi.fn();
 const mockUseViewerState = vi.fn();
 const mockCreatePdfJsDistLoader = vi.fn();
 const mockFetchHealth = vi.fn();
+const mockSavePdfSplit = vi.fn();
+const mockSavePdfExtract = vi.fn();
+const mockSavePdfWithRotation = vi.fn();
+const mockSavePdfIncremental = vi.fn();
+const mockInspectPdfImages = vi.fn();
+const mockInspectActiveContent = vi.fn();
+const mockDownloadBlob = vi.fn();
+const mockExportPagesAsImages = vi.fn();
+const mockBuildPdfFromImages = vi.fn();
 
 vi.mock("./lib/ocr", async () => {
   const actual = await vi.importActual<typeof import("./lib/ocr")>("./lib/ocr");
   return {
     ...actual,
     detectOrientationForPage: (...args: unknown[]) => mockDetectOrientationForPage(...args),
+    detectSkewForPage: (...args: unknown[]) => mockDetectSkewForPage(...args),
   };
 });
 
@@ -36,6 +48,34 @@ vi.mock("./lib/health", () => {
   };
 });
 
+vi.mock("./lib/pdf-save", () => {
+  return {
+    savePdfWithRotation: (...args: unknown[]) => mockSavePdfWithRotation(...args),
+    savePdfSplit: (...args: unknown[]) => mockSavePdfSplit(...args),
+    savePdfExtract: (...args: unknown[]) => mockSavePdfExtract(...args),
+    savePdfIncremental: (...args: unknown[]) => mockSavePdfIncremental(...args),
+    downloadBlob: (...args: unknown[]) => mockDownloadBlob(...args),
+    inspectPdfImages: (...args: unknown[]) => mockInspectPdfImages(...args),
+    inspectActiveContent: (...args: unknown[]) => mockInspectActiveContent(...args),
+  };
+});
+
+vi.mock("./lib/image-export", async () => {
+  const actual = await vi.importActual<typeof import("./lib/image-export")>("./lib/image-export");
+  return {
+    ...actual,
+    exportPagesAsImages: (...args: unknown[]) => mockExportPagesAsImages(...args),
+  };
+});
+
+vi.mock("./lib/image-to-pdf", async () => {
+  const actual = await vi.importActual<typeof import("./lib/image-to-pdf")>("./lib/image-to-pdf");
+  return {
+    ...actual,
+    buildPdfFromImages: (...args: unknown[]) => mockBuildPdfFromImages(...args),
+  };
+});
+
 vi.mock("./lib/pdf", async () => {
   const actual = await vi.importActual<typeof import("./lib/pdf")>("./lib/pdf");
   return {
@@ -47,10 +87,28 @@ vi.mock("./lib/pdf", async () => {
 type MockViewerState = {
   status: "idle" | "loading" | "ready" | "error";
   pdfDoc: unknown;
+  sources: Array<{
+    name: string;
+    buffer: ArrayBuffer | null;
+    password: string | null;
+    doc: unknown;
+    pageOffset: number;
+    numPages: number;
+  }>;
   numPages: number;
   currentPage: number;
   selectedPages: number[];
+  baseRotationMap: Record<number, 0 | 90 | 180 | 270>;
   rotationMap: Record<number, 0 | 90 | 180 | 270>;
+  deletedPages: number[];
+  pageOrder: number[];
+  skewMap: Record<number, number>;
+  cropMap: Record<number, { x: number; y: number; width: number; height: number }>;
+  redactionMap: Record<number, Array<{ x: number; y: number; width: number; height: number }>>;
+  annotationMap: Record<number, unknown[]>;
+  virtualPages: Record<number, { kind: "blank"; width: number; height: number } | { kind: "duplicate"; of: number }>;
+  outline: Array<{ id: string; title: string; pageNumber: number | null; children: [] }>;
+  history: { past: unknown[]; future: unknown[]; groupDepth: number; groupRecorded: boolean };
   zoom: number;
   errorMessage: string | null;
 };
@@ -62,11 +120,27 @@ const makeState = (override?: Partial<MockViewerState>): MockViewerState => {
     numPages: 0,
     currentPage: 1,
     selectedPages: [],
+    baseRotationMap: {},
     rotationMap: {},
+    deletedPages: [],
+    skewMap: {},
+    cropMap: {},
+    redactionMap: {},
+    annotationMap: {},
+    virtualPages: {},
+    outline: [],
+    history: { past: [], future: [], groupDepth: 0, groupRecorded: false },
     zoom: 1,
     errorMessage: null,
   };
-  return { ...base, ...override };
+  const merged = { ...base, ...override };
+  const pageOrder = override?.pageOrder ?? Array.from({ length: merged.numPages }, (_, index) => index + 1);
+  const sources =
+    override?.sources ??
+    (merged.pdfDoc
+      ? [{ name: "sample.pdf", buffer: new ArrayBuffer(8), password: null, doc: merged.pdfDoc, pageOffset: 0, numPages: merged.numPages }]
+      : []);
+  return { ...merged, pageOrder, sources };
 };
 
 const createMockPage = (): PdfPageProxy => ({
@@ -87,19 +161,38 @@ const waitForAutoOcr = async (expectedCalls: number) => {
 
 const makeViewerHook = (override?: {
   state?: MockViewerState;
-  loadFromArrayBuffer?: () => Promise<void>;
+  loadFromArrayBuffer?: (buffer: ArrayBuffer, options?: LoadSourceOptions) => Promise<void>;
+  appendFromArrayBuffer?: (buffer: ArrayBuffer, options?: LoadSourceOptions) => Promise<void>;
   setPage?: (page: number) => void;
 }) => {
   const loadFromArrayBuffer = override?.loadFromArrayBuffer ?? vi.fn(async () => {});
+  const appendFromArrayBuffer = override?.appendFromArrayBuffer ?? vi.fn(async () => {});
   const setPage = override?.setPage ?? vi.fn();
   return {
     state: override?.state ?? makeState(),
     loadFromArrayBuffer,
+    appendFromArrayBuffer,
     setPage,
     nextPage: vi.fn(),
     prevPage: vi.fn(),
     rotateCurrentPage: vi.fn(),
     rotatePage: vi.fn(),
+    deletePages: vi.fn(),
+    restorePages: vi.fn(),
+    movePages: vi.fn(),
+    setPageSkew: vi.fn(),
+    setPageCrops: vi.fn(),
+    setPageRedactions: vi.fn(),
+    setPageAnnotations: vi.fn(),
+    insertBlankPages: vi.fn(),
+    duplicatePages: vi.fn(),
+    addOutlineItem: vi.fn(),
+    renameOutlineItem: vi.fn(),
+    removeOutlineItem: vi.fn(),
+    undo: vi.fn(),
+    redo: vi.fn(),
+    beginHistoryGroup: vi.fn(),
+    endHistoryGroup: vi.fn(),
     setZoom: vi.fn(),
     reset: vi.fn(),
   };
@@ -132,7 +225,7 @@ describe("App", () => {
 
     fireEvent.drop(dropzone, { dataTransfer: { files: [file] } });
 
-    const messages = await screen.findAllByText("PDFファイルを選択してください");
+    const messages = await screen.findAllByText("PDFまたは画像（JPEG/PNG）ファイルを選択してください");
     expect(messages.length).toBeGreaterThan(0);
   });
 
@@ -583,6 +676,78 @@ describe("App", () => {
     });
   });
 
+  it("元に戻す/やり直すをボタンとCtrl+Z/Ctrl+Shift+Zで実行する", async () => {
+    const viewerHook = makeViewerHook({
+      state: makeState({
+        status: "ready",
+        numPages: 1,
+        currentPage: 1,
+        pdfDoc: createMockPdfDoc(),
+        history: { past: [{}], future: [{}], groupDepth: 0, groupRecorded: false },
+      }),
+    });
+    mockUseViewerState.mockReturnValue(viewerHook);
+    render(<App />);
+    await waitForAutoOcr(1);
+    const user = userEvent.setup();
+
+    await user.click(screen.getByRole("button", { name: "元に戻す (Ctrl+Z)" }));
+    await user.click(screen.getByRole("button", { name: "やり直す (Ctrl+Shift+Z)" }));
+    expect(viewerHook.undo).toHaveBeenCalledTimes(1);
+    expect(viewerHook.redo).toHaveBeenCalledTimes(1);
+
+    fireEvent.keyDown(window, { key: "z", ctrlKey: true });
+    fireEvent.keyDown(window, { key: "Z", ctrlKey: true, shiftKey: true });
+    expect(viewerHook.undo).toHaveBeenCalledTimes(2);
+    expect(viewerHook.redo).toHaveBeenCalledTimes(2);
+  });
+
+  it("履歴が無い場合は元に戻す/やり直すを無効化する", async () => {
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({ status: "ready", numPages: 1, currentPage: 1, pdfDoc: createMockPdfDoc() }),
+      })
+    );
+    render(<App />);
+
+    expect(screen.getByRole("button", { name: "元に戻す (Ctrl+Z)" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "やり直す (Ctrl+Shift+Z)" })).toBeDisabled();
+  });
+
+  it("選択ページの一括回転とOCRの1回の実行をそれぞれ1つの履歴単位にまとめる", async () => {
+    mockDetectOrientationForPage.mockImplementation(async (_doc: unknown, page: number) => ({
+      page,
+      rotation: 90,
+      confidence: 0.9,
+      processingMs: 1,
+      success: true,
+      viewport: { width: 100, height: 100 },
+    }));
+    const viewerHook = makeViewerHook({
+      state: makeState({ status: "ready", numPages: 2, currentPage: 1, pdfDoc: createMockPdfDoc(2) }),
+    });
+    mockUseViewerState.mockReturnValue(viewerHook);
+    render(<App />);
+
+    await waitFor(() => expect(viewerHook.endHistoryGroup).toHaveBeenCalledTimes(1));
+    expect(viewerHook.beginHistoryGroup).toHaveBeenCalledTimes(1);
+    expect(viewerHook.rotatePage).toHaveBeenCalledTimes(2);
+    const [beginOrder] = viewerHook.beginHistoryGroup.mock.invocationCallOrder;
+    const [endOrder] = viewerHook.endHistoryGroup.mock.invocationCallOrder;
+    viewerHook.rotatePage.mock.invocationCallOrder.forEach((order) => {
+      expect(order).toBeGreaterThan(beginOrder);
+      expect(order).toBeLessThan(endOrder);
+    });
+
+    fireEvent.pointerDown(screen.getByRole("button", { name: "ページ 1" }), { button: 0 });
+    fireEvent.pointerDown(screen.getByRole("button", { name: "ページ 2" }), { button: 0 });
+    fireEvent.keyDown(window, { key: "ArrowRight", ctrlKey: true });
+
+    expect(viewerHook.beginHistoryGroup).toHaveBeenCalledTimes(2);
+    expect(viewerHook.endHistoryGroup).toHaveBeenCalledTimes(2);
+    expect(viewerHook.rotatePage).toHaveBeenCalledTimes(4);
+  });
+
   it("ドラッグで複数ページを選択できる", async () => {
     mockUseViewerState.mockReturnValue(
       makeViewerHook({
@@ -657,6 +822,867 @@ describe("App", () => {
     expect(screen.getByRole("button", { name: "ページ 1" })).toHaveAttribute("aria-pressed", "false");
   });
 
+  it("複数のPDFをドロップすると先頭を読み込み残りを結合する", async () => {
+    const loadFromArrayBuffer = vi.fn(async () => {});
+    const appendFromArrayBuffer = vi.fn(async () => {});
+    mockUseViewerState.mockReturnValue(makeViewerHook({ loadFromArrayBuffer, appendFromArrayBuffer }));
+    render(<App />);
+
+    const dropzone = screen.getByLabelText("PDFをドラッグ&ドロップ");
+    const first = new File([new Uint8Array([1])], "a.pdf", { type: "application/pdf" });
+    const second = new File([new Uint8Array([2])], "b.pdf", { type: "application/pdf" });
+    fireEvent.drop(dropzone, { dataTransfer: { files: [first, second] } });
+
+    await waitFor(() => expect(appendFromArrayBuffer).toHaveBeenCalledTimes(1));
+    expect(loadFromArrayBuffer).toHaveBeenCalledWith(expect.any(ArrayBuffer), {
+      name: "a.pdf",
+      onPassword: expect.any(Function),
+    });
+    expect(appendFromArrayBuffer).toHaveBeenCalledWith(expect.any(ArrayBuffer), {
+      name: "b.pdf",
+      onPassword: expect.any(Function),
+    });
+  });
+
+  it("画像をドロップするとファイル名順に1つのPDFにして読み込む", async () => {
+    const loadFromArrayBuffer = vi.fn(async () => {});
+    const appendFromArrayBuffer = vi.fn(async () => {});
+    const built = new ArrayBuffer(4);
+    mockBuildPdfFromImages.mockReset();
+    mockBuildPdfFromImages.mockResolvedValue(built);
+    mockUseViewerState.mockReturnValue(makeViewerHook({ loadFromArrayBuffer, appendFromArrayBuffer }));
+    render(<App />);
+
+    fireEvent.change(screen.getByLabelText("画像のページサイズ"), { target: { value: "a4" } });
+    const dropzone = screen.getByLabelText("PDFをドラッグ&ドロップ");
+    const scan10 = new File([new Uint8Array([1])], "scan10.jpg", { type: "image/jpeg" });
+    const scan2 = new File([new Uint8Array([2])], "scan2.png", { type: "image/png" });
+    const pdf = new File([new Uint8Array([3])], "c.pdf", { type: "application/pdf" });
+    fireEvent.drop(dropzone, { dataTransfer: { files: [scan10, pdf, scan2] } });
+
+    await waitFor(() => expect(appendFromArrayBuffer).toHaveBeenCalledTimes(1));
+    expect(mockBuildPdfFromImages).toHaveBeenCalledWith(
+      [
+        { name: "scan2.png", data: expect.any(ArrayBuffer) },
+        { name: "scan10.jpg", data: expect.any(ArrayBuffer) },
+      ],
+      { pageSize: "a4" }
+    );
+    expect(loadFromArrayBuffer).toHaveBeenCalledWith(built, { name: "scan2.pdf", onPassword: expect.any(Function) });
+    expect(appendFromArrayBuffer).toHaveBeenCalledWith(expect.any(ArrayBuffer), {
+      name: "c.pdf",
+      onPassword: expect.any(Function),
+    });
+  });
+
+  it("PDFを追加すると読み込み済みのページを残したまま結合する", async () => {
+    const loadFromArrayBuffer = vi.fn(async () => {});
+    const appendFromArrayBuffer = vi.fn(async () => {});
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        loadFromArrayBuffer,
+        appendFromArrayBuffer,
+        state: makeState({ status: "ready", numPages: 1, currentPage: 1, pdfDoc: createMockPdfDoc() }),
+      })
+    );
+    render(<App />);
+    await waitForAutoOcr(1);
+
+    const appendInput = screen.getByLabelText("PDFを追加");
+    const file = new File([new Uint8Array([1])], "extra.pdf", { type: "application/pdf" });
+    fireEvent.change(appendInput, { target: { files: [file] } });
+
+    await waitFor(() => expect(appendFromArrayBuffer).toHaveBeenCalledTimes(1));
+    expect(loadFromArrayBuffer).not.toHaveBeenCalled();
+  });
+
+  it("結合したPDFはサムネイルに元ファイルの目印を表示する", async () => {
+    const firstDoc = createMockPdfDoc(1);
+    const secondDoc = createMockPdfDoc(2);
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({
+          status: "ready",
+          numPages: 3,
+          currentPage: 1,
+          pdfDoc: createMockPdfDoc(3),
+          sources: [
+            { name: "a.pdf", buffer: new ArrayBuffer(8), password: null, doc: firstDoc, pageOffset: 0, numPages: 1 },
+            { name: "b.pdf", buffer: new ArrayBuffer(8), password: null, doc: secondDoc, pageOffset: 1, numPages: 2 },
+          ],
+        }),
+      })
+    );
+    render(<App />);
+
+    expect(screen.getByRole("list", { name: "結合したPDF" })).toHaveTextContent("b.pdf");
+    expect(screen.getByRole("button", { name: "ページ 3" })).toContainElement(screen.getByTitle("b.pdf p.2"));
+    expect(screen.getByTitle("a.pdf p.1")).toHaveTextContent("1");
+  });
+
+  it("PDFを結合すると追加したページだけを自動で向き推定する", async () => {
+    const firstDoc = createMockPdfDoc(2);
+    const firstSource = { name: "a.pdf", buffer: new ArrayBuffer(8), password: null, doc: firstDoc, pageOffset: 0, numPages: 2 };
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({ status: "ready", numPages: 2, currentPage: 1, pdfDoc: firstDoc, sources: [firstSource] }),
+      })
+    );
+    const { rerender } = render(<App />);
+    await waitForAutoOcr(2);
+
+    const secondSource = { name: "b.pdf", buffer: new ArrayBuffer(8), password: null, doc: createMockPdfDoc(2), pageOffset: 2, numPages: 2 };
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({
+          status: "ready",
+          numPages: 4,
+          currentPage: 1,
+          pdfDoc: createMockPdfDoc(4),
+          sources: [firstSource, secondSource],
+        }),
+      })
+    );
+    rerender(<App />);
+
+    await waitFor(() => expect(mockDetectOrientationForPage).toHaveBeenCalledTimes(2));
+    const pages = mockDetectOrientationForPage.mock.calls.map((call) => call[1]);
+    expect(pages).toEqual([3, 4]);
+  });
+
+  it("分割モードで選択ページの前に分割点を置き、ZIPで保存する", async () => {
+    mockSavePdfSplit.mockReset();
+    mockSavePdfSplit.mockResolvedValue(undefined);
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({ status: "ready", numPages: 4, currentPage: 1, pdfDoc: createMockPdfDoc(4), rotationMap: { 2: 90 } }),
+      })
+    );
+    render(<App />);
+    const user = userEvent.setup();
+
+    await user.click(screen.getByRole("checkbox", { name: "分割モード" }));
+    fireEvent.pointerDown(screen.getByRole("button", { name: "ページ 3" }), { button: 0 });
+    fireEvent.pointerUp(window);
+    await user.click(screen.getByRole("button", { name: "選択ページの前で分割/解除" }));
+
+    const parts = screen.getByRole("list", { name: "分割後のファイル" });
+    expect(parts).toHaveTextContent("document_1.pdf2ページ");
+    expect(parts).toHaveTextContent("document_2.pdf2ページ");
+    expect(screen.getByRole("button", { name: "ページ 3" })).toHaveClass("is-split-before");
+
+    await user.click(screen.getByRole("button", { name: "分割して保存（2ファイル / zip）" }));
+
+    await waitFor(() => expect(mockSavePdfSplit).toHaveBeenCalledTimes(1));
+    expect(mockSavePdfSplit).toHaveBeenCalledWith(
+      [expect.any(ArrayBuffer)],
+      { 2: 90 },
+      [
+        { fileName: "document_1.pdf", pages: [1, 2] },
+        { fileName: "document_2.pdf", pages: [3, 4] },
+      ],
+      {
+        zipFileName: "document_split.zip",
+        enableFallbackOpen: true,
+        skewMap: {},
+        cropMap: {},
+        annotations: {},
+        formValues: {},
+        flattenForms: false,
+        bakeRotation: false,
+        sanitize: false,
+        onSanitize: expect.any(Function),
+        onOutputSize: expect.any(Function),
+        virtualPages: {},
+        metadata: expect.objectContaining({ title: "" }),
+        stripMetadata: false,
+        outline: [],
+        sourcePasswords: [null],
+      }
+    );
+  });
+
+  it("選択ページだけを抽出し、ページ範囲を付けたファイル名で保存する", async () => {
+    mockSavePdfExtract.mockReset();
+    mockSavePdfExtract.mockResolvedValue(undefined);
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({
+          status: "ready",
+          numPages: 4,
+          currentPage: 1,
+          pdfDoc: createMockPdfDoc(4),
+          rotationMap: { 3: 90 },
+          pageOrder: [3, 2, 1, 4],
+        }),
+      })
+    );
+    render(<App />);
+    const user = userEvent.setup();
+    expect(screen.getByRole("button", { name: "選択を抽出して保存" })).toBeDisabled();
+
+    fireEvent.pointerDown(screen.getByRole("button", { name: "ページ 3" }), { button: 0 });
+    fireEvent.pointerEnter(screen.getByRole("button", { name: "ページ 2" }), { buttons: 1 });
+    fireEvent.pointerUp(window);
+    await user.click(screen.getByRole("button", { name: "選択を抽出して保存" }));
+
+    await waitFor(() => expect(mockSavePdfExtract).toHaveBeenCalledTimes(1));
+    expect(mockSavePdfExtract).toHaveBeenCalledWith([expect.any(ArrayBuffer)], { 3: 90 }, [2, 3], {
+      numPages: 4,
+      fileName: "document_p2-3.pdf",
+      enableFallbackOpen: true,
+      deletedPages: [],
+      pageOrder: [3, 2, 1, 4],
+      skewMap: {},
+      cropMap: {},
+      annotations: {},
+      formValues: {},
+      flattenForms: false,
+      bakeRotation: false,
+      sanitize: false,
+      onSanitize: expect.any(Function),
+      onOutputSize: expect.any(Function),
+      virtualPages: {},
+      metadata: expect.objectContaining({ title: "" }),
+      stripMetadata: false,
+      outline: [],
+      sourcePasswords: [null],
+    });
+  });
+
+  it("削除ページを除いて並び順・回転どおりに指定した形式・解像度の画像にしてZIPで保存し、途中で中止できる", async () => {
+    mockDownloadBlob.mockReset();
+    mockExportPagesAsImages.mockReset();
+    const zip = new Blob(["zip"]);
+    mockExportPagesAsImages.mockResolvedValueOnce(zip);
+    const pdfDoc = createMockPdfDoc(3);
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({
+          status: "ready",
+          pdfDoc,
+          numPages: 3,
+          rotationMap: { 3: 90 },
+          deletedPages: [2],
+          pageOrder: [3, 2, 1],
+        }),
+      })
+    );
+    render(<App />);
+
+    await userEvent.click(screen.getByRole("radio", { name: "JPEG" }));
+    await userEvent.selectOptions(screen.getByLabelText("解像度"), "300");
+    await userEvent.click(screen.getByRole("button", { name: "全ページを画像で保存" }));
+
+    await waitFor(() => expect(mockDownloadBlob).toHaveBeenCalledWith(zip, "document_images.zip", true));
+    expect(mockExportPagesAsImages).toHaveBeenCalledWith(
+      pdfDoc,
+      [
+        { pageNumber: 3, rotation: 90, crop: undefined },
+        { pageNumber: 1, rotation: 0, crop: undefined },
+      ],
+      expect.objectContaining({ format: "jpeg", dpi: 300 })
+    );
+
+    mockExportPagesAsImages.mockImplementationOnce(
+      (_doc: unknown, _targets: unknown, options: { signal: AbortSignal; onProgress: (progress: object) => void }) =>
+        new Promise((_resolve, reject) => {
+          options.onProgress({ current: 1, total: 2, page: 3 });
+          options.signal.addEventListener("abort", () => reject(new DOMException("中止", "AbortError")));
+        })
+    );
+    await userEvent.click(screen.getByRole("button", { name: "全ページを画像で保存" }));
+    expect(await screen.findByText("1/2")).toBeInTheDocument();
+    await userEvent.click(within(screen.getByText("画像で書き出し").closest("section")!).getByRole("button", { name: "処理中止" }));
+
+    await waitFor(() => expect(screen.getByRole("button", { name: "全ページを画像で保存" })).toBeEnabled());
+    expect(mockDownloadBlob).toHaveBeenCalledTimes(1);
+    expect(screen.queryByText("1/2")).not.toBeInTheDocument();
+  });
+
+  it("パスワードで保護されたPDFはダイアログで入力したパスワードを読み込みに渡す", async () => {
+    const received: Array<string | null> = [];
+    const loadFromArrayBuffer = vi.fn(async (_buffer: ArrayBuffer, options?: LoadSourceOptions) => {
+      received.push((await options?.onPassword?.("required")) ?? null);
+      received.push((await options?.onPassword?.("incorrect")) ?? null);
+    });
+    mockUseViewerState.mockReturnValue(makeViewerHook({ loadFromArrayBuffer }));
+    render(<App />);
+
+    const file = new File([new Uint8Array([1])], "secret.pdf", { type: "application/pdf" });
+    fireEvent.drop(screen.getByLabelText("PDFをドラッグ&ドロップ"), { dataTransfer: { files: [file] } });
+
+    const dialog = await screen.findByRole("dialog", { name: "パスワードの入力" });
+    expect(within(dialog).getByText("secret.pdf はパスワードで保護されています。")).toBeInTheDocument();
+    await userEvent.type(within(dialog).getByLabelText("パスワード"), "wrong");
+    await userEvent.click(within(dialog).getByRole("button", { name: "開く" }));
+
+    const retry = await screen.findByRole("dialog", { name: "パスワードの入力" });
+    expect(within(retry).getByText("パスワードが違います。もう一度入力してください。")).toBeInTheDocument();
+    await userEvent.click(within(retry).getByRole("button", { name: "キャンセル" }));
+
+    await waitFor(() => expect(received).toEqual(["wrong", null]));
+    expect(screen.queryByRole("dialog", { name: "パスワードの入力" })).not.toBeInTheDocument();
+  });
+
+  it("元PDFにパスワードがあれば既定で同じパスワードを設定し、新しいパスワードにも変えられる", async () => {
+    mockSavePdfWithRotation.mockReset();
+    const pdfDoc = createMockPdfDoc(1);
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({
+          status: "ready",
+          pdfDoc,
+          numPages: 1,
+          sources: [{ name: "a.pdf", buffer: new ArrayBuffer(8), password: "secret", doc: pdfDoc, pageOffset: 0, numPages: 1 }],
+        }),
+      })
+    );
+    render(<App />);
+
+    expect(screen.getByRole("radio", { name: "元のパスワード" })).toBeChecked();
+    await userEvent.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(1));
+    expect(mockSavePdfWithRotation.mock.calls[0][2]).toMatchObject({
+      sourcePasswords: ["secret"],
+      outputPassword: "secret",
+    });
+
+    await userEvent.click(screen.getByRole("radio", { name: "新しいパスワード" }));
+    await userEvent.type(screen.getByLabelText("パスワード"), "changed");
+    await userEvent.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(2));
+    expect(mockSavePdfWithRotation.mock.calls[1][2]).toMatchObject({ outputPassword: "changed" });
+
+    await userEvent.click(screen.getByRole("radio", { name: "設定しない" }));
+    await userEvent.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(3));
+    expect(mockSavePdfWithRotation.mock.calls[2][2].outputPassword).toBeUndefined();
+  });
+
+  it("ページサイズをそろえる指定を保存に渡し、無効にすると渡さない", async () => {
+    mockSavePdfWithRotation.mockReset();
+    const pdfDoc = createMockPdfDoc(1);
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({ state: makeState({ status: "ready", pdfDoc, numPages: 1 }) })
+    );
+    render(<App />);
+    const user = userEvent.setup();
+
+    expect(screen.getByLabelText("用紙")).toBeDisabled();
+    await user.click(screen.getByRole("checkbox", { name: "保存時にページサイズをそろえる" }));
+    await user.selectOptions(screen.getByLabelText("用紙"), "letter");
+    await user.selectOptions(screen.getByLabelText("向き"), "landscape");
+    fireEvent.change(screen.getByLabelText("余白 (mm)"), { target: { value: "10" } });
+    await user.click(screen.getByRole("radio", { name: "余白なく埋める" }));
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(1));
+    expect(mockSavePdfWithRotation.mock.calls[0][2]).toMatchObject({
+      normalizePageSize: { paper: "letter", orientation: "landscape", marginMm: 10, fit: "fill" },
+    });
+
+    await user.click(screen.getByRole("checkbox", { name: "保存時にページサイズをそろえる" }));
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(2));
+    expect(mockSavePdfWithRotation.mock.calls[1][2].normalizePageSize).toBeUndefined();
+  });
+
+  it("スタンプの指定を1ページ目の見本で確認して保存に渡す", async () => {
+    mockSavePdfWithRotation.mockReset();
+    const pdfDoc = createMockPdfDoc(1);
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({ state: makeState({ status: "ready", pdfDoc, numPages: 1 }) })
+    );
+    render(<App />);
+    const user = userEvent.setup();
+
+    await user.click(screen.getByRole("checkbox", { name: "保存時にスタンプを押す" }));
+    const template = screen.getByRole("textbox", { name: "スタンプ1の文字" });
+    await user.clear(template);
+    await user.type(template, "ABC-{{n}");
+    expect(screen.getByText("1ページ目: ABC-000001")).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "スタンプを追加" }));
+    expect(screen.getByText("1ページ目: ABC-000001 / CONFIDENTIAL")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(1));
+    expect(mockSavePdfWithRotation.mock.calls[0][2].stamp).toMatchObject({
+      stamps: [
+        { template: "ABC-{n}", position: "bottom-right" },
+        { template: "CONFIDENTIAL", position: "top-center" },
+      ],
+      startNumber: 1,
+      digits: 6,
+      fileName: "document",
+    });
+  });
+
+  it("割り付けの指定を保存に渡し、冊子ではページ数の選択を隠す", async () => {
+    mockSavePdfWithRotation.mockReset();
+    const pdfDoc = createMockPdfDoc(1);
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({ state: makeState({ status: "ready", pdfDoc, numPages: 1 }) })
+    );
+    render(<App />);
+    const user = userEvent.setup();
+
+    await user.click(screen.getByRole("checkbox", { name: "割り付けて保存" }));
+    await user.selectOptions(screen.getByLabelText("1面のページ数"), "4");
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(1));
+    expect(mockSavePdfWithRotation.mock.calls[0][2]).toMatchObject({
+      imposition: { layout: "nup", pagesPerSheet: 4, paper: "a4", orientation: "auto" },
+    });
+
+    await user.click(screen.getByRole("radio", { name: "中綴じ冊子" }));
+    expect(screen.queryByLabelText("1面のページ数")).not.toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(2));
+    expect(mockSavePdfWithRotation.mock.calls[1][2].imposition).toMatchObject({ layout: "booklet" });
+  });
+
+  it("開いたPDFの文書情報を表示し、編集した内容または削除の指定を保存に渡す", async () => {
+    mockSavePdfWithRotation.mockReset();
+    const pdfDoc: PdfDocumentProxy = {
+      ...createMockPdfDoc(1),
+      getMetadata: vi.fn(async () => ({ info: { Title: "見積書", Author: "営業部", Producer: "Scanner" } })),
+    };
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({ state: makeState({ status: "ready", pdfDoc, numPages: 1 }) })
+    );
+    render(<App />);
+    const user = userEvent.setup();
+
+    expect(await screen.findByDisplayValue("見積書")).toBeInTheDocument();
+    const title = screen.getByLabelText("タイトル");
+    await user.clear(title);
+    await user.type(title, "請求書");
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(1));
+    expect(mockSavePdfWithRotation.mock.calls[0][2]).toMatchObject({
+      metadata: { title: "請求書", author: "営業部", producer: "Scanner", subject: "" },
+      stripMetadata: false,
+    });
+
+    await user.click(screen.getByRole("checkbox", { name: "保存時にメタデータをすべて削除する" }));
+    expect(screen.getByLabelText("タイトル")).toBeDisabled();
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(2));
+    expect(mockSavePdfWithRotation.mock.calls[1][2]).toMatchObject({ stripMetadata: true });
+  });
+
+  it("回転の保存方法で「ページの内容を回す」を選ぶと、回転を焼き込む指定を保存に渡す", async () => {
+    mockSavePdfWithRotation.mockReset();
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({ state: makeState({ status: "ready", pdfDoc: createMockPdfDoc(1), numPages: 1 }) })
+    );
+    render(<App />);
+    const user = userEvent.setup();
+
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(1));
+    expect(mockSavePdfWithRotation.mock.calls[0][2]).toMatchObject({ bakeRotation: false });
+
+    await user.click(screen.getByRole("radio", { name: "ページの内容を回す" }));
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(2));
+    expect(mockSavePdfWithRotation.mock.calls[1][2]).toMatchObject({ bakeRotation: true });
+  });
+
+  it("読み込んだPDFのスクリプトなどを文書の情報に表示し、取り除く指定を保存に渡して取り除いたものを表示する", async () => {
+    mockSavePdfWithRotation.mockReset();
+    mockSavePdfWithRotation.mockImplementation(async (_buffers, _rotationMap, options) => {
+      options.onSanitize?.([{ kind: "javascript", detail: "init" }]);
+    });
+    mockInspectActiveContent.mockResolvedValue([
+      { kind: "javascript", detail: "init" },
+      { kind: "externalLink", pageNumber: 1, detail: "https://example.com/" },
+    ]);
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({ state: makeState({ status: "ready", pdfDoc: createMockPdfDoc(1), numPages: 1 }) })
+    );
+    render(<App />);
+    const user = userEvent.setup();
+
+    const list = await screen.findByRole("list", { name: "見つかった内容" });
+    expect(within(list).getByText("JavaScript「init」")).toBeInTheDocument();
+    expect(within(list).getByText("外部へのリンク「https://example.com/」（p.1）")).toBeInTheDocument();
+    expect(screen.getByText("要確認 2件")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("checkbox", { name: "保存時にスクリプト・添付ファイル・外部へのリンクを取り除く" }));
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(1));
+    expect(mockSavePdfWithRotation.mock.calls[0][2]).toMatchObject({ sanitize: true });
+    expect(await screen.findByText("取り除いたもの: JavaScript 1件")).toBeInTheDocument();
+  });
+
+  it("分割して保存したときも取り除いたものを表示する", async () => {
+    mockSavePdfSplit.mockReset();
+    mockSavePdfSplit.mockImplementation(async (_buffers, _rotationMap, _parts, options) => {
+      options.onSanitize?.([{ kind: "embeddedFile", detail: "a.txt" }]);
+    });
+    mockInspectActiveContent.mockResolvedValue([{ kind: "embeddedFile", detail: "a.txt" }]);
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({ state: makeState({ status: "ready", pdfDoc: createMockPdfDoc(2), numPages: 2 }) })
+    );
+    render(<App />);
+    const user = userEvent.setup();
+
+    await screen.findByRole("list", { name: "見つかった内容" });
+    await user.click(screen.getByRole("checkbox", { name: "保存時にスクリプト・添付ファイル・外部へのリンクを取り除く" }));
+    await user.click(screen.getByRole("checkbox", { name: "分割モード" }));
+    fireEvent.pointerDown(screen.getByRole("button", { name: "ページ 2" }), { button: 0 });
+    fireEvent.pointerUp(window);
+    await user.click(screen.getByRole("button", { name: "選択ページの前で分割/解除" }));
+    await user.click(screen.getByRole("button", { name: "分割して保存（2ファイル / zip）" }));
+
+    await waitFor(() => expect(mockSavePdfSplit).toHaveBeenCalledTimes(1));
+    expect(mockSavePdfSplit.mock.calls[0][3]).toMatchObject({ sanitize: true });
+    expect(await screen.findByText("取り除いたもの: 添付ファイル 1件")).toBeInTheDocument();
+  });
+
+  it("署名のあるPDFは署名を表示し、回転だけなら追記して保存し、通常の保存では無効になる署名を知らせる", async () => {
+    mockSavePdfWithRotation.mockReset();
+    mockSavePdfIncremental.mockReset();
+    const pdfDoc = createMockPdfDoc(2);
+    const buffer = Uint8Array.from("<< /Type /Sig /ByteRange [0 10 20 5] /Name (Yamada) >>", (char) =>
+      char.charCodeAt(0)
+    ).buffer;
+    const sources = [{ name: "signed.pdf", buffer, password: null, doc: pdfDoc, pageOffset: 0, numPages: 2 }];
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({ status: "ready", pdfDoc, numPages: 2, sources, rotationMap: { 1: 90 } }),
+      })
+    );
+    render(<App />);
+    const user = userEvent.setup();
+
+    expect(screen.getByText("署名 1件")).toBeInTheDocument();
+    expect(within(screen.getByRole("list", { name: "電子署名" })).getByText("署名 1（Yamada）")).toBeInTheDocument();
+    expect(screen.getByRole("radio", { name: "追記して保存（署名を保つ）" })).toBeChecked();
+
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfIncremental).toHaveBeenCalledTimes(1));
+    expect(mockSavePdfIncremental.mock.calls[0][0]).toBe(buffer);
+    expect(mockSavePdfIncremental.mock.calls[0][1]).toEqual({ 1: 90 });
+    expect(mockSavePdfWithRotation).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole("radio", { name: "通常の保存（署名は無効になる）" }));
+    expect(screen.getByText("保存すると次の署名が無効になります: 署名 1（Yamada）")).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(1));
+    expect(mockSavePdfIncremental).toHaveBeenCalledTimes(1);
+  });
+
+  it("署名のあるPDFで追記できない編集があれば、保存せずに無効になる署名を知らせる", async () => {
+    mockSavePdfWithRotation.mockReset();
+    mockSavePdfIncremental.mockReset();
+    const pdfDoc = createMockPdfDoc(2);
+    const buffer = Uint8Array.from("<< /Type /Sig /ByteRange [0 10 20 5] >>", (char) => char.charCodeAt(0)).buffer;
+    const sources = [{ name: "signed.pdf", buffer, password: null, doc: pdfDoc, pageOffset: 0, numPages: 2 }];
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({ status: "ready", pdfDoc, numPages: 2, sources, deletedPages: [2] }),
+      })
+    );
+    render(<App />);
+
+    expect(screen.getByText(/追記して保存できない編集があります: ページの削除/)).toBeInTheDocument();
+    await userEvent.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    const messages = await screen.findAllByText(
+      "追記して保存できない編集があります（ページの削除）。通常の保存に切り替えると 署名 1 が無効になります"
+    );
+    expect(messages.length).toBeGreaterThan(0);
+    expect(mockSavePdfIncremental).not.toHaveBeenCalled();
+    expect(mockSavePdfWithRotation).not.toHaveBeenCalled();
+  });
+
+  it("所有者パスワードだけで暗号化された署名付きPDFは、パスワードを入力していなくても追記保存しない", async () => {
+    mockSavePdfIncremental.mockReset();
+    const pdfDoc = createMockPdfDoc(1);
+    const buffer = Uint8Array.from(
+      "<< /Type /Sig /ByteRange [0 10 20 5] >>\ntrailer\n<< /Root 1 0 R /Encrypt 3 0 R >>",
+      (char) => char.charCodeAt(0)
+    ).buffer;
+    const sources = [{ name: "signed.pdf", buffer, password: null, doc: pdfDoc, pageOffset: 0, numPages: 1 }];
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({ state: makeState({ status: "ready", pdfDoc, numPages: 1, sources }) })
+    );
+    render(<App />);
+
+    expect(screen.getByText(/追記して保存できない編集があります: パスワード付きのPDF/)).toBeInTheDocument();
+    await userEvent.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    expect((await screen.findAllByText(/追記して保存できない編集があります（パスワード付きのPDF）/)).length).toBeGreaterThan(0);
+    expect(mockSavePdfIncremental).not.toHaveBeenCalled();
+  });
+
+  it("画像の圧縮を有効にすると推定サイズを表示し、実際の大きさを確かめてからダウンロードする", async () => {
+    mockSavePdfWithRotation.mockReset();
+    const downloaded: boolean[] = [];
+    mockSavePdfWithRotation.mockImplementation(async (_buffers, _rotationMap, options) => {
+      options.onOutputSize(300 * 1024);
+      downloaded.push(await options.confirmDownload(300 * 1024));
+    });
+    mockInspectPdfImages.mockResolvedValue({
+      totalBytes: 2 * 1024 * 1024,
+      images: [{ bytes: 2 * 1024 * 1024 - 1024, width: 2480, height: 3508, optimizable: true, pageExtent: 842 }],
+    });
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({ state: makeState({ status: "ready", pdfDoc: createMockPdfDoc(1), numPages: 1 }) })
+    );
+    render(<App />);
+    const user = userEvent.setup();
+
+    expect(screen.getByRole("combobox", { name: "画像の解像度" })).toBeDisabled();
+    await user.click(screen.getByRole("checkbox", { name: "保存時に画像を圧縮する" }));
+    expect(await screen.findByText(/推定サイズ: 約 .+ KB（元のファイル 2\.0 MB）/)).toBeInTheDocument();
+    await user.selectOptions(screen.getByRole("combobox", { name: "画像の解像度" }), "100");
+    await user.click(screen.getByRole("checkbox", { name: "グレースケールにする" }));
+
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(1));
+    expect(mockSavePdfWithRotation.mock.calls[0][2]).toMatchObject({
+      optimizeImages: { dpi: 100, quality: 75, grayscale: true },
+    });
+    expect(await screen.findByText(/圧縮後のファイル: 300\.0 KB（推定 約 .+ KB）。ダウンロードしますか？/)).toBeInTheDocument();
+    expect(screen.queryByText("保存したファイル: 300.0 KB")).not.toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "やめる" }));
+    await waitFor(() => expect(downloaded).toEqual([false]));
+    expect(screen.queryByText(/圧縮後のファイル/)).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await user.click(await screen.findByRole("button", { name: "ダウンロード" }));
+    await waitFor(() => expect(downloaded).toEqual([false, true]));
+    expect(await screen.findByText("保存したファイル: 300.0 KB")).toBeInTheDocument();
+    mockSavePdfWithRotation.mockReset();
+  });
+
+  it("分割モードのページ範囲が不正な場合はエラーを表示して保存できない", async () => {
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({ status: "ready", numPages: 3, currentPage: 1, pdfDoc: createMockPdfDoc(3) }),
+      })
+    );
+    render(<App />);
+    const user = userEvent.setup();
+
+    await user.click(screen.getByRole("checkbox", { name: "分割モード" }));
+    await user.click(screen.getByRole("radio", { name: "ページ範囲" }));
+    await user.type(screen.getByPlaceholderText("例: 1-3, 4-7, 8"), "1-5");
+
+    expect(screen.getByText("ページ範囲は1〜3で指定してください: 1-5")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /分割して保存/ })).toBeDisabled();
+  });
+
+  it("サムネイルに元の回転とユーザーの回転を並べて表示する", async () => {
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({
+          status: "ready",
+          numPages: 2,
+          currentPage: 1,
+          pdfDoc: createMockPdfDoc(2),
+          baseRotationMap: { 1: 90 },
+          rotationMap: { 1: 180 },
+        }),
+      })
+    );
+
+    render(<App />);
+
+    const page1 = screen.getByRole("button", { name: "ページ 1" });
+    expect(page1).toHaveTextContent("元 90°");
+    expect(page1).toHaveTextContent("+180°");
+    expect(screen.getByRole("button", { name: "ページ 2" })).not.toHaveTextContent("元");
+  });
+
+  it("傾きを推定し、ページごとに補正を適用できる", async () => {
+    const viewerHook = makeViewerHook({
+      state: makeState({
+        status: "ready",
+        numPages: 3,
+        currentPage: 1,
+        pdfDoc: createMockPdfDoc(3),
+        rotationMap: { 2: 90 },
+        deletedPages: [3],
+        skewMap: { 1: 1.2 },
+      }),
+    });
+    mockUseViewerState.mockReturnValue(viewerHook);
+    mockDetectSkewForPage.mockReset();
+    mockDetectSkewForPage.mockImplementation(async (_doc: unknown, page: number) => ({
+      page,
+      angle: page === 2 ? 2.4 : null,
+      confidence: 0.6,
+      processingMs: 1,
+      success: true,
+    }));
+    render(<App />);
+    const user = userEvent.setup();
+    await waitForAutoOcr(2);
+
+    expect(screen.getByRole("button", { name: "ページ 1" })).toHaveTextContent("傾き +1.2°");
+    await user.click(screen.getByRole("button", { name: "傾きを推定" }));
+
+    const list = await screen.findByRole("list", { name: "傾きの推定結果" });
+    expect(mockDetectSkewForPage).toHaveBeenCalledTimes(2);
+    expect(mockDetectSkewForPage).toHaveBeenCalledWith(expect.anything(), 2, expect.objectContaining({ rotation: 90 }));
+    expect(list).toHaveTextContent("p.1推定できません");
+    expect(list).toHaveTextContent("p.2補正 -2.4°");
+
+    await user.click(screen.getByRole("button", { name: "適用" }));
+    expect(viewerHook.setPageSkew).toHaveBeenCalledWith(2, -2.4);
+    await user.click(screen.getByRole("button", { name: "解除" }));
+    expect(viewerHook.setPageSkew).toHaveBeenCalledWith(1, 0);
+  });
+
+  it("Deleteキーと削除ボタンで選択ページを削除し、削除済みなら取り消す", async () => {
+    const viewerHook = makeViewerHook({
+      state: makeState({
+        status: "ready",
+        numPages: 3,
+        currentPage: 1,
+        pdfDoc: createMockPdfDoc(3),
+        deletedPages: [3],
+      }),
+    });
+    mockUseViewerState.mockReturnValue(viewerHook);
+
+    render(<App />);
+    const user = userEvent.setup();
+
+    expect(screen.getByRole("button", { name: "ページ 3" })).toHaveClass("is-deleted");
+    expect(screen.getByRole("button", { name: "ページ 1" })).not.toHaveClass("is-deleted");
+
+    fireEvent.pointerDown(screen.getByRole("button", { name: "ページ 1" }), { button: 0 });
+    fireEvent.pointerDown(screen.getByRole("button", { name: "ページ 2" }), { button: 0 });
+    await waitFor(() => {
+      expect(screen.getByRole("button", { name: "ページ 2" })).toHaveAttribute("aria-pressed", "true");
+    });
+
+    fireEvent.keyDown(window, { key: "Delete" });
+    expect(viewerHook.deletePages).toHaveBeenCalledWith([1, 2]);
+
+    await user.click(screen.getByRole("button", { name: "選択解除" }));
+    fireEvent.pointerDown(screen.getByRole("button", { name: "ページ 3" }), { button: 0 });
+    await user.click(await screen.findByRole("button", { name: "削除を取り消し (Del)" }));
+    expect(viewerHook.restorePages).toHaveBeenCalledWith([3]);
+  });
+
+  it("選択肢やボタンにフォーカスがあるときは Delete/Backspace でページを削除しない", async () => {
+    const viewerHook = makeViewerHook({
+      state: makeState({ status: "ready", numPages: 2, currentPage: 1, pdfDoc: createMockPdfDoc(2) }),
+    });
+    mockUseViewerState.mockReturnValue(viewerHook);
+    render(<App />);
+
+    const thumb = screen.getByRole("button", { name: "ページ 1" });
+    fireEvent.pointerDown(thumb, { button: 0 });
+    await waitFor(() => expect(thumb).toHaveAttribute("aria-pressed", "true"));
+    fireEvent.keyDown(screen.getByLabelText("解像度"), { key: "Backspace" });
+    fireEvent.keyDown(screen.getByRole("button", { name: "選択解除" }), { key: "Delete" });
+    expect(viewerHook.deletePages).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(thumb, { key: "Delete" });
+    expect(viewerHook.deletePages).toHaveBeenCalledWith([1]);
+  });
+
+  it("削除済みページは向き推定の対象から外す", async () => {
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({
+          status: "ready",
+          numPages: 3,
+          currentPage: 1,
+          pdfDoc: createMockPdfDoc(3),
+          deletedPages: [2],
+        }),
+      })
+    );
+
+    render(<App />);
+
+    await waitFor(() => expect(mockDetectOrientationForPage).toHaveBeenCalledTimes(2));
+    expect(mockDetectOrientationForPage.mock.calls.map((call) => call[1])).toEqual([1, 3]);
+  });
+
+  it("並び順どおりにサムネイルを表示し、向き推定もその順で行う", async () => {
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({
+          status: "ready",
+          numPages: 3,
+          currentPage: 1,
+          pdfDoc: createMockPdfDoc(3),
+          pageOrder: [3, 1, 2],
+        }),
+      })
+    );
+
+    render(<App />);
+
+    const labels = screen.getAllByRole("button", { name: /ページ \d+/ }).map((el) => el.getAttribute("aria-label"));
+    expect(labels).toEqual(["ページ 3", "ページ 1", "ページ 2"]);
+    await waitFor(() => expect(mockDetectOrientationForPage).toHaveBeenCalledTimes(3));
+    expect(mockDetectOrientationForPage.mock.calls.map((call) => call[1])).toEqual([3, 1, 2]);
+  });
+
+  it("ハンドルのドラッグで選択ページを挿入位置へ移動する", async () => {
+    const viewerHook = makeViewerHook({
+      state: makeState({ status: "ready", numPages: 4, currentPage: 1, pdfDoc: createMockPdfDoc(4) }),
+    });
+    mockUseViewerState.mockReturnValue(viewerHook);
+
+    render(<App />);
+
+    const grid = document.querySelector(".viewer__grid") as HTMLDivElement;
+    Object.defineProperty(grid, "clientWidth", { value: 1000, configurable: true });
+    vi.spyOn(grid, "getBoundingClientRect").mockReturnValue({
+      left: 0,
+      top: 0,
+      right: 1000,
+      bottom: 600,
+      width: 1000,
+      height: 600,
+      x: 0,
+      y: 0,
+      toJSON: () => ({}),
+    });
+
+    fireEvent.pointerDown(screen.getByRole("button", { name: "ページ 1" }), { button: 0 });
+    fireEvent.pointerDown(screen.getByRole("button", { name: "ページ 2" }), { button: 0 });
+
+    const handle = screen.getByRole("button", { name: "ページ 1" }).querySelector(".thumb-handle") as HTMLElement;
+    fireEvent.pointerDown(handle, { button: 0, clientX: 10, clientY: 10 });
+    await waitFor(() => expect(screen.getByRole("button", { name: "ページ 1" })).toHaveClass("is-dragging"));
+    // 最終行より右側へドロップ → 末尾へ挿入
+    fireEvent.pointerMove(window, { clientX: 980, clientY: 100 });
+    fireEvent.pointerUp(window);
+
+    expect(viewerHook.movePages).toHaveBeenCalledWith([1, 2], 4);
+    expect(screen.getByRole("button", { name: "ページ 1" })).toHaveAttribute("aria-pressed", "true");
+  });
+
+  it("Alt+左右で選択ページを前後に移動する", async () => {
+    const viewerHook = makeViewerHook({
+      state: makeState({ status: "ready", numPages: 4, currentPage: 1, pdfDoc: createMockPdfDoc(4) }),
+    });
+    mockUseViewerState.mockReturnValue(viewerHook);
+
+    render(<App />);
+
+    fireEvent.pointerDown(screen.getByRole("button", { name: "ページ 2" }), { button: 0 });
+    await waitFor(() => {
+      expect(screen.getByRole("button", { name: "ページ 2" })).toHaveAttribute("aria-pressed", "true");
+    });
+
+    fireEvent.keyDown(window, { key: "ArrowRight", altKey: true });
+    expect(viewerHook.movePages).toHaveBeenCalledWith([2], 3);
+
+    fireEvent.keyDown(window, { key: "ArrowLeft", altKey: true });
+    expect(viewerHook.movePages).toHaveBeenCalledWith([2], 0);
+  });
+
   it("ヘルプモーダルを開閉できる", async () => {
     mockUseViewerState.mockReturnValue(makeViewerHook());
     render(<App />);
@@ -692,6 +1718,260 @@ describe("App", () => {
     expect(pageButton).toHaveAttribute("aria-pressed", "true");
   });
 
+  it("プレビューでドラッグした範囲を回転前の座標に直して選択ページにトリミングを適用する", async () => {
+    const viewerHook = makeViewerHook({
+      state: makeState({
+        status: "ready",
+        numPages: 2,
+        currentPage: 1,
+        pdfDoc: createMockPdfDoc(2),
+        rotationMap: { 1: 90 },
+      }),
+    });
+    mockUseViewerState.mockReturnValue(viewerHook);
+    render(<App />);
+    const user = userEvent.setup();
+    await waitForAutoOcr(2);
+    const page1 = screen.getByRole("button", { name: "ページ 1" });
+    fireEvent.pointerDown(page1, { button: 0 });
+    fireEvent.pointerEnter(screen.getByRole("button", { name: "ページ 2" }), { buttons: 1 });
+    fireEvent.pointerUp(window);
+
+    fireEvent.doubleClick(page1);
+    const dialog = await screen.findByRole("dialog", { name: "プレビュー" });
+    await user.click(within(dialog).getByRole("button", { name: "トリミング" }));
+    const overlay = within(dialog).getByLabelText("トリミング範囲");
+    overlay.getBoundingClientRect = () =>
+      ({ left: 0, top: 0, width: 100, height: 200, right: 100, bottom: 200, x: 0, y: 0 }) as DOMRect;
+    fireEvent.pointerDown(overlay, { button: 0, clientX: 10, clientY: 20, pointerId: 1 });
+    fireEvent.pointerMove(overlay, { clientX: 60, clientY: 120, pointerId: 1 });
+    fireEvent.pointerUp(overlay, { pointerId: 1 });
+
+    await user.click(within(dialog).getByRole("button", { name: "選択ページに適用（2ページ）" }));
+
+    expect(viewerHook.setPageCrops).toHaveBeenCalledTimes(1);
+    const crops = viewerHook.setPageCrops.mock.calls[0][0] as Record<number, Record<string, number>>;
+    expect(crops[1].x).toBeCloseTo(0.1);
+    expect(crops[1].y).toBeCloseTo(0.4);
+    expect(crops[2].x).toBeCloseTo(0.1);
+    expect(crops[2].y).toBeCloseTo(0.1);
+    expect(crops[2].width).toBeCloseTo(0.5);
+    expect(within(dialog).queryByLabelText("トリミング範囲")).not.toBeInTheDocument();
+  });
+
+  it("プレビューでドラッグした墨消し範囲の文字を警告し、回転前の座標に直して適用する", async () => {
+    const page: PdfPageProxy = {
+      ...createMockPage(),
+      view: [0, 0, 100, 100],
+      getTextContent: async () => ({
+        items: [{ str: "口座番号", transform: [10, 0, 0, 10, 20, 40], width: 20, height: 10 }],
+      }),
+    };
+    const viewerHook = makeViewerHook({
+      state: makeState({
+        status: "ready",
+        numPages: 1,
+        currentPage: 1,
+        pdfDoc: { numPages: 1, getPage: vi.fn(async () => page) },
+        rotationMap: { 1: 90 },
+      }),
+    });
+    mockUseViewerState.mockReturnValue(viewerHook);
+    render(<App />);
+    const user = userEvent.setup();
+    await waitForAutoOcr(1);
+
+    fireEvent.doubleClick(screen.getByRole("button", { name: "ページ 1" }));
+    const dialog = await screen.findByRole("dialog", { name: "プレビュー" });
+    await user.click(within(dialog).getByRole("button", { name: "墨消し" }));
+    const overlay = within(dialog).getByLabelText("墨消し範囲");
+    overlay.getBoundingClientRect = () =>
+      ({ left: 0, top: 0, width: 100, height: 200, right: 100, bottom: 200, x: 0, y: 0 }) as DOMRect;
+    fireEvent.pointerDown(overlay, { button: 0, clientX: 10, clientY: 20, pointerId: 1 });
+    fireEvent.pointerMove(overlay, { clientX: 60, clientY: 120, pointerId: 1 });
+    fireEvent.pointerUp(overlay, { clientX: 60, clientY: 120, pointerId: 1 });
+
+    expect(await within(dialog).findByRole("alert")).toHaveTextContent(
+      "墨消しする範囲に抽出できる文字があります（1か所: 「口座番号」）"
+    );
+    await user.click(within(dialog).getByRole("button", { name: "このページに適用（1か所）" }));
+
+    expect(viewerHook.setPageRedactions).toHaveBeenCalledTimes(1);
+    const [rect] = (viewerHook.setPageRedactions.mock.calls[0][0] as Record<number, Record<string, number>[]>)[1];
+    // 90度回転して表示しているので、回転前の座標では上下が入れ替わる
+    expect(rect.x).toBeCloseTo(0.1);
+    expect(rect.y).toBeCloseTo(0.4);
+    expect(rect.width).toBeCloseTo(0.5);
+    expect(rect.height).toBeCloseTo(0.5);
+    expect(within(dialog).queryByLabelText("墨消し範囲")).not.toBeInTheDocument();
+  });
+
+  it("プレビューでクリックした位置にメモを追加し、回転前の座標に直して保存対象にする", async () => {
+    const page: PdfPageProxy = {
+      ...createMockPage(),
+      view: [0, 0, 100, 100],
+      getAnnotations: async () => [{ subtype: "Text", rect: [10, 80, 20, 90], contents: "元のメモ" }],
+    };
+    const viewerHook = makeViewerHook({
+      state: makeState({
+        status: "ready",
+        numPages: 1,
+        currentPage: 1,
+        pdfDoc: { numPages: 1, getPage: vi.fn(async () => page) },
+        rotationMap: { 1: 90 },
+      }),
+    });
+    mockUseViewerState.mockReturnValue(viewerHook);
+    render(<App />);
+    const user = userEvent.setup();
+    await waitForAutoOcr(1);
+
+    fireEvent.doubleClick(screen.getByRole("button", { name: "ページ 1" }));
+    const dialog = await screen.findByRole("dialog", { name: "プレビュー" });
+    expect(await within(dialog).findByText("元のPDFの注釈（1件）")).toBeInTheDocument();
+    await user.click(within(dialog).getByRole("button", { name: "メモ" }));
+    expect(within(dialog).getByRole("button", { name: "メモ" })).toHaveAttribute("aria-pressed", "true");
+    await user.type(within(dialog).getByLabelText("メモの内容"), "要確認");
+    const overlay = within(dialog).getByLabelText("注釈");
+    overlay.getBoundingClientRect = () =>
+      ({ left: 0, top: 0, width: 100, height: 200, right: 100, bottom: 200, x: 0, y: 0 }) as DOMRect;
+    fireEvent.pointerDown(overlay, { button: 0, clientX: 20, clientY: 20, pointerId: 1 });
+    fireEvent.pointerUp(overlay, { clientX: 20, clientY: 20, pointerId: 1 });
+
+    expect(viewerHook.setPageAnnotations).toHaveBeenCalledTimes(1);
+    const [note] = (viewerHook.setPageAnnotations.mock.calls[0][0] as Record<number, Record<string, unknown>[]>)[1];
+    expect(note).toMatchObject({ kind: "note", text: "要確認" });
+    // 90度回転して表示しているので、回転前の座標では左上が左下になる
+    const point = note.point as { x: number; y: number };
+    expect(point.x).toBeCloseTo(0.1);
+    expect(point.y).toBeCloseTo(0.8);
+    expect(within(dialog).getByLabelText("メモの内容")).toHaveValue("");
+  });
+
+  it("プレビューの入力欄に回転後の位置で値を入力し、平坦化の指定と一緒に保存する", async () => {
+    mockSavePdfWithRotation.mockReset();
+    const page: PdfPageProxy = {
+      ...createMockPage(),
+      view: [0, 0, 100, 100],
+      getAnnotations: async () => [
+        { subtype: "Widget", fieldType: "Tx", fieldName: "name", fieldValue: "", rect: [10, 80, 50, 90] },
+      ],
+    };
+    mockUseViewerState.mockReturnValue(
+      makeViewerHook({
+        state: makeState({
+          status: "ready",
+          numPages: 1,
+          currentPage: 1,
+          pdfDoc: { numPages: 1, getPage: vi.fn(async () => page) },
+          rotationMap: { 1: 90 },
+        }),
+      })
+    );
+    render(<App />);
+    const user = userEvent.setup();
+    await waitForAutoOcr(1);
+
+    fireEvent.doubleClick(screen.getByRole("button", { name: "ページ 1" }));
+    const dialog = await screen.findByRole("dialog", { name: "プレビュー" });
+    const input = await within(dialog).findByRole("textbox", { name: "name" });
+    // 回転前の左上（x 10%, y 10%, 幅 40%, 高さ 10%）は、90度回転すると右上の縦長の位置になる
+    expect(input.style.left).toBe("80%");
+    expect(input.style.top).toBe("10%");
+    expect(input.style.width).toBe("10%");
+    expect(input.style.height).toBe("40%");
+    await user.type(input, "Taro");
+    await user.click(within(dialog).getByRole("button", { name: "閉じる" }));
+
+    expect(screen.getByText("入力した欄: 1")).toBeInTheDocument();
+    await user.click(screen.getByRole("checkbox", { name: "保存時にフォームを平坦化する" }));
+    await user.click(screen.getByRole("button", { name: "適用して保存 (Ctrl+S)" }));
+    await waitFor(() => expect(mockSavePdfWithRotation).toHaveBeenCalledTimes(1));
+    expect(mockSavePdfWithRotation.mock.calls[0][2]).toMatchObject({
+      formValues: { name: "Taro" },
+      flattenForms: true,
+    });
+  });
+
+  it("選択ページの前後に隣のページと同じ大きさの白紙を挿入し、選択を複製する", async () => {
+    const pdfDoc: PdfDocumentProxy = {
+      numPages: 3,
+      getPage: vi.fn(async () => ({
+        getViewport: vi.fn(({ scale, rotation }: { scale: number; rotation?: number }) =>
+          rotation === 90 ? { width: 300 * scale, height: 200 * scale } : { width: 200 * scale, height: 300 * scale }
+        ),
+        render: vi.fn(() => ({ promise: Promise.resolve() })),
+      })),
+    };
+    const viewerHook = makeViewerHook({
+      state: makeState({
+        status: "ready",
+        numPages: 3,
+        currentPage: 1,
+        pdfDoc,
+        pageOrder: [3, 1, 2],
+        rotationMap: { 2: 90 },
+        cropMap: { 2: { x: 0, y: 0, width: 0.5, height: 1 } },
+        virtualPages: { 3: { kind: "blank", width: 200, height: 300 } },
+      }),
+    });
+    mockUseViewerState.mockReturnValue(viewerHook);
+    render(<App />);
+    const user = userEvent.setup();
+    await waitForAutoOcr(3);
+    expect(within(screen.getByRole("button", { name: "ページ 3" })).getByText("白紙")).toBeInTheDocument();
+
+    fireEvent.pointerDown(screen.getByRole("button", { name: "ページ 1" }), { button: 0 });
+    fireEvent.pointerEnter(screen.getByRole("button", { name: "ページ 2" }), { buttons: 1 });
+    fireEvent.pointerUp(window);
+
+    await user.click(screen.getByRole("button", { name: "前に白紙を挿入" }));
+    await waitFor(() => expect(viewerHook.insertBlankPages).toHaveBeenCalledWith(1, { width: 200, height: 300 }));
+
+    // 末尾のページは90度回転・左半分をトリミングしているので、見た目の大きさは 300x100
+    await user.click(screen.getByRole("button", { name: "後に白紙を挿入" }));
+    await waitFor(() => expect(viewerHook.insertBlankPages).toHaveBeenLastCalledWith(3, { width: 300, height: 100 }));
+
+    await user.click(screen.getByRole("button", { name: "選択を複製" }));
+    expect(viewerHook.duplicatePages).toHaveBeenCalledWith([1, 2]);
+  });
+
+  it("しおりをクリックするとそのページを選択し、現在のページにしおりを追加・削除できる", async () => {
+    const setPage = vi.fn();
+    const viewerHook = makeViewerHook({
+      setPage,
+      state: makeState({
+        status: "ready",
+        numPages: 3,
+        currentPage: 2,
+        pdfDoc: createMockPdfDoc(3),
+        pageOrder: [3, 1, 2],
+        deletedPages: [1],
+        outline: [
+          { id: "o1", title: "第1章", pageNumber: 1, children: [] },
+          { id: "o2", title: "第2章", pageNumber: 3, children: [] },
+        ],
+      }),
+    });
+    mockUseViewerState.mockReturnValue(viewerHook);
+    render(<App />);
+    const user = userEvent.setup();
+    await waitForAutoOcr(2);
+
+    expect(screen.getByText("p.2（削除）")).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "第2章" }));
+    expect(setPage).toHaveBeenLastCalledWith(3);
+    expect(screen.getByRole("button", { name: "ページ 3" })).toHaveAttribute("aria-pressed", "true");
+    expect(screen.getByRole("button", { name: "ページ 2" })).toHaveAttribute("aria-pressed", "false");
+
+    await user.type(screen.getByRole("textbox", { name: "追加するしおりの名前" }), "付録");
+    await user.click(screen.getByRole("button", { name: "しおりを追加" }));
+    expect(viewerHook.addOutlineItem).toHaveBeenCalledWith("付録", 2);
+
+    await user.click(screen.getByRole("button", { name: "しおり「第1章」を削除" }));
+    expect(viewerHook.removeOutlineItem).toHaveBeenCalledWith("o1");
+  });
+
   it("プレビューの閉じるボタンでモーダルを閉じられる", async () => {
     mockUseViewerState.mockReturnValue(
       makeViewerHook({
@@ -763,12 +2043,14 @@ describe("App", () => {
 
     await user.dblClick(pageButton);
     const closeButton = await screen.findByRole("button", { name: "閉じる" });
-    expect(document.activeElement).toBe(closeButton);
-
-    fireEvent.keyDown(document, { key: "Tab" });
+    // 末尾のフォーカスできるボタンは注釈の手書き
+    const inkButton = screen.getByRole("button", { name: "手書き" });
     expect(document.activeElement).toBe(closeButton);
 
     fireEvent.keyDown(document, { key: "Tab", shiftKey: true });
+    expect(document.activeElement).toBe(inkButton);
+
+    fireEvent.keyDown(document, { key: "Tab" });
     expect(document.activeElement).toBe(closeButton);
   });
 
@@ -1,32 +1,133 @@
 import { useCallback, useEffect, useMemo, useRef, useState, type ChangeEvent, type DragEvent, type PointerEvent } from "react";
 import { createPdfJsDistLoader } from "./lib/pdfjs";
 import { useViewerState } from "./hooks/useViewerState";
-import { renderPageToCanvas } from "./lib/pdf";
+import { renderPageToCanvas, type PasswordReason } from "./lib/pdf";
 import { normalizeSelectedPages } from "./lib/selection";
-import { calculateThumbGridWindow } from "./lib/thumb-grid";
-import { savePdfWithRotation } from "./lib/pdf-save";
-import { detectOrientationForPage, type OrientationSuggestion } from "./lib/ocr";
-import { applyRotationChange } from "./lib/rotation";
+import {
+  calculateAutoScrollDelta,
+  calculateThumbGridWindow,
+  resolveThumbGridInsertIndex,
+  resolveThumbGridRowTop,
+} from "./lib/thumb-grid";
+import { createPageOrder, sortPagesByOrder } from "./lib/page-order";
+import { findSourceIndex } from "./lib/sources";
+import {
+  downloadBlob,
+  inspectActiveContent,
+  inspectPdfImages,
+  savePdfExtract,
+  savePdfIncremental,
+  savePdfSplit,
+  savePdfWithRotation,
+} from "./lib/pdf-save";
+import {
+  buildPdfFromImages,
+  compareFileNames,
+  formatImagePdfName,
+  isImageFile,
+  type ImagePageSize,
+} from "./lib/image-to-pdf";
+import {
+  DEFAULT_IMAGE_EXPORT_DPI,
+  exportPagesAsImages,
+  formatImageZipFileName,
+  type ImageFormat,
+} from "./lib/image-export";
+import {
+  DEFAULT_SPLIT_NAME_TEMPLATE,
+  buildSplitParts,
+  formatExtractFileName,
+  parsePageRanges,
+  resolveRangeParts,
+  splitPageOrder,
+  stripPdfExtension,
+} from "./lib/split";
+import {
+  detectOrientationForPage,
+  detectSkewForPage,
+  type OrientationSuggestion,
+  type SkewSuggestion,
+} from "./lib/ocr";
+import { applyRotationChange, composeRotation } from "./lib/rotation";
+import { findContentBounds, fromDisplayCropRect, toDisplayCropRect, type CropRect } from "./lib/crop";
+import { formatSkewAngle, toSkewCorrection } from "./lib/skew";
+import {
+  DEFAULT_PAGE_SIZE_NORMALIZATION,
+  drawNormalizedPreview,
+  type PageSizeNormalization,
+} from "./lib/page-size";
+import { DEFAULT_IMPOSITION, type ImpositionOptions } from "./lib/imposition";
+import { DEFAULT_STAMP_SETTINGS, type StampSettings } from "./lib/stamp";
+import { findRedactedText, rasterizeRedactedPages } from "./lib/redaction";
+import {
+  createAnnotationId,
+  fromDisplayAnnotation,
+  readPageAnnotations,
+  toDisplayAnnotation,
+  type AnnotationKind,
+  type ExistingAnnotation,
+} from "./lib/annotation";
+import { readPageFormFields, type FormValues, type PageFormField } from "./lib/form";
+import {
+  DEFAULT_IMAGE_OPTIMIZATION,
+  estimateOptimizedSize,
+  type ImageOptimizationOptions,
+  type PdfImageInfo,
+} from "./lib/optimize";
+import { EMPTY_METADATA, METADATA_FIELDS, readDocumentMetadata, type DocumentMetadata } from "./lib/metadata";
+import { isSameOutline, readOutline, type OutlineItem } from "./lib/outline";
+import { describeSignature, findIncrementalBlockers, findSignatures } from "./lib/signature";
+import { isEncryptedPdf } from "./lib/pdf-crypto";
+import { summarizeFindings, type ActiveContentFinding } from "./lib/sanitize";
 import { fetchHealth, type HealthInfo } from "./lib/health";
 import { logClient } from "./lib/logger";
 import { Header } from "./components/Header";
 import { Footer } from "./components/Footer";
 import { ShortcutsPanel } from "./components/ShortcutsPanel";
 import { UploadPanel } from "./components/UploadPanel";
+import { SplitPanel, type SplitMethod } from "./components/SplitPanel";
+import { DeskewPanel } from "./components/DeskewPanel";
+import { CropOverlay } from "./components/CropOverlay";
+import { CropToolbar } from "./components/CropToolbar";
+import { RedactionOverlay } from "./components/RedactionOverlay";
+import { RedactionToolbar } from "./components/RedactionToolbar";
+import { AnnotationOverlay, type AnnotationShape } from "./components/AnnotationOverlay";
+import { AnnotationToolbar } from "./components/AnnotationToolbar";
+import { FormFieldOverlay } from "./components/FormFieldOverlay";
+import { FormPanel } from "./components/FormPanel";
+import { OptimizePanel } from "./components/OptimizePanel";
+import { RotationOutputPanel } from "./components/RotationOutputPanel";
+import { SignaturePanel } from "./components/SignaturePanel";
+import { DocumentInfoPanel } from "./components/DocumentInfoPanel";
+import { PasswordDialog } from "./components/PasswordDialog";
+import { ImageExportPanel } from "./components/ImageExportPanel";
+import { OutputSecurityPanel, type OutputEncryption } from "./components/OutputSecurityPanel";
+import { PageSizePanel } from "./components/PageSizePanel";
+import { ImpositionPanel } from "./components/ImpositionPanel";
+import { MetadataPanel } from "./components/MetadataPanel";
+import { OutlinePanel } from "./components/OutlinePanel";
+import { StampPanel } from "./components/StampPanel";
 import "./App.css";
 
 const MAX_FILE_SIZE = 300 * 1024 * 1024; // 300MB
 const OCR_AUTO_SCALE = 0.6;
 const OCR_RETRY_SCALE = 0.45;
+const SKEW_SCALE = 1.5;
 const CONTINUOUS_ROTATION_DEFAULT = 0.6;
 
 type RenderState = "idle" | "rendering" | "error";
 type SelectionMode = "add" | "remove";
+type ReorderDrag = { pages: number[]; insertIndex: number | null };
+type PasswordPrompt = { fileName: string; reason: PasswordReason; resolve: (password: string | null) => void };
+type DownloadConfirmation = { bytes: number; resolve: (confirmed: boolean) => void };
 
 const THUMB_MIN_WIDTH = 140;
 const THUMB_GRID_GAP = 12;
 const THUMB_GRID_PADDING = 14;
 const THUMB_ROW_BUFFER = 2;
+const REORDER_SCROLL_EDGE = 48;
+const REORDER_SCROLL_SPEED = 18;
+const SOURCE_TAG_COLORS = 6;
 
 const isPdfFile = (file: File): boolean => {
   if (file.type === "application/pdf") {
@@ -56,18 +157,48 @@ const readFileAsArrayBuffer = async (file: Blob): Promise<ArrayBuffer> => {
   });
 };
 
+/**
+ * キー操作をその要素に任せるか。入力欄・選択肢・ページのサムネイル以外のボタンにフォーカスがあるときは、
+ * ショートカットでページを回したり削除したりしない。
+ */
+const isFormControlTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.closest("input, textarea, select, button:not(.thumb-card)") !== null);
+
 function App() {
   const pdfLoader = useMemo(() => createPdfJsDistLoader(), []);
   const {
     state,
     loadFromArrayBuffer,
+    appendFromArrayBuffer,
     setPage,
     rotatePage,
+    deletePages,
+    restorePages,
+    movePages,
+    setPageSkew,
+    setPageCrops,
+    setPageRedactions,
+    setPageAnnotations,
+    insertBlankPages,
+    duplicatePages,
+    addOutlineItem,
+    renameOutlineItem,
+    removeOutlineItem,
+    undo,
+    redo,
+    beginHistoryGroup,
+    endHistoryGroup,
     reset,
   } = useViewerState({ loader: pdfLoader });
 
   const thumbCanvasRef = useRef(new Map<number, HTMLCanvasElement | null>());
-  const thumbMetaRef = useRef(new Map<number, { rotation: number }>());
+  const thumbMetaRef = useRef(
+    new Map<
+      number,
+      { rotation: number; crop?: CropRect; redactions?: CropRect[]; layout: PageSizeNormalization | null }
+    >()
+  );
   const thumbRenderQueueRef = useRef(new Map<number, Promise<void>>());
   const rowHeightRef = useRef(260);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
@@ -75,7 +206,7 @@ function App() {
   const selectingRef = useRef(false);
   const selectionModeRef = useRef<SelectionMode>("add");
   const [fileName, setFileName] = useState<string>("");
-  const [originalBuffer, setOriginalBuffer] = useState<ArrayBuffer | null>(null);
+  const [importing, setImporting] = useState(false);
   const [renderState, setRenderState] = useState<RenderState>("idle");
   const [message, setMessage] = useState<string | null>(null);
   const [ocrSuggestion, setOcrSuggestion] = useState<(OrientationSuggestion & { page: number }) | null>(
@@ -101,6 +232,70 @@ function App() {
   const [health, setHealth] = useState<HealthInfo | null>(null);
   const [selectedPages, setSelectedPages] = useState<number[]>([]);
   const [previewPage, setPreviewPage] = useState<number | null>(null);
+  const [cropEditing, setCropEditing] = useState(false);
+  const [cropDraft, setCropDraft] = useState<CropRect | null>(null);
+  const [cropError, setCropError] = useState<string | null>(null);
+  const [redactionEditing, setRedactionEditing] = useState(false);
+  const [redactionDraft, setRedactionDraft] = useState<CropRect[]>([]);
+  const [redactionError, setRedactionError] = useState<string | null>(null);
+  const [redactedText, setRedactedText] = useState<string[]>([]);
+  const [annotationTool, setAnnotationTool] = useState<AnnotationKind | null>(null);
+  const [noteText, setNoteText] = useState("");
+  const [annotationError, setAnnotationError] = useState<string | null>(null);
+  const [existingAnnotations, setExistingAnnotations] = useState<ExistingAnnotation[]>([]);
+  const [formFields, setFormFields] = useState<PageFormField[]>([]);
+  const [splitMode, setSplitMode] = useState(false);
+  const [splitMethod, setSplitMethod] = useState<SplitMethod>("points");
+  const [splitPoints, setSplitPoints] = useState<number[]>([]);
+  const [splitRangeText, setSplitRangeText] = useState("");
+  const [splitNameTemplate, setSplitNameTemplate] = useState(DEFAULT_SPLIT_NAME_TEMPLATE);
+  const [splitSaving, setSplitSaving] = useState(false);
+  const [skewSuggestions, setSkewSuggestions] = useState<SkewSuggestion[]>([]);
+  const [skewLoading, setSkewLoading] = useState(false);
+  const [skewProgress, setSkewProgress] = useState<{ current: number; total: number } | null>(null);
+  const [imagePageSize, setImagePageSize] = useState<ImagePageSize>("image");
+  const [imageFormat, setImageFormat] = useState<ImageFormat>("png");
+  const [imageDpi, setImageDpi] = useState(DEFAULT_IMAGE_EXPORT_DPI);
+  const [imageExporting, setImageExporting] = useState(false);
+  const [imageExportProgress, setImageExportProgress] = useState<{ current: number; total: number } | null>(null);
+  const [imageExportError, setImageExportError] = useState<string | null>(null);
+  const [pageSizeEnabled, setPageSizeEnabled] = useState(false);
+  const [pageSizeNormalization, setPageSizeNormalization] = useState<PageSizeNormalization>(
+    DEFAULT_PAGE_SIZE_NORMALIZATION
+  );
+  const [pageSizePreview, setPageSizePreview] = useState(false);
+  const [bakeRotation, setBakeRotation] = useState(false);
+  const [stampEnabled, setStampEnabled] = useState(false);
+  const [stampSettings, setStampSettings] = useState<StampSettings>(DEFAULT_STAMP_SETTINGS);
+  const [impositionEnabled, setImpositionEnabled] = useState(false);
+  const [impositionOptions, setImpositionOptions] = useState<ImpositionOptions>(DEFAULT_IMPOSITION);
+  const [documentMetadata, setDocumentMetadata] = useState<DocumentMetadata>(EMPTY_METADATA);
+  /** 元PDFに設定されていたプロパティ。変更したかどうか（追記保存できるか）の判定に使う */
+  const [loadedMetadata, setLoadedMetadata] = useState<DocumentMetadata>(EMPTY_METADATA);
+  const [loadedOutline, setLoadedOutline] = useState<OutlineItem[]>([]);
+  const [incrementalSave, setIncrementalSave] = useState(true);
+  const [stripMetadata, setStripMetadata] = useState(false);
+  const [formValues, setFormValues] = useState<FormValues>({});
+  const [flattenForms, setFlattenForms] = useState(false);
+  const [optimizeEnabled, setOptimizeEnabled] = useState(false);
+  const [optimizeOptions, setOptimizeOptions] = useState<ImageOptimizationOptions>(DEFAULT_IMAGE_OPTIMIZATION);
+  const [imageInspection, setImageInspection] = useState<{ totalBytes: number; images: PdfImageInfo[] } | null>(
+    null
+  );
+  /** 直前に保存したファイルの大きさ。推定サイズと見比べるために表示する */
+  const [outputSize, setOutputSize] = useState<number | null>(null);
+  const [sanitize, setSanitize] = useState(false);
+  const [activeContent, setActiveContent] = useState<ActiveContentFinding[] | null>(null);
+  const [sanitizedContent, setSanitizedContent] = useState<ActiveContentFinding[] | null>(null);
+  const [skewError, setSkewError] = useState<string | null>(null);
+  const [reorderDrag, setReorderDrag] = useState<ReorderDrag | null>(null);
+  const [passwordPrompt, setPasswordPrompt] = useState<PasswordPrompt | null>(null);
+  const [downloadConfirmation, setDownloadConfirmation] = useState<DownloadConfirmation | null>(null);
+  /** null の間は元PDFにパスワードがあれば「元のパスワード」、無ければ「設定しない」 */
+  const [outputEncryptionChoice, setOutputEncryptionChoice] = useState<OutputEncryption | null>(null);
+  const [newOutputPassword, setNewOutputPassword] = useState("");
+  const reorderDragRef = useRef<ReorderDrag | null>(null);
+  const reorderPointerRef = useRef<{ clientX: number; clientY: number } | null>(null);
   const [rowHeight, setRowHeight] = useState(rowHeightRef.current);
   const [gridMetrics, setGridMetrics] = useState({
     scrollTop: 0,
@@ -108,6 +303,8 @@ function App() {
     containerWidth: 0,
   });
   const ocrAbortRef = useRef<AbortController | null>(null);
+  const skewAbortRef = useRef<AbortController | null>(null);
+  const imageExportAbortRef = useRef<AbortController | null>(null);
   const ocrRunRef = useRef<{
     targetPages: number[];
     options: { forceAll?: boolean };
@@ -117,19 +314,31 @@ function App() {
     threshold: number;
     highConfidenceRotations: Record<number, number>;
   } | null>(null);
-  const autoOcrDocRef = useRef<unknown>(null);
+  const autoOcrSourcesRef = useRef(new Set<unknown>());
   const previewCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const previewRenderQueueRef = useRef<Promise<void>>(Promise.resolve());
   const viewerGridRef = useRef<HTMLDivElement | null>(null);
   const helpModalRef = useRef<HTMLDivElement | null>(null);
   const previewModalRef = useRef<HTMLDivElement | null>(null);
 
+  /** サムネイルで仕上がりを表示する間だけ、用紙をそろえた見た目で描く */
+  const thumbLayout = pageSizeEnabled && pageSizePreview ? pageSizeNormalization : null;
+
   const renderThumbnail = useCallback(
     async (pageNumber: number, canvas: HTMLCanvasElement) => {
       if (!state.pdfDoc || state.status !== "ready") return;
       const rotation = state.rotationMap[pageNumber] ?? 0;
+      const crop = state.cropMap[pageNumber];
+      const redactions = state.redactionMap[pageNumber];
+      const layout = thumbLayout;
       const meta = thumbMetaRef.current.get(pageNumber);
-      if (meta?.rotation === rotation && canvas.width > 0) {
+      if (
+        meta?.rotation === rotation &&
+        meta.crop === crop &&
+        meta.redactions === redactions &&
+        meta.layout === layout &&
+        canvas.width > 0
+      ) {
         return;
       }
       const queue = thumbRenderQueueRef.current;
@@ -138,13 +347,42 @@ function App() {
         .catch(() => {})
         .then(async () => {
           const page = await state.pdfDoc!.getPage(pageNumber);
-          await renderPageToCanvas(page, canvas, {
-            scale: 1,
-            rotation,
-            maxWidth: 180,
-            maxHeight: 240,
-          });
-          thumbMetaRef.current.set(pageNumber, { rotation });
+          const displayRotation = composeRotation(page.rotate, rotation);
+          const displayCrop = crop ? toDisplayCropRect(crop, displayRotation) : undefined;
+          const displayRedactions = redactions?.map((rect) => toDisplayCropRect(rect, displayRotation));
+          if (!layout) {
+            await renderPageToCanvas(page, canvas, {
+              scale: 1,
+              rotation,
+              crop: displayCrop,
+              redactions: displayRedactions,
+              maxWidth: 180,
+              maxHeight: 240,
+            });
+          } else {
+            // そろえた後の用紙に置いた見た目を確認できるよう、描画したページを用紙の上に縮小して重ねる
+            const rendered = document.createElement("canvas");
+            try {
+              await renderPageToCanvas(page, rendered, {
+                scale: 1,
+                rotation,
+                crop: displayCrop,
+                redactions: displayRedactions,
+                maxWidth: 360,
+                maxHeight: 480,
+              });
+              const viewport = page.getViewport({ scale: 1, rotation: displayRotation });
+              const pageSize = {
+                width: viewport.width * (displayCrop?.width ?? 1),
+                height: viewport.height * (displayCrop?.height ?? 1),
+              };
+              drawNormalizedPreview(rendered, canvas, pageSize, layout, { maxWidth: 180, maxHeight: 240 });
+            } finally {
+              rendered.width = 0;
+              rendered.height = 0;
+            }
+          }
+          thumbMetaRef.current.set(pageNumber, { rotation, crop, redactions, layout });
         });
       queue.set(pageNumber, next);
       try {
@@ -155,7 +393,7 @@ function App() {
         }
       }
     },
-    [state.pdfDoc, state.rotationMap, state.status]
+    [state.pdfDoc, state.rotationMap, state.cropMap, state.redactionMap, state.status, thumbLayout]
   );
 
   const setThumbCanvas = useCallback(
@@ -185,38 +423,121 @@ function App() {
     setRowHeight(nextHeight);
   }, []);
 
-  const handleFile = async (file: File) => {
-    if (!isPdfFile(file)) {
-      setMessage("PDFファイルを選択してください");
+  /** パスワードダイアログを出し、入力されたパスワード（取り消したら null）で解決する */
+  const requestPassword = useCallback(
+    (name: string) => (reason: PasswordReason) =>
+      new Promise<string | null>((resolve) => {
+        setPasswordPrompt({ fileName: name, reason, resolve });
+      }),
+    []
+  );
+
+  const closePasswordPrompt = (password: string | null) => {
+    passwordPrompt?.resolve(password);
+    setPasswordPrompt(null);
+  };
+
+  /** 画像を圧縮して保存するときは、推定と実際の大きさを見比べてからダウンロードする */
+  const confirmDownload = useCallback(
+    (bytes: number) =>
+      new Promise<boolean>((resolve) => {
+        setDownloadConfirmation({ bytes, resolve });
+      }),
+    []
+  );
+
+  const closeDownloadConfirmation = (confirmed: boolean) => {
+    downloadConfirmation?.resolve(confirmed);
+    setDownloadConfirmation(null);
+    if (!confirmed) setOutputSize(null);
+  };
+
+  /**
+   * PDFを読み込む。replace は現在のワークスペースを置き換え、append は末尾に結合する。
+   * 複数ファイルは選択順に結合する。
+   */
+  const handleFiles = async (files: File[], mode: "replace" | "append" = "replace") => {
+    if (files.length === 0) return;
+    const invalid = files.find((file) => !isPdfFile(file) && !isImageFile(file));
+    if (invalid) {
+      setMessage("PDFまたは画像（JPEG/PNG）ファイルを選択してください");
       return;
     }
-    if (file.size > MAX_FILE_SIZE) {
+    if (files.some((file) => file.size > MAX_FILE_SIZE)) {
       setMessage("ファイルサイズは300MB以内にしてください");
       return;
     }
+    // 画像はファイル名順にまとめて1つのPDFにし、最初の画像の位置で読み込む
+    const images = files.filter((file) => !isPdfFile(file)).sort((a, b) => compareFileNames(a.name, b.name));
+    const inputs: Array<{ name: string; read: () => Promise<ArrayBuffer> }> = [];
+    let imagesQueued = false;
+    for (const file of files) {
+      if (isPdfFile(file)) {
+        inputs.push({ name: file.name, read: () => readFileAsArrayBuffer(file) });
+        continue;
+      }
+      if (imagesQueued) continue;
+      imagesQueued = true;
+      inputs.push({
+        name: formatImagePdfName(images.map((image) => image.name)),
+        read: async () =>
+          buildPdfFromImages(
+            await Promise.all(images.map(async (image) => ({ name: image.name, data: await readFileAsArrayBuffer(image) }))),
+            { pageSize: imagePageSize }
+          ),
+      });
+    }
+    const appending = mode === "append" && state.status === "ready";
     setMessage(null);
-    setFileName(file.name);
-    setOcrSuggestion(null);
-    setOcrError(null);
-    setOcrCompleteMessage(null);
-    setOcrResumeInfo(null);
+    if (!appending) {
+      setFileName(inputs[0].name);
+      setOcrSuggestion(null);
+      setOcrError(null);
+      setOcrCompleteMessage(null);
+      setOcrResumeInfo(null);
+      skewAbortRef.current?.abort();
+      imageExportAbortRef.current?.abort();
+      setSkewSuggestions([]);
+      setSkewError(null);
+      setOutputEncryptionChoice(null);
+      setNewOutputPassword("");
+    }
+    setImporting(true);
     try {
-      const buffer = await readFileAsArrayBuffer(file);
-      await loadFromArrayBuffer(buffer);
-      setOriginalBuffer(buffer);
-      setSelectedPages([]);
-      setPreviewPage(null);
+      for (const [index, input] of inputs.entries()) {
+        const buffer = await input.read();
+        const onPassword = requestPassword(input.name);
+        if (index === 0 && !appending) {
+          await loadFromArrayBuffer(buffer, { name: input.name, onPassword });
+        } else {
+          await appendFromArrayBuffer(buffer, { name: input.name, onPassword });
+        }
+      }
+      if (!appending) {
+        setSelectedPages([]);
+        setSplitPoints([]);
+        setPreviewPage(null);
+      }
     } catch (error) {
       const text = error instanceof Error ? error.message : "PDFの読み込みに失敗しました";
       setMessage(text);
-      setOriginalBuffer(null);
+    } finally {
+      setImporting(false);
     }
   };
 
   const handleFileInput = async (event: ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      await handleFile(file);
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0) {
+      await handleFiles(files);
+      event.target.value = "";
+    }
+  };
+
+  const handleAppendFileInput = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0) {
+      await handleFiles(files, "append");
       event.target.value = "";
     }
   };
@@ -239,9 +560,9 @@ function App() {
     event.preventDefault();
     dragDepthRef.current = 0;
     setDragging(false);
-    const file = event.dataTransfer?.files?.[0];
-    if (file) {
-      void handleFile(file);
+    const files = Array.from(event.dataTransfer?.files ?? []);
+    if (files.length > 0) {
+      void handleFiles(files);
     }
   };
 
@@ -279,9 +600,10 @@ function App() {
   }, [updateGridMetrics]);
 
   const thumbGridWindow = useMemo(() => {
-    if (!state.pdfDoc || state.numPages <= 0) {
+    if (!state.pdfDoc || state.pageOrder.length <= 0) {
       return {
         pageNumbers: [],
+        startIndex: 0,
         paddingTop: 0,
         paddingBottom: 0,
       };
@@ -289,7 +611,7 @@ function App() {
     const fallbackWidth = typeof window !== "undefined" ? window.innerWidth : 0;
     const fallbackHeight = typeof window !== "undefined" ? window.innerHeight : 0;
     return calculateThumbGridWindow({
-      numPages: state.numPages,
+      numPages: state.pageOrder.length,
       containerWidth: gridMetrics.containerWidth,
       viewportHeight: gridMetrics.viewportHeight,
       scrollTop: gridMetrics.scrollTop,
@@ -300,8 +622,9 @@ function App() {
       rowBuffer: THUMB_ROW_BUFFER,
       fallbackWidth,
       fallbackHeight,
+      pageOrder: state.pageOrder,
     });
-  }, [gridMetrics, rowHeight, state.numPages, state.pdfDoc]);
+  }, [gridMetrics, rowHeight, state.pageOrder, state.pdfDoc]);
 
   useEffect(() => {
     const activeModal = previewPage !== null ? previewModalRef.current : helpOpen ? helpModalRef.current : null;
@@ -396,7 +719,218 @@ function App() {
     };
   }, []);
 
-  const canSave = originalBuffer !== null && originalBuffer.byteLength > 0 && state.status === "ready";
+  /** 文書のプロパティは先頭の元PDFから読む。追加したPDFのプロパティは使わない */
+  const primaryDoc = state.sources[0]?.doc ?? null;
+  useEffect(() => {
+    let cancelled = false;
+    const run = async () => {
+      try {
+        const next = primaryDoc ? await readDocumentMetadata(primaryDoc) : EMPTY_METADATA;
+        if (!cancelled) {
+          setDocumentMetadata(next);
+          setLoadedMetadata(next);
+        }
+      } catch {
+        if (!cancelled) {
+          setDocumentMetadata(EMPTY_METADATA);
+          setLoadedMetadata(EMPTY_METADATA);
+        }
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [primaryDoc]);
+
+  // しおりを編集したかどうかを比べるため、元PDFのしおりを別に読んでおく
+  useEffect(() => {
+    let cancelled = false;
+    const run = async () => {
+      try {
+        const next = primaryDoc ? await readOutline(primaryDoc) : [];
+        if (!cancelled) setLoadedOutline(next);
+      } catch {
+        if (!cancelled) setLoadedOutline([]);
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [primaryDoc]);
+
+  // フォームに入力した値は先頭の元PDFの入力欄に対応するので、元PDFが変わったら捨てる
+  useEffect(() => {
+    setFormValues({});
+  }, [primaryDoc]);
+
+  const sourceBuffers = useMemo(
+    () => state.sources.map((source) => source.buffer).filter((buffer): buffer is ArrayBuffer => !!buffer),
+    [state.sources]
+  );
+  const canSave =
+    state.status === "ready" &&
+    sourceBuffers.length > 0 &&
+    sourceBuffers.length === state.sources.length &&
+    sourceBuffers.every((buffer) => buffer.byteLength > 0);
+
+  const sourcePassword = state.sources.find((source) => source.password)?.password ?? null;
+  const outputEncryption: OutputEncryption =
+    outputEncryptionChoice === "same" && !sourcePassword
+      ? "none"
+      : outputEncryptionChoice ?? (sourcePassword ? "same" : "none");
+  /** 元PDFの復号と出力の暗号化に使うパスワード。保存・抽出・分割で共通 */
+  const passwordOptions = useMemo(
+    () => ({
+      sourcePasswords: state.sources.map((source) => source.password),
+      outputPassword:
+        outputEncryption === "same"
+          ? (sourcePassword ?? undefined)
+          : outputEncryption === "new"
+            ? newOutputPassword
+            : undefined,
+    }),
+    [state.sources, outputEncryption, sourcePassword, newOutputPassword]
+  );
+
+  // 推定サイズのために元PDFの画像を調べる。圧縮を有効にしている間だけ行う
+  useEffect(() => {
+    setImageInspection(null);
+    if (!optimizeEnabled || !canSave) return;
+    let cancelled = false;
+    const run = async () => {
+      try {
+        const next = await inspectPdfImages(sourceBuffers, {
+          sourcePasswords: state.sources.map((source) => source.password),
+        });
+        if (!cancelled) setImageInspection(next);
+      } catch {
+        if (!cancelled) setImageInspection(null);
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [optimizeEnabled, canSave, sourceBuffers, state.sources]);
+
+  useEffect(() => {
+    setOutputSize(null);
+    setSanitizedContent(null);
+  }, [sourceBuffers]);
+
+  // 共有する前に気づけるよう、読み込んだらすぐにスクリプトや添付ファイルなどを調べる
+  useEffect(() => {
+    setActiveContent(null);
+    if (!canSave) return;
+    let cancelled = false;
+    const run = async () => {
+      try {
+        const next = await inspectActiveContent(sourceBuffers, {
+          sourcePasswords: state.sources.map((source) => source.password),
+        });
+        if (!cancelled) setActiveContent(next);
+      } catch {
+        if (!cancelled) setActiveContent(null);
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [canSave, sourceBuffers, state.sources]);
+
+  const optimizeEstimate = useMemo(
+    () =>
+      imageInspection
+        ? {
+            original: imageInspection.totalBytes,
+            optimized: estimateOptimizedSize(imageInspection.totalBytes, imageInspection.images, optimizeOptions),
+          }
+        : null,
+    [imageInspection, optimizeOptions]
+  );
+
+  /** 元PDFの電子署名。結合したPDFの署名も含めて、保存で無効になるものを知らせる */
+  const signatures = useMemo(
+    () => sourceBuffers.flatMap((buffer) => findSignatures(new Uint8Array(buffer))),
+    [sourceBuffers]
+  );
+  const signatureNames = signatures.map(describeSignature).join("、");
+  /** 所有者パスワードだけのPDFはパスワードを聞かずに開くので、入力の有無ではなく /Encrypt で判断する */
+  const sourcesEncrypted = useMemo(
+    () => sourceBuffers.some((buffer) => isEncryptedPdf(new Uint8Array(buffer))),
+    [sourceBuffers]
+  );
+  const incrementalBlockers = useMemo(
+    () =>
+      findIncrementalBlockers({
+        merged: state.sources.length > 1,
+        encrypted: sourcesEncrypted,
+        pagesReordered: state.pageOrder.some((page, index) => page !== index + 1),
+        pagesDeleted: state.deletedPages.length > 0,
+        pagesAdded: Object.keys(state.virtualPages).length > 0,
+        deskewed: Object.values(state.skewMap).some((angle) => angle !== 0),
+        redacted: Object.values(state.redactionMap).some((rects) => rects.length > 0),
+        annotated: Object.values(state.annotationMap).some((annotations) => annotations.length > 0),
+        formsChanged: Object.keys(formValues).length > 0 || flattenForms,
+        metadataChanged:
+          stripMetadata || METADATA_FIELDS.some(({ key }) => documentMetadata[key] !== loadedMetadata[key]),
+        outlineChanged: !isSameOutline(state.outline, loadedOutline),
+        pageSizeNormalized: pageSizeEnabled,
+        stamped: stampEnabled,
+        imposed: impositionEnabled,
+        rotationBaked: bakeRotation,
+        imagesOptimized: optimizeEnabled,
+        passwordChanged: outputEncryption === "new",
+        sanitized: sanitize,
+      }),
+    [
+      state.sources,
+      sourcesEncrypted,
+      state.pageOrder,
+      state.deletedPages,
+      state.virtualPages,
+      state.skewMap,
+      state.redactionMap,
+      state.annotationMap,
+      formValues,
+      flattenForms,
+      stripMetadata,
+      documentMetadata,
+      loadedMetadata,
+      state.outline,
+      loadedOutline,
+      pageSizeEnabled,
+      stampEnabled,
+      impositionEnabled,
+      bakeRotation,
+      optimizeEnabled,
+      outputEncryption,
+      sanitize,
+    ]
+  );
+
+  const normalizePageSize = pageSizeEnabled ? pageSizeNormalization : undefined;
+  const optimizeImages = optimizeEnabled ? optimizeOptions : undefined;
+  const imposition = impositionEnabled ? impositionOptions : undefined;
+  const stamp = useMemo(
+    () => (stampEnabled ? { ...stampSettings, fileName: stripPdfExtension(fileName) || "document" } : undefined),
+    [stampEnabled, stampSettings, fileName]
+  );
+
+  const canUndo = state.status === "ready" && !ocrLoading && state.history.past.length > 0;
+  const canRedo = state.status === "ready" && !ocrLoading && state.history.future.length > 0;
+
+  /** 出力するページのうち墨消しするものを画像にする。墨消しが無ければ undefined */
+  const renderRedactedPages = useCallback(
+    async (pageNumbers: number[]) => {
+      if (!state.pdfDoc || !pageNumbers.some((pageNumber) => state.redactionMap[pageNumber])) return undefined;
+      return rasterizeRedactedPages(state.pdfDoc, state.redactionMap, pageNumbers);
+    },
+    [state.pdfDoc, state.redactionMap]
+  );
 
   const handleSave = useCallback(async () => {
     if (!canSave) {
@@ -404,32 +938,285 @@ function App() {
       return;
     }
     try {
-      await savePdfWithRotation(originalBuffer, state.rotationMap, {
+      // 署名のあるPDFは、回転とトリミングだけを元のファイルに追記して署名を保つ
+      if (signatures.length > 0 && incrementalSave) {
+        if (incrementalBlockers.length > 0) {
+          setMessage(
+            `追記して保存できない編集があります（${incrementalBlockers.join("、")}）。通常の保存に切り替えると ${signatureNames} が無効になります`
+          );
+          return;
+        }
+        await savePdfIncremental(sourceBuffers[0], state.rotationMap, {
+          cropMap: state.cropMap,
+          fileName: fileName || "rotated.pdf",
+          enableFallbackOpen: true,
+          onOutputSize: setOutputSize,
+        });
+        setMessage(null);
+        return;
+      }
+      const deletedSet = new Set(state.deletedPages);
+      const redactions = await renderRedactedPages(state.pageOrder.filter((page) => !deletedSet.has(page)));
+      await savePdfWithRotation(sourceBuffers, state.rotationMap, {
         fileName: fileName || "rotated.pdf",
         enableFallbackOpen: true,
+        deletedPages: state.deletedPages,
+        pageOrder: state.pageOrder,
+        skewMap: state.skewMap,
+        cropMap: state.cropMap,
+        redactions,
+        annotations: state.annotationMap,
+        formValues,
+        flattenForms,
+        virtualPages: state.virtualPages,
+        normalizePageSize,
+        bakeRotation,
+        stamp,
+        imposition,
+        metadata: documentMetadata,
+        stripMetadata,
+        outline: state.outline,
+        optimizeImages,
+        sanitize,
+        onSanitize: setSanitizedContent,
+        onOutputSize: setOutputSize,
+        confirmDownload: optimizeImages ? confirmDownload : undefined,
+        ...passwordOptions,
       });
       setMessage(null);
     } catch (error) {
       const text = error instanceof Error ? error.message : "保存に失敗しました";
       setMessage(text);
     }
-  }, [canSave, originalBuffer, state.rotationMap, fileName]);
-
-  useEffect(() => {
-    if (state.status === "error") {
-      setOriginalBuffer(null);
+  }, [
+    canSave,
+    signatures,
+    incrementalSave,
+    incrementalBlockers,
+    signatureNames,
+    sourceBuffers,
+    state.rotationMap,
+    state.deletedPages,
+    state.pageOrder,
+    state.skewMap,
+    state.cropMap,
+    renderRedactedPages,
+    state.annotationMap,
+    formValues,
+    flattenForms,
+    state.virtualPages,
+    normalizePageSize,
+    bakeRotation,
+    stamp,
+    imposition,
+    documentMetadata,
+    stripMetadata,
+    state.outline,
+    optimizeImages,
+    confirmDownload,
+    sanitize,
+    passwordOptions,
+    fileName,
+  ]);
+
+  /** 選択ページだけを新しいPDFとして書き出す。ワークスペースの状態は変えない */
+  const handleExtractSave = useCallback(async () => {
+    if (!canSave) {
+      setMessage("PDFが読み込まれていません");
+      return;
+    }
+    const deletedSet = new Set(state.deletedPages);
+    const pages = normalizeSelectedPages(selectedPages, state.numPages).filter((page) => !deletedSet.has(page));
+    try {
+      const redactions = await renderRedactedPages(pages);
+      await savePdfExtract(sourceBuffers, state.rotationMap, pages, {
+        numPages: state.numPages,
+        fileName: formatExtractFileName(fileName, pages),
+        enableFallbackOpen: true,
+        deletedPages: state.deletedPages,
+        pageOrder: state.pageOrder,
+        skewMap: state.skewMap,
+        cropMap: state.cropMap,
+        redactions,
+        annotations: state.annotationMap,
+        formValues,
+        flattenForms,
+        virtualPages: state.virtualPages,
+        normalizePageSize,
+        bakeRotation,
+        stamp,
+        imposition,
+        metadata: documentMetadata,
+        stripMetadata,
+        outline: state.outline,
+        optimizeImages,
+        sanitize,
+        onSanitize: setSanitizedContent,
+        onOutputSize: setOutputSize,
+        confirmDownload: optimizeImages ? confirmDownload : undefined,
+        ...passwordOptions,
+      });
+      setMessage(null);
+    } catch (error) {
+      const text = error instanceof Error ? error.message : "保存に失敗しました";
+      setMessage(text);
+    }
+  }, [
+    canSave,
+    selectedPages,
+    sourceBuffers,
+    state.numPages,
+    state.rotationMap,
+    state.deletedPages,
+    state.pageOrder,
+    state.skewMap,
+    state.cropMap,
+    renderRedactedPages,
+    state.annotationMap,
+    formValues,
+    flattenForms,
+    state.virtualPages,
+    normalizePageSize,
+    bakeRotation,
+    stamp,
+    imposition,
+    documentMetadata,
+    stripMetadata,
+    state.outline,
+    optimizeImages,
+    confirmDownload,
+    sanitize,
+    passwordOptions,
+    fileName,
+  ]);
+
+  const splitPreview = useMemo(() => {
+    if (!splitMode || state.status !== "ready") {
+      return { parts: [], error: null };
+    }
+    try {
+      const pageGroups =
+        splitMethod === "points"
+          ? splitPageOrder(state.pageOrder, splitPoints, state.deletedPages)
+          : resolveRangeParts(parsePageRanges(splitRangeText, state.numPages), state.pageOrder, state.deletedPages);
+      if (pageGroups.length === 0) {
+        return { parts: [], error: "出力するページがありません" };
+      }
+      return { parts: buildSplitParts(pageGroups, splitNameTemplate, fileName), error: null };
+    } catch (error) {
+      const text = error instanceof Error ? error.message : "分割の指定が不正です";
+      return { parts: [], error: text };
+    }
+  }, [
+    splitMode,
+    splitMethod,
+    splitPoints,
+    splitRangeText,
+    splitNameTemplate,
+    fileName,
+    state.status,
+    state.pageOrder,
+    state.deletedPages,
+    state.numPages,
+  ]);
+
+  const handleSplitSave = useCallback(async () => {
+    if (!canSave) {
+      setMessage("PDFが読み込まれていません");
+      return;
+    }
+    if (splitPreview.error || splitPreview.parts.length === 0) {
+      setMessage(splitPreview.error ?? "出力するページがありません");
+      return;
+    }
+    setSplitSaving(true);
+    try {
+      const redactions = await renderRedactedPages(splitPreview.parts.flatMap((part) => part.pages));
+      await savePdfSplit(sourceBuffers, state.rotationMap, splitPreview.parts, {
+        zipFileName: `${stripPdfExtension(fileName) || "document"}_split.zip`,
+        enableFallbackOpen: true,
+        skewMap: state.skewMap,
+        cropMap: state.cropMap,
+        redactions,
+        annotations: state.annotationMap,
+        formValues,
+        flattenForms,
+        virtualPages: state.virtualPages,
+        normalizePageSize,
+        bakeRotation,
+        stamp,
+        imposition,
+        metadata: documentMetadata,
+        stripMetadata,
+        outline: state.outline,
+        optimizeImages,
+        sanitize,
+        onSanitize: setSanitizedContent,
+        onOutputSize: setOutputSize,
+        confirmDownload: optimizeImages ? confirmDownload : undefined,
+        ...passwordOptions,
+      });
+      setMessage(null);
+    } catch (error) {
+      const text = error instanceof Error ? error.message : "保存に失敗しました";
+      setMessage(text);
+    } finally {
+      setSplitSaving(false);
     }
-  }, [state.status]);
+  }, [
+    canSave,
+    splitPreview,
+    sourceBuffers,
+    state.rotationMap,
+    state.skewMap,
+    state.cropMap,
+    renderRedactedPages,
+    state.annotationMap,
+    formValues,
+    flattenForms,
+    state.virtualPages,
+    normalizePageSize,
+    bakeRotation,
+    stamp,
+    imposition,
+    documentMetadata,
+    stripMetadata,
+    state.outline,
+    optimizeImages,
+    confirmDownload,
+    sanitize,
+    passwordOptions,
+    fileName,
+  ]);
+
+  const toggleSplitPoint = useCallback((pageNumber: number) => {
+    setSplitPoints((prev) =>
+      prev.includes(pageNumber) ? prev.filter((page) => page !== pageNumber) : [...prev, pageNumber]
+    );
+  }, []);
+
+  const toggleSplitPointsAtSelection = useCallback(() => {
+    if (selectedPages.length === 0) return;
+    setSplitPoints((prev) => {
+      const current = new Set(prev);
+      if (selectedPages.every((page) => current.has(page))) {
+        return prev.filter((page) => !selectedPages.includes(page));
+      }
+      selectedPages.forEach((page) => current.add(page));
+      return Array.from(current);
+    });
+  }, [selectedPages]);
 
+  // 白紙・複製ページの追加では文書の束ね方が変わるだけなので、選択は元PDFが変わったときだけ解除する
   useEffect(() => {
-    if (!state.pdfDoc) {
+    if (state.sources.length === 0) {
       setSelectedPages([]);
       setPreviewPage(null);
       return;
     }
     setSelectedPages([]);
     thumbMetaRef.current.clear();
-  }, [state.pdfDoc]);
+  }, [state.sources]);
 
   useEffect(() => {
     const stopSelecting = () => {
@@ -509,12 +1296,165 @@ function App() {
     [state.status]
   );
 
+  /** しおりから移動する。ページを選択し、サムネイルをその行までスクロールする */
+  const jumpToPage = useCallback(
+    (pageNumber: number) => {
+      if (state.status !== "ready") return;
+      setPage(pageNumber);
+      setSelectedPages([pageNumber]);
+      const container = viewerGridRef.current;
+      const index = state.pageOrder.indexOf(pageNumber);
+      if (!container || index < 0) return;
+      container.scrollTop = resolveThumbGridRowTop({
+        index,
+        containerWidth: container.clientWidth,
+        rowHeight,
+        minWidth: THUMB_MIN_WIDTH,
+        gridGap: THUMB_GRID_GAP,
+        gridPadding: THUMB_GRID_PADDING,
+        fallbackWidth: typeof window !== "undefined" ? window.innerWidth : 0,
+      });
+      updateGridMetrics();
+    },
+    [rowHeight, setPage, state.pageOrder, state.status, updateGridMetrics]
+  );
+
   const rotateSelectedPages = useCallback(
     (delta: number) => {
       if (selectedPages.length === 0) return;
+      beginHistoryGroup();
       selectedPages.forEach((pageNumber) => rotatePage(pageNumber, delta));
+      endHistoryGroup();
+    },
+    [beginHistoryGroup, endHistoryGroup, rotatePage, selectedPages]
+  );
+
+  const selectedSet = useMemo(() => new Set(selectedPages), [selectedPages]);
+  const deletedSet = useMemo(() => new Set(state.deletedPages), [state.deletedPages]);
+  const splitPointSet = useMemo(() => new Set(splitPoints), [splitPoints]);
+  const selectionAllDeleted =
+    selectedPages.length > 0 && selectedPages.every((pageNumber) => deletedSet.has(pageNumber));
+
+  const toggleDeleteSelectedPages = useCallback(() => {
+    if (selectedPages.length === 0) return;
+    if (selectionAllDeleted) {
+      restorePages(selectedPages);
+      return;
+    }
+    deletePages(selectedPages);
+  }, [deletePages, restorePages, selectedPages, selectionAllDeleted]);
+
+  const updateReorderDrag = useCallback((next: ReorderDrag | null) => {
+    reorderDragRef.current = next;
+    setReorderDrag(next);
+  }, []);
+
+  const resolveInsertIndexAt = useCallback(
+    (clientX: number, clientY: number): number | null => {
+      const container = viewerGridRef.current;
+      if (!container) return null;
+      const rect = container.getBoundingClientRect();
+      if (clientX < rect.left || clientX > rect.right) return null;
+      return resolveThumbGridInsertIndex({
+        numPages: state.pageOrder.length,
+        containerWidth: container.clientWidth,
+        rowHeight,
+        minWidth: THUMB_MIN_WIDTH,
+        gridGap: THUMB_GRID_GAP,
+        gridPadding: THUMB_GRID_PADDING,
+        fallbackWidth: typeof window !== "undefined" ? window.innerWidth : 0,
+        x: clientX - rect.left + container.scrollLeft,
+        y: clientY - rect.top + container.scrollTop,
+      });
+    },
+    [rowHeight, state.pageOrder.length]
+  );
+
+  const handleReorderPointerDown = useCallback(
+    (pageNumber: number) => (event: PointerEvent<HTMLSpanElement>) => {
+      if (state.status !== "ready") return;
+      if (event.button !== 0) return;
+      event.preventDefault();
+      event.stopPropagation();
+      const pages = selectedSet.has(pageNumber)
+        ? sortPagesByOrder(selectedPages, state.pageOrder)
+        : [pageNumber];
+      reorderPointerRef.current = { clientX: event.clientX, clientY: event.clientY };
+      updateReorderDrag({ pages, insertIndex: null });
+    },
+    [selectedPages, selectedSet, state.pageOrder, state.status, updateReorderDrag]
+  );
+
+  const reorderActive = reorderDrag !== null;
+
+  useEffect(() => {
+    if (!reorderActive) return;
+    const refreshInsertIndex = () => {
+      const current = reorderDragRef.current;
+      const pointer = reorderPointerRef.current;
+      if (!current || !pointer) return;
+      const insertIndex = resolveInsertIndexAt(pointer.clientX, pointer.clientY);
+      if (insertIndex === current.insertIndex) return;
+      updateReorderDrag({ ...current, insertIndex });
+    };
+    const handleMove = (event: globalThis.PointerEvent) => {
+      reorderPointerRef.current = { clientX: event.clientX, clientY: event.clientY };
+      refreshInsertIndex();
+    };
+    const handleUp = () => {
+      const current = reorderDragRef.current;
+      if (current && current.insertIndex !== null) {
+        movePages(current.pages, current.insertIndex);
+      }
+      reorderPointerRef.current = null;
+      updateReorderDrag(null);
+    };
+    const handleCancel = () => {
+      reorderPointerRef.current = null;
+      updateReorderDrag(null);
+    };
+    // 仮想スクロール中でも端に寄せれば自動でスクロールし続ける
+    let frame = window.requestAnimationFrame(function tick() {
+      const container = viewerGridRef.current;
+      const pointer = reorderPointerRef.current;
+      if (container && pointer) {
+        const rect = container.getBoundingClientRect();
+        const delta = calculateAutoScrollDelta({
+          pointerY: pointer.clientY,
+          viewportTop: rect.top,
+          viewportHeight: rect.height,
+          edgeSize: REORDER_SCROLL_EDGE,
+          maxSpeed: REORDER_SCROLL_SPEED,
+        });
+        if (delta !== 0) {
+          container.scrollTop += delta;
+          refreshInsertIndex();
+        }
+      }
+      frame = window.requestAnimationFrame(tick);
+    });
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    window.addEventListener("pointercancel", handleCancel);
+    return () => {
+      window.cancelAnimationFrame(frame);
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      window.removeEventListener("pointercancel", handleCancel);
+    };
+  }, [movePages, reorderActive, resolveInsertIndexAt, updateReorderDrag]);
+
+  const moveSelectedPagesBy = useCallback(
+    (step: number) => {
+      if (selectedPages.length === 0) return;
+      const ordered = sortPagesByOrder(selectedPages, state.pageOrder);
+      if (ordered.length === 0) return;
+      const firstIndex = state.pageOrder.indexOf(ordered[0]);
+      const lastIndex = state.pageOrder.indexOf(ordered[ordered.length - 1]);
+      const insertIndex = step < 0 ? Math.max(0, firstIndex - 1) : lastIndex + 2;
+      movePages(ordered, insertIndex);
     },
-    [rotatePage, selectedPages]
+    [movePages, selectedPages, state.pageOrder]
   );
 
   useEffect(() => {
@@ -526,6 +1466,11 @@ function App() {
       try {
         const page = await state.pdfDoc.getPage(previewPage);
         const rotation = state.rotationMap[previewPage] ?? 0;
+        // トリミング・墨消しの範囲を指定する間や注釈を追加する間は、ページ全体を表示する
+        const crop = cropEditing || redactionEditing || annotationTool ? undefined : state.cropMap[previewPage];
+        // 墨消しの範囲を指定する間は、範囲を重ねて表示するので塗りつぶさない
+        const redactions = redactionEditing ? undefined : state.redactionMap[previewPage];
+        const displayRotation = composeRotation(page.rotate, rotation);
         const previous = previewRenderQueueRef.current;
         const next = previous
           .catch(() => {})
@@ -533,6 +1478,8 @@ function App() {
             renderPageToCanvas(page, previewCanvasRef.current!, {
               scale: 1.6,
               rotation,
+              crop: crop ? toDisplayCropRect(crop, displayRotation) : undefined,
+              redactions: redactions?.map((rect) => toDisplayCropRect(rect, displayRotation)),
               maxWidth: 900,
               maxHeight: 1200,
             })
@@ -549,26 +1496,257 @@ function App() {
       }
     };
     void run();
-  }, [previewPage, state.pdfDoc, state.rotationMap, state.status]);
+  }, [
+    annotationTool,
+    cropEditing,
+    redactionEditing,
+    previewPage,
+    state.pdfDoc,
+    state.rotationMap,
+    state.cropMap,
+    state.redactionMap,
+    state.status,
+  ]);
 
   useEffect(() => {
-    const handler = (e: KeyboardEvent) => {
-      const target = e.target as HTMLElement | null;
-      if (target?.tagName === "INPUT" || target?.tagName === "TEXTAREA" || target?.isContentEditable) {
+    setCropEditing(false);
+    setCropDraft(null);
+    setCropError(null);
+    setRedactionEditing(false);
+    setRedactionDraft([]);
+    setRedactionError(null);
+    setAnnotationTool(null);
+    setAnnotationError(null);
+  }, [previewPage]);
+
+  const displayRotationOf = useCallback(
+    (pageNumber: number) => composeRotation(state.baseRotationMap[pageNumber] ?? 0, state.rotationMap[pageNumber] ?? 0),
+    [state.baseRotationMap, state.rotationMap]
+  );
+
+  const startCropEditing = useCallback(() => {
+    if (previewPage === null) return;
+    const crop = state.cropMap[previewPage];
+    setCropDraft(crop ? toDisplayCropRect(crop, displayRotationOf(previewPage)) : null);
+    setCropError(null);
+    setRedactionEditing(false);
+    setAnnotationTool(null);
+    setCropEditing(true);
+  }, [displayRotationOf, previewPage, state.cropMap]);
+
+  const startRedactionEditing = useCallback(() => {
+    if (previewPage === null) return;
+    const rotation = displayRotationOf(previewPage);
+    setRedactionDraft((state.redactionMap[previewPage] ?? []).map((rect) => toDisplayCropRect(rect, rotation)));
+    setRedactionError(null);
+    setCropEditing(false);
+    setAnnotationTool(null);
+    setRedactionEditing(true);
+  }, [displayRotationOf, previewPage, state.redactionMap]);
+
+  /** 表示している向きで指定した範囲を、回転前の座標に直して設定する */
+  const applyRedactionDraft = useCallback(() => {
+    if (previewPage === null) return;
+    const rotation = displayRotationOf(previewPage);
+    try {
+      setPageRedactions({ [previewPage]: redactionDraft.map((rect) => fromDisplayCropRect(rect, rotation)) });
+      setRedactionEditing(false);
+      setRedactionError(null);
+    } catch (error) {
+      const text = error instanceof Error ? error.message : "墨消し範囲が不正です";
+      setRedactionError(text);
+    }
+  }, [displayRotationOf, previewPage, redactionDraft, setPageRedactions]);
+
+  const changeAnnotationTool = useCallback((tool: AnnotationKind | null) => {
+    setAnnotationError(null);
+    if (tool) {
+      setCropEditing(false);
+      setRedactionEditing(false);
+    }
+    setAnnotationTool(tool);
+  }, []);
+
+  /** 表示している向きで描いた注釈を、回転前の座標に直して追加する */
+  const addAnnotation = useCallback(
+    (shape: AnnotationShape) => {
+      if (previewPage === null) return;
+      const annotation =
+        shape.kind === "note"
+          ? { ...shape, id: createAnnotationId(), text: noteText }
+          : { ...shape, id: createAnnotationId() };
+      try {
+        setPageAnnotations({
+          [previewPage]: [
+            ...(state.annotationMap[previewPage] ?? []),
+            fromDisplayAnnotation(annotation, displayRotationOf(previewPage)),
+          ],
+        });
+        setAnnotationError(null);
+        if (shape.kind === "note") setNoteText("");
+      } catch (error) {
+        const text = error instanceof Error ? error.message : "注釈を追加できませんでした";
+        setAnnotationError(text);
+      }
+    },
+    [displayRotationOf, noteText, previewPage, setPageAnnotations, state.annotationMap]
+  );
+
+  // 元のPDFの注釈と入力欄を読み、プレビューに重ねる。入力欄は先頭の元PDFのページだけ（保存時に書き込めるのはそのフォームだけ）
+  const formPageCount = state.sources[0]?.numPages ?? 0;
+  useEffect(() => {
+    let cancelled = false;
+    const run = async () => {
+      if (previewPage === null || !state.pdfDoc || state.status !== "ready") {
+        setExistingAnnotations([]);
+        setFormFields([]);
         return;
       }
+      try {
+        const page = await state.pdfDoc.getPage(previewPage);
+        const [found, fields] = await Promise.all([
+          readPageAnnotations(page),
+          previewPage <= formPageCount ? readPageFormFields(page) : [],
+        ]);
+        if (cancelled) return;
+        setExistingAnnotations(found);
+        setFormFields(fields);
+      } catch (error) {
+        if (cancelled) return;
+        setExistingAnnotations([]);
+        setFormFields([]);
+        logClient("warn", "annotation_read_failed", {
+          message: error instanceof Error ? error.message : String(error),
+          page: previewPage,
+        });
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [formPageCount, previewPage, state.pdfDoc, state.status]);
+
+  // 墨消しする範囲に抽出できる文字があれば警告する（範囲を指定している間は指定中の範囲で調べる）
+  useEffect(() => {
+    let cancelled = false;
+    const run = async () => {
+      if (previewPage === null || !state.pdfDoc || state.status !== "ready") {
+        setRedactedText([]);
+        return;
+      }
+      const rotation = displayRotationOf(previewPage);
+      const rects = redactionEditing
+        ? redactionDraft.map((rect) => fromDisplayCropRect(rect, rotation))
+        : (state.redactionMap[previewPage] ?? []);
+      try {
+        const page = await state.pdfDoc.getPage(previewPage);
+        const found = await findRedactedText(page, rects);
+        if (!cancelled) setRedactedText(found);
+      } catch (error) {
+        if (cancelled) return;
+        setRedactedText([]);
+        logClient("warn", "redaction_text_check_failed", {
+          message: error instanceof Error ? error.message : String(error),
+          page: previewPage,
+        });
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [displayRotationOf, previewPage, redactionDraft, redactionEditing, state.pdfDoc, state.redactionMap, state.status]);
+
+  const handleAutoTrim = useCallback(() => {
+    const canvas = previewCanvasRef.current;
+    const ctx = canvas?.getContext?.("2d");
+    if (!canvas || !ctx || canvas.width === 0 || canvas.height === 0) {
+      setCropError("プレビューを描画してから実行してください");
+      return;
+    }
+    const bounds = findContentBounds(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    if (!bounds) {
+      setCropError("余白以外の内容が見つかりませんでした");
+      return;
+    }
+    setCropError(null);
+    setCropDraft(bounds);
+  }, []);
+
+  /** 表示している向きで指定した範囲を、各ページの回転前の座標に直して設定する */
+  const applyCropDraft = useCallback(
+    (pageNumbers: number[]) => {
+      if (!cropDraft) return;
+      const crops: Record<number, CropRect> = {};
+      pageNumbers.forEach((pageNumber) => {
+        // 回転が違うページでも見た目で同じ範囲になるよう、ページごとの表示の向きから戻す
+        crops[pageNumber] = fromDisplayCropRect(cropDraft, displayRotationOf(pageNumber));
+      });
+      try {
+        setPageCrops(crops);
+        setCropEditing(false);
+        setCropError(null);
+      } catch (error) {
+        const text = error instanceof Error ? error.message : "トリミング範囲が不正です";
+        setCropError(text);
+      }
+    },
+    [cropDraft, displayRotationOf, setPageCrops]
+  );
+
+  /** 選択範囲の先頭の前、または末尾の後に、隣のページと同じ見た目の大きさの白紙を挿入する */
+  const insertBlankPageAtSelection = useCallback(
+    async (position: "before" | "after") => {
+      if (!state.pdfDoc || selectedPages.length === 0) return;
+      const ordered = sortPagesByOrder(selectedPages, state.pageOrder);
+      const neighbor = position === "before" ? ordered[0] : ordered[ordered.length - 1];
+      const neighborIndex = state.pageOrder.indexOf(neighbor);
+      if (neighborIndex < 0) return;
+      try {
+        const page = await state.pdfDoc.getPage(neighbor);
+        const rotation = displayRotationOf(neighbor);
+        const viewport = page.getViewport({ scale: 1, rotation });
+        const crop = state.cropMap[neighbor];
+        const visible = crop ? toDisplayCropRect(crop, rotation) : { width: 1, height: 1 };
+        insertBlankPages(position === "before" ? neighborIndex : neighborIndex + 1, {
+          width: viewport.width * visible.width,
+          height: viewport.height * visible.height,
+        });
+        setMessage(null);
+      } catch (error) {
+        const text = error instanceof Error ? error.message : "白紙ページを挿入できませんでした";
+        setMessage(text);
+      }
+    },
+    [displayRotationOf, insertBlankPages, selectedPages, state.cropMap, state.pageOrder, state.pdfDoc]
+  );
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (isFormControlTarget(e.target)) return;
       if (state.status !== "ready") return;
       switch (e.key) {
         case "ArrowRight":
           if (e.ctrlKey || e.metaKey) {
             e.preventDefault();
             rotateSelectedPages(90);
+            break;
+          }
+          if (e.altKey) {
+            e.preventDefault();
+            moveSelectedPagesBy(1);
           }
           break;
         case "ArrowLeft":
           if (e.ctrlKey || e.metaKey) {
             e.preventDefault();
             rotateSelectedPages(-90);
+            break;
+          }
+          if (e.altKey) {
+            e.preventDefault();
+            moveSelectedPagesBy(-1);
           }
           break;
         case "ArrowUp":
@@ -578,18 +1756,49 @@ function App() {
             rotateSelectedPages(180);
           }
           break;
+        case "Delete":
+        case "Backspace":
+          if (previewPage === null) {
+            e.preventDefault();
+            toggleDeleteSelectedPages();
+          }
+          break;
         case "Escape":
-          if (previewPage !== null) {
+          if (reorderDragRef.current) {
+            reorderPointerRef.current = null;
+            updateReorderDrag(null);
+          } else if (cropEditing) {
+            setCropEditing(false);
+            setCropError(null);
+          } else if (redactionEditing) {
+            setRedactionEditing(false);
+            setRedactionError(null);
+          } else if (annotationTool) {
+            setAnnotationTool(null);
+            setAnnotationError(null);
+          } else if (previewPage !== null) {
             setPreviewPage(null);
           } else {
             setSelectedPages([]);
           }
           break;
+        case "z":
+        case "Z":
+          if (e.ctrlKey || e.metaKey) {
+            e.preventDefault();
+            if (ocrLoading) break;
+            if (e.shiftKey) {
+              redo();
+            } else {
+              undo();
+            }
+          }
+          break;
         case "s":
         case "S":
           if (e.ctrlKey || e.metaKey) {
             e.preventDefault();
-            if (originalBuffer) {
+            if (canSave) {
               void handleSave();
             }
           }
@@ -600,13 +1809,31 @@ function App() {
     };
     window.addEventListener("keydown", handler);
     return () => window.removeEventListener("keydown", handler);
-  }, [state.status, previewPage, rotateSelectedPages, originalBuffer, fileName, handleSave]);
+  }, [
+    state.status,
+    previewPage,
+    cropEditing,
+    redactionEditing,
+    annotationTool,
+    rotateSelectedPages,
+    moveSelectedPagesBy,
+    toggleDeleteSelectedPages,
+    updateReorderDrag,
+    canSave,
+    handleSave,
+    ocrLoading,
+    undo,
+    redo,
+  ]);
 
   const handleReset = () => {
     ocrAbortRef.current?.abort();
-    autoOcrDocRef.current = null;
+    skewAbortRef.current?.abort();
+    imageExportAbortRef.current?.abort();
+    autoOcrSourcesRef.current = new Set();
     reset();
-    setOriginalBuffer(null);
+    setSplitPoints([]);
+    setSplitRangeText("");
     setFileName("");
     setMessage(null);
     setOcrSuggestion(null);
@@ -615,6 +1842,8 @@ function App() {
     setOcrProgress(null);
     setOcrCompleteMessage(null);
     setOcrResumeInfo(null);
+    setSkewSuggestions([]);
+    setSkewError(null);
     setRenderState("idle");
     setSelectedPages([]);
     setPreviewPage(null);
@@ -628,11 +1857,15 @@ function App() {
   useEffect(() => {
     return () => {
       ocrAbortRef.current?.abort();
+      skewAbortRef.current?.abort();
+      imageExportAbortRef.current?.abort();
     };
   }, []);
 
   const handleDetectOrientation = useCallback(async (options: {
     forceAll?: boolean;
+    /** 対象ページを明示する（選択範囲より優先） */
+    pages?: number[];
     resume?: {
       targetPages: number[];
       options: { forceAll?: boolean };
@@ -663,13 +1896,18 @@ function App() {
     const resumeInfo = options.resume ?? null;
     const continuousRotation = resumeInfo?.continuousRotation ?? continuousRotationEnabled;
     const continuousRotationThresholdValue = resumeInfo?.threshold ?? continuousRotationThreshold;
-    const normalizedSelection = options.forceAll
-      ? []
-      : normalizeSelectedPages(selectedPages, state.numPages);
+    const normalizedSelection = options.pages
+      ? normalizeSelectedPages(options.pages, state.numPages)
+      : options.forceAll
+        ? []
+        : normalizeSelectedPages(selectedPages, state.numPages);
+    const deletedPagesSet = new Set(state.deletedPages);
+    const pageOrder = state.pageOrder;
     const targetPages = resumeInfo?.targetPages
       ?? (normalizedSelection.length > 0
-        ? normalizedSelection
-        : Array.from({ length: state.numPages }, (_, index) => index + 1));
+        ? sortPagesByOrder(normalizedSelection, pageOrder)
+        : pageOrder
+      ).filter((pageNumber) => !deletedPagesSet.has(pageNumber));
     const total = targetPages.length;
     const startIndex = resumeInfo?.currentIndex ?? 0;
     const runOptions = resumeInfo?.options ?? { forceAll: options.forceAll };
@@ -686,6 +1924,8 @@ function App() {
         : null
     );
 
+    // 1回の推定（連続回転による補完を含む）を1回の取り消し単位にする
+    beginHistoryGroup();
     try {
       let workingRotationMap = state.rotationMap;
       const errors: Array<{ page: number; message: string }> = [];
@@ -753,19 +1993,19 @@ function App() {
           if (continuousRotation && confidenceValue >= continuousRotationThresholdValue) {
             highConfidenceRotations[pageNumber] = suggestion.rotation;
             if (lastHigh && lastHigh.rotation === suggestion.rotation) {
-              const startPage = lastHigh.page + 1;
-              const endPage = pageNumber - 1;
-              if (startPage <= endPage) {
-                let hasConflict = false;
-                for (let checkPage = startPage; checkPage <= endPage; checkPage += 1) {
+              // 「間のページ」は現在の並び順で判定する
+              const fillStart = pageOrder.indexOf(lastHigh.page) + 1;
+              const fillEnd = pageOrder.indexOf(pageNumber);
+              const betweenPages = fillStart > 0 && fillEnd > fillStart
+                ? pageOrder.slice(fillStart, fillEnd)
+                : [];
+              if (betweenPages.length > 0) {
+                const hasConflict = betweenPages.some((checkPage) => {
                   const recorded = highConfidenceRotations[checkPage];
-                  if (recorded !== undefined && recorded !== suggestion.rotation) {
-                    hasConflict = true;
-                    break;
-                  }
-                }
+                  return recorded !== undefined && recorded !== suggestion.rotation;
+                });
                 if (!hasConflict) {
-                  for (let fillPage = startPage; fillPage <= endPage; fillPage += 1) {
+                  for (const fillPage of betweenPages) {
                     if (!targetPagesSet.has(fillPage)) continue;
                     applyRotationToPage(fillPage, suggestion.rotation);
                   }
@@ -805,11 +2045,24 @@ function App() {
         setOcrResumeInfo({ ...ocrRunRef.current });
       }
     } finally {
+      endHistoryGroup();
       setOcrLoading(false);
       setOcrProgress(null);
       ocrRunRef.current = null;
     }
-  }, [continuousRotationEnabled, health, rotatePage, selectedPages, state.numPages, state.pdfDoc, state.rotationMap]);
+  }, [
+    beginHistoryGroup,
+    continuousRotationEnabled,
+    endHistoryGroup,
+    health,
+    rotatePage,
+    selectedPages,
+    state.deletedPages,
+    state.numPages,
+    state.pageOrder,
+    state.pdfDoc,
+    state.rotationMap,
+  ]);
 
   const handleAbortOcr = useCallback(() => {
     if (!ocrLoading || !ocrProgress || ocrProgress.total <= 1) return;
@@ -824,20 +2077,162 @@ function App() {
     void handleDetectOrientation({ resume: ocrResumeInfo });
   }, [handleDetectOrientation, ocrResumeInfo]);
 
+  const handleDetectSkew = useCallback(async () => {
+    if (health && !health.ocrEnabled) {
+      setSkewError("OCRは無効化されています");
+      return;
+    }
+    if (!state.pdfDoc) {
+      setSkewError("PDFを読み込んでから実行してください");
+      return;
+    }
+    skewAbortRef.current?.abort();
+    const abortController = new AbortController();
+    skewAbortRef.current = abortController;
+    const fetcher: typeof fetch = (input, init) =>
+      fetch(input, { ...init, signal: abortController.signal });
+    const pdfDoc = state.pdfDoc;
+    const deletedPagesSet = new Set(state.deletedPages);
+    const normalizedSelection = normalizeSelectedPages(selectedPages, state.numPages);
+    const targetPages = (
+      normalizedSelection.length > 0 ? sortPagesByOrder(normalizedSelection, state.pageOrder) : state.pageOrder
+    ).filter((pageNumber) => !deletedPagesSet.has(pageNumber));
+
+    setSkewLoading(true);
+    setSkewError(null);
+    const results: SkewSuggestion[] = [];
+    let failures = 0;
+    try {
+      for (const [index, pageNumber] of targetPages.entries()) {
+        if (abortController.signal.aborted) break;
+        setSkewProgress({ current: index + 1, total: targetPages.length });
+        try {
+          // 回転を反映した見た目の向きで傾きを測る
+          results.push(
+            await detectSkewForPage(pdfDoc, pageNumber, {
+              fetcher,
+              scale: SKEW_SCALE,
+              rotation: state.rotationMap[pageNumber] ?? 0,
+            })
+          );
+        } catch (error) {
+          if (abortController.signal.aborted) break;
+          failures += 1;
+          const text = error instanceof Error ? error.message : "傾きの推定に失敗しました";
+          logClient("error", "skew_detect_failed", { page: pageNumber, message: text });
+        }
+      }
+      if (failures > 0) {
+        setSkewError(`${failures}ページで傾きの推定に失敗しました`);
+      }
+    } finally {
+      setSkewSuggestions((prev) => {
+        const merged = new Map(prev.map((suggestion) => [suggestion.page, suggestion]));
+        results.forEach((result) => merged.set(result.page, result));
+        return sortPagesByOrder([...merged.keys()], state.pageOrder).map((page) => merged.get(page)!);
+      });
+      setSkewLoading(false);
+      setSkewProgress(null);
+    }
+  }, [health, selectedPages, state.deletedPages, state.numPages, state.pageOrder, state.pdfDoc, state.rotationMap]);
+
+  /** 選択ページ（無ければ全ページ）を並び順どおりに画像にしてZIPで保存する。削除ページは含めない */
+  const handleExportImages = useCallback(async () => {
+    if (!state.pdfDoc || state.status !== "ready") {
+      setImageExportError("PDFを読み込んでから実行してください");
+      return;
+    }
+    imageExportAbortRef.current?.abort();
+    const abortController = new AbortController();
+    imageExportAbortRef.current = abortController;
+    const deletedPagesSet = new Set(state.deletedPages);
+    const normalizedSelection = normalizeSelectedPages(selectedPages, state.numPages);
+    const targetPages = (
+      normalizedSelection.length > 0 ? sortPagesByOrder(normalizedSelection, state.pageOrder) : state.pageOrder
+    ).filter((pageNumber) => !deletedPagesSet.has(pageNumber));
+
+    setImageExporting(true);
+    setImageExportError(null);
+    try {
+      const zip = await exportPagesAsImages(
+        state.pdfDoc,
+        targetPages.map((pageNumber) => ({
+          pageNumber,
+          rotation: state.rotationMap[pageNumber] ?? 0,
+          crop: state.cropMap[pageNumber],
+          redactions: state.redactionMap[pageNumber],
+        })),
+        {
+          format: imageFormat,
+          dpi: imageDpi,
+          name: fileName,
+          signal: abortController.signal,
+          onProgress: ({ current, total }) => setImageExportProgress({ current, total }),
+        }
+      );
+      downloadBlob(zip, formatImageZipFileName(fileName), true);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      const text = error instanceof Error ? error.message : "画像の書き出しに失敗しました";
+      setImageExportError(text);
+      logClient("error", "image_export_failed", { message: text });
+    } finally {
+      if (imageExportAbortRef.current === abortController) {
+        imageExportAbortRef.current = null;
+      }
+      setImageExporting(false);
+      setImageExportProgress(null);
+    }
+  }, [
+    fileName,
+    imageDpi,
+    imageFormat,
+    selectedPages,
+    state.cropMap,
+    state.redactionMap,
+    state.deletedPages,
+    state.numPages,
+    state.pageOrder,
+    state.pdfDoc,
+    state.rotationMap,
+    state.status,
+  ]);
+
+  const handleApplyAllSkew = useCallback(() => {
+    beginHistoryGroup();
+    skewSuggestions.forEach((suggestion) => {
+      if (suggestion.angle === null) return;
+      setPageSkew(suggestion.page, toSkewCorrection(suggestion.angle));
+    });
+    endHistoryGroup();
+  }, [beginHistoryGroup, endHistoryGroup, setPageSkew, skewSuggestions]);
+
   useEffect(() => {
     if (!state.pdfDoc || state.status !== "ready") {
-      autoOcrDocRef.current = null;
+      autoOcrSourcesRef.current = new Set();
+      return;
+    }
+    if (health?.ocrEnabled !== true || importing) {
       return;
     }
-    if (health?.ocrEnabled !== true) {
+    const processed = autoOcrSourcesRef.current;
+    const newSources = state.sources.filter((source) => !processed.has(source.doc));
+    if (newSources.length === 0) {
       return;
     }
-    if (autoOcrDocRef.current === state.pdfDoc) {
+    autoOcrSourcesRef.current = new Set(state.sources.map((source) => source.doc));
+    if (newSources.length === state.sources.length) {
+      void handleDetectOrientation({ forceAll: true });
       return;
     }
-    autoOcrDocRef.current = state.pdfDoc;
-    void handleDetectOrientation({ forceAll: true });
-  }, [handleDetectOrientation, health?.ocrEnabled, state.pdfDoc, state.status]);
+    // 結合したPDFのページだけを推定する。実行中の推定があれば残りのページも引き継ぐ
+    const running = ocrRunRef.current;
+    const pendingPages = running ? running.targetPages.slice(running.currentIndex) : [];
+    const appendedPages = newSources.flatMap((source) =>
+      createPageOrder(source.numPages).map((page) => page + source.pageOffset)
+    );
+    void handleDetectOrientation({ forceAll: true, pages: [...pendingPages, ...appendedPages] });
+  }, [handleDetectOrientation, health?.ocrEnabled, importing, state.pdfDoc, state.sources, state.status]);
 
   const suggestionText =
     ocrSuggestion && state.pdfDoc
@@ -848,13 +2243,22 @@ function App() {
 
   const toastText = ocrError ?? message;
   const versionText = health?.version ? `v${health.version}` : "v--";
-  const selectedSet = useMemo(() => new Set(selectedPages), [selectedPages]);
   const selectionLabel = selectedPages.length > 0 ? `${selectedPages.length}ページ選択中` : "未選択";
+  // 注釈・入力欄の重ね表示は、プレビューのトリミングと傾き補正の表示に合わせる
+  const previewOverlayCrop =
+    previewPage !== null && !annotationTool && state.cropMap[previewPage]
+      ? toDisplayCropRect(state.cropMap[previewPage], displayRotationOf(previewPage))
+      : undefined;
+  const previewOverlayStyle =
+    previewPage !== null && !annotationTool && (state.skewMap[previewPage] ?? 0) !== 0
+      ? { transform: `rotate(${state.skewMap[previewPage]}deg)` }
+      : undefined;
 
   return (
     <div className="app">
       <Header
         fileName={fileName}
+        extraFileCount={Math.max(0, state.sources.length - 1)}
         onReset={handleReset}
         onHelpOpen={() => setHelpOpen(true)}
       />
@@ -868,11 +2272,39 @@ function App() {
                 {renderState === "rendering" && <span className="pill pill--render">サムネイル生成中...</span>}
               </div>
               <div className="viewer__meta">
-                <span className="meta-badge">総ページ {state.numPages || "--"}</span>
+                <span className="meta-badge">総ページ {state.pageOrder.length || "--"}</span>
                 <span className="meta-badge">選択 {selectionLabel}</span>
+                {state.deletedPages.length > 0 && (
+                  <span className="meta-badge">削除 {state.deletedPages.length}ページ</span>
+                )}
+                {activeContent && activeContent.length > 0 && (
+                  <span className="meta-badge" title={summarizeFindings(activeContent)}>
+                    要確認 {activeContent.length}件
+                  </span>
+                )}
+                {signatures.length > 0 && (
+                  <span className="meta-badge" title={signatureNames}>
+                    署名 {signatures.length}件
+                  </span>
+                )}
               </div>
             </div>
-            <p className="hint">クリック/ドラッグで複数選択。Ctrl/Cmd + ←/→/↑/↓ で回転。ダブルクリックで拡大。</p>
+            {state.sources.length > 1 && (
+              <ol className="source-legend" aria-label="結合したPDF">
+                {state.sources.map((source, index) => (
+                  <li key={`${source.pageOffset}-${source.name}`}>
+                    <span className={`source-tag source-tag--${index % SOURCE_TAG_COLORS}`}>{index + 1}</span>
+                    <span className="source-legend__name">{source.name || `PDF ${index + 1}`}</span>
+                    <span className="source-legend__pages">
+                      p.{source.pageOffset + 1}–{source.pageOffset + source.numPages}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+            <p className="hint">
+              クリック/ドラッグで複数選択。⋮⋮ をドラッグ（Alt + ←/→）で並べ替え。Ctrl/Cmd + ←/→/↑/↓ で回転。Delete で削除/取り消し。ダブルクリックで拡大。
+            </p>
             <div
               className={`viewer__grid${dragging ? " viewer__grid--dragging" : ""}`}
               ref={viewerGridRef}
@@ -898,13 +2330,26 @@ function App() {
                   }}
                 >
                   {thumbGridWindow.pageNumbers.map((pageNumber, index) => {
+                    const position = thumbGridWindow.startIndex + index;
                     const isSelected = selectedSet.has(pageNumber);
                     const rotation = state.rotationMap[pageNumber] ?? 0;
+                    const baseRotation = state.baseRotationMap[pageNumber] ?? 0;
+                    const skew = state.skewMap[pageNumber] ?? 0;
+                    const isDeleted = deletedSet.has(pageNumber);
+                    const virtualPage = state.virtualPages[pageNumber];
+                    const sourceIndex = state.sources.length > 1 ? findSourceIndex(state.sources, pageNumber) : -1;
+                    const source = sourceIndex >= 0 ? state.sources[sourceIndex] : null;
+                    const isDragging = reorderDrag?.pages.includes(pageNumber) ?? false;
+                    const showSplitToggle = splitMode && splitMethod === "points" && position > 0;
+                    const isSplitBefore = showSplitToggle && splitPointSet.has(pageNumber);
+                    const dropBefore = reorderDrag?.insertIndex === position;
+                    const dropAfter =
+                      reorderDrag?.insertIndex === state.pageOrder.length && position === state.pageOrder.length - 1;
                     return (
                       <button
                         type="button"
                         key={pageNumber}
-                        className={`thumb-card${isSelected ? " is-selected" : ""}${rotation !== 0 ? " is-rotated" : ""}`}
+                        className={`thumb-card${isSelected ? " is-selected" : ""}${rotation !== 0 ? " is-rotated" : ""}${isDeleted ? " is-deleted" : ""}${isDragging ? " is-dragging" : ""}${dropBefore ? " is-drop-before" : ""}${dropAfter ? " is-drop-after" : ""}${isSplitBefore ? " is-split-before" : ""}`}
                         aria-pressed={isSelected}
                         aria-label={`ページ ${pageNumber}`}
                         disabled={state.status !== "ready"}
@@ -913,14 +2358,63 @@ function App() {
                         onDoubleClick={handleThumbDoubleClick(pageNumber)}
                         ref={index === 0 ? measureThumbCardRef : undefined}
                       >
+                        {showSplitToggle && (
+                          <span
+                            className="split-toggle"
+                            aria-hidden="true"
+                            title={isSplitBefore ? "分割を解除" : "このページの前で分割"}
+                            onPointerDown={(event) => event.stopPropagation()}
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              toggleSplitPoint(pageNumber);
+                            }}
+                          >
+                            ✂
+                          </span>
+                        )}
                         <div className="thumb-canvas">
                           <canvas
                             ref={setThumbCanvas(pageNumber)}
+                            style={skew !== 0 ? { transform: `rotate(${skew}deg)` } : undefined}
                           />
                         </div>
                         <div className="thumb-meta">
                           <span>p.{pageNumber}</span>
-                          {rotation !== 0 && <span className="pill pill--ghost">{rotation}°</span>}
+                          {source && (
+                            <span
+                              className={`source-tag source-tag--${sourceIndex % SOURCE_TAG_COLORS}`}
+                              title={`${source.name} p.${pageNumber - source.pageOffset}`}
+                            >
+                              {sourceIndex + 1}
+                            </span>
+                          )}
+                          <span
+                            className="thumb-handle"
+                            aria-hidden="true"
+                            title="ドラッグで並べ替え"
+                            onPointerDown={handleReorderPointerDown(pageNumber)}
+                          >
+                            ⋮⋮
+                          </span>
+                          {baseRotation !== 0 && (
+                            <span className="pill pill--base" title="PDFに元から設定されている回転">
+                              元 {baseRotation}°
+                            </span>
+                          )}
+                          {rotation !== 0 && <span className="pill pill--ghost">+{rotation}°</span>}
+                          {skew !== 0 && (
+                            <span className="pill pill--ghost" title="保存時に内容を回転させて補正します">
+                              傾き {formatSkewAngle(skew)}
+                            </span>
+                          )}
+                          {state.cropMap[pageNumber] && <span className="pill pill--ghost">トリミング</span>}
+                          {state.redactionMap[pageNumber] && <span className="pill pill--ghost">墨消し</span>}
+                          {state.annotationMap[pageNumber] && <span className="pill pill--ghost">注釈</span>}
+                          {virtualPage?.kind === "blank" && <span className="pill pill--ghost">白紙</span>}
+                          {virtualPage?.kind === "duplicate" && (
+                            <span className="pill pill--ghost">p.{virtualPage.of} の複製</span>
+                          )}
+                          {isDeleted && <span className="pill pill--deleted">削除</span>}
                         </div>
                       </button>
                     );
@@ -928,6 +2422,11 @@ function App() {
                 </div>
               )}
             </div>
+            {signatures.length > 0 && !incrementalSave && (
+              <p className="error-text" role="alert">
+                保存すると次の署名が無効になります: {signatureNames}
+              </p>
+            )}
             <div className="viewer__actions">
               <button
                 className="save-btn"
@@ -936,6 +2435,55 @@ function App() {
               >
                 適用して保存 (Ctrl+S)
               </button>
+              <button
+                type="button"
+                onClick={() => { void handleExtractSave(); }}
+                disabled={!canSave || selectedPages.length === 0}
+              >
+                選択を抽出して保存
+              </button>
+              <button
+                type="button"
+                onClick={undo}
+                disabled={!canUndo}
+              >
+                元に戻す (Ctrl+Z)
+              </button>
+              <button
+                type="button"
+                onClick={redo}
+                disabled={!canRedo}
+              >
+                やり直す (Ctrl+Shift+Z)
+              </button>
+              <button
+                type="button"
+                onClick={toggleDeleteSelectedPages}
+                disabled={selectedPages.length === 0 || state.status !== "ready"}
+              >
+                {selectionAllDeleted ? "削除を取り消し (Del)" : "選択を削除 (Del)"}
+              </button>
+              <button
+                type="button"
+                onClick={() => { void insertBlankPageAtSelection("before"); }}
+                disabled={selectedPages.length === 0 || state.status !== "ready"}
+              >
+                前に白紙を挿入
+              </button>
+              <button
+                type="button"
+                onClick={() => { void insertBlankPageAtSelection("after"); }}
+                disabled={selectedPages.length === 0 || state.status !== "ready"}
+              >
+                後に白紙を挿入
+              </button>
+              <button
+                type="button"
+                onClick={() => duplicatePages(selectedPages)}
+                disabled={selectedPages.length === 0 || state.status !== "ready"}
+              >
+                選択を複製
+              </button>
               <button
                 type="button"
                 onClick={() => setSelectedPages([])}
@@ -959,8 +2507,32 @@ function App() {
             onDrop={handleDrop}
             fileInputRef={fileInputRef}
             onFileChange={handleFileInput}
+            onAppendFileChange={handleAppendFileInput}
             onReselect={handleReselectPdf}
-            disabled={state.status === "loading"}
+            disabled={state.status === "loading" || importing}
+            canAppend={state.status === "ready" && !importing}
+            imagePageSize={imagePageSize}
+            onImagePageSizeChange={setImagePageSize}
+          />
+
+          <DocumentInfoPanel
+            findings={activeContent}
+            sanitize={sanitize}
+            onSanitizeChange={setSanitize}
+            removed={sanitizedContent}
+            disabled={!canSave}
+          />
+
+          <OutlinePanel
+            outline={state.outline}
+            pageOrder={state.pageOrder}
+            deletedPages={state.deletedPages}
+            currentPage={state.currentPage}
+            onSelect={jumpToPage}
+            onAdd={(title) => addOutlineItem(title, state.currentPage)}
+            onRename={renameOutlineItem}
+            onRemove={removeOutlineItem}
+            disabled={state.status !== "ready"}
           />
 
           <section className="panel controls">
@@ -1051,6 +2623,130 @@ function App() {
             </div>
           </section>
 
+          <DeskewPanel
+            suggestions={skewSuggestions}
+            skewMap={state.skewMap}
+            onDetect={() => { void handleDetectSkew(); }}
+            onAbort={() => skewAbortRef.current?.abort()}
+            onApply={setPageSkew}
+            onApplyAll={handleApplyAllSkew}
+            loading={skewLoading}
+            progress={skewProgress}
+            error={skewError}
+            hasSelection={selectedPages.length > 0}
+            disabled={state.status !== "ready" || ocrLoading || health?.ocrEnabled === false}
+          />
+
+          <ImageExportPanel
+            format={imageFormat}
+            onFormatChange={setImageFormat}
+            dpi={imageDpi}
+            onDpiChange={setImageDpi}
+            onExport={() => { void handleExportImages(); }}
+            onAbort={() => imageExportAbortRef.current?.abort()}
+            loading={imageExporting}
+            progress={imageExportProgress}
+            error={imageExportError}
+            hasSelection={selectedPages.length > 0}
+            disabled={state.status !== "ready"}
+          />
+
+          <RotationOutputPanel bake={bakeRotation} onBakeChange={setBakeRotation} disabled={!canSave} />
+
+          <PageSizePanel
+            enabled={pageSizeEnabled}
+            onEnabledChange={setPageSizeEnabled}
+            normalization={pageSizeNormalization}
+            onNormalizationChange={setPageSizeNormalization}
+            preview={pageSizePreview}
+            onPreviewChange={setPageSizePreview}
+            disabled={!canSave}
+          />
+
+          <StampPanel
+            enabled={stampEnabled}
+            onEnabledChange={setStampEnabled}
+            settings={stampSettings}
+            onSettingsChange={setStampSettings}
+            fileName={stripPdfExtension(fileName) || "document"}
+            disabled={!canSave}
+          />
+
+          <ImpositionPanel
+            enabled={impositionEnabled}
+            onEnabledChange={setImpositionEnabled}
+            options={impositionOptions}
+            onOptionsChange={setImpositionOptions}
+            disabled={!canSave}
+          />
+
+          <MetadataPanel
+            metadata={documentMetadata}
+            onMetadataChange={setDocumentMetadata}
+            strip={stripMetadata}
+            onStripChange={setStripMetadata}
+            disabled={!canSave}
+          />
+
+          <FormPanel
+            changedCount={Object.keys(formValues).length}
+            flatten={flattenForms}
+            onFlattenChange={setFlattenForms}
+            onReset={() => setFormValues({})}
+            disabled={!canSave}
+          />
+
+          <OptimizePanel
+            enabled={optimizeEnabled}
+            onEnabledChange={setOptimizeEnabled}
+            options={optimizeOptions}
+            onOptionsChange={setOptimizeOptions}
+            estimate={optimizeEstimate}
+            outputSize={outputSize}
+            confirmingDownload={downloadConfirmation !== null}
+            onConfirmDownload={closeDownloadConfirmation}
+            disabled={!canSave}
+          />
+
+          <OutputSecurityPanel
+            encryption={outputEncryption}
+            onEncryptionChange={setOutputEncryptionChoice}
+            newPassword={newOutputPassword}
+            onNewPasswordChange={setNewOutputPassword}
+            hasSourcePassword={sourcePassword !== null}
+            disabled={!canSave}
+          />
+
+          {signatures.length > 0 && (
+            <SignaturePanel
+              signatures={signatures}
+              incremental={incrementalSave}
+              onIncrementalChange={setIncrementalSave}
+              blockers={incrementalBlockers}
+              disabled={!canSave}
+            />
+          )}
+
+          <SplitPanel
+            enabled={splitMode}
+            onEnabledChange={setSplitMode}
+            method={splitMethod}
+            onMethodChange={setSplitMethod}
+            rangeText={splitRangeText}
+            onRangeTextChange={setSplitRangeText}
+            nameTemplate={splitNameTemplate}
+            onNameTemplateChange={setSplitNameTemplate}
+            splitPointCount={splitPoints.length}
+            onToggleSelectionSplit={toggleSplitPointsAtSelection}
+            onClearSplitPoints={() => setSplitPoints([])}
+            canToggleSelection={state.status === "ready" && selectedPages.length > 0}
+            parts={splitPreview.parts}
+            error={splitPreview.error}
+            onSave={() => { void handleSplitSave(); }}
+            saving={splitSaving}
+            disabled={!canSave}
+          />
+
           <ShortcutsPanel />
         </div>
       </div>
@@ -1066,6 +2762,14 @@ function App() {
         </div>
       )}
 
+      {passwordPrompt && (
+        <PasswordDialog
+          fileName={passwordPrompt.fileName}
+          reason={passwordPrompt.reason}
+          onSubmit={(password) => closePasswordPrompt(password)}
+          onCancel={() => closePasswordPrompt(null)}
+        />
+      )}
       {helpOpen && (
         <div className="modal" role="dialog" aria-modal="true" aria-label="ヘルプ">
           <div className="modal__backdrop" onClick={() => setHelpOpen(false)} />
@@ -1086,6 +2790,10 @@ function App() {
                 <li>Ctrl/Cmd + ←: -90° 回転</li>
                 <li>Ctrl/Cmd + ↑/↓: 180° 回転</li>
                 <li>Ctrl/Cmd + S: 回転を適用して保存</li>
+                <li>Delete/Backspace: 選択ページを削除（削除済みなら取り消し）</li>
+                <li>⋮⋮ をドラッグ: 選択ページを並べ替え（端に寄せると自動スクロール）</li>
+                <li>Alt + ←/→: 選択ページを前後に移動</li>
+                <li>Ctrl/Cmd + Z / Ctrl/Cmd + Shift + Z: 編集を元に戻す / やり直す（OCR 1回分は1操作）</li>
                 <li>Esc: 選択解除</li>
                 <li>ダブルクリック: 拡大表示</li>
               </ul>
@@ -1108,6 +2816,10 @@ function App() {
           <div className="modal__card modal__card--preview" ref={previewModalRef}>
             <div className="modal__header">
               <h2>プレビュー p.{previewPage}</h2>
+              <span className="preview-rotation">
+                元の回転 {state.baseRotationMap[previewPage] ?? 0}° / 変更 +{state.rotationMap[previewPage] ?? 0}°
+                {(state.skewMap[previewPage] ?? 0) !== 0 && ` / 傾き補正 ${formatSkewAngle(state.skewMap[previewPage])}`}
+              </span>
               <button type="button" onClick={() => setPreviewPage(null)} aria-label="閉じる">
                 ×
               </button>
@@ -1118,8 +2830,99 @@ function App() {
                   描画中...
                 </span>
               )}
+              <CropToolbar
+                editing={cropEditing}
+                hasCrop={!!state.cropMap[previewPage]}
+                hasDraft={cropDraft !== null}
+                selectionCount={selectedPages.length}
+                onStart={startCropEditing}
+                onAutoTrim={handleAutoTrim}
+                onApply={() => applyCropDraft([previewPage])}
+                onApplyToSelection={() => applyCropDraft(selectedPages)}
+                onClear={() => setPageCrops({ [previewPage]: null })}
+                onCancel={() => {
+                  setCropEditing(false);
+                  setCropError(null);
+                }}
+                error={cropError}
+                disabled={state.status !== "ready"}
+              />
+              <RedactionToolbar
+                editing={redactionEditing}
+                hasRedactions={!!state.redactionMap[previewPage]}
+                draftCount={redactionDraft.length}
+                redactedText={redactedText}
+                onStart={startRedactionEditing}
+                onUndoLast={() => setRedactionDraft((prev) => prev.slice(0, -1))}
+                onApply={applyRedactionDraft}
+                onClear={() => setPageRedactions({ [previewPage]: [] })}
+                onCancel={() => {
+                  setRedactionEditing(false);
+                  setRedactionError(null);
+                }}
+                error={redactionError}
+                disabled={state.status !== "ready"}
+              />
+              <AnnotationToolbar
+                tool={annotationTool}
+                onToolChange={changeAnnotationTool}
+                noteText={noteText}
+                onNoteTextChange={setNoteText}
+                annotations={state.annotationMap[previewPage] ?? []}
+                existing={existingAnnotations}
+                onRemove={(id) =>
+                  setPageAnnotations({
+                    [previewPage]: (state.annotationMap[previewPage] ?? []).filter((item) => item.id !== id),
+                  })
+                }
+                error={annotationError}
+                disabled={state.status !== "ready"}
+              />
               <div className="preview-canvas">
-                <canvas ref={previewCanvasRef} />
+                <div className="crop-stage">
+                  <canvas
+                    ref={previewCanvasRef}
+                    style={
+                      !cropEditing && !redactionEditing && !annotationTool && (state.skewMap[previewPage] ?? 0) !== 0
+                        ? { transform: `rotate(${state.skewMap[previewPage]}deg)` }
+                        : undefined
+                    }
+                  />
+                  {cropEditing && <CropOverlay rect={cropDraft} onRectChange={setCropDraft} />}
+                  {redactionEditing && (
+                    <RedactionOverlay
+                      rects={redactionDraft}
+                      onAdd={(rect) => setRedactionDraft((prev) => [...prev, rect])}
+                    />
+                  )}
+                  {!cropEditing && !redactionEditing && formFields.length > 0 && (
+                    <FormFieldOverlay
+                      fields={formFields.map((field) => ({
+                        ...field,
+                        rect: toDisplayCropRect(field.rect, displayRotationOf(previewPage)),
+                      }))}
+                      values={formValues}
+                      onChange={(name, value) => setFormValues((prev) => ({ ...prev, [name]: value }))}
+                      crop={previewOverlayCrop}
+                      style={previewOverlayStyle}
+                    />
+                  )}
+                  {!cropEditing && !redactionEditing && (
+                    <AnnotationOverlay
+                      annotations={(state.annotationMap[previewPage] ?? []).map((annotation) =>
+                        toDisplayAnnotation(annotation, displayRotationOf(previewPage))
+                      )}
+                      existing={existingAnnotations.map((annotation) => ({
+                        ...annotation,
+                        rect: toDisplayCropRect(annotation.rect, displayRotationOf(previewPage)),
+                      }))}
+                      tool={annotationTool}
+                      crop={previewOverlayCrop}
+                      style={previewOverlayStyle}
+                      onAdd={addAnnotation}
+                    />
+                  )}
+                </div>
               </div>
             </div>
           </div>
@@ -0,0 +1,176 @@
+import { useRef, useState, type CSSProperties, type FC, type PointerEvent } from "react";
+import type { CropRect } from "../lib/crop";
+import {
+  MIN_HIGHLIGHT_SIZE,
+  type AnnotationKind,
+  type AnnotationPoint,
+  type ExistingAnnotation,
+  type PageAnnotation,
+} from "../lib/annotation";
+
+/** 描いた注釈の形（id とメモの内容は呼び出し元で付ける） */
+export type AnnotationShape =
+  | { kind: "note"; point: AnnotationPoint }
+  | { kind: "highlight"; rect: CropRect }
+  | { kind: "ink"; points: AnnotationPoint[] };
+
+type AnnotationOverlayProps = {
+  /** 表示している向きでの相対座標 */
+  annotations: PageAnnotation[];
+  /** 元のPDFの注釈（表示している向きでの相対座標） */
+  existing: ExistingAnnotation[];
+  /** 選んでいる道具。null なら表示だけで操作を受け付けない */
+  tool: AnnotationKind | null;
+  /** トリミングした範囲だけを描いているときの範囲（表示している向きでの相対座標） */
+  crop?: CropRect;
+  /** 傾き補正の表示に合わせてプレビューと一緒に回す */
+  style?: CSSProperties;
+  onAdd: (shape: AnnotationShape) => void;
+};
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const toRect = (start: AnnotationPoint, point: AnnotationPoint): CropRect => ({
+  x: Math.min(start.x, point.x),
+  y: Math.min(start.y, point.y),
+  width: Math.abs(point.x - start.x),
+  height: Math.abs(point.y - start.y),
+});
+
+const toPercent = (rect: CropRect) => ({
+  left: `${rect.x * 100}%`,
+  top: `${rect.y * 100}%`,
+  width: `${rect.width * 100}%`,
+  height: `${rect.height * 100}%`,
+});
+
+const toPolyline = (points: AnnotationPoint[]): string =>
+  points.map((point) => `${point.x * 100},${point.y * 100}`).join(" ");
+
+/**
+ * プレビューの上に重ね、追加した注釈と元のPDFの注釈を表示する。
+ * 道具を選んでいる間は、クリックでメモ、ドラッグでハイライト・手書きを追加する。
+ */
+export const AnnotationOverlay: FC<AnnotationOverlayProps> = ({ annotations, existing, tool, crop, style, onAdd }) => {
+  const pointsRef = useRef<AnnotationPoint[] | null>(null);
+  const [draft, setDraft] = useState<AnnotationPoint[] | null>(null);
+
+  const toRatio = (event: PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    if (bounds.width <= 0 || bounds.height <= 0) return null;
+    return {
+      x: clamp01((event.clientX - bounds.left) / bounds.width),
+      y: clamp01((event.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (!tool || event.button !== 0) return;
+    const point = toRatio(event);
+    if (!point) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    pointsRef.current = [point];
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const points = pointsRef.current;
+    if (!points || tool === "note") return;
+    const point = toRatio(event);
+    if (!point) return;
+    pointsRef.current = tool === "ink" ? [...points, point] : [points[0], point];
+    setDraft(pointsRef.current);
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    const points = pointsRef.current;
+    pointsRef.current = null;
+    event.currentTarget.releasePointerCapture?.(event.pointerId);
+    setDraft(null);
+    if (!tool || !points || event.type === "pointercancel") return;
+    const point = toRatio(event);
+    if (!point) return;
+    if (tool === "note") {
+      onAdd({ kind: "note", point: points[0] });
+    } else if (tool === "highlight") {
+      const rect = toRect(points[0], point);
+      // クリックしただけの小さな範囲は追加しない
+      if (rect.width < MIN_HIGHLIGHT_SIZE || rect.height < MIN_HIGHLIGHT_SIZE) return;
+      onAdd({ kind: "highlight", rect });
+    } else if (points.length > 1) {
+      onAdd({ kind: "ink", points: [...points, point] });
+    }
+  };
+
+  // トリミングした範囲だけを描いているときは、ページ全体を表す枠をずらして重ねる
+  const pageStyle = crop
+    ? {
+        left: `${(-crop.x / crop.width) * 100}%`,
+        top: `${(-crop.y / crop.height) * 100}%`,
+        width: `${100 / crop.width}%`,
+        height: `${100 / crop.height}%`,
+      }
+    : { left: 0, top: 0, width: "100%", height: "100%" };
+
+  return (
+    <div
+      className={`crop-overlay annotation-overlay${tool ? "" : " annotation-overlay--readonly"}`}
+      aria-label="注釈"
+      style={style}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <div className="annotation-overlay__page" style={pageStyle}>
+        {existing.map((annotation, index) => (
+          <div
+            key={`existing-${index}`}
+            className="annotation-overlay__existing"
+            style={toPercent(annotation.rect)}
+            title={annotation.text ? `${annotation.subtype}: ${annotation.text}` : annotation.subtype}
+          />
+        ))}
+        {annotations.map((annotation) => {
+          switch (annotation.kind) {
+            case "note":
+              return (
+                <div
+                  key={annotation.id}
+                  className="annotation-overlay__note"
+                  style={{ left: `${annotation.point.x * 100}%`, top: `${annotation.point.y * 100}%` }}
+                  title={annotation.text}
+                />
+              );
+            case "highlight":
+              return (
+                <div key={annotation.id} className="annotation-overlay__highlight" style={toPercent(annotation.rect)} />
+              );
+            case "ink":
+              return (
+                <svg
+                  key={annotation.id}
+                  className="annotation-overlay__ink"
+                  viewBox="0 0 100 100"
+                  preserveAspectRatio="none"
+                >
+                  <polyline points={toPolyline(annotation.points)} />
+                </svg>
+              );
+          }
+        })}
+        {draft && tool === "highlight" && (
+          <div
+            className="annotation-overlay__highlight annotation-overlay__highlight--draft"
+            style={toPercent(toRect(draft[0], draft[draft.length - 1]))}
+          />
+        )}
+        {draft && tool === "ink" && (
+          <svg className="annotation-overlay__ink" viewBox="0 0 100 100" preserveAspectRatio="none">
+            <polyline points={toPolyline(draft)} />
+          </svg>
+        )}
+      </div>
+    </div>
+  );
+};
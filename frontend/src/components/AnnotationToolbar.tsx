@@ -0,0 +1,96 @@
+import type { FC } from "react";
+import {
+  ANNOTATION_KIND_LABELS,
+  type AnnotationKind,
+  type ExistingAnnotation,
+  type PageAnnotation,
+} from "../lib/annotation";
+
+type AnnotationToolbarProps = {
+  tool: AnnotationKind | null;
+  onToolChange: (tool: AnnotationKind | null) => void;
+  noteText: string;
+  onNoteTextChange: (text: string) => void;
+  annotations: PageAnnotation[];
+  existing: ExistingAnnotation[];
+  onRemove: (id: string) => void;
+  error: string | null;
+  disabled: boolean;
+};
+
+const TOOLS: AnnotationKind[] = ["note", "highlight", "ink"];
+
+const TOOL_HINTS: Record<AnnotationKind, string> = {
+  note: "メモの内容を入力してから、ページ上の貼り付ける位置をクリックします。",
+  highlight: "ページ上をドラッグして強調する範囲を追加します。",
+  ink: "ページ上をドラッグして線を描きます。",
+};
+
+export const AnnotationToolbar: FC<AnnotationToolbarProps> = ({
+  tool,
+  onToolChange,
+  noteText,
+  onNoteTextChange,
+  annotations,
+  existing,
+  onRemove,
+  error,
+  disabled,
+}) => (
+  <div className="crop-toolbar annotation-toolbar">
+    <div className="button-row">
+      {TOOLS.map((kind) => (
+        <button
+          key={kind}
+          type="button"
+          aria-pressed={tool === kind}
+          onClick={() => onToolChange(tool === kind ? null : kind)}
+          disabled={disabled}
+        >
+          {ANNOTATION_KIND_LABELS[kind]}
+        </button>
+      ))}
+      {tool === "note" && (
+        <label className="annotation-toolbar__note">
+          メモの内容
+          <input type="text" value={noteText} onChange={(event) => onNoteTextChange(event.target.value)} />
+        </label>
+      )}
+    </div>
+    {tool && <p className="hint">{TOOL_HINTS[tool]}</p>}
+    {annotations.length > 0 && (
+      <ul className="annotation-toolbar__list" aria-label="このページの注釈">
+        {annotations.map((annotation) => (
+          <li key={annotation.id}>
+            <span>
+              {ANNOTATION_KIND_LABELS[annotation.kind]}
+              {annotation.kind === "note" && `: ${annotation.text}`}
+            </span>
+            <button
+              type="button"
+              onClick={() => onRemove(annotation.id)}
+              disabled={disabled}
+              aria-label={`${ANNOTATION_KIND_LABELS[annotation.kind]}を削除`}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+    {existing.length > 0 && (
+      <details className="annotation-toolbar__existing">
+        <summary>元のPDFの注釈（{existing.length}件）</summary>
+        <ul>
+          {existing.map((annotation, index) => (
+            <li key={index}>
+              {annotation.subtype}
+              {annotation.text && `: ${annotation.text}`}
+            </li>
+          ))}
+        </ul>
+      </details>
+    )}
+    {error && <span className="error-text">{error}</span>}
+  </div>
+);
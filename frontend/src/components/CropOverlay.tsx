@@ -0,0 +1,76 @@
+import { useRef, type FC, type PointerEvent } from "react";
+import type { CropRect } from "../lib/crop";
+
+type CropOverlayProps = {
+  /** 表示している向きでの相対座標 */
+  rect: CropRect | null;
+  onRectChange: (rect: CropRect) => void;
+};
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * プレビューの上に重ね、ドラッグした矩形をトリミング範囲として返す。
+ */
+export const CropOverlay: FC<CropOverlayProps> = ({ rect, onRectChange }) => {
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+
+  const toRatio = (event: PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    if (bounds.width <= 0 || bounds.height <= 0) return null;
+    return {
+      x: clamp01((event.clientX - bounds.left) / bounds.width),
+      y: clamp01((event.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    const point = toRatio(event);
+    if (!point) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    startRef.current = point;
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const start = startRef.current;
+    if (!start) return;
+    const point = toRatio(event);
+    if (!point) return;
+    onRectChange({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    startRef.current = null;
+    event.currentTarget.releasePointerCapture?.(event.pointerId);
+  };
+
+  return (
+    <div
+      className="crop-overlay"
+      aria-label="トリミング範囲"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {rect && (
+        <div
+          className="crop-overlay__rect"
+          style={{
+            left: `${rect.x * 100}%`,
+            top: `${rect.y * 100}%`,
+            width: `${rect.width * 100}%`,
+            height: `${rect.height * 100}%`,
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import type { FC } from "react";
+
+type CropToolbarProps = {
+  editing: boolean;
+  hasCrop: boolean;
+  hasDraft: boolean;
+  selectionCount: number;
+  onStart: () => void;
+  onAutoTrim: () => void;
+  onApply: () => void;
+  onApplyToSelection: () => void;
+  onClear: () => void;
+  onCancel: () => void;
+  error: string | null;
+  disabled: boolean;
+};
+
+export const CropToolbar: FC<CropToolbarProps> = ({
+  editing,
+  hasCrop,
+  hasDraft,
+  selectionCount,
+  onStart,
+  onAutoTrim,
+  onApply,
+  onApplyToSelection,
+  onClear,
+  onCancel,
+  error,
+  disabled,
+}) => (
+  <div className="crop-toolbar">
+    {editing ? (
+      <>
+        <div className="button-row">
+          <button type="button" onClick={onAutoTrim} disabled={disabled}>
+            余白を自動検出
+          </button>
+          <button type="button" onClick={onApply} disabled={disabled || !hasDraft}>
+            このページに適用
+          </button>
+          <button type="button" onClick={onApplyToSelection} disabled={disabled || !hasDraft || selectionCount === 0}>
+            選択ページに適用{selectionCount > 0 ? `（${selectionCount}ページ）` : ""}
+          </button>
+          <button type="button" onClick={onCancel}>
+            キャンセル
+          </button>
+        </div>
+        <p className="hint">ページ上をドラッグして残す範囲を指定します。</p>
+      </>
+    ) : (
+      <div className="button-row">
+        <button type="button" onClick={onStart} disabled={disabled}>
+          トリミング
+        </button>
+        <button type="button" onClick={onClear} disabled={disabled || !hasCrop}>
+          トリミングを解除
+        </button>
+      </div>
+    )}
+    {error && <span className="error-text">{error}</span>}
+  </div>
+);
@@ -0,0 +1,93 @@
+import type { FC } from "react";
+import type { SkewSuggestion } from "../lib/ocr";
+import { formatSkewAngle, toSkewCorrection, type PageSkewMap } from "../lib/skew";
+
+type DeskewPanelProps = {
+  suggestions: SkewSuggestion[];
+  skewMap: PageSkewMap;
+  onDetect: () => void;
+  onAbort: () => void;
+  onApply: (pageNumber: number, correction: number) => void;
+  onApplyAll: () => void;
+  loading: boolean;
+  progress: { current: number; total: number } | null;
+  error: string | null;
+  hasSelection: boolean;
+  disabled: boolean;
+};
+
+export const DeskewPanel: FC<DeskewPanelProps> = ({
+  suggestions,
+  skewMap,
+  onDetect,
+  onAbort,
+  onApply,
+  onApplyAll,
+  loading,
+  progress,
+  error,
+  hasSelection,
+  disabled,
+}) => {
+  const pendingCount = suggestions.filter(
+    (suggestion) => suggestion.angle !== null && skewMap[suggestion.page] !== toSkewCorrection(suggestion.angle)
+  ).length;
+  return (
+    <section className="panel deskew">
+      <div className="controls__group">
+        <p className="label">傾き補正</p>
+        <div className="button-row">
+          <button type="button" onClick={onDetect} disabled={disabled || loading}>
+            {loading ? "推定中..." : hasSelection ? "選択ページの傾きを推定" : "傾きを推定"}
+          </button>
+          {loading && (
+            <button type="button" onClick={onAbort}>
+              処理中止
+            </button>
+          )}
+          <button type="button" onClick={onApplyAll} disabled={disabled || loading || pendingCount === 0}>
+            すべて適用
+          </button>
+        </div>
+        {progress && (
+          <span className="pill pill--render">
+            {progress.current}/{progress.total}
+          </span>
+        )}
+        <p className="hint">
+          1〜5°程度の傾きを推定します。適用したページは保存時に内容を回転させてまっすぐにします。
+        </p>
+        {error && <span className="error-text">{error}</span>}
+        {suggestions.length > 0 && (
+          <ol className="deskew__list" aria-label="傾きの推定結果">
+            {suggestions.map((suggestion) => {
+              const applied = skewMap[suggestion.page] ?? 0;
+              const correction = suggestion.angle === null ? null : toSkewCorrection(suggestion.angle);
+              return (
+                <li key={suggestion.page}>
+                  <span className="deskew__page">p.{suggestion.page}</span>
+                  <span className="deskew__angle">
+                    {correction === null ? "推定できません" : `補正 ${formatSkewAngle(correction)}`}
+                  </span>
+                  {correction !== null && (
+                    <span className="deskew__confidence">信頼度 {suggestion.confidence.toFixed(2)}</span>
+                  )}
+                  {correction !== null && correction !== 0 && applied !== correction && (
+                    <button type="button" onClick={() => onApply(suggestion.page, correction)} disabled={disabled}>
+                      適用
+                    </button>
+                  )}
+                  {applied !== 0 && (
+                    <button type="button" onClick={() => onApply(suggestion.page, 0)} disabled={disabled}>
+                      解除
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,59 @@
+import type { FC } from "react";
+import { describeFinding, summarizeFindings, type ActiveContentFinding } from "../lib/sanitize";
+
+type DocumentInfoPanelProps = {
+  /** 読み込んだPDFで見つかったもの。調べている間や読み込んでいないときは null */
+  findings: ActiveContentFinding[] | null;
+  sanitize: boolean;
+  onSanitizeChange: (sanitize: boolean) => void;
+  /** 直前の保存で取り除いたもの */
+  removed: ActiveContentFinding[] | null;
+  disabled: boolean;
+};
+
+export const DocumentInfoPanel: FC<DocumentInfoPanelProps> = ({
+  findings,
+  sanitize,
+  onSanitizeChange,
+  removed,
+  disabled,
+}) => (
+  <section className="panel document-info">
+    <div className="controls__group">
+      <p className="label">文書の情報</p>
+      {findings && findings.length === 0 && (
+        <p className="hint">JavaScript・自動実行・添付ファイル・外部へのリンクは見つかりませんでした。</p>
+      )}
+      {findings && findings.length > 0 && (
+        <>
+          <p className="error-text" role="alert">
+            共有する前に確認してください: {summarizeFindings(findings)}
+          </p>
+          <ul className="document-info__list" aria-label="見つかった内容">
+            {findings.map((finding, index) => (
+              <li key={index}>{describeFinding(finding)}</li>
+            ))}
+          </ul>
+        </>
+      )}
+      <label className="toggle-row">
+        <input
+          type="checkbox"
+          name="chkbox-sanitize"
+          checked={sanitize}
+          onChange={(event) => onSanitizeChange(event.target.checked)}
+          disabled={disabled}
+        />
+        保存時にスクリプト・添付ファイル・外部へのリンクを取り除く
+      </label>
+      {removed && (
+        <p className="hint" aria-live="polite">
+          {removed.length > 0 ? `取り除いたもの: ${summarizeFindings(removed)}` : "取り除いたものはありません"}
+        </p>
+      )}
+      <p className="hint">
+        文書・ページの JavaScript、開いたときなどに自動で実行する動作、添付ファイル、外部のファイルやWebページへのリンクを出力から取り除きます。ページ内を移動するリンクとしおりの移動先は残します。
+      </p>
+    </div>
+  </section>
+);
@@ -0,0 +1,112 @@
+import type { CSSProperties, FC } from "react";
+import type { CropRect } from "../lib/crop";
+import { formFieldValue, type FormValues, type PageFormField } from "../lib/form";
+
+type FormFieldOverlayProps = {
+  /** 表示している向きでの相対座標 */
+  fields: PageFormField[];
+  values: FormValues;
+  onChange: (name: string, value: string | boolean) => void;
+  /** トリミングした範囲だけを描いているときの範囲（表示している向きでの相対座標） */
+  crop?: CropRect;
+  /** 傾き補正の表示に合わせてプレビューと一緒に回す */
+  style?: CSSProperties;
+};
+
+/**
+ * プレビューの上に重ね、フォームの入力欄の位置に入力できる部品を置く。
+ * 部品は回転したページでも正立させ、位置だけをページの向きに合わせる。
+ */
+export const FormFieldOverlay: FC<FormFieldOverlayProps> = ({ fields, values, onChange, crop, style }) => {
+  // トリミングした範囲だけを描いているときは、ページ全体を表す枠をずらして重ねる
+  const pageStyle = crop
+    ? {
+        left: `${(-crop.x / crop.width) * 100}%`,
+        top: `${(-crop.y / crop.height) * 100}%`,
+        width: `${100 / crop.width}%`,
+        height: `${100 / crop.height}%`,
+      }
+    : { left: 0, top: 0, width: "100%", height: "100%" };
+
+  return (
+    <div className="form-overlay" style={style}>
+      <div className="form-overlay__page" style={pageStyle}>
+        {fields.map((field, index) => {
+          const value = formFieldValue(field, values);
+          const position = {
+            left: `${field.rect.x * 100}%`,
+            top: `${field.rect.y * 100}%`,
+            width: `${field.rect.width * 100}%`,
+            height: `${field.rect.height * 100}%`,
+          };
+          const common = {
+            className: "form-overlay__field",
+            style: position,
+            disabled: field.readOnly,
+          };
+          switch (field.kind) {
+            case "text":
+              return field.multiline ? (
+                <textarea
+                  key={index}
+                  {...common}
+                  aria-label={field.name}
+                  value={String(value)}
+                  onChange={(event) => onChange(field.name, event.target.value)}
+                />
+              ) : (
+                <input
+                  key={index}
+                  {...common}
+                  type="text"
+                  aria-label={field.name}
+                  value={String(value)}
+                  onChange={(event) => onChange(field.name, event.target.value)}
+                />
+              );
+            case "checkbox":
+              return (
+                <input
+                  key={index}
+                  {...common}
+                  type="checkbox"
+                  aria-label={field.name}
+                  checked={value === true}
+                  onChange={(event) => onChange(field.name, event.target.checked)}
+                />
+              );
+            case "radio":
+              return (
+                <input
+                  key={index}
+                  {...common}
+                  type="radio"
+                  name={`form-field-${field.name}`}
+                  aria-label={`${field.name}: ${field.exportValue}`}
+                  checked={value === field.exportValue}
+                  onChange={() => onChange(field.name, field.exportValue ?? "")}
+                />
+              );
+            case "dropdown":
+              return (
+                <select
+                  key={index}
+                  {...common}
+                  aria-label={field.name}
+                  value={String(value)}
+                  onChange={(event) => onChange(field.name, event.target.value)}
+                >
+                  <option value="">（未選択）</option>
+                  {(field.options ?? []).map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              );
+          }
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import type { FC } from "react";
+
+type FormPanelProps = {
+  /** 値を変更した入力欄の数 */
+  changedCount: number;
+  flatten: boolean;
+  onFlattenChange: (flatten: boolean) => void;
+  onReset: () => void;
+  disabled: boolean;
+};
+
+export const FormPanel: FC<FormPanelProps> = ({ changedCount, flatten, onFlattenChange, onReset, disabled }) => (
+  <section className="panel form-panel">
+    <div className="controls__group">
+      <p className="label">フォーム</p>
+      <div className="button-row">
+        <span className="hint">入力した欄: {changedCount}</span>
+        <button type="button" onClick={onReset} disabled={disabled || changedCount === 0}>
+          入力を元に戻す
+        </button>
+      </div>
+      <label className="toggle-row">
+        <input
+          type="checkbox"
+          name="chkbox-flatten-forms"
+          checked={flatten}
+          onChange={(event) => onFlattenChange(event.target.checked)}
+          disabled={disabled}
+        />
+        保存時にフォームを平坦化する
+      </label>
+      <p className="hint">
+        プレビューに表示した入力欄に値を入力できます（結合したPDFは先頭のファイルのフォームのみ）。平坦化すると値をページの内容として描き、編集できなくなります。割り付けでは平坦化しない入力欄は出力されません。
+      </p>
+    </div>
+  </section>
+);
@@ -2,11 +2,13 @@ import type { FC } from "react";
 
 type HeaderProps = {
   fileName: string;
+  /** 結合した2つ目以降のPDFの数 */
+  extraFileCount?: number;
   onReset: () => void;
   onHelpOpen: () => void;
 };
 
-export const Header: FC<HeaderProps> = ({ fileName, onReset, onHelpOpen }) => {
+export const Header: FC<HeaderProps> = ({ fileName, extraFileCount = 0, onReset, onHelpOpen }) => {
   return (
     <header className="app__header">
       <div className="brand">
@@ -30,7 +32,7 @@ export const Header: FC<HeaderProps> = ({ fileName, onReset, onHelpOpen }) => {
         </button>
         <div className="file-chip">
           <span className="chip-label">選択中</span>
-          <span className="chip-value">{fileName || "未選択"}</span>
+          <span className="chip-value">{fileName ? (extraFileCount > 0 ? `${fileName} ほか${extraFileCount}件` : fileName) : "未選択"}</span>
         </div>
         <button className="reset-btn" onClick={onReset}>
           状態をリセット
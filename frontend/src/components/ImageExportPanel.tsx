@@ -0,0 +1,92 @@
+import type { FC } from "react";
+import { IMAGE_EXPORT_DPI_OPTIONS, type ImageFormat } from "../lib/image-export";
+
+type ImageExportPanelProps = {
+  format: ImageFormat;
+  onFormatChange: (format: ImageFormat) => void;
+  dpi: number;
+  onDpiChange: (dpi: number) => void;
+  onExport: () => void;
+  onAbort: () => void;
+  loading: boolean;
+  progress: { current: number; total: number } | null;
+  error: string | null;
+  hasSelection: boolean;
+  disabled: boolean;
+};
+
+export const ImageExportPanel: FC<ImageExportPanelProps> = ({
+  format,
+  onFormatChange,
+  dpi,
+  onDpiChange,
+  onExport,
+  onAbort,
+  loading,
+  progress,
+  error,
+  hasSelection,
+  disabled,
+}) => (
+  <section className="panel image-export">
+    <div className="controls__group">
+      <p className="label">画像で書き出し</p>
+      <div className="image-export__options">
+        <div className="image-export__formats" role="radiogroup" aria-label="画像の形式">
+          <label>
+            <input
+              type="radio"
+              name="radio-image-format"
+              checked={format === "png"}
+              onChange={() => onFormatChange("png")}
+              disabled={loading}
+            />
+            PNG
+          </label>
+          <label>
+            <input
+              type="radio"
+              name="radio-image-format"
+              checked={format === "jpeg"}
+              onChange={() => onFormatChange("jpeg")}
+              disabled={loading}
+            />
+            JPEG
+          </label>
+        </div>
+        <label className="image-export__dpi">
+          <span className="label inline">解像度</span>
+          <select
+            name="select-image-dpi"
+            value={dpi}
+            onChange={(event) => onDpiChange(Number(event.target.value))}
+            disabled={loading}
+          >
+            {IMAGE_EXPORT_DPI_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option} dpi
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="button-row">
+        <button type="button" onClick={onExport} disabled={disabled || loading}>
+          {loading ? "書き出し中..." : hasSelection ? "選択ページを画像で保存" : "全ページを画像で保存"}
+        </button>
+        {loading && (
+          <button type="button" onClick={onAbort}>
+            処理中止
+          </button>
+        )}
+      </div>
+      {progress && (
+        <span className="pill pill--render">
+          {progress.current}/{progress.total}
+        </span>
+      )}
+      <p className="hint">現在の回転・トリミングで画像にし、ZIPにまとめて保存します。削除したページは含めません。</p>
+      {error && <span className="error-text">{error}</span>}
+    </div>
+  </section>
+);
@@ -0,0 +1,116 @@
+import type { FC } from "react";
+import { NUP_PAGES_PER_SHEET_OPTIONS, type ImpositionLayout, type ImpositionOptions } from "../lib/imposition";
+import { PAPER_ORIENTATION_OPTIONS, PAPER_SIZE_OPTIONS, type PaperOrientation, type PaperSize } from "../lib/page-size";
+
+type ImpositionPanelProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  options: ImpositionOptions;
+  onOptionsChange: (options: ImpositionOptions) => void;
+  disabled: boolean;
+};
+
+export const ImpositionPanel: FC<ImpositionPanelProps> = ({
+  enabled,
+  onEnabledChange,
+  options,
+  onOptionsChange,
+  disabled,
+}) => {
+  const update = (patch: Partial<ImpositionOptions>) => onOptionsChange({ ...options, ...patch });
+  const optionsDisabled = disabled || !enabled;
+  const setLayout = (layout: ImpositionLayout) => update({ layout });
+
+  return (
+    <section className="panel imposition">
+      <div className="controls__group">
+        <label className="toggle-row">
+          <input
+            type="checkbox"
+            name="chkbox-imposition"
+            checked={enabled}
+            onChange={(event) => onEnabledChange(event.target.checked)}
+            disabled={disabled}
+          />
+          割り付けて保存
+        </label>
+        <div className="page-size__options" role="radiogroup" aria-label="割り付けの方法">
+          <label>
+            <input
+              type="radio"
+              name="radio-imposition-layout"
+              checked={options.layout === "nup"}
+              onChange={() => setLayout("nup")}
+              disabled={optionsDisabled}
+            />
+            N-up
+          </label>
+          <label>
+            <input
+              type="radio"
+              name="radio-imposition-layout"
+              checked={options.layout === "booklet"}
+              onChange={() => setLayout("booklet")}
+              disabled={optionsDisabled}
+            />
+            中綴じ冊子
+          </label>
+        </div>
+        <div className="page-size__options">
+          {options.layout === "nup" && (
+            <label className="page-size__field">
+              <span className="label inline">1面のページ数</span>
+              <select
+                name="select-imposition-pages"
+                value={options.pagesPerSheet}
+                onChange={(event) => update({ pagesPerSheet: Number(event.target.value) })}
+                disabled={optionsDisabled}
+              >
+                {NUP_PAGES_PER_SHEET_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="page-size__field">
+            <span className="label inline">割り付ける用紙</span>
+            <select
+              name="select-imposition-paper"
+              value={options.paper}
+              onChange={(event) => update({ paper: event.target.value as PaperSize })}
+              disabled={optionsDisabled}
+            >
+              {PAPER_SIZE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="page-size__field">
+            <span className="label inline">用紙の向き</span>
+            <select
+              name="select-imposition-orientation"
+              value={options.orientation}
+              onChange={(event) => update({ orientation: event.target.value as PaperOrientation })}
+              disabled={optionsDisabled}
+            >
+              {PAPER_ORIENTATION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <p className="hint">
+          {options.layout === "booklet"
+            ? "4の倍数になるよう白紙を補い、両面印刷して二つ折りにできる順に2ページずつ並べます。"
+            : "回転後の向きのまま、左上から順にページを並べます。"}
+        </p>
+      </div>
+    </section>
+  );
+};
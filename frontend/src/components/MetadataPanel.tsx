@@ -0,0 +1,43 @@
+import type { FC } from "react";
+import { METADATA_FIELDS, type DocumentMetadata } from "../lib/metadata";
+
+type MetadataPanelProps = {
+  metadata: DocumentMetadata;
+  onMetadataChange: (metadata: DocumentMetadata) => void;
+  strip: boolean;
+  onStripChange: (strip: boolean) => void;
+  disabled: boolean;
+};
+
+export const MetadataPanel: FC<MetadataPanelProps> = ({ metadata, onMetadataChange, strip, onStripChange, disabled }) => (
+  <section className="panel metadata">
+    <div className="controls__group">
+      <p className="label">文書のプロパティ</p>
+      <div className="metadata__fields">
+        {METADATA_FIELDS.map((field) => (
+          <label key={field.key} className="metadata__field">
+            <span className="label inline">{field.label}</span>
+            <input
+              type="text"
+              name={`input-metadata-${field.key}`}
+              value={metadata[field.key]}
+              onChange={(event) => onMetadataChange({ ...metadata, [field.key]: event.target.value })}
+              disabled={disabled || strip}
+            />
+          </label>
+        ))}
+      </div>
+      <label className="toggle-row">
+        <input
+          type="checkbox"
+          name="chkbox-strip-metadata"
+          checked={strip}
+          onChange={(event) => onStripChange(event.target.checked)}
+          disabled={disabled}
+        />
+        保存時にメタデータをすべて削除する
+      </label>
+      <p className="hint">結合したPDFは先頭のファイルのプロパティを引き継ぎます。空の項目は保存時に削除します。</p>
+    </div>
+  </section>
+);
@@ -0,0 +1,131 @@
+import type { FC } from "react";
+import {
+  MAX_OPTIMIZE_QUALITY,
+  MIN_OPTIMIZE_QUALITY,
+  OPTIMIZE_DPI_OPTIONS,
+  formatFileSize,
+  type ImageOptimizationOptions,
+} from "../lib/optimize";
+
+type OptimizePanelProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  options: ImageOptimizationOptions;
+  onOptionsChange: (options: ImageOptimizationOptions) => void;
+  /** 元のファイルの合計と、圧縮後の推定サイズ（バイト）。調べている間や失敗したときは null */
+  estimate: { original: number; optimized: number } | null;
+  /** 直前に保存した（確かめている間は、これから保存する）ファイルの大きさ（バイト） */
+  outputSize: number | null;
+  /** 圧縮したファイルの大きさを見せて、ダウンロードするかを確かめている */
+  confirmingDownload: boolean;
+  onConfirmDownload: (confirmed: boolean) => void;
+  disabled: boolean;
+};
+
+const toInteger = (value: string): number => {
+  const next = Number(value);
+  return Number.isFinite(next) ? Math.trunc(next) : 0;
+};
+
+export const OptimizePanel: FC<OptimizePanelProps> = ({
+  enabled,
+  onEnabledChange,
+  options,
+  onOptionsChange,
+  estimate,
+  outputSize,
+  confirmingDownload,
+  onConfirmDownload,
+  disabled,
+}) => {
+  const update = (patch: Partial<ImageOptimizationOptions>) => onOptionsChange({ ...options, ...patch });
+  const optionsDisabled = disabled || !enabled;
+
+  return (
+    <section className="panel optimize">
+      <div className="controls__group">
+        <label className="toggle-row">
+          <input
+            type="checkbox"
+            name="chkbox-optimize"
+            checked={enabled}
+            onChange={(event) => onEnabledChange(event.target.checked)}
+            disabled={disabled}
+          />
+          保存時に画像を圧縮する
+        </label>
+        <div className="page-size__options">
+          <label className="page-size__field">
+            <span className="label inline">画像の解像度</span>
+            <select
+              name="select-optimize-dpi"
+              value={options.dpi}
+              onChange={(event) => update({ dpi: Number(event.target.value) })}
+              disabled={optionsDisabled}
+            >
+              {OPTIMIZE_DPI_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option} dpi
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="page-size__field">
+            <span className="label inline">JPEG の品質</span>
+            <input
+              type="number"
+              name="input-optimize-quality"
+              min={MIN_OPTIMIZE_QUALITY}
+              max={MAX_OPTIMIZE_QUALITY}
+              step={5}
+              value={options.quality}
+              onChange={(event) =>
+                update({
+                  quality: Math.min(MAX_OPTIMIZE_QUALITY, Math.max(MIN_OPTIMIZE_QUALITY, toInteger(event.target.value))),
+                })
+              }
+              disabled={optionsDisabled}
+            />
+          </label>
+          <label className="toggle-row">
+            <input
+              type="checkbox"
+              name="chkbox-optimize-grayscale"
+              checked={options.grayscale}
+              onChange={(event) => update({ grayscale: event.target.checked })}
+              disabled={optionsDisabled}
+            />
+            グレースケールにする
+          </label>
+        </div>
+        {enabled && estimate && (
+          <p className="hint" aria-live="polite">
+            推定サイズ: 約 {formatFileSize(estimate.optimized)}（元のファイル {formatFileSize(estimate.original)}）
+          </p>
+        )}
+        {confirmingDownload && outputSize !== null && (
+          <div role="group" aria-label="ダウンロードの確認">
+            <p className="hint" role="status">
+              圧縮後のファイル: {formatFileSize(outputSize)}
+              {estimate && `（推定 約 ${formatFileSize(estimate.optimized)}）`}。ダウンロードしますか？
+            </p>
+            <div className="button-row">
+              <button type="button" onClick={() => onConfirmDownload(true)}>
+                ダウンロード
+              </button>
+              <button type="button" onClick={() => onConfirmDownload(false)}>
+                やめる
+              </button>
+            </div>
+          </div>
+        )}
+        {!confirmingDownload && outputSize !== null && (
+          <p className="hint">保存したファイル: {formatFileSize(outputSize)}</p>
+        )}
+        <p className="hint">
+          ページに置いた画像を指定の解像度まで縮小して JPEG にし直し、使われていないデータを取り除きます。処理はすべてこの端末の中で行います。推定は元のファイル全体の画像から求めた目安です。圧縮して保存するときは、実際の大きさを確かめてからダウンロードします。
+        </p>
+      </div>
+    </section>
+  );
+};
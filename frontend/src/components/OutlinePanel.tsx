@@ -0,0 +1,128 @@
+import { useState, type FC } from "react";
+import type { OutlineItem } from "../lib/outline";
+
+type OutlinePanelProps = {
+  outline: OutlineItem[];
+  /** 表示順のページ番号（しおりの移動先を何ページ目かで表示する） */
+  pageOrder: number[];
+  deletedPages: number[];
+  currentPage: number;
+  onSelect: (pageNumber: number) => void;
+  /** 現在のページを指すしおりを追加する */
+  onAdd: (title: string) => void;
+  onRename: (id: string, title: string) => void;
+  onRemove: (id: string) => void;
+  disabled: boolean;
+};
+
+export const OutlinePanel: FC<OutlinePanelProps> = ({
+  outline,
+  pageOrder,
+  deletedPages,
+  currentPage,
+  onSelect,
+  onAdd,
+  onRename,
+  onRemove,
+  disabled,
+}) => {
+  const [newTitle, setNewTitle] = useState("");
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null);
+  const deletedSet = new Set(deletedPages);
+
+  const formatTarget = (pageNumber: number | null): string => {
+    if (pageNumber === null) return "移動先なし";
+    const index = pageOrder.indexOf(pageNumber);
+    if (index < 0) return "移動先なし";
+    return deletedSet.has(pageNumber) ? `p.${index + 1}（削除）` : `p.${index + 1}`;
+  };
+
+  const commitRename = () => {
+    if (!editing) return;
+    // 空の名前は変更しない
+    if (editing.title.trim()) onRename(editing.id, editing.title);
+    setEditing(null);
+  };
+
+  const renderItems = (items: OutlineItem[]) => (
+    <ul className="outline__list">
+      {items.map((item) => (
+        <li key={item.id} className="outline__item">
+          <div className="outline__row">
+            {editing?.id === item.id ? (
+              <input
+                type="text"
+                name="input-outline-rename"
+                aria-label="しおりの名前"
+                value={editing.title}
+                autoFocus
+                onChange={(event) => setEditing({ id: item.id, title: event.target.value })}
+                onBlur={commitRename}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") commitRename();
+                  if (event.key === "Escape") setEditing(null);
+                }}
+              />
+            ) : (
+              <button
+                type="button"
+                className={`outline__title${item.pageNumber === currentPage ? " outline__title--current" : ""}`}
+                onClick={() => item.pageNumber !== null && onSelect(item.pageNumber)}
+                onDoubleClick={() => !disabled && setEditing({ id: item.id, title: item.title })}
+                disabled={item.pageNumber === null || !pageOrder.includes(item.pageNumber)}
+                title="クリックでページへ移動、ダブルクリックで名前を変更"
+              >
+                {item.title}
+              </button>
+            )}
+            <span className="outline__page">{formatTarget(item.pageNumber)}</span>
+            <button
+              type="button"
+              className="outline__remove"
+              aria-label={`しおり「${item.title}」を削除`}
+              onClick={() => onRemove(item.id)}
+              disabled={disabled}
+            >
+              ✕
+            </button>
+          </div>
+          {item.children.length > 0 && renderItems(item.children)}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <section className="panel outline">
+      <div className="controls__group">
+        <p className="label">しおり</p>
+        {outline.length > 0 ? renderItems(outline) : <p className="hint">しおりはありません。</p>}
+        <form
+          className="outline__add"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!newTitle.trim()) return;
+            onAdd(newTitle);
+            setNewTitle("");
+          }}
+        >
+          <input
+            type="text"
+            name="input-outline-title"
+            aria-label="追加するしおりの名前"
+            placeholder="しおりの名前"
+            value={newTitle}
+            onChange={(event) => setNewTitle(event.target.value)}
+            disabled={disabled}
+          />
+          <button type="submit" disabled={disabled || !newTitle.trim()}>
+            しおりを追加
+          </button>
+        </form>
+        <p className="hint">
+          現在のページを指すしおりを追加します。削除したページのしおりは、保存時に並び順で次のページへ移します。
+        </p>
+      </div>
+    </section>
+  );
+};
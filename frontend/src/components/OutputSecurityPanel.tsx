@@ -0,0 +1,73 @@
+import type { FC } from "react";
+
+/** none: 暗号化しない、same: 元PDFのパスワードで暗号化、new: 新しいパスワードで暗号化 */
+export type OutputEncryption = "none" | "same" | "new";
+
+type OutputSecurityPanelProps = {
+  encryption: OutputEncryption;
+  onEncryptionChange: (encryption: OutputEncryption) => void;
+  newPassword: string;
+  onNewPasswordChange: (password: string) => void;
+  /** 元PDFをパスワード付きで開いたか（false なら「元のパスワード」は選べない） */
+  hasSourcePassword: boolean;
+  disabled: boolean;
+};
+
+export const OutputSecurityPanel: FC<OutputSecurityPanelProps> = ({
+  encryption,
+  onEncryptionChange,
+  newPassword,
+  onNewPasswordChange,
+  hasSourcePassword,
+  disabled,
+}) => (
+  <section className="panel output-security">
+    <p className="label">保存するPDFのパスワード</p>
+    <div className="output-security__options" role="radiogroup" aria-label="保存するPDFの暗号化">
+      <label>
+        <input
+          type="radio"
+          name="radio-output-encryption"
+          checked={encryption === "none"}
+          onChange={() => onEncryptionChange("none")}
+          disabled={disabled}
+        />
+        設定しない
+      </label>
+      <label>
+        <input
+          type="radio"
+          name="radio-output-encryption"
+          checked={encryption === "same"}
+          onChange={() => onEncryptionChange("same")}
+          disabled={disabled || !hasSourcePassword}
+        />
+        元のパスワード
+      </label>
+      <label>
+        <input
+          type="radio"
+          name="radio-output-encryption"
+          checked={encryption === "new"}
+          onChange={() => onEncryptionChange("new")}
+          disabled={disabled}
+        />
+        新しいパスワード
+      </label>
+    </div>
+    {encryption === "new" && (
+      <label className="password-field">
+        <span className="label inline">パスワード</span>
+        <input
+          type="password"
+          name="input-output-password"
+          autoComplete="new-password"
+          value={newPassword}
+          onChange={(event) => onNewPasswordChange(event.target.value)}
+          disabled={disabled}
+        />
+      </label>
+    )}
+    <p className="hint">パスワードを設定すると AES-256 で暗号化し、分割・抽出したファイルにも同じパスワードを設定します。</p>
+  </section>
+);
@@ -0,0 +1,132 @@
+import type { FC } from "react";
+import {
+  MAX_PAGE_MARGIN_MM,
+  PAPER_ORIENTATION_OPTIONS,
+  PAPER_SIZE_OPTIONS,
+  type PageSizeNormalization,
+  type PaperOrientation,
+  type PaperSize,
+} from "../lib/page-size";
+
+type PageSizePanelProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  normalization: PageSizeNormalization;
+  onNormalizationChange: (normalization: PageSizeNormalization) => void;
+  preview: boolean;
+  onPreviewChange: (preview: boolean) => void;
+  disabled: boolean;
+};
+
+export const PageSizePanel: FC<PageSizePanelProps> = ({
+  enabled,
+  onEnabledChange,
+  normalization,
+  onNormalizationChange,
+  preview,
+  onPreviewChange,
+  disabled,
+}) => {
+  const update = (patch: Partial<PageSizeNormalization>) => onNormalizationChange({ ...normalization, ...patch });
+  const optionsDisabled = disabled || !enabled;
+
+  return (
+    <section className="panel page-size">
+      <div className="controls__group">
+        <label className="toggle-row">
+          <input
+            type="checkbox"
+            name="chkbox-page-size"
+            checked={enabled}
+            onChange={(event) => onEnabledChange(event.target.checked)}
+            disabled={disabled}
+          />
+          保存時にページサイズをそろえる
+        </label>
+        <div className="page-size__options">
+          <label className="page-size__field">
+            <span className="label inline">用紙</span>
+            <select
+              name="select-page-size-paper"
+              value={normalization.paper}
+              onChange={(event) => update({ paper: event.target.value as PaperSize })}
+              disabled={optionsDisabled}
+            >
+              {PAPER_SIZE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="page-size__field">
+            <span className="label inline">向き</span>
+            <select
+              name="select-page-size-orientation"
+              value={normalization.orientation}
+              onChange={(event) => update({ orientation: event.target.value as PaperOrientation })}
+              disabled={optionsDisabled}
+            >
+              {PAPER_ORIENTATION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="page-size__field">
+            <span className="label inline">余白 (mm)</span>
+            <input
+              type="number"
+              name="input-page-size-margin"
+              min={0}
+              max={MAX_PAGE_MARGIN_MM}
+              step={1}
+              value={normalization.marginMm}
+              onChange={(event) => {
+                const value = Number(event.target.value);
+                update({ marginMm: Number.isFinite(value) ? Math.min(MAX_PAGE_MARGIN_MM, Math.max(0, value)) : 0 });
+              }}
+              disabled={optionsDisabled}
+            />
+          </label>
+        </div>
+        <div className="page-size__options" role="radiogroup" aria-label="ページの配置">
+          <label>
+            <input
+              type="radio"
+              name="radio-page-size-fit"
+              checked={normalization.fit === "fit"}
+              onChange={() => update({ fit: "fit" })}
+              disabled={optionsDisabled}
+            />
+            全体を収める
+          </label>
+          <label>
+            <input
+              type="radio"
+              name="radio-page-size-fit"
+              checked={normalization.fit === "fill"}
+              onChange={() => update({ fit: "fill" })}
+              disabled={optionsDisabled}
+            />
+            余白なく埋める
+          </label>
+        </div>
+        <label className="toggle-row">
+          <input
+            type="checkbox"
+            name="chkbox-page-size-preview"
+            checked={preview}
+            onChange={(event) => onPreviewChange(event.target.checked)}
+            disabled={optionsDisabled}
+          />
+          サムネイルで仕上がりを表示
+        </label>
+        <p className="hint">
+          回転・トリミングした後の見た目で各ページを用紙の中央に置きます。埋める場合ははみ出した部分を切り取ります。
+        </p>
+      </div>
+    </section>
+  );
+};
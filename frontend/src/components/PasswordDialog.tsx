@@ -0,0 +1,59 @@
+import { useState, type FC, type FormEvent } from "react";
+import type { PasswordReason } from "../lib/pdf";
+
+type PasswordDialogProps = {
+  fileName: string;
+  reason: PasswordReason;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+};
+
+/**
+ * パスワードで保護されたPDFを開くときにパスワードを尋ねる。
+ * 入力が違った場合は同じダイアログを reason = "incorrect" で出し直す。
+ */
+export const PasswordDialog: FC<PasswordDialogProps> = ({ fileName, reason, onSubmit, onCancel }) => {
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    onSubmit(password);
+  };
+
+  return (
+    <div className="modal" role="dialog" aria-modal="true" aria-label="パスワードの入力">
+      <div className="modal__backdrop" onClick={onCancel} />
+      <form className="modal__card modal__card--narrow" onSubmit={handleSubmit}>
+        <div className="modal__header">
+          <h2>パスワードの入力</h2>
+          <button type="button" onClick={onCancel} aria-label="閉じる">
+            ×
+          </button>
+        </div>
+        <div className="modal__body">
+          <p className="hint">{fileName ? `${fileName} はパスワードで保護されています。` : "パスワードで保護されたPDFです。"}</p>
+          {reason === "incorrect" && <span className="error-text">パスワードが違います。もう一度入力してください。</span>}
+          <label className="password-field">
+            <span className="label inline">パスワード</span>
+            <input
+              type="password"
+              name="input-pdf-password"
+              autoFocus
+              autoComplete="off"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+            />
+          </label>
+          <div className="button-row">
+            <button type="submit" className="save-btn">
+              開く
+            </button>
+            <button type="button" onClick={onCancel}>
+              キャンセル
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import { useRef, useState, type FC, type PointerEvent } from "react";
+import type { CropRect } from "../lib/crop";
+import { MIN_REDACTION_SIZE } from "../lib/redaction";
+
+type RedactionOverlayProps = {
+  /** 表示している向きでの相対座標 */
+  rects: CropRect[];
+  onAdd: (rect: CropRect) => void;
+};
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const toRect = (start: { x: number; y: number }, point: { x: number; y: number }): CropRect => ({
+  x: Math.min(start.x, point.x),
+  y: Math.min(start.y, point.y),
+  width: Math.abs(point.x - start.x),
+  height: Math.abs(point.y - start.y),
+});
+
+/**
+ * プレビューの上に重ね、指定済みの墨消し範囲を黒く表示する。ドラッグした矩形を範囲として追加する。
+ */
+export const RedactionOverlay: FC<RedactionOverlayProps> = ({ rects, onAdd }) => {
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<CropRect | null>(null);
+
+  const toRatio = (event: PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    if (bounds.width <= 0 || bounds.height <= 0) return null;
+    return {
+      x: clamp01((event.clientX - bounds.left) / bounds.width),
+      y: clamp01((event.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    const point = toRatio(event);
+    if (!point) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    startRef.current = point;
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const start = startRef.current;
+    if (!start) return;
+    const point = toRatio(event);
+    if (!point) return;
+    setDraft(toRect(start, point));
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    const start = startRef.current;
+    startRef.current = null;
+    event.currentTarget.releasePointerCapture?.(event.pointerId);
+    setDraft(null);
+    if (!start || event.type === "pointercancel") return;
+    const point = toRatio(event);
+    if (!point) return;
+    const rect = toRect(start, point);
+    // クリックしただけの小さな範囲は追加しない
+    if (rect.width < MIN_REDACTION_SIZE || rect.height < MIN_REDACTION_SIZE) return;
+    onAdd(rect);
+  };
+
+  return (
+    <div
+      className="crop-overlay redaction-overlay"
+      aria-label="墨消し範囲"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {[...rects, ...(draft ? [draft] : [])].map((rect, index) => (
+        <div
+          key={index}
+          className={`redaction-overlay__rect${index >= rects.length ? " redaction-overlay__rect--draft" : ""}`}
+          style={{
+            left: `${rect.x * 100}%`,
+            top: `${rect.y * 100}%`,
+            width: `${rect.width * 100}%`,
+            height: `${rect.height * 100}%`,
+          }}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import type { FC } from "react";
+
+type RedactionToolbarProps = {
+  editing: boolean;
+  hasRedactions: boolean;
+  draftCount: number;
+  /** 墨消し範囲に重なる、抽出できる文字 */
+  redactedText: string[];
+  onStart: () => void;
+  onUndoLast: () => void;
+  onApply: () => void;
+  onClear: () => void;
+  onCancel: () => void;
+  error: string | null;
+  disabled: boolean;
+};
+
+/** 警告に並べる文字の数 */
+const MAX_LISTED_TEXT = 3;
+
+export const RedactionToolbar: FC<RedactionToolbarProps> = ({
+  editing,
+  hasRedactions,
+  draftCount,
+  redactedText,
+  onStart,
+  onUndoLast,
+  onApply,
+  onClear,
+  onCancel,
+  error,
+  disabled,
+}) => (
+  <div className="crop-toolbar">
+    {editing ? (
+      <>
+        <div className="button-row">
+          <button type="button" onClick={onUndoLast} disabled={disabled || draftCount === 0}>
+            最後の範囲を取り消す
+          </button>
+          <button type="button" onClick={onApply} disabled={disabled}>
+            このページに適用{draftCount > 0 ? `（${draftCount}か所）` : ""}
+          </button>
+          <button type="button" onClick={onCancel}>
+            キャンセル
+          </button>
+        </div>
+        <p className="hint">
+          ページ上をドラッグして黒く塗りつぶす範囲を追加します。墨消ししたページは保存時に画像へ置き換え、範囲の下の内容を残しません。
+        </p>
+      </>
+    ) : (
+      <div className="button-row">
+        <button type="button" onClick={onStart} disabled={disabled}>
+          墨消し
+        </button>
+        <button type="button" onClick={onClear} disabled={disabled || !hasRedactions}>
+          墨消しを解除
+        </button>
+      </div>
+    )}
+    {redactedText.length > 0 && (
+      <span className="error-text" role="alert">
+        墨消しする範囲に抽出できる文字があります（{redactedText.length}か所:{" "}
+        {redactedText
+          .slice(0, MAX_LISTED_TEXT)
+          .map((text) => `「${text}」`)
+          .join("")}
+        {redactedText.length > MAX_LISTED_TEXT ? " ほか" : ""}
+        ）。保存時にページ全体を画像にするため、このページの文字は検索・コピーできなくなります。
+      </span>
+    )}
+    {error && <span className="error-text">{error}</span>}
+  </div>
+);
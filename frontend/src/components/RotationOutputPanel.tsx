@@ -0,0 +1,43 @@
+import type { FC } from "react";
+
+type RotationOutputPanelProps = {
+  /** true なら回転を内容に焼き込み、false なら /Rotate で指定する */
+  bake: boolean;
+  onBakeChange: (bake: boolean) => void;
+  disabled: boolean;
+};
+
+export const RotationOutputPanel: FC<RotationOutputPanelProps> = ({ bake, onBakeChange, disabled }) => (
+  <section className="panel rotation-output">
+    <div className="controls__group">
+      <p className="label">回転の保存方法</p>
+      <div className="page-size__options" role="radiogroup" aria-label="回転の保存方法">
+        <label>
+          <input
+            type="radio"
+            name="radio-rotation-output"
+            checked={!bake}
+            onChange={() => onBakeChange(false)}
+            disabled={disabled}
+          />
+          向きの指定（/Rotate）
+        </label>
+        <label>
+          <input
+            type="radio"
+            name="radio-rotation-output"
+            checked={bake}
+            onChange={() => onBakeChange(true)}
+            disabled={disabled}
+          />
+          ページの内容を回す
+        </label>
+      </div>
+      <p className="hint">
+        {bake
+          ? "ページの内容・用紙の大きさ・注釈やリンクを回して保存し、向きの指定を 0 にします。向きの指定を読まないソフトや印刷ドライバでも回転が反映されます。"
+          : "ページに向きの指定を付けて保存します。内容は変えないので、後から向きを戻しても画質などは変わりません。"}
+      </p>
+    </div>
+  </section>
+);
@@ -20,6 +20,26 @@ export const ShortcutsPanel: FC = () => (
         <span className="kbd">Ctrl/Cmd + S</span>
         <span>回転を適用して保存</span>
       </div>
+      <div className="shortcut-card">
+        <span className="kbd">Delete</span>
+        <span>選択を削除/取り消し</span>
+      </div>
+      <div className="shortcut-card">
+        <span className="kbd">Alt + ←/→</span>
+        <span>選択を前後に移動</span>
+      </div>
+      <div className="shortcut-card">
+        <span className="kbd">Ctrl/Cmd + Z</span>
+        <span>元に戻す</span>
+      </div>
+      <div className="shortcut-card">
+        <span className="kbd">Ctrl/Cmd + Shift + Z</span>
+        <span>やり直す</span>
+      </div>
+      <div className="shortcut-card">
+        <span className="kbd">⋮⋮ ドラッグ</span>
+        <span>ページ並べ替え</span>
+      </div>
       <div className="shortcut-card">
         <span className="kbd">ドラッグ</span>
         <span>複数ページ選択</span>
@@ -0,0 +1,66 @@
+import type { FC } from "react";
+import { describeSignature, type PdfSignature } from "../lib/signature";
+
+type SignaturePanelProps = {
+  signatures: PdfSignature[];
+  /** true なら回転とトリミングだけを元のファイルに追記して保存する */
+  incremental: boolean;
+  onIncrementalChange: (incremental: boolean) => void;
+  /** 追記して保存できない編集の名前 */
+  blockers: string[];
+  disabled: boolean;
+};
+
+export const SignaturePanel: FC<SignaturePanelProps> = ({
+  signatures,
+  incremental,
+  onIncrementalChange,
+  blockers,
+  disabled,
+}) => (
+  <section className="panel signature">
+    <div className="controls__group">
+      <p className="label">電子署名</p>
+      <ul className="signature__list" aria-label="電子署名">
+        {signatures.map((signature, index) => (
+          <li key={signature.byteRange.join("-")}>
+            {describeSignature(signature, index)}
+            {signature.signedAt && <span className="hint"> {signature.signedAt}</span>}
+            {!signature.coversWholeFile && <span className="hint">（署名の後に変更あり）</span>}
+          </li>
+        ))}
+      </ul>
+      <div className="page-size__options" role="radiogroup" aria-label="署名のあるPDFの保存方法">
+        <label>
+          <input
+            type="radio"
+            name="radio-signature-save"
+            checked={incremental}
+            onChange={() => onIncrementalChange(true)}
+            disabled={disabled}
+          />
+          追記して保存（署名を保つ）
+        </label>
+        <label>
+          <input
+            type="radio"
+            name="radio-signature-save"
+            checked={!incremental}
+            onChange={() => onIncrementalChange(false)}
+            disabled={disabled}
+          />
+          通常の保存（署名は無効になる）
+        </label>
+      </div>
+      {incremental && blockers.length > 0 && (
+        <p className="error-text" role="alert">
+          追記して保存できない編集があります: {blockers.join("、")}。通常の保存にすると{" "}
+          {signatures.map(describeSignature).join("、")} が無効になります。
+        </p>
+      )}
+      <p className="hint">
+        追記して保存では、回転とトリミングだけを元のファイルの末尾に書き足し、署名した内容は1バイトも変えません。抽出・分割したPDFには署名は残りません。
+      </p>
+    </div>
+  </section>
+);
@@ -0,0 +1,135 @@
+import type { FC } from "react";
+import type { SplitPart } from "../lib/split";
+
+export type SplitMethod = "points" | "ranges";
+
+type SplitPanelProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  method: SplitMethod;
+  onMethodChange: (method: SplitMethod) => void;
+  rangeText: string;
+  onRangeTextChange: (text: string) => void;
+  nameTemplate: string;
+  onNameTemplateChange: (template: string) => void;
+  splitPointCount: number;
+  onToggleSelectionSplit: () => void;
+  onClearSplitPoints: () => void;
+  canToggleSelection: boolean;
+  parts: SplitPart[];
+  error: string | null;
+  onSave: () => void;
+  saving: boolean;
+  disabled: boolean;
+};
+
+export const SplitPanel: FC<SplitPanelProps> = ({
+  enabled,
+  onEnabledChange,
+  method,
+  onMethodChange,
+  rangeText,
+  onRangeTextChange,
+  nameTemplate,
+  onNameTemplateChange,
+  splitPointCount,
+  onToggleSelectionSplit,
+  onClearSplitPoints,
+  canToggleSelection,
+  parts,
+  error,
+  onSave,
+  saving,
+  disabled,
+}) => (
+  <section className="panel split">
+    <label className="toggle-row">
+      <input
+        type="checkbox"
+        name="chkbox-split-mode"
+        checked={enabled}
+        onChange={(event) => onEnabledChange(event.target.checked)}
+        disabled={disabled}
+      />
+      <span className="label inline">分割モード</span>
+    </label>
+    {enabled && (
+      <div className="controls__group">
+        <div className="split__methods" role="radiogroup" aria-label="分割方法">
+          <label>
+            <input
+              type="radio"
+              name="radio-split-method"
+              checked={method === "points"}
+              onChange={() => onMethodChange("points")}
+            />
+            分割点
+          </label>
+          <label>
+            <input
+              type="radio"
+              name="radio-split-method"
+              checked={method === "ranges"}
+              onChange={() => onMethodChange("ranges")}
+            />
+            ページ範囲
+          </label>
+        </div>
+        {method === "points" ? (
+          <>
+            <div className="button-row">
+              <button type="button" onClick={onToggleSelectionSplit} disabled={!canToggleSelection}>
+                選択ページの前で分割/解除
+              </button>
+              <button type="button" onClick={onClearSplitPoints} disabled={splitPointCount === 0}>
+                分割点をクリア
+              </button>
+            </div>
+            <p className="hint">サムネイルの ✂ または選択ページで分割点（新しいファイルの先頭）を切り替えます。</p>
+          </>
+        ) : (
+          <label className="split__field">
+            <span className="label inline">ページ範囲</span>
+            <input
+              type="text"
+              name="input-split-ranges"
+              placeholder="例: 1-3, 4-7, 8"
+              value={rangeText}
+              onChange={(event) => onRangeTextChange(event.target.value)}
+            />
+          </label>
+        )}
+        <label className="split__field">
+          <span className="label inline">ファイル名</span>
+          <input
+            type="text"
+            name="input-split-template"
+            value={nameTemplate}
+            onChange={(event) => onNameTemplateChange(event.target.value)}
+          />
+        </label>
+        <p className="hint">{"{name}: 元のファイル名 / {index}: 連番 / {start}・{end}: 先頭・末尾のページ / {count}: ページ数"}</p>
+        {error ? (
+          <span className="error-text">{error}</span>
+        ) : (
+          <ol className="split__parts" aria-label="分割後のファイル">
+            {parts.map((part) => (
+              <li key={part.fileName}>
+                <span className="split__name">{part.fileName}</span>
+                <span className="split__count">{part.pages.length}ページ</span>
+              </li>
+            ))}
+          </ol>
+        )}
+        <button
+          type="button"
+          className="save-btn"
+          onClick={onSave}
+          disabled={disabled || saving || !!error || parts.length === 0}
+        >
+          {saving ? "作成中..." : `分割して保存（${parts.length}ファイル / zip）`}
+        </button>
+      </div>
+    )}
+  </section>
+);
@@ -0,0 +1,196 @@
+import type { FC } from "react";
+import {
+  DEFAULT_PAGE_STAMP,
+  MAX_STAMP_DIGITS,
+  MAX_STAMP_FONT_SIZE,
+  MIN_STAMP_FONT_SIZE,
+  STAMP_POSITION_OPTIONS,
+  assertStampSettings,
+  formatStampFileName,
+  formatStampText,
+  type PageStamp,
+  type StampPosition,
+  type StampSettings,
+} from "../lib/stamp";
+
+type StampPanelProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  settings: StampSettings;
+  onSettingsChange: (settings: StampSettings) => void;
+  /** {file} に差し込むファイル名 */
+  fileName: string;
+  disabled: boolean;
+};
+
+/** 2つ目以降に追加するスタンプ。連番とは別の位置に押す定型の文字にしておく */
+const ADDED_PAGE_STAMP: PageStamp = { ...DEFAULT_PAGE_STAMP, template: "CONFIDENTIAL", position: "top-center" };
+
+const toInteger = (value: string): number => {
+  const next = Number(value);
+  return Number.isFinite(next) ? Math.trunc(next) : 0;
+};
+
+export const StampPanel: FC<StampPanelProps> = ({
+  enabled,
+  onEnabledChange,
+  settings,
+  onSettingsChange,
+  fileName,
+  disabled,
+}) => {
+  const optionsDisabled = disabled || !enabled;
+  const update = (patch: Partial<StampSettings>) => onSettingsChange({ ...settings, ...patch });
+  const updateStamp = (index: number, patch: Partial<PageStamp>) =>
+    update({ stamps: settings.stamps.map((stamp, current) => (current === index ? { ...stamp, ...patch } : stamp)) });
+
+  let sample: { texts: string[]; error: string | null };
+  try {
+    assertStampSettings(settings);
+    sample = {
+      texts: settings.stamps.map((stamp) => formatStampText(stamp.template, 0, { ...settings, fileName })),
+      error: null,
+    };
+  } catch (error) {
+    sample = { texts: [], error: error instanceof Error ? error.message : "スタンプの指定が不正です" };
+  }
+  const fileNameReplaced =
+    formatStampFileName(fileName).replaced && settings.stamps.some((stamp) => stamp.template.includes("{file}"));
+
+  return (
+    <section className="panel stamp">
+      <div className="controls__group">
+        <label className="toggle-row">
+          <input
+            type="checkbox"
+            name="chkbox-stamp"
+            checked={enabled}
+            onChange={(event) => onEnabledChange(event.target.checked)}
+            disabled={disabled}
+          />
+          保存時にスタンプを押す
+        </label>
+        <div className="page-size__options">
+          <label className="page-size__field">
+            <span className="label inline">開始番号</span>
+            <input
+              type="number"
+              name="input-stamp-start"
+              min={0}
+              step={1}
+              value={settings.startNumber}
+              onChange={(event) => update({ startNumber: Math.max(0, toInteger(event.target.value)) })}
+              disabled={optionsDisabled}
+            />
+          </label>
+          <label className="page-size__field">
+            <span className="label inline">桁数</span>
+            <input
+              type="number"
+              name="input-stamp-digits"
+              min={1}
+              max={MAX_STAMP_DIGITS}
+              step={1}
+              value={settings.digits}
+              onChange={(event) =>
+                update({ digits: Math.min(MAX_STAMP_DIGITS, Math.max(1, toInteger(event.target.value))) })
+              }
+              disabled={optionsDisabled}
+            />
+          </label>
+        </div>
+        <ol className="stamp__list">
+          {settings.stamps.map((stamp, index) => (
+            <li key={index} className="stamp__item">
+              <input
+                type="text"
+                name="input-stamp-template"
+                aria-label={`スタンプ${index + 1}の文字`}
+                value={stamp.template}
+                onChange={(event) => updateStamp(index, { template: event.target.value })}
+                disabled={optionsDisabled}
+              />
+              <div className="page-size__options">
+                <select
+                  name="select-stamp-position"
+                  aria-label={`スタンプ${index + 1}の位置`}
+                  value={stamp.position}
+                  onChange={(event) => updateStamp(index, { position: event.target.value as StampPosition })}
+                  disabled={optionsDisabled}
+                >
+                  {STAMP_POSITION_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <label className="page-size__field">
+                  <span className="label inline">大きさ (pt)</span>
+                  <input
+                    type="number"
+                    name="input-stamp-font-size"
+                    min={MIN_STAMP_FONT_SIZE}
+                    max={MAX_STAMP_FONT_SIZE}
+                    step={1}
+                    value={stamp.fontSize}
+                    onChange={(event) =>
+                      updateStamp(index, {
+                        fontSize: Math.min(
+                          MAX_STAMP_FONT_SIZE,
+                          Math.max(MIN_STAMP_FONT_SIZE, toInteger(event.target.value))
+                        ),
+                      })
+                    }
+                    disabled={optionsDisabled}
+                  />
+                </label>
+                <label className="page-size__field">
+                  <span className="label inline">不透明度 (%)</span>
+                  <input
+                    type="number"
+                    name="input-stamp-opacity"
+                    min={1}
+                    max={100}
+                    step={5}
+                    value={Math.round(stamp.opacity * 100)}
+                    onChange={(event) =>
+                      updateStamp(index, { opacity: Math.min(100, Math.max(1, toInteger(event.target.value))) / 100 })
+                    }
+                    disabled={optionsDisabled}
+                  />
+                </label>
+                <button
+                  type="button"
+                  aria-label={`スタンプ${index + 1}を削除`}
+                  onClick={() => update({ stamps: settings.stamps.filter((_, current) => current !== index) })}
+                  disabled={optionsDisabled || settings.stamps.length <= 1}
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+        <div className="button-row">
+          <button
+            type="button"
+            onClick={() => update({ stamps: [...settings.stamps, ADDED_PAGE_STAMP] })}
+            disabled={optionsDisabled}
+          >
+            スタンプを追加
+          </button>
+        </div>
+        {enabled && sample.error && <span className="error-text">{sample.error}</span>}
+        {enabled && !sample.error && <p className="hint">1ページ目: {sample.texts.join(" / ")}</p>}
+        {enabled && fileNameReplaced && (
+          <p className="hint" role="status">
+            ファイル名に半角の英数字と記号以外の文字があるため、{"{file}"} ではその部分を「_」に置き換えて押します。
+          </p>
+        )}
+        <p className="hint">
+          {"{n}"} は連番、{"{date}"} は保存した日付、{"{file}"} はファイル名に置き換えます（半角の英数字と記号のみ。ファイル名のそれ以外の文字は「_」にします）。回転後の見た目の向きで押します。
+        </p>
+      </div>
+    </section>
+  );
+};
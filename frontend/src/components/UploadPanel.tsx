@@ -1,4 +1,7 @@
 import type { FC, RefObject, ChangeEvent, DragEvent } from "react";
+import type { ImagePageSize } from "../lib/image-to-pdf";
+
+const ACCEPTED_FILES = "application/pdf,image/jpeg,image/png";
 
 type UploadPanelProps = {
   dragging: boolean;
@@ -7,8 +10,14 @@ type UploadPanelProps = {
   onDrop: (e: DragEvent) => void;
   fileInputRef: RefObject<HTMLInputElement | null>;
   onFileChange: (e: ChangeEvent<HTMLInputElement>) => void;
+  /** 読み込み済みのPDFの末尾に結合する */
+  onAppendFileChange: (e: ChangeEvent<HTMLInputElement>) => void;
   onReselect: () => void;
   disabled: boolean;
+  canAppend: boolean;
+  /** 画像から作るページの大きさ */
+  imagePageSize: ImagePageSize;
+  onImagePageSizeChange: (size: ImagePageSize) => void;
 };
 
 export const UploadPanel: FC<UploadPanelProps> = ({
@@ -18,8 +27,12 @@ export const UploadPanel: FC<UploadPanelProps> = ({
   onDrop,
   fileInputRef,
   onFileChange,
+  onAppendFileChange,
   onReselect,
   disabled,
+  canAppend,
+  imagePageSize,
+  onImagePageSizeChange,
 }) => (
   <section className="panel upload">
     <div
@@ -32,17 +45,43 @@ export const UploadPanel: FC<UploadPanelProps> = ({
     >
       <div>
         <p className="label">PDFアップロード</p>
-        <p className="hint">300MB以内のPDF。ドラッグ&ドロップまたは選択で読み込みます。</p>
+        <p className="hint">
+          300MB以内のPDF、またはJPEG/PNG画像。ドラッグ&ドロップまたは選択で読み込みます。複数選択すると順に結合します。
+          画像はファイル名順に1枚1ページのPDFにします。
+        </p>
       </div>
       <div className="upload__controls">
         <label className="upload__btn">
-          <input ref={fileInputRef} type="file" accept="application/pdf" onChange={onFileChange} />
+          <input ref={fileInputRef} type="file" accept={ACCEPTED_FILES} multiple onChange={onFileChange} />
           ファイルを選択
         </label>
+        <label className={`upload__btn${canAppend ? "" : " upload__btn--disabled"}`}>
+          <input
+            type="file"
+            accept={ACCEPTED_FILES}
+            multiple
+            onChange={onAppendFileChange}
+            disabled={!canAppend}
+            aria-label="PDFを追加"
+          />
+          PDFを追加
+        </label>
         <button type="button" onClick={onReselect} disabled={disabled}>
           元PDFを再選択
         </button>
       </div>
+      <label className="upload__page-size">
+        <span className="label inline">画像のページサイズ</span>
+        <select
+          name="select-image-page-size"
+          value={imagePageSize}
+          onChange={(event) => onImagePageSizeChange(event.target.value as ImagePageSize)}
+        >
+          <option value="image">画像の大きさ</option>
+          <option value="a4">A4に合わせる</option>
+          <option value="letter">Letterに合わせる</option>
+        </select>
+      </label>
     </div>
   </section>
 );
@@ -1,6 +1,6 @@
 import { renderHook, act } from "@testing-library/react";
 import { describe, expect, it, vi } from "vitest";
-import type { PdfDocumentProxy } from "../lib/pdf";
+import type { LoadOptions, PdfDocumentProxy } from "../lib/pdf";
 import { useViewerState } from "./useViewerState";
 
 const makeDoc = (numPages = 3): PdfDocumentProxy => ({
@@ -48,6 +48,49 @@ describe("useViewerState", () => {
     expect(result.current.state.errorMessage).toBeNull();
   });
 
+  it("読み込み時に入力したパスワードを元PDFごとに記録する", async () => {
+    const loader = {
+      loadFromArrayBuffer: vi.fn(async (_buffer: ArrayBuffer, options?: LoadOptions) => {
+        await options?.onPassword?.("required");
+        await options?.onPassword?.("incorrect");
+        return makeDoc(1);
+      }),
+    };
+    const onPassword = vi.fn().mockResolvedValueOnce("wrong").mockResolvedValueOnce("secret");
+    const { result } = renderHook(() => useViewerState({ loader }));
+
+    await act(async () => {
+      await result.current.loadFromArrayBuffer(new Uint8Array([1]).buffer, { name: "a.pdf", onPassword });
+    });
+    loader.loadFromArrayBuffer.mockResolvedValueOnce(makeDoc(1));
+    await act(async () => {
+      await result.current.appendFromArrayBuffer(new Uint8Array([2]).buffer, { name: "b.pdf" });
+    });
+
+    expect(onPassword.mock.calls).toEqual([["required"], ["incorrect"]]);
+    expect(result.current.state.sources.map((source) => source.password)).toEqual(["secret", null]);
+  });
+
+  it("ArrayBufferロード時にページ元来の回転を読み取り、回転マップは空で始める", async () => {
+    const rotates = [0, 90, 270];
+    const doc: PdfDocumentProxy = {
+      numPages: rotates.length,
+      getPage: vi.fn(async (pageNumber: number) => ({
+        rotate: rotates[pageNumber - 1],
+        getViewport: vi.fn(),
+        render: vi.fn(),
+      })),
+    };
+    const { result } = renderHook(() => useViewerState({ loader: makeLoader(doc) }));
+
+    await act(async () => {
+      await result.current.loadFromArrayBuffer(new Uint8Array([1]).buffer);
+    });
+
+    expect(result.current.state.baseRotationMap).toEqual({ 2: 90, 3: 270 });
+    expect(result.current.state.rotationMap).toEqual({});
+  });
+
   it("ArrayBufferロード失敗時はerrorになる", async () => {
     const loader = {
       loadFromArrayBuffer: vi.fn().mockRejectedValue(new Error("読み込み失敗")),
@@ -115,6 +158,390 @@ describe("useViewerState", () => {
     expect(result.current.state.rotationMap[3]).toBe(90);
   });
 
+  it("ページを削除・取り消しでき、範囲外のページは無視する", () => {
+    const { result } = renderHook(() => useViewerState());
+    act(() => result.current.loadDocument(makeDoc(4)));
+
+    act(() => result.current.deletePages([3, 1, 9, 3]));
+    expect(result.current.state.deletedPages).toEqual([1, 3]);
+
+    act(() => result.current.restorePages([1]));
+    expect(result.current.state.deletedPages).toEqual([3]);
+  });
+
+  it("回転しても削除状態は維持される", () => {
+    const { result } = renderHook(() => useViewerState());
+    act(() => result.current.loadDocument(makeDoc(3)));
+    act(() => result.current.deletePages([2]));
+
+    act(() => result.current.rotatePage(2, 90));
+
+    expect(result.current.state.rotationMap[2]).toBe(90);
+    expect(result.current.state.deletedPages).toEqual([2]);
+  });
+
+  it("ロード時の並び順は元の順で、ページを移動しても回転・削除はページ番号に紐づく", () => {
+    const { result } = renderHook(() => useViewerState());
+    act(() => result.current.loadDocument(makeDoc(4)));
+    expect(result.current.state.pageOrder).toEqual([1, 2, 3, 4]);
+
+    act(() => result.current.rotatePage(4, 90));
+    act(() => result.current.deletePages([2]));
+    act(() => result.current.movePages([4], 0));
+
+    expect(result.current.state.pageOrder).toEqual([4, 1, 2, 3]);
+    expect(result.current.state.rotationMap[4]).toBe(90);
+    expect(result.current.state.deletedPages).toEqual([2]);
+  });
+
+  it("PDFを結合すると通し番号で末尾に追加し、既存の編集状態を維持する", async () => {
+    const first = makeDoc(2);
+    const second: PdfDocumentProxy = {
+      numPages: 2,
+      getPage: vi.fn(async (pageNumber: number) => ({
+        rotate: pageNumber === 2 ? 90 : 0,
+        getViewport: vi.fn(),
+        render: vi.fn(),
+      })),
+    };
+    const loader = { loadFromArrayBuffer: vi.fn().mockResolvedValueOnce(first).mockResolvedValueOnce(second) };
+    const { result } = renderHook(() => useViewerState({ loader }));
+
+    await act(async () => {
+      await result.current.loadFromArrayBuffer(new Uint8Array([1]).buffer, { name: "a.pdf" });
+    });
+    act(() => result.current.rotatePage(1, 90));
+    act(() => result.current.deletePages([2]));
+    act(() => result.current.movePages([2], 0));
+    await act(async () => {
+      await result.current.appendFromArrayBuffer(new Uint8Array([2]).buffer, { name: "b.pdf" });
+    });
+
+    const { state } = result.current;
+    expect(state.numPages).toBe(4);
+    expect(state.pageOrder).toEqual([2, 1, 3, 4]);
+    expect(state.rotationMap).toEqual({ 1: 90 });
+    expect(state.deletedPages).toEqual([2]);
+    expect(state.baseRotationMap).toEqual({ 4: 90 });
+    expect(state.sources.map((source) => [source.name, source.pageOffset, source.numPages])).toEqual([
+      ["a.pdf", 0, 2],
+      ["b.pdf", 2, 2],
+    ]);
+    await state.pdfDoc?.getPage(4);
+    expect(second.getPage).toHaveBeenLastCalledWith(2);
+  });
+
+  it("読み込んだPDFのしおりを通し番号で持ち、追加・名前の変更・削除を取り消せる", async () => {
+    const withOutline = (numPages: number, title: string, pageIndex: number): PdfDocumentProxy => ({
+      ...makeDoc(numPages),
+      getOutline: async () => [{ title, dest: [pageIndex, { name: "Fit" }], items: [] }],
+    });
+    const loader = {
+      loadFromArrayBuffer: vi
+        .fn()
+        .mockResolvedValueOnce(withOutline(2, "表紙", 1))
+        .mockResolvedValueOnce(withOutline(3, "別紙", 0)),
+    };
+    const { result } = renderHook(() => useViewerState({ loader }));
+
+    await act(async () => {
+      await result.current.loadFromArrayBuffer(new Uint8Array([1]).buffer);
+    });
+    await act(async () => {
+      await result.current.appendFromArrayBuffer(new Uint8Array([2]).buffer);
+    });
+    const outlinePages = () =>
+      result.current.state.outline.map((item) => [item.title, item.pageNumber, item.children.length]);
+    expect(outlinePages()).toEqual([
+      ["表紙", 2, 0],
+      ["別紙", 3, 0],
+    ]);
+
+    act(() => result.current.addOutlineItem(" 末尾 ", 5));
+    expect(() => result.current.addOutlineItem("", 1)).toThrow("しおりの名前を入力してください");
+    act(() => result.current.renameOutlineItem(result.current.state.outline[0].id, "はじめに"));
+    act(() => result.current.removeOutlineItem(result.current.state.outline[1].id));
+    expect(outlinePages()).toEqual([
+      ["はじめに", 2, 0],
+      ["末尾", 5, 0],
+    ]);
+
+    act(() => result.current.undo());
+    act(() => result.current.undo());
+    expect(outlinePages()).toEqual([
+      ["表紙", 2, 0],
+      ["別紙", 3, 0],
+      ["末尾", 5, 0],
+    ]);
+  });
+
+  it("PDFの結合に失敗しても読み込み済みのページは維持する", async () => {
+    const loader = {
+      loadFromArrayBuffer: vi.fn().mockResolvedValueOnce(makeDoc(2)).mockRejectedValueOnce(new Error("破損")),
+    };
+    const { result } = renderHook(() => useViewerState({ loader }));
+
+    await act(async () => {
+      await result.current.loadFromArrayBuffer(new Uint8Array([1]).buffer);
+    });
+    await act(async () => {
+      await result.current.appendFromArrayBuffer(new Uint8Array([2]).buffer);
+    });
+
+    expect(result.current.state.status).toBe("ready");
+    expect(result.current.state.numPages).toBe(2);
+    expect(result.current.state.errorMessage).toBe("破損");
+  });
+
+  it("回転・削除・並べ替えを元に戻し、やり直せる", () => {
+    const { result } = renderHook(() => useViewerState());
+    act(() => result.current.loadDocument(makeDoc(3)));
+
+    act(() => result.current.rotatePage(1, 90));
+    act(() => result.current.deletePages([2]));
+    act(() => result.current.movePages([3], 0));
+    expect(result.current.state.history.past).toHaveLength(3);
+
+    act(() => result.current.undo());
+    expect(result.current.state.pageOrder).toEqual([1, 2, 3]);
+    act(() => result.current.undo());
+    expect(result.current.state.deletedPages).toEqual([]);
+    act(() => result.current.undo());
+    expect(result.current.state.rotationMap).toEqual({});
+    act(() => result.current.undo());
+    expect(result.current.state.history.future).toHaveLength(3);
+
+    act(() => result.current.redo());
+    act(() => result.current.redo());
+    expect(result.current.state.rotationMap).toEqual({ 1: 90 });
+    expect(result.current.state.deletedPages).toEqual([2]);
+    expect(result.current.state.pageOrder).toEqual([1, 2, 3]);
+  });
+
+  it("新しい編集をするとやり直し履歴を破棄し、変化の無い操作は履歴に積まない", () => {
+    const { result } = renderHook(() => useViewerState());
+    act(() => result.current.loadDocument(makeDoc(3)));
+
+    act(() => result.current.rotatePage(1, 90));
+    act(() => result.current.undo());
+    act(() => result.current.rotatePage(2, 180));
+    expect(result.current.state.history.future).toEqual([]);
+
+    act(() => result.current.rotatePage(2, 360));
+    act(() => result.current.restorePages([1]));
+    act(() => result.current.movePages([1], 0));
+    expect(result.current.state.history.past).toHaveLength(1);
+  });
+
+  it("履歴グループ内の編集は1回の取り消しでまとめて戻す", () => {
+    const { result } = renderHook(() => useViewerState());
+    act(() => result.current.loadDocument(makeDoc(4)));
+    act(() => result.current.rotatePage(4, 180));
+
+    act(() => {
+      result.current.beginHistoryGroup();
+      result.current.rotatePage(1, 90);
+      result.current.rotatePage(2, 90);
+      result.current.rotatePage(3, 270);
+      result.current.endHistoryGroup();
+    });
+    act(() => result.current.rotatePage(1, 90));
+    expect(result.current.state.history.past).toHaveLength(3);
+
+    act(() => result.current.undo());
+    act(() => result.current.undo());
+    expect(result.current.state.rotationMap).toEqual({ 4: 180 });
+  });
+
+  it("PDFを結合しても取り消しで追加したページは消えない", async () => {
+    const loader = {
+      loadFromArrayBuffer: vi.fn().mockResolvedValueOnce(makeDoc(2)).mockResolvedValueOnce(makeDoc(1)),
+    };
+    const { result } = renderHook(() => useViewerState({ loader }));
+    await act(async () => {
+      await result.current.loadFromArrayBuffer(new Uint8Array([1]).buffer);
+    });
+    act(() => result.current.movePages([2], 0));
+    await act(async () => {
+      await result.current.appendFromArrayBuffer(new Uint8Array([2]).buffer);
+    });
+
+    act(() => result.current.undo());
+
+    expect(result.current.state.pageOrder).toEqual([1, 2, 3]);
+  });
+
+  it("傾き補正を設定・解除でき、取り消しで元に戻す", () => {
+    const { result } = renderHook(() => useViewerState());
+    act(() => result.current.loadDocument(makeDoc(3)));
+
+    act(() => result.current.setPageSkew(2, -1.84));
+    expect(result.current.state.skewMap).toEqual({ 2: -1.8 });
+    act(() => result.current.setPageSkew(2, -1.8));
+    expect(result.current.state.history.past).toHaveLength(1);
+
+    act(() => result.current.setPageSkew(2, 0));
+    expect(result.current.state.skewMap).toEqual({});
+    act(() => result.current.undo());
+    expect(result.current.state.skewMap).toEqual({ 2: -1.8 });
+    expect(result.current.state.rotationMap).toEqual({});
+  });
+
+  it("トリミング範囲をまとめて設定・解除し、取り消しで元に戻す", () => {
+    const { result } = renderHook(() => useViewerState());
+    act(() => result.current.loadDocument(makeDoc(3)));
+
+    act(() =>
+      result.current.setPageCrops({
+        1: { x: 0.1, y: 0.1, width: 0.8, height: 0.8 },
+        2: { x: 0.1, y: 0.1, width: 0.8, height: 0.8 },
+        5: { x: 0, y: 0, width: 0.5, height: 0.5 },
+      })
+    );
+    expect(result.current.state.cropMap).toEqual({
+      1: { x: 0.1, y: 0.1, width: 0.8, height: 0.8 },
+      2: { x: 0.1, y: 0.1, width: 0.8, height: 0.8 },
+    });
+
+    act(() => result.current.setPageCrops({ 1: null, 3: { x: 0, y: 0, width: 1, height: 1 } }));
+    expect(result.current.state.cropMap).toEqual({ 2: { x: 0.1, y: 0.1, width: 0.8, height: 0.8 } });
+    act(() => result.current.setPageCrops({ 1: null }));
+    expect(result.current.state.history.past).toHaveLength(2);
+
+    act(() => result.current.undo());
+    expect(Object.keys(result.current.state.cropMap)).toEqual(["1", "2"]);
+  });
+
+  it("墨消し範囲をページごとに置き換え・解除し、複製に引き継いで取り消しで元に戻す", () => {
+    const { result } = renderHook(() => useViewerState());
+    act(() => result.current.loadDocument(makeDoc(3)));
+
+    act(() =>
+      result.current.setPageRedactions({
+        2: [
+          { x: 0.1, y: 0.1, width: 0.2, height: 0.1 },
+          { x: 0.5, y: 0.5, width: -0.2, height: 0.3 },
+        ],
+      })
+    );
+    expect(result.current.state.redactionMap).toEqual({
+      2: [
+        { x: 0.1, y: 0.1, width: 0.2, height: 0.1 },
+        { x: 0.3, y: 0.5, width: 0.2, height: 0.3 },
+      ],
+    });
+    // 同じ範囲の指定は履歴に積まない
+    act(() => result.current.setPageRedactions({ 2: result.current.state.redactionMap[2] }));
+    expect(result.current.state.history.past).toHaveLength(1);
+    expect(() => result.current.setPageRedactions({ 1: [{ x: 0, y: 0, width: 0.001, height: 1 }] })).toThrow(
+      "墨消し範囲が小さすぎます"
+    );
+
+    act(() => result.current.duplicatePages([2]));
+    expect(result.current.state.redactionMap[4]).toBe(result.current.state.redactionMap[2]);
+
+    act(() => result.current.setPageRedactions({ 2: [] }));
+    expect(Object.keys(result.current.state.redactionMap)).toEqual(["4"]);
+    act(() => result.current.undo());
+    expect(Object.keys(result.current.state.redactionMap)).toEqual(["2", "4"]);
+  });
+
+  it("注釈をページごとに置き換え・削除し、複製に引き継いで取り消しで元に戻す", () => {
+    const { result } = renderHook(() => useViewerState());
+    act(() => result.current.loadDocument(makeDoc(3)));
+
+    act(() =>
+      result.current.setPageAnnotations({
+        2: [
+          { id: "annotation-1", kind: "note", point: { x: 0.2, y: 0.3 }, text: " 確認 " },
+          { id: "annotation-2", kind: "highlight", rect: { x: 0.5, y: 0.5, width: -0.2, height: 0.1 } },
+        ],
+      })
+    );
+    expect(result.current.state.annotationMap).toEqual({
+      2: [
+        { id: "annotation-1", kind: "note", point: { x: 0.2, y: 0.3 }, text: "確認" },
+        { id: "annotation-2", kind: "highlight", rect: { x: 0.3, y: 0.5, width: 0.2, height: 0.1 } },
+      ],
+    });
+    // 同じ注釈の指定は履歴に積まない
+    act(() => result.current.setPageAnnotations({ 2: result.current.state.annotationMap[2] }));
+    expect(result.current.state.history.past).toHaveLength(1);
+    expect(() =>
+      result.current.setPageAnnotations({ 1: [{ id: "annotation-3", kind: "note", point: { x: 0, y: 0 }, text: "" }] })
+    ).toThrow("メモの内容を入力してください");
+
+    act(() => result.current.duplicatePages([2]));
+    expect(result.current.state.annotationMap[4]).toBe(result.current.state.annotationMap[2]);
+
+    act(() => result.current.setPageAnnotations({ 2: [] }));
+    expect(Object.keys(result.current.state.annotationMap)).toEqual(["4"]);
+    act(() => result.current.undo());
+    expect(Object.keys(result.current.state.annotationMap)).toEqual(["2", "4"]);
+  });
+
+  it("白紙ページを並び順の指定位置に挿入し、取り消すと並び順から外す", () => {
+    const { result } = renderHook(() => useViewerState());
+    act(() => result.current.loadDocument(makeDoc(3)));
+
+    act(() => result.current.insertBlankPages(1, { width: 200, height: 300 }, 2));
+
+    expect(result.current.state.numPages).toBe(5);
+    expect(result.current.state.pageOrder).toEqual([1, 4, 5, 2, 3]);
+    expect(result.current.state.virtualPages).toEqual({
+      4: { kind: "blank", width: 200, height: 300 },
+      5: { kind: "blank", width: 200, height: 300 },
+    });
+    expect(result.current.state.pdfDoc?.numPages).toBe(5);
+
+    act(() => result.current.undo());
+    expect(result.current.state.pageOrder).toEqual([1, 2, 3]);
+    // 取り消しても番号は再利用しない
+    act(() => result.current.insertBlankPages(3, { width: 200, height: 300 }));
+    expect(result.current.state.pageOrder).toEqual([1, 2, 3, 6]);
+
+    expect(() => result.current.insertBlankPages(0, { width: 0, height: 300 })).toThrow(
+      "白紙ページの大きさが不正です"
+    );
+  });
+
+  it("複製は各ページの直後に入り、回転・傾き補正・トリミングを引き継ぐ", () => {
+    const { result } = renderHook(() => useViewerState());
+    act(() => result.current.loadDocument(makeDoc(3), { 2: 90 }));
+    act(() => result.current.rotatePage(2, 90));
+    act(() => result.current.setPageSkew(2, 1.5));
+    act(() => result.current.setPageCrops({ 2: { x: 0.1, y: 0.1, width: 0.5, height: 0.5 } }));
+
+    act(() => result.current.duplicatePages([3, 2]));
+
+    expect(result.current.state.pageOrder).toEqual([1, 2, 4, 3, 5]);
+    expect(result.current.state.virtualPages).toEqual({
+      4: { kind: "duplicate", of: 2 },
+      5: { kind: "duplicate", of: 3 },
+    });
+    expect(result.current.state.baseRotationMap[4]).toBe(90);
+    expect(result.current.state.rotationMap[4]).toBe(90);
+    expect(result.current.state.skewMap[4]).toBe(1.5);
+    expect(result.current.state.cropMap[4]).toEqual({ x: 0.1, y: 0.1, width: 0.5, height: 0.5 });
+
+    // 複製の複製は元PDFのページを指す
+    act(() => result.current.duplicatePages([4]));
+    expect(result.current.state.virtualPages[6]).toEqual({ kind: "duplicate", of: 2 });
+    expect(result.current.state.pageOrder).toEqual([1, 2, 4, 6, 3, 5]);
+  });
+
+  it("新しい文書を読み込むと履歴を破棄する", () => {
+    const { result } = renderHook(() => useViewerState());
+    act(() => result.current.loadDocument(makeDoc(2)));
+    act(() => result.current.rotatePage(1, 90));
+
+    act(() => result.current.loadDocument(makeDoc(2)));
+
+    expect(result.current.state.history.past).toEqual([]);
+    act(() => result.current.undo());
+    expect(result.current.state.rotationMap).toEqual({});
+  });
+
   it("zoomは下限・上限でクランプする", () => {
     const { result } = renderHook(() => useViewerState());
 
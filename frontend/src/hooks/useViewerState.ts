@@ -1,28 +1,151 @@
 import { useCallback, useState } from "react";
-import type { PdfDocumentProxy, PdfLoader } from "../lib/pdf";
+import {
+  readPageRotations,
+  type LoadOptions,
+  type PasswordReason,
+  type PdfDocumentProxy,
+  type PdfLoader,
+} from "../lib/pdf";
 import { applyRotationChange, clampPageNumber, type PageRotationMap } from "../lib/rotation";
+import { normalizeSelectedPages } from "../lib/selection";
+import { createPageOrder, movePagesInOrder } from "../lib/page-order";
+import { createCompositeDocument, type VirtualPage, type VirtualPageMap } from "../lib/sources";
+import { applySkewChange, type PageSkewMap } from "../lib/skew";
+import { isSameCropRect, normalizeCropRect, type CropRect, type PageCropMap } from "../lib/crop";
+import { isSameRedactions, normalizeRedactionRect, type PageRedactionMap } from "../lib/redaction";
+import {
+  isSameAnnotations,
+  normalizeAnnotation,
+  type PageAnnotation,
+  type PageAnnotationMap,
+} from "../lib/annotation";
+import {
+  addOutlineItem as appendOutlineItem,
+  findOutlineItem,
+  normalizeOutlineTitle,
+  readOutline,
+  removeOutlineItem as deleteOutlineItem,
+  renameOutlineItem as retitleOutlineItem,
+  type OutlineItem,
+} from "../lib/outline";
 
 export type ViewerStatus = "idle" | "loading" | "ready" | "error";
 
+/** ワークスペースに読み込んだ元PDF。ページは pageOffset + 1 からの通し番号で扱う */
+export type ViewerSource = {
+  name: string;
+  /** 保存時に pdf-lib で読み込む元データ（loadDocument で直接渡した文書は null） */
+  buffer: ArrayBuffer | null;
+  /** 開くときに入力したパスワード（保存時に元PDFを復号するのに使う）。入力していなければ null */
+  password: string | null;
+  doc: PdfDocumentProxy;
+  pageOffset: number;
+  numPages: number;
+};
+
+export type LoadSourceOptions = {
+  workerSrc?: string;
+  /** 元PDFの表示名（ファイル名） */
+  name?: string;
+  /** パスワードで保護されたPDFのパスワードを尋ねる。null を返すと読み込みを取りやめる */
+  onPassword?: (reason: PasswordReason) => Promise<string | null>;
+};
+
+/** 取り消し/やり直しの対象になる編集内容 */
+export type EditSnapshot = {
+  rotationMap: PageRotationMap;
+  deletedPages: number[];
+  pageOrder: number[];
+  skewMap: PageSkewMap;
+  cropMap: PageCropMap;
+  redactionMap: PageRedactionMap;
+  annotationMap: PageAnnotationMap;
+  outline: OutlineItem[];
+};
+
+export type ViewerHistory = {
+  past: EditSnapshot[];
+  future: EditSnapshot[];
+  /** beginHistoryGroup の入れ子の深さ。1以上の間は最初の編集だけを履歴に積む */
+  groupDepth: number;
+  groupRecorded: boolean;
+};
+
 export type ViewerState = {
   status: ViewerStatus;
+  /** 全ての元PDFを通し番号で束ねた文書 */
   pdfDoc: PdfDocumentProxy | null;
+  sources: ViewerSource[];
   numPages: number;
   currentPage: number;
   selectedPages: number[];
+  /** PDFに元から設定されている /Rotate */
+  baseRotationMap: PageRotationMap;
+  /** ユーザー操作による回転（baseRotationMap に対する差分） */
   rotationMap: PageRotationMap;
+  /** 保存時に除外するページ（昇順） */
+  deletedPages: number[];
+  /** 表示・保存するページの並び順（元のページ番号の配列） */
+  pageOrder: number[];
+  /** 保存時に内容を回転させて傾きを補正する角度（見た目で時計回りが正） */
+  skewMap: PageSkewMap;
+  /** 保存時に CropBox にするトリミング範囲（回転前の向きでの相対座標） */
+  cropMap: PageCropMap;
+  /** 保存時に内容ごと黒く塗りつぶす墨消し範囲（回転前の向きでの相対座標） */
+  redactionMap: PageRedactionMap;
+  /** 保存時にPDFの注釈として書き込むメモ・ハイライト・手書き（回転前の向きでの相対座標） */
+  annotationMap: PageAnnotationMap;
+  /** しおり。移動先はページ番号で持つので、削除・並べ替えをしても付け替えずに済む */
+  outline: OutlineItem[];
+  /**
+   * 追加した白紙・複製ページ。番号は numPages の続きから割り当て、取り消しても番号は再利用しない
+   * （並び順に含まれているものだけがワークスペース上に存在する）
+   */
+  virtualPages: VirtualPageMap;
+  history: ViewerHistory;
   zoom: number;
   errorMessage: string | null;
 };
 
 export type ViewerControls = {
-  loadDocument: (doc: PdfDocumentProxy) => void;
-  loadFromArrayBuffer: (buffer: ArrayBuffer, options?: { workerSrc?: string }) => Promise<void>;
+  loadDocument: (
+    doc: PdfDocumentProxy,
+    baseRotationMap?: PageRotationMap,
+    source?: { name: string; buffer: ArrayBuffer | null; password?: string | null },
+    outline?: OutlineItem[]
+  ) => void;
+  loadFromArrayBuffer: (buffer: ArrayBuffer, options?: LoadSourceOptions) => Promise<void>;
+  appendFromArrayBuffer: (buffer: ArrayBuffer, options?: LoadSourceOptions) => Promise<void>;
   setPage: (page: number) => void;
   nextPage: () => void;
   prevPage: () => void;
   rotateCurrentPage: (delta: number) => void;
   rotatePage: (pageNumber: number, delta: number) => void;
+  deletePages: (pageNumbers: number[]) => void;
+  restorePages: (pageNumbers: number[]) => void;
+  movePages: (pageNumbers: number[], insertIndex: number) => void;
+  /** 傾き補正の角度を設定する。0 を渡すと補正を解除する */
+  setPageSkew: (pageNumber: number, angle: number) => void;
+  /** ページごとのトリミング範囲をまとめて設定する。null を渡したページはトリミングを解除する */
+  setPageCrops: (crops: Record<number, CropRect | null>) => void;
+  /** ページごとの墨消し範囲をまとめて置き換える。空の配列を渡したページは墨消しを解除する */
+  setPageRedactions: (redactions: Record<number, CropRect[]>) => void;
+  /** ページごとの注釈をまとめて置き換える。不正な注釈があればエラーにする */
+  setPageAnnotations: (annotations: Record<number, PageAnnotation[]>) => void;
+  /** 並び順の insertIndex の位置に白紙ページを挿入する（大きさはPDFの単位 pt） */
+  insertBlankPages: (insertIndex: number, size: { width: number; height: number }, count?: number) => void;
+  /** 各ページの直後に、回転・傾き補正・トリミング・墨消し・注釈を引き継いだ複製を挿入する */
+  duplicatePages: (pageNumbers: number[]) => void;
+  /** 最上位の末尾にしおりを追加する。名前が空ならエラーにする */
+  addOutlineItem: (title: string, pageNumber: number) => void;
+  renameOutlineItem: (id: string, title: string) => void;
+  /** しおりを子のしおりごと削除する */
+  removeOutlineItem: (id: string) => void;
+  undo: () => void;
+  redo: () => void;
+  /** endHistoryGroup までの編集を1回の取り消し単位にまとめる */
+  beginHistoryGroup: () => void;
+  endHistoryGroup: () => void;
   setZoom: (zoom: number) => void;
   reset: () => void;
 };
@@ -31,17 +154,177 @@ type UseViewerStateOptions = {
   loader?: PdfLoader;
 };
 
+const MAX_HISTORY = 100;
+
+const INITIAL_HISTORY: ViewerHistory = {
+  past: [],
+  future: [],
+  groupDepth: 0,
+  groupRecorded: false,
+};
+
 const INITIAL_STATE: ViewerState = {
   status: "idle",
   pdfDoc: null,
+  sources: [],
   numPages: 0,
   currentPage: 1,
   selectedPages: [],
+  baseRotationMap: {},
   rotationMap: {},
+  deletedPages: [],
+  pageOrder: [],
+  skewMap: {},
+  cropMap: {},
+  redactionMap: {},
+  annotationMap: {},
+  outline: [],
+  virtualPages: {},
+  history: INITIAL_HISTORY,
   zoom: 1,
   errorMessage: null,
 };
 
+/**
+ * ローダーに渡すオプションを作る。入力されたパスワードは保存時に元PDFを復号するため、
+ * 最後に受け付けたもの（＝読み込めたときのパスワード）を readPassword で取り出せるようにする。
+ */
+const toLoaderOptions = (options?: LoadSourceOptions) => {
+  let password: string | null = null;
+  const onPassword = options?.onPassword;
+  const loaderOptions: LoadOptions = {};
+  if (options?.workerSrc) loaderOptions.workerSrc = options.workerSrc;
+  if (onPassword) {
+    loaderOptions.onPassword = async (reason) => {
+      password = await onPassword(reason);
+      return password;
+    };
+  }
+  return {
+    loaderOptions: Object.keys(loaderOptions).length > 0 ? loaderOptions : undefined,
+    readPassword: () => password,
+  };
+};
+
+const shiftPageMap = <T>(pageMap: Record<number, T>, offset: number): Record<number, T> => {
+  const shifted: Record<number, T> = {};
+  Object.entries(pageMap).forEach(([page, value]) => {
+    shifted[Number(page) + offset] = value as T;
+  });
+  return shifted;
+};
+
+const shiftOutline = (outline: OutlineItem[], offset: number): OutlineItem[] =>
+  outline.map((item) => ({
+    ...item,
+    pageNumber: item.pageNumber === null ? null : item.pageNumber + offset,
+    children: shiftOutline(item.children, offset),
+  }));
+
+const assertLoadableDocument = (doc: PdfDocumentProxy): void => {
+  if (!doc || !Number.isFinite(doc.numPages) || doc.numPages < 1) {
+    throw new Error("総ページ数は1以上のPDFのみ読み込めます");
+  }
+};
+
+const takeSnapshot = (state: ViewerState): EditSnapshot => ({
+  rotationMap: state.rotationMap,
+  deletedPages: state.deletedPages,
+  pageOrder: state.pageOrder,
+  skewMap: state.skewMap,
+  cropMap: state.cropMap,
+  redactionMap: state.redactionMap,
+  annotationMap: state.annotationMap,
+  outline: state.outline,
+});
+
+/**
+ * 編集内容を反映し、変更前の状態を履歴に積む。
+ * 履歴グループ内で既に積んでいれば、同じ取り消し単位にまとめる。
+ */
+const commitEdit = (prev: ViewerState, edit: Partial<EditSnapshot>): ViewerState => {
+  const { history } = prev;
+  if (history.groupDepth > 0 && history.groupRecorded) {
+    return { ...prev, ...edit };
+  }
+  return {
+    ...prev,
+    ...edit,
+    history: {
+      ...history,
+      past: [...history.past, takeSnapshot(prev)].slice(-MAX_HISTORY),
+      future: [],
+      groupRecorded: history.groupDepth > 0,
+    },
+  };
+};
+
+const MAX_BLANK_PAGE_SIZE = 14400;
+
+const assertBlankPageSize = (size: { width: number; height: number }): void => {
+  const valid = [size.width, size.height].every(
+    (value) => Number.isFinite(value) && value > 0 && value <= MAX_BLANK_PAGE_SIZE
+  );
+  if (!valid) {
+    throw new Error("白紙ページの大きさが不正です");
+  }
+};
+
+/**
+ * 追加ページに numPages の続きから番号を割り当て、並び順の指定位置へ挿入した状態を返す。
+ * inheritFrom を指定したページは、その元ページの回転・傾き補正・トリミング・墨消し・注釈を引き継ぐ。
+ */
+const insertVirtualPages = (
+  prev: ViewerState,
+  entries: { page: VirtualPage; insertIndex: number; inheritFrom?: number }[]
+): ViewerState => {
+  const virtualPages = { ...prev.virtualPages };
+  const rotationMap = { ...prev.rotationMap };
+  const baseRotationMap = { ...prev.baseRotationMap };
+  const skewMap = { ...prev.skewMap };
+  const cropMap = { ...prev.cropMap };
+  const redactionMap = { ...prev.redactionMap };
+  const annotationMap = { ...prev.annotationMap };
+  const pageOrder = [...prev.pageOrder];
+  let numPages = prev.numPages;
+  // 後ろの挿入位置から処理して、前の挿入位置がずれないようにする
+  const sorted = entries
+    .map((entry, index) => ({ ...entry, index }))
+    .sort((a, b) => b.insertIndex - a.insertIndex || b.index - a.index);
+  const numbers = new Map<number, number>();
+  entries.forEach((_, index) => {
+    numPages += 1;
+    numbers.set(index, numPages);
+  });
+  sorted.forEach((entry) => {
+    const pageNumber = numbers.get(entry.index)!;
+    virtualPages[pageNumber] = entry.page;
+    if (entry.inheritFrom !== undefined) {
+      const from = entry.inheritFrom;
+      if (prev.baseRotationMap[from] !== undefined) baseRotationMap[pageNumber] = prev.baseRotationMap[from];
+      if (prev.rotationMap[from] !== undefined) rotationMap[pageNumber] = prev.rotationMap[from];
+      if (prev.skewMap[from] !== undefined) skewMap[pageNumber] = prev.skewMap[from];
+      if (prev.cropMap[from]) cropMap[pageNumber] = prev.cropMap[from];
+      if (prev.redactionMap[from]) redactionMap[pageNumber] = prev.redactionMap[from];
+      if (prev.annotationMap[from]) annotationMap[pageNumber] = prev.annotationMap[from];
+    }
+    pageOrder.splice(Math.min(Math.max(0, entry.insertIndex), pageOrder.length), 0, pageNumber);
+  });
+  return commitEdit(
+    {
+      ...prev,
+      pdfDoc: createCompositeDocument(prev.sources, virtualPages),
+      numPages,
+      baseRotationMap,
+      virtualPages,
+    },
+    { pageOrder, rotationMap, skewMap, cropMap, redactionMap, annotationMap }
+  );
+};
+
+const isSamePages = (a: number[], b: number[]): boolean =>
+  a.length === b.length && a.every((page, index) => page === b[index]);
+
 const MIN_ZOOM = 0.25;
 const MAX_ZOOM = 3;
 
@@ -60,31 +343,65 @@ export const useViewerState = (
   const [state, setState] = useState<ViewerState>(INITIAL_STATE);
   const loader = options.loader;
 
-  const loadDocument = useCallback((doc: PdfDocumentProxy) => {
-    if (!doc || !Number.isFinite(doc.numPages) || doc.numPages < 1) {
-      throw new Error("総ページ数は1以上のPDFのみ読み込めます");
-    }
-    setState({
-      status: "ready",
-      pdfDoc: doc,
-      numPages: doc.numPages,
-      currentPage: 1,
-      selectedPages: [],
-      rotationMap: {},
-      zoom: 1,
-      errorMessage: null,
-    });
-  }, []);
+  const loadDocument = useCallback(
+    (
+      doc: PdfDocumentProxy,
+      baseRotationMap: PageRotationMap = {},
+      source: { name: string; buffer: ArrayBuffer | null; password?: string | null } = { name: "", buffer: null },
+      outline: OutlineItem[] = []
+    ) => {
+      assertLoadableDocument(doc);
+      setState({
+        status: "ready",
+        pdfDoc: doc,
+        sources: [
+          {
+            name: source.name,
+            buffer: source.buffer,
+            password: source.password ?? null,
+            doc,
+            pageOffset: 0,
+            numPages: doc.numPages,
+          },
+        ],
+        numPages: doc.numPages,
+        currentPage: 1,
+        selectedPages: [],
+        baseRotationMap,
+        rotationMap: {},
+        deletedPages: [],
+        pageOrder: createPageOrder(doc.numPages),
+        skewMap: {},
+        cropMap: {},
+        redactionMap: {},
+        annotationMap: {},
+        outline,
+        virtualPages: {},
+        history: INITIAL_HISTORY,
+        zoom: 1,
+        errorMessage: null,
+      });
+    },
+    []
+  );
 
   const loadFromArrayBuffer = useCallback(
-    async (buffer: ArrayBuffer, extraOptions?: { workerSrc?: string }) => {
+    async (buffer: ArrayBuffer, extraOptions?: LoadSourceOptions) => {
       if (!loader) {
         throw new Error("PDFローダーが設定されていません");
       }
       setState((prev) => ({ ...prev, status: "loading", errorMessage: null }));
       try {
-        const doc = await loader.loadFromArrayBuffer(buffer, extraOptions);
-        loadDocument(doc);
+        const { loaderOptions, readPassword } = toLoaderOptions(extraOptions);
+        const doc = await loader.loadFromArrayBuffer(buffer, loaderOptions);
+        const baseRotationMap = await readPageRotations(doc);
+        const outline = await readOutline(doc);
+        loadDocument(
+          doc,
+          baseRotationMap,
+          { name: extraOptions?.name ?? "", buffer, password: readPassword() },
+          outline
+        );
       } catch (error) {
         const message =
           error instanceof Error && error.message ? error.message : "PDFの読み込みに失敗しました";
@@ -93,16 +410,94 @@ export const useViewerState = (
           status: "error",
           errorMessage: message,
           pdfDoc: null,
+          sources: [],
           numPages: 0,
           currentPage: 1,
           selectedPages: [],
+          baseRotationMap: {},
           rotationMap: {},
+          deletedPages: [],
+          pageOrder: [],
+          skewMap: {},
+          cropMap: {},
+          redactionMap: {},
+          annotationMap: {},
+          outline: [],
+          virtualPages: {},
+          history: INITIAL_HISTORY,
         }));
       }
     },
     [loader, loadDocument]
   );
 
+  const appendFromArrayBuffer = useCallback(
+    async (buffer: ArrayBuffer, extraOptions?: LoadSourceOptions) => {
+      if (!loader) {
+        throw new Error("PDFローダーが設定されていません");
+      }
+      let doc: PdfDocumentProxy;
+      let rotations: PageRotationMap;
+      let outline: OutlineItem[];
+      const { loaderOptions, readPassword } = toLoaderOptions(extraOptions);
+      try {
+        doc = await loader.loadFromArrayBuffer(buffer, loaderOptions);
+        assertLoadableDocument(doc);
+        rotations = await readPageRotations(doc);
+        outline = await readOutline(doc);
+      } catch (error) {
+        // 追加に失敗しても読み込み済みのページは維持する
+        const message =
+          error instanceof Error && error.message ? error.message : "PDFの読み込みに失敗しました";
+        setState((prev) => ({ ...prev, errorMessage: message }));
+        return;
+      }
+      const name = extraOptions?.name ?? "";
+      const password = readPassword();
+      setState((prev) => {
+        if (prev.status !== "ready" || prev.sources.length === 0) {
+          return {
+            ...INITIAL_STATE,
+            status: "ready",
+            pdfDoc: doc,
+            sources: [{ name, buffer, password, doc, pageOffset: 0, numPages: doc.numPages }],
+            numPages: doc.numPages,
+            baseRotationMap: rotations,
+            pageOrder: createPageOrder(doc.numPages),
+            outline,
+          };
+        }
+        const pageOffset = prev.numPages;
+        const sources = [...prev.sources, { name, buffer, password, doc, pageOffset, numPages: doc.numPages }];
+        const appendedPages = createPageOrder(doc.numPages).map((page) => page + pageOffset);
+        // 追加したPDFのしおりは通し番号に直して末尾に足す
+        const appendedOutline = shiftOutline(outline, pageOffset);
+        // 追加したページとしおりが取り消し/やり直しで消えないよう、履歴にも追加する
+        const extendOrder = (snapshot: EditSnapshot): EditSnapshot => ({
+          ...snapshot,
+          pageOrder: [...snapshot.pageOrder, ...appendedPages],
+          outline: [...snapshot.outline, ...appendedOutline],
+        });
+        return {
+          ...prev,
+          pdfDoc: createCompositeDocument(sources, prev.virtualPages),
+          sources,
+          numPages: pageOffset + doc.numPages,
+          baseRotationMap: { ...prev.baseRotationMap, ...shiftPageMap(rotations, pageOffset) },
+          pageOrder: [...prev.pageOrder, ...appendedPages],
+          outline: [...prev.outline, ...appendedOutline],
+          history: {
+            ...prev.history,
+            past: prev.history.past.map(extendOrder),
+            future: prev.history.future.map(extendOrder),
+          },
+          errorMessage: null,
+        };
+      });
+    },
+    [loader]
+  );
+
   const setPage = useCallback((page: number) => {
     setState((prev) => {
       if (prev.numPages < 1) return prev;
@@ -128,7 +523,8 @@ export const useViewerState = (
     setState((prev) => {
       if (prev.status !== "ready") return prev;
       const nextRotationMap = applyRotationChange(prev.rotationMap, prev.currentPage, delta);
-      return { ...prev, rotationMap: nextRotationMap };
+      if (nextRotationMap[prev.currentPage] === (prev.rotationMap[prev.currentPage] ?? 0)) return prev;
+      return commitEdit(prev, { rotationMap: nextRotationMap });
     });
   }, []);
 
@@ -137,7 +533,239 @@ export const useViewerState = (
       if (prev.status !== "ready") return prev;
       const targetPage = clampPageNumber(pageNumber, prev.numPages);
       const nextRotationMap = applyRotationChange(prev.rotationMap, targetPage, delta);
-      return { ...prev, rotationMap: nextRotationMap };
+      if (nextRotationMap[targetPage] === (prev.rotationMap[targetPage] ?? 0)) return prev;
+      return commitEdit(prev, { rotationMap: nextRotationMap });
+    });
+  }, []);
+
+  const deletePages = useCallback((pageNumbers: number[]) => {
+    setState((prev) => {
+      if (prev.status !== "ready") return prev;
+      const nextDeleted = normalizeSelectedPages([...prev.deletedPages, ...pageNumbers], prev.numPages);
+      if (isSamePages(nextDeleted, prev.deletedPages)) return prev;
+      return commitEdit(prev, { deletedPages: nextDeleted });
+    });
+  }, []);
+
+  const restorePages = useCallback((pageNumbers: number[]) => {
+    setState((prev) => {
+      if (prev.status !== "ready") return prev;
+      const restoreSet = new Set(pageNumbers);
+      const nextDeleted = prev.deletedPages.filter((page) => !restoreSet.has(page));
+      if (nextDeleted.length === prev.deletedPages.length) return prev;
+      return commitEdit(prev, { deletedPages: nextDeleted });
+    });
+  }, []);
+
+  const movePages = useCallback((pageNumbers: number[], insertIndex: number) => {
+    setState((prev) => {
+      if (prev.status !== "ready") return prev;
+      const nextOrder = movePagesInOrder(prev.pageOrder, pageNumbers, insertIndex);
+      if (nextOrder === prev.pageOrder) return prev;
+      return commitEdit(prev, { pageOrder: nextOrder });
+    });
+  }, []);
+
+  const setPageSkew = useCallback((pageNumber: number, angle: number) => {
+    setState((prev) => {
+      if (prev.status !== "ready") return prev;
+      const targetPage = clampPageNumber(pageNumber, prev.numPages);
+      const nextSkewMap = applySkewChange(prev.skewMap, targetPage, angle);
+      if ((nextSkewMap[targetPage] ?? 0) === (prev.skewMap[targetPage] ?? 0)) return prev;
+      return commitEdit(prev, { skewMap: nextSkewMap });
+    });
+  }, []);
+
+  const setPageCrops = useCallback((crops: Record<number, CropRect | null>) => {
+    // 不正な範囲は呼び出し元にエラーとして返す
+    const normalizedCrops = Object.entries(crops).map(
+      ([key, rect]) => [Number(key), rect ? normalizeCropRect(rect) : null] as const
+    );
+    setState((prev) => {
+      if (prev.status !== "ready") return prev;
+      const nextCropMap = { ...prev.cropMap };
+      let changed = false;
+      normalizedCrops.forEach(([pageNumber, rect]) => {
+        if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > prev.numPages) return;
+        if (isSameCropRect(nextCropMap[pageNumber], rect ?? undefined)) return;
+        if (rect) {
+          nextCropMap[pageNumber] = rect;
+        } else {
+          delete nextCropMap[pageNumber];
+        }
+        changed = true;
+      });
+      if (!changed) return prev;
+      return commitEdit(prev, { cropMap: nextCropMap });
+    });
+  }, []);
+
+  const setPageRedactions = useCallback((redactions: Record<number, CropRect[]>) => {
+    // 不正な範囲は呼び出し元にエラーとして返す
+    const normalizedRedactions = Object.entries(redactions).map(
+      ([key, rects]) => [Number(key), rects.map(normalizeRedactionRect)] as const
+    );
+    setState((prev) => {
+      if (prev.status !== "ready") return prev;
+      const nextRedactionMap = { ...prev.redactionMap };
+      let changed = false;
+      normalizedRedactions.forEach(([pageNumber, rects]) => {
+        if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > prev.numPages) return;
+        if (isSameRedactions(nextRedactionMap[pageNumber], rects)) return;
+        if (rects.length > 0) {
+          nextRedactionMap[pageNumber] = rects;
+        } else {
+          delete nextRedactionMap[pageNumber];
+        }
+        changed = true;
+      });
+      if (!changed) return prev;
+      return commitEdit(prev, { redactionMap: nextRedactionMap });
+    });
+  }, []);
+
+  const setPageAnnotations = useCallback((annotations: Record<number, PageAnnotation[]>) => {
+    // 不正な注釈は呼び出し元にエラーとして返す
+    const normalizedAnnotations = Object.entries(annotations).map(
+      ([key, items]) => [Number(key), items.map(normalizeAnnotation)] as const
+    );
+    setState((prev) => {
+      if (prev.status !== "ready") return prev;
+      const nextAnnotationMap = { ...prev.annotationMap };
+      let changed = false;
+      normalizedAnnotations.forEach(([pageNumber, items]) => {
+        if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > prev.numPages) return;
+        if (isSameAnnotations(nextAnnotationMap[pageNumber], items)) return;
+        if (items.length > 0) {
+          nextAnnotationMap[pageNumber] = items;
+        } else {
+          delete nextAnnotationMap[pageNumber];
+        }
+        changed = true;
+      });
+      if (!changed) return prev;
+      return commitEdit(prev, { annotationMap: nextAnnotationMap });
+    });
+  }, []);
+
+  const insertBlankPages = useCallback(
+    (insertIndex: number, size: { width: number; height: number }, count = 1) => {
+      assertBlankPageSize(size);
+      if (!Number.isInteger(count) || count < 1) {
+        throw new Error("挿入するページ数は1以上の整数で指定してください");
+      }
+      setState((prev) => {
+        if (prev.status !== "ready") return prev;
+        const page: VirtualPage = { kind: "blank", width: size.width, height: size.height };
+        return insertVirtualPages(
+          prev,
+          Array.from({ length: count }, () => ({ page, insertIndex }))
+        );
+      });
+    },
+    []
+  );
+
+  const duplicatePages = useCallback((pageNumbers: number[]) => {
+    setState((prev) => {
+      if (prev.status !== "ready") return prev;
+      const orderSet = new Set(prev.pageOrder);
+      const targets = normalizeSelectedPages(pageNumbers, prev.numPages).filter((page) => orderSet.has(page));
+      if (targets.length === 0) return prev;
+      return insertVirtualPages(
+        prev,
+        targets.map((pageNumber) => {
+          const original = prev.virtualPages[pageNumber];
+          // 複製の複製は元PDFのページを直接指す
+          const page: VirtualPage = original ?? { kind: "duplicate", of: pageNumber };
+          return { page, insertIndex: prev.pageOrder.indexOf(pageNumber) + 1, inheritFrom: pageNumber };
+        })
+      );
+    });
+  }, []);
+
+  const addOutlineItem = useCallback((title: string, pageNumber: number) => {
+    // 名前が空なら呼び出し元にエラーとして返す
+    const normalized = normalizeOutlineTitle(title);
+    setState((prev) => {
+      if (prev.status !== "ready") return prev;
+      return commitEdit(prev, {
+        outline: appendOutlineItem(prev.outline, normalized, clampPageNumber(pageNumber, prev.numPages)),
+      });
+    });
+  }, []);
+
+  const renameOutlineItem = useCallback((id: string, title: string) => {
+    const normalized = normalizeOutlineTitle(title);
+    setState((prev) => {
+      if (prev.status !== "ready") return prev;
+      const item = findOutlineItem(prev.outline, id);
+      if (!item || item.title === normalized) return prev;
+      return commitEdit(prev, { outline: retitleOutlineItem(prev.outline, id, normalized) });
+    });
+  }, []);
+
+  const removeOutlineItem = useCallback((id: string) => {
+    setState((prev) => {
+      if (prev.status !== "ready" || !findOutlineItem(prev.outline, id)) return prev;
+      return commitEdit(prev, { outline: deleteOutlineItem(prev.outline, id) });
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState((prev) => {
+      const { history } = prev;
+      const snapshot = history.past[history.past.length - 1];
+      if (prev.status !== "ready" || !snapshot) return prev;
+      return {
+        ...prev,
+        ...snapshot,
+        history: {
+          ...history,
+          past: history.past.slice(0, -1),
+          future: [takeSnapshot(prev), ...history.future],
+          groupRecorded: false,
+        },
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState((prev) => {
+      const { history } = prev;
+      const [snapshot, ...future] = history.future;
+      if (prev.status !== "ready" || !snapshot) return prev;
+      return {
+        ...prev,
+        ...snapshot,
+        history: {
+          ...history,
+          past: [...history.past, takeSnapshot(prev)],
+          future,
+          groupRecorded: false,
+        },
+      };
+    });
+  }, []);
+
+  const beginHistoryGroup = useCallback(() => {
+    setState((prev) => ({
+      ...prev,
+      history: { ...prev.history, groupDepth: prev.history.groupDepth + 1, groupRecorded: false },
+    }));
+  }, []);
+
+  const endHistoryGroup = useCallback(() => {
+    setState((prev) => {
+      const groupDepth = Math.max(0, prev.history.groupDepth - 1);
+      return {
+        ...prev,
+        history: {
+          ...prev.history,
+          groupDepth,
+          groupRecorded: groupDepth > 0 && prev.history.groupRecorded,
+        },
+      };
     });
   }, []);
 
@@ -153,11 +781,28 @@ export const useViewerState = (
     state,
     loadDocument,
     loadFromArrayBuffer,
+    appendFromArrayBuffer,
     setPage,
     nextPage,
     prevPage,
     rotateCurrentPage,
     rotatePage,
+    deletePages,
+    restorePages,
+    movePages,
+    setPageSkew,
+    setPageCrops,
+    setPageRedactions,
+    setPageAnnotations,
+    insertBlankPages,
+    duplicatePages,
+    addOutlineItem,
+    renameOutlineItem,
+    removeOutlineItem,
+    undo,
+    redo,
+    beginHistoryGroup,
+    endHistoryGroup,
     setZoom,
     reset,
   };
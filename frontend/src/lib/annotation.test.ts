@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  fromDisplayPoint,
+  normalizeAnnotation,
+  readPageAnnotations,
+  toDisplayPoint,
+  toPdfAnnotationGeometry,
+} from "./annotation";
+import type { PdfPageProxy } from "./pdf";
+
+describe("normalizeAnnotation", () => {
+  it("メモの前後の空白を除き、位置をページ内に収める", () => {
+    expect(normalizeAnnotation({ id: "a", kind: "note", point: { x: 1.2, y: 0.33333 }, text: " 確認 " })).toEqual({
+      id: "a",
+      kind: "note",
+      point: { x: 1, y: 0.3333 },
+      text: "確認",
+    });
+    expect(() => normalizeAnnotation({ id: "a", kind: "note", point: { x: 0, y: 0 }, text: "  " })).toThrow(
+      "メモの内容を入力してください"
+    );
+    expect(() => normalizeAnnotation({ id: "a", kind: "note", point: { x: Number.NaN, y: 0 }, text: "a" })).toThrow(
+      "注釈の位置が不正です"
+    );
+  });
+
+  it("ハイライトは向きをそろえ、小さすぎればエラーにする", () => {
+    expect(
+      normalizeAnnotation({ id: "a", kind: "highlight", rect: { x: 0.5, y: 0.5, width: -0.2, height: 0.1 } })
+    ).toEqual({ id: "a", kind: "highlight", rect: { x: 0.3, y: 0.5, width: 0.2, height: 0.1 } });
+    expect(() =>
+      normalizeAnnotation({ id: "a", kind: "highlight", rect: { x: 0.5, y: 0.5, width: 0.001, height: 0.1 } })
+    ).toThrow("ハイライトの範囲が小さすぎます");
+  });
+
+  it("手書きは近すぎる点を間引き、2点に満たなければエラーにする", () => {
+    const points = [
+      { x: 0.1, y: 0.1 },
+      { x: 0.1001, y: 0.1 },
+      { x: 0.2, y: 0.2 },
+    ];
+    expect(normalizeAnnotation({ id: "a", kind: "ink", points })).toEqual({
+      id: "a",
+      kind: "ink",
+      points: [points[0], points[2]],
+    });
+    expect(() => normalizeAnnotation({ id: "a", kind: "ink", points: points.slice(0, 2) })).toThrow(
+      "手書きの線が短すぎます"
+    );
+  });
+});
+
+describe("toDisplayPoint / fromDisplayPoint", () => {
+  it("時計回りの回転に合わせて点を動かし、元に戻せる", () => {
+    const point = { x: 0.1, y: 0.2 };
+    expect(toDisplayPoint(point, 0)).toEqual(point);
+    expect(toDisplayPoint(point, 90)).toEqual({ x: 0.8, y: 0.1 });
+    expect(toDisplayPoint(point, 180)).toEqual({ x: 0.9, y: 0.8 });
+    expect(toDisplayPoint(point, 270)).toEqual({ x: 0.2, y: 0.9 });
+    [90, 180, 270, -90].forEach((rotation) => {
+      const back = fromDisplayPoint(toDisplayPoint(point, rotation), rotation);
+      expect(back.x).toBeCloseTo(point.x);
+      expect(back.y).toBeCloseTo(point.y);
+    });
+  });
+});
+
+describe("readPageAnnotations", () => {
+  it("元の注釈を回転前の相対座標にし、リンクやポップアップは除く", async () => {
+    const page: PdfPageProxy = {
+      view: [0, 0, 200, 100],
+      getViewport: vi.fn(() => ({ width: 200, height: 100 })),
+      render: vi.fn(),
+      getAnnotations: async () => [
+        { subtype: "Text", rect: [20, 70, 40, 90], contentsObj: { str: "既存のメモ" } },
+        { subtype: "Link", rect: [0, 0, 10, 10] },
+        { subtype: "Popup", rect: [0, 0, 10, 10] },
+        { subtype: "Square", rect: [100, 0, 200, 50] },
+      ],
+    };
+
+    await expect(readPageAnnotations(page)).resolves.toEqual([
+      { subtype: "Text", text: "既存のメモ", rect: { x: 0.1, y: 0.1, width: 0.1, height: 0.2 } },
+      { subtype: "Square", text: "", rect: { x: 0.5, y: 0.5, width: 0.5, height: 0.5 } },
+    ]);
+  });
+});
+
+describe("toPdfAnnotationGeometry", () => {
+  const box = { x: 10, y: 20, width: 200, height: 100 };
+
+  it("相対座標を表示領域のユーザー空間へ変換する", () => {
+    expect(
+      toPdfAnnotationGeometry({ id: "a", kind: "note", point: { x: 0.5, y: 0.5 }, text: "a" }, box)
+    ).toEqual({ rect: [110, 50, 130, 70] });
+    expect(
+      toPdfAnnotationGeometry({ id: "a", kind: "highlight", rect: { x: 0, y: 0, width: 0.5, height: 0.5 } }, box)
+    ).toEqual({ rect: [10, 70, 110, 120], quadPoints: [10, 120, 110, 120, 10, 70, 110, 70] });
+    expect(
+      toPdfAnnotationGeometry(
+        {
+          id: "a",
+          kind: "ink",
+          points: [
+            { x: 0, y: 1 },
+            { x: 1, y: 0 },
+          ],
+        },
+        box
+      )
+    ).toEqual({ rect: [8, 18, 212, 122], inkList: [10, 20, 210, 120] });
+  });
+
+  it("内容に掛けた変換行列を順に掛ける", () => {
+    const geometry = toPdfAnnotationGeometry(
+      { id: "a", kind: "note", point: { x: 0, y: 1 }, text: "a" },
+      box,
+      [
+        [2, 0, 0, 2, 0, 0],
+        [1, 0, 0, 1, 5, 5],
+      ]
+    );
+    expect(geometry.rect).toEqual([25, 25, 45, 45]);
+  });
+});
@@ -0,0 +1,275 @@
+import { fromDisplayCropRect, toDisplayCropRect, type CropRect } from "./crop";
+import { normalizeRotation } from "./rotation";
+import type { PdfAnnotationData, PdfPageProxy } from "./pdf";
+import type { PageBox } from "./skew";
+
+/** ページに対する 0〜1 の相対座標の点。左上を原点とし、y は下向き（回転前の向き） */
+export type AnnotationPoint = { x: number; y: number };
+
+export type AnnotationKind = "note" | "highlight" | "ink";
+
+/**
+ * ワークスペースで追加する注釈。座標はトリミングと同じく回転前の向きでの相対座標で持ち、
+ * 保存時に PDF の注釈（/Text・/Highlight・/Ink）として書き込む。
+ */
+export type PageAnnotation =
+  | { id: string; kind: "note"; point: AnnotationPoint; text: string }
+  | { id: string; kind: "highlight"; rect: CropRect }
+  | { id: string; kind: "ink"; points: AnnotationPoint[] };
+
+export type PageAnnotationMap = Record<number, PageAnnotation[]>;
+
+/** 元のPDFに含まれている注釈（表示のみ） */
+export type ExistingAnnotation = {
+  subtype: string;
+  text: string;
+  /** 回転前の向きでの相対座標 */
+  rect: CropRect;
+};
+
+export type AnnotationColor = [number, number, number];
+
+export const ANNOTATION_COLORS: Record<AnnotationKind, AnnotationColor> = {
+  note: [1, 0.85, 0.2],
+  highlight: [1, 0.92, 0.23],
+  ink: [0.85, 0.12, 0.12],
+};
+
+export const ANNOTATION_KIND_LABELS: Record<AnnotationKind, string> = {
+  note: "メモ",
+  highlight: "ハイライト",
+  ink: "手書き",
+};
+
+/** メモのアイコンの大きさ（pt） */
+export const NOTE_ICON_SIZE = 20;
+/** 手書きの線の太さ（pt） */
+export const INK_LINE_WIDTH = 2;
+/** これより小さいハイライトは操作ミスとみなして受け付けない */
+export const MIN_HIGHLIGHT_SIZE = 0.005;
+/** 手書きの点はこれより近いものを間引く */
+const MIN_INK_STEP = 0.002;
+
+/** 表示しない注釈（リンクやフォームの入力欄、メモに付随するポップアップ） */
+const HIDDEN_SUBTYPES = new Set(["Link", "Widget", "Popup"]);
+
+let nextAnnotationId = 1;
+
+export const createAnnotationId = (): string => {
+  const id = `annotation-${nextAnnotationId}`;
+  nextAnnotationId += 1;
+  return id;
+};
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const roundRatio = (value: number): number => Math.round(value * 10000) / 10000;
+
+const normalizePoint = (point: AnnotationPoint): AnnotationPoint => {
+  if (!Number.isFinite(point.x) || !Number.isFinite(point.y)) {
+    throw new Error("注釈の位置が不正です");
+  }
+  return { x: roundRatio(clamp01(point.x)), y: roundRatio(clamp01(point.y)) };
+};
+
+/**
+ * 注釈をページ内に収めて丸める。空のメモ・小さすぎるハイライト・短すぎる線はエラーにする。
+ */
+export const normalizeAnnotation = (annotation: PageAnnotation): PageAnnotation => {
+  switch (annotation.kind) {
+    case "note": {
+      const text = annotation.text.trim();
+      if (!text) {
+        throw new Error("メモの内容を入力してください");
+      }
+      return { ...annotation, point: normalizePoint(annotation.point), text };
+    }
+    case "highlight": {
+      const { x, y, width, height } = annotation.rect;
+      const topLeft = normalizePoint({ x: Math.min(x, x + width), y: Math.min(y, y + height) });
+      const bottomRight = normalizePoint({ x: Math.max(x, x + width), y: Math.max(y, y + height) });
+      if (bottomRight.x - topLeft.x < MIN_HIGHLIGHT_SIZE || bottomRight.y - topLeft.y < MIN_HIGHLIGHT_SIZE) {
+        throw new Error("ハイライトの範囲が小さすぎます");
+      }
+      return {
+        ...annotation,
+        rect: {
+          x: topLeft.x,
+          y: topLeft.y,
+          width: roundRatio(bottomRight.x - topLeft.x),
+          height: roundRatio(bottomRight.y - topLeft.y),
+        },
+      };
+    }
+    case "ink": {
+      const points: AnnotationPoint[] = [];
+      annotation.points.map(normalizePoint).forEach((point) => {
+        const last = points[points.length - 1];
+        if (!last || Math.hypot(point.x - last.x, point.y - last.y) >= MIN_INK_STEP) points.push(point);
+      });
+      if (points.length < 2) {
+        throw new Error("手書きの線が短すぎます");
+      }
+      return { ...annotation, points };
+    }
+  }
+};
+
+/**
+ * 回転前の向きの点を、時計回りに rotation 度回転して表示したときの座標に変換する。
+ */
+export const toDisplayPoint = (point: AnnotationPoint, rotation: number): AnnotationPoint => {
+  switch (normalizeRotation(rotation)) {
+    case 90:
+      return { x: 1 - point.y, y: point.x };
+    case 180:
+      return { x: 1 - point.x, y: 1 - point.y };
+    case 270:
+      return { x: point.y, y: 1 - point.x };
+    default:
+      return { ...point };
+  }
+};
+
+/**
+ * 表示している向き（時計回りに rotation 度回転）の点を、回転前の座標に戻す。
+ */
+export const fromDisplayPoint = (point: AnnotationPoint, rotation: number): AnnotationPoint =>
+  toDisplayPoint(point, 360 - normalizeRotation(rotation));
+
+/**
+ * 注釈の座標を、時計回りに rotation 度回転して表示したときの座標に変換する。
+ */
+export const toDisplayAnnotation = (annotation: PageAnnotation, rotation: number): PageAnnotation => {
+  switch (annotation.kind) {
+    case "note":
+      return { ...annotation, point: toDisplayPoint(annotation.point, rotation) };
+    case "highlight":
+      return { ...annotation, rect: toDisplayCropRect(annotation.rect, rotation) };
+    case "ink":
+      return { ...annotation, points: annotation.points.map((point) => toDisplayPoint(point, rotation)) };
+  }
+};
+
+/**
+ * 表示している向きで指定した注釈を、回転前の座標に戻す。
+ */
+export const fromDisplayAnnotation = (annotation: PageAnnotation, rotation: number): PageAnnotation => {
+  switch (annotation.kind) {
+    case "note":
+      return { ...annotation, point: fromDisplayPoint(annotation.point, rotation) };
+    case "highlight":
+      return { ...annotation, rect: fromDisplayCropRect(annotation.rect, rotation) };
+    case "ink":
+      return { ...annotation, points: annotation.points.map((point) => fromDisplayPoint(point, rotation)) };
+  }
+};
+
+/**
+ * 元のPDFの注釈を PDF.js から読み、回転前の向きでの相対座標にする。リンク・入力欄・ポップアップは除く。
+ */
+export const readPageAnnotations = async (page: PdfPageProxy): Promise<ExistingAnnotation[]> => {
+  const annotations = await readAnnotationRects(page);
+  return annotations.flatMap(({ annotation, rect }) => {
+    const subtype = annotation.subtype ?? "";
+    if (HIDDEN_SUBTYPES.has(subtype)) return [];
+    return [{ subtype, text: annotation.contentsObj?.str ?? annotation.contents ?? "", rect }];
+  });
+};
+
+/**
+ * PDF.js からページの注釈を読み、それぞれの /Rect を回転前の向きでの相対座標にして返す。
+ * フォームの入力欄を読むときにも使う。
+ */
+export const readAnnotationRects = async (
+  page: PdfPageProxy
+): Promise<Array<{ annotation: PdfAnnotationData; rect: CropRect }>> => {
+  if (!page.getAnnotations) return [];
+  const viewport = page.getViewport({ scale: 1, rotation: 0 });
+  const [left, bottom, right, top] = page.view ?? [0, 0, viewport.width, viewport.height];
+  const width = right - left;
+  const height = top - bottom;
+  if (width <= 0 || height <= 0) return [];
+  const annotations = await page.getAnnotations();
+  return annotations.flatMap((annotation) => {
+    const rect = annotation.rect;
+    if (!rect || rect.length < 4) return [];
+    const [x1, y1, x2, y2] = rect;
+    return [
+      {
+        annotation,
+        rect: {
+          x: roundRatio((Math.min(x1, x2) - left) / width),
+          y: roundRatio(1 - (Math.max(y1, y2) - bottom) / height),
+          width: roundRatio(Math.abs(x2 - x1) / width),
+          height: roundRatio(Math.abs(y2 - y1) / height),
+        },
+      },
+    ];
+  });
+};
+
+export type AnnotationMatrix = [number, number, number, number, number, number];
+
+/** 保存する注釈の、PDFのユーザー空間での位置 */
+export type PdfAnnotationGeometry = {
+  rect: [number, number, number, number];
+  /** ハイライトの四隅（左上・右上・左下・右下の順） */
+  quadPoints?: number[];
+  /** 手書きの線の点 */
+  inkList?: number[];
+};
+
+const applyMatrices = (matrices: AnnotationMatrix[], x: number, y: number): [number, number] =>
+  matrices.reduce<[number, number]>(
+    ([px, py], [a, b, c, d, e, f]) => [a * px + c * py + e, b * px + d * py + f],
+    [x, y]
+  );
+
+const boundsOf = (coordinates: number[], padding = 0): [number, number, number, number] => {
+  const xs = coordinates.filter((_, index) => index % 2 === 0);
+  const ys = coordinates.filter((_, index) => index % 2 === 1);
+  return [
+    Math.min(...xs) - padding,
+    Math.min(...ys) - padding,
+    Math.max(...xs) + padding,
+    Math.max(...ys) + padding,
+  ];
+};
+
+/**
+ * 回転前の相対座標の注釈を、box（元の表示領域）のユーザー空間の座標にする。
+ * matrices には傾き補正・ページサイズの統一で内容に掛けた変換行列を掛けた順に渡し、注釈を内容に合わせて動かす。
+ */
+export const toPdfAnnotationGeometry = (
+  annotation: PageAnnotation,
+  box: PageBox,
+  matrices: AnnotationMatrix[] = []
+): PdfAnnotationGeometry => {
+  const toPdf = (point: AnnotationPoint) =>
+    applyMatrices(matrices, box.x + point.x * box.width, box.y + (1 - point.y) * box.height);
+  switch (annotation.kind) {
+    case "note": {
+      // メモのアイコンは指定した点を左上にして置く
+      const [x, y] = toPdf(annotation.point);
+      return { rect: [x, y - NOTE_ICON_SIZE, x + NOTE_ICON_SIZE, y] };
+    }
+    case "highlight": {
+      const { x, y, width, height } = annotation.rect;
+      const quadPoints = [
+        ...toPdf({ x, y }),
+        ...toPdf({ x: x + width, y }),
+        ...toPdf({ x, y: y + height }),
+        ...toPdf({ x: x + width, y: y + height }),
+      ];
+      return { rect: boundsOf(quadPoints), quadPoints };
+    }
+    case "ink": {
+      const inkList = annotation.points.flatMap(toPdf);
+      return { rect: boundsOf(inkList, INK_LINE_WIDTH), inkList };
+    }
+  }
+};
+
+export const isSameAnnotations = (a: PageAnnotation[] | undefined, b: PageAnnotation[] | undefined): boolean =>
+  JSON.stringify(a ?? []) === JSON.stringify(b ?? []);
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  findContentBounds,
+  fromDisplayCropRect,
+  normalizeCropRect,
+  toDisplayCropRect,
+  toPdfCropBox,
+} from "./crop";
+
+describe("normalizeCropRect", () => {
+  it("逆向きにドラッグした矩形も左上基準に直し、ページ内に収める", () => {
+    expect(normalizeCropRect({ x: 0.8, y: 0.9, width: -0.6, height: -1.2 })).toEqual({
+      x: 0.2,
+      y: 0,
+      width: 0.6,
+      height: 0.9,
+    });
+  });
+
+  it("ページ全体なら null を返し、小さすぎる矩形はエラーにする", () => {
+    expect(normalizeCropRect({ x: -0.1, y: 0, width: 1.2, height: 1 })).toBeNull();
+    expect(() => normalizeCropRect({ x: 0.5, y: 0.5, width: 0.01, height: 0.3 })).toThrow(
+      "トリミング範囲が小さすぎます"
+    );
+    expect(() => normalizeCropRect({ x: NaN, y: 0, width: 1, height: 1 })).toThrow("トリミング範囲が不正です");
+  });
+});
+
+describe("toDisplayCropRect / fromDisplayCropRect", () => {
+  const rect = { x: 0.1, y: 0.2, width: 0.3, height: 0.4 };
+
+  it("時計回りの回転に合わせて矩形を移す", () => {
+    expect(toDisplayCropRect(rect, 90)).toEqual({ x: expect.closeTo(0.4), y: 0.1, width: 0.4, height: 0.3 });
+    expect(toDisplayCropRect(rect, 180)).toEqual({
+      x: expect.closeTo(0.6),
+      y: expect.closeTo(0.4),
+      width: 0.3,
+      height: 0.4,
+    });
+    expect(toDisplayCropRect(rect, 270)).toEqual({ x: 0.2, y: expect.closeTo(0.6), width: 0.4, height: 0.3 });
+  });
+
+  it("表示の座標から回転前の座標に戻せる", () => {
+    [0, 90, 180, 270, -90, 450].forEach((rotation) => {
+      const restored = fromDisplayCropRect(toDisplayCropRect(rect, rotation), rotation);
+      expect(restored.x).toBeCloseTo(rect.x);
+      expect(restored.y).toBeCloseTo(rect.y);
+      expect(restored.width).toBeCloseTo(rect.width);
+      expect(restored.height).toBeCloseTo(rect.height);
+    });
+  });
+});
+
+describe("toPdfCropBox", () => {
+  it("y 軸が上向きのユーザー空間に変換する", () => {
+    expect(toPdfCropBox({ x: 10, y: 20, width: 200, height: 100 }, { x: 0.25, y: 0.1, width: 0.5, height: 0.6 })).toEqual({
+      x: 60,
+      y: 50,
+      width: 100,
+      height: 60,
+    });
+  });
+});
+
+describe("findContentBounds", () => {
+  const createImage = (width: number, height: number, dots: Array<[number, number]>) => {
+    const data = new Uint8ClampedArray(width * height * 4).fill(255);
+    dots.forEach(([x, y]) => {
+      const offset = (y * width + x) * 4;
+      data[offset] = 0;
+      data[offset + 1] = 0;
+      data[offset + 2] = 0;
+    });
+    return { width, height, data };
+  };
+
+  it("白以外の画素を含む範囲に余白を足して返す", () => {
+    const bounds = findContentBounds(createImage(100, 50, [[10, 5], [59, 24]]), { padding: 0.02 });
+    expect(bounds?.x).toBeCloseTo(0.08);
+    expect(bounds?.y).toBeCloseTo(0.08);
+    expect(bounds?.width).toBeCloseTo(0.54);
+    expect(bounds?.height).toBeCloseTo(0.44);
+  });
+
+  it("真っ白な画像では null を返す", () => {
+    expect(findContentBounds(createImage(10, 10, []))).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { normalizeRotation } from "./rotation";
+import type { PageBox } from "./skew";
+
+/**
+ * ページに対する 0〜1 の相対座標の矩形。左上を原点とし、y は下向き。
+ * ビューア状態では回転を適用する前（/Rotate = 0 の向き）の座標で保持し、
+ * 回転を変えても同じ内容の範囲を指すようにする。
+ */
+export type CropRect = { x: number; y: number; width: number; height: number };
+
+export type PageCropMap = Record<number, CropRect>;
+
+/** これより小さいトリミングは操作ミスとみなして受け付けない */
+export const MIN_CROP_SIZE = 0.02;
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const roundRatio = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * 矩形をページ内に収めて丸める。小さすぎる矩形はエラーにし、ページ全体なら null（トリミングなし）を返す。
+ */
+export const normalizeCropRect = (rect: CropRect): CropRect | null => {
+  const values = [rect.x, rect.y, rect.width, rect.height];
+  if (values.some((value) => !Number.isFinite(value))) {
+    throw new Error("トリミング範囲が不正です");
+  }
+  const left = clamp01(Math.min(rect.x, rect.x + rect.width));
+  const right = clamp01(Math.max(rect.x, rect.x + rect.width));
+  const top = clamp01(Math.min(rect.y, rect.y + rect.height));
+  const bottom = clamp01(Math.max(rect.y, rect.y + rect.height));
+  if (right - left < MIN_CROP_SIZE || bottom - top < MIN_CROP_SIZE) {
+    throw new Error("トリミング範囲が小さすぎます");
+  }
+  const normalized = {
+    x: roundRatio(left),
+    y: roundRatio(top),
+    width: roundRatio(right - left),
+    height: roundRatio(bottom - top),
+  };
+  if (normalized.x === 0 && normalized.y === 0 && normalized.width === 1 && normalized.height === 1) {
+    return null;
+  }
+  return normalized;
+};
+
+/**
+ * 回転前の座標の矩形を、時計回りに rotation 度回転して表示したときの座標に変換する。
+ */
+export const toDisplayCropRect = (rect: CropRect, rotation: number): CropRect => {
+  switch (normalizeRotation(rotation)) {
+    case 90:
+      return { x: 1 - rect.y - rect.height, y: rect.x, width: rect.height, height: rect.width };
+    case 180:
+      return { x: 1 - rect.x - rect.width, y: 1 - rect.y - rect.height, width: rect.width, height: rect.height };
+    case 270:
+      return { x: rect.y, y: 1 - rect.x - rect.width, width: rect.height, height: rect.width };
+    default:
+      return { ...rect };
+  }
+};
+
+/**
+ * 表示している向き（時計回りに rotation 度回転）の座標の矩形を、回転前の座標に戻す。
+ */
+export const fromDisplayCropRect = (rect: CropRect, rotation: number): CropRect =>
+  toDisplayCropRect(rect, 360 - normalizeRotation(rotation));
+
+/**
+ * 回転前の座標の矩形を、PDFのユーザー空間（y 軸が上向き）の CropBox に変換する。
+ */
+export const toPdfCropBox = (box: PageBox, rect: CropRect): PageBox => ({
+  x: box.x + rect.x * box.width,
+  y: box.y + (1 - rect.y - rect.height) * box.height,
+  width: rect.width * box.width,
+  height: rect.height * box.height,
+});
+
+export type ContentBoundsOptions = {
+  /** この輝度（0〜255）未満の画素を内容とみなす */
+  threshold?: number;
+  /** 検出した範囲の外側に残す余白（幅・高さに対する比率） */
+  padding?: number;
+};
+
+/**
+ * 描画したページ画像（RGBA）から白以外の画素を含む範囲を求める。
+ * 内容が見つからなければ null を返す。
+ */
+export const findContentBounds = (
+  image: { width: number; height: number; data: Uint8ClampedArray },
+  options: ContentBoundsOptions = {}
+): CropRect | null => {
+  const { width, height, data } = image;
+  if (width < 1 || height < 1) return null;
+  const threshold = options.threshold ?? 245;
+  const padding = options.padding ?? 0.01;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const offset = (y * width + x) * 4;
+      const alpha = data[offset + 3];
+      if (alpha === 0) continue;
+      const luminance = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+      if (luminance >= threshold) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return null;
+  const left = clamp01(minX / width - padding);
+  const top = clamp01(minY / height - padding);
+  const right = clamp01((maxX + 1) / width + padding);
+  const bottom = clamp01((maxY + 1) / height + padding);
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+export const isSameCropRect = (a: CropRect | undefined, b: CropRect | undefined): boolean => {
+  if (!a || !b) return a === b;
+  return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import { canDrawFormValue, formFieldValue, readPageFormFields } from "./form";
+import type { PdfPageProxy } from "./pdf";
+
+describe("readPageFormFields", () => {
+  it("入力欄の種類と値を読み、位置を回転前の相対座標にする", async () => {
+    const page: PdfPageProxy = {
+      view: [0, 0, 200, 100],
+      getViewport: vi.fn(() => ({ width: 200, height: 100 })),
+      render: vi.fn(),
+      getAnnotations: async () => [
+        { subtype: "Widget", fieldType: "Tx", fieldName: "name", fieldValue: "Taro", rect: [20, 70, 120, 90] },
+        {
+          subtype: "Widget",
+          fieldType: "Btn",
+          fieldName: "agree",
+          checkBox: true,
+          exportValue: "Yes",
+          fieldValue: "Yes",
+          rect: [0, 0, 10, 10],
+        },
+        {
+          subtype: "Widget",
+          fieldType: "Btn",
+          fieldName: "size",
+          radioButton: true,
+          buttonValue: "M",
+          fieldValue: "Off",
+          rect: [0, 0, 10, 10],
+        },
+        {
+          subtype: "Widget",
+          fieldType: "Ch",
+          fieldName: "plan",
+          fieldValue: ["b"],
+          options: [
+            { exportValue: "a", displayValue: "A" },
+            { exportValue: "b", displayValue: "B" },
+          ],
+          readOnly: true,
+          rect: [0, 0, 10, 10],
+        },
+        { subtype: "Widget", fieldType: "Btn", fieldName: "submit", pushButton: true, rect: [0, 0, 10, 10] },
+        { subtype: "Text", rect: [0, 0, 10, 10] },
+      ],
+    };
+
+    const fields = await readPageFormFields(page);
+
+    expect(fields.map((field) => [field.name, field.kind, field.value])).toEqual([
+      ["name", "text", "Taro"],
+      ["agree", "checkbox", true],
+      ["size", "radio", ""],
+      ["plan", "dropdown", "B"],
+    ]);
+    expect(fields[0].rect).toEqual({ x: 0.1, y: 0.1, width: 0.5, height: 0.2 });
+    expect(fields[2].exportValue).toBe("M");
+    expect(fields[3]).toMatchObject({ options: ["A", "B"], readOnly: true });
+  });
+});
+
+describe("formFieldValue / canDrawFormValue", () => {
+  it("変更した値を優先し、標準フォントで描けない文字を見分ける", () => {
+    const field = { name: "name", kind: "text" as const, rect: { x: 0, y: 0, width: 1, height: 1 }, value: "Taro" };
+    expect(formFieldValue(field, {})).toBe("Taro");
+    expect(formFieldValue(field, { name: "" })).toBe("");
+    expect(canDrawFormValue("Taro\nYamada")).toBe(true);
+    expect(canDrawFormValue(true)).toBe(true);
+    expect(canDrawFormValue("山田")).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import type { CropRect } from "./crop";
+import { readAnnotationRects } from "./annotation";
+import type { PdfAnnotationData, PdfPageProxy } from "./pdf";
+
+export type FormFieldKind = "text" | "checkbox" | "radio" | "dropdown";
+
+/** 元のPDFのフォームの入力欄（1つの /Widget）。同じ名前の入力欄は値を共有する */
+export type PageFormField = {
+  name: string;
+  kind: FormFieldKind;
+  /** 回転前の向きでの相対座標 */
+  rect: CropRect;
+  /** 元のPDFの値。チェックボックスはオンかどうか、ラジオボタンは選ばれている選択肢の値 */
+  value: string | boolean;
+  /** ラジオボタンのこの選択肢の値 */
+  exportValue?: string;
+  /** ドロップダウン・リストの選択肢 */
+  options?: string[];
+  multiline?: boolean;
+  readOnly?: boolean;
+};
+
+/** 入力欄の名前ごとに、変更した値 */
+export type FormValues = Record<string, string | boolean>;
+
+/** 標準フォント（Helvetica）で外観を作れる文字 */
+const PRINTABLE_ASCII = /^[\x20-\x7e\r\n]*$/;
+
+/** 値が標準フォントで描けるか（描けなければ外観を作れず、平坦化もできない） */
+export const canDrawFormValue = (value: string | boolean): boolean =>
+  typeof value === "boolean" || PRINTABLE_ASCII.test(value);
+
+const firstValue = (value: PdfAnnotationData["fieldValue"]): string =>
+  (Array.isArray(value) ? value[0] : value) ?? "";
+
+const toFormField = (annotation: PdfAnnotationData, rect: CropRect): PageFormField | null => {
+  const name = annotation.fieldName;
+  if (annotation.subtype !== "Widget" || !name || annotation.hidden || annotation.pushButton) return null;
+  const base = { name, rect, readOnly: annotation.readOnly ?? false };
+  switch (annotation.fieldType) {
+    case "Tx":
+      return { ...base, kind: "text", value: firstValue(annotation.fieldValue), multiline: annotation.multiLine ?? false };
+    case "Btn": {
+      const value = firstValue(annotation.fieldValue);
+      if (annotation.radioButton) {
+        if (!annotation.buttonValue) return null;
+        return { ...base, kind: "radio", value: value === "Off" ? "" : value, exportValue: annotation.buttonValue };
+      }
+      if (!annotation.checkBox) return null;
+      return { ...base, kind: "checkbox", value: value !== "" && value !== "Off" && value === annotation.exportValue };
+    }
+    case "Ch": {
+      const choices = (annotation.options ?? []).map((option) => ({
+        value: option.exportValue ?? option.displayValue ?? "",
+        label: option.displayValue ?? option.exportValue ?? "",
+      }));
+      const value = firstValue(annotation.fieldValue);
+      // pdf-lib は表示する文字で選択肢を扱うので、値も表示する文字にそろえる
+      return {
+        ...base,
+        kind: "dropdown",
+        value: choices.find((choice) => choice.value === value)?.label ?? value,
+        options: choices.map((choice) => choice.label),
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * ページにあるフォームの入力欄を PDF.js から読む。押しボタンと非表示の入力欄は除く。
+ */
+export const readPageFormFields = async (page: PdfPageProxy): Promise<PageFormField[]> => {
+  const annotations = await readAnnotationRects(page);
+  return annotations.flatMap(({ annotation, rect }) => {
+    const field = toFormField(annotation, rect);
+    return field ? [field] : [];
+  });
+};
+
+/** 変更した値があればそれを、無ければ元のPDFの値を返す */
+export const formFieldValue = (field: PageFormField, values: FormValues): string | boolean =>
+  values[field.name] ?? field.value;
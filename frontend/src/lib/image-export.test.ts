@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from "vitest";
+import type { PdfDocumentProxy, PdfPageProxy } from "./pdf";
+import {
+  dpiToScale,
+  exportPagesAsImages,
+  formatImageFileName,
+  formatImageZipFileName,
+} from "./image-export";
+
+const makeDoc = (rotates: Record<number, number> = {}): PdfDocumentProxy => ({
+  numPages: 3,
+  getPage: vi.fn(
+    async (pageNumber: number): Promise<PdfPageProxy> => ({
+      rotate: rotates[pageNumber] ?? 0,
+      getViewport: vi.fn(),
+      render: vi.fn(),
+    })
+  ),
+});
+
+const makeCanvas = () => {
+  const canvas = {
+    width: 0,
+    height: 0,
+    toBlob: vi.fn((callback: (blob: Blob | null) => void, type: string) => {
+      callback(new Blob([type], { type }));
+    }),
+  };
+  return canvas;
+};
+
+const readBlob = (blob: Blob): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const readZipNames = async (zip: Blob): Promise<string[]> => {
+  const bytes = new Uint8Array(await readBlob(zip));
+  const view = new DataView(bytes.buffer);
+  const names: string[] = [];
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    names.push(new TextDecoder().decode(bytes.slice(offset + 30, offset + 30 + nameLength)));
+    offset += 30 + nameLength + size;
+  }
+  return names;
+};
+
+describe("dpiToScale", () => {
+  it("72dpi を等倍として倍率に直す", () => {
+    expect(dpiToScale(72)).toBe(1);
+    expect(dpiToScale(300)).toBeCloseTo(4.1667, 4);
+  });
+
+  it("範囲外の解像度はエラーにする", () => {
+    expect(() => dpiToScale(20)).toThrow("解像度は 36〜600 dpi で指定してください");
+    expect(() => dpiToScale(1200)).toThrow("解像度は 36〜600 dpi で指定してください");
+    expect(() => dpiToScale(Number.NaN)).toThrow("解像度は 36〜600 dpi で指定してください");
+  });
+});
+
+describe("formatImageFileName", () => {
+  it("出力順の連番を桁数をそろえて付ける", () => {
+    expect(formatImageFileName("report.pdf", 3, 12, "png")).toBe("report_03.png");
+    expect(formatImageFileName("report.PDF", 7, 120, "jpeg")).toBe("report_007.jpg");
+    expect(formatImageFileName("", 1, 1, "png")).toBe("document_01.png");
+    expect(formatImageZipFileName("report.pdf")).toBe("report_images.zip");
+  });
+});
+
+describe("exportPagesAsImages", () => {
+  it("ページごとに回転・トリミングを反映して描画し、指定形式の画像をZIPにまとめる", async () => {
+    const canvas = makeCanvas();
+    const render = vi.fn(async () => {});
+    const onProgress = vi.fn();
+    const crop = { x: 0.1, y: 0.2, width: 0.5, height: 0.4 };
+
+    const zip = await exportPagesAsImages(
+      makeDoc({ 3: 90 }),
+      [
+        { pageNumber: 3, rotation: 0, crop },
+        { pageNumber: 1, rotation: 90 },
+      ],
+      {
+        format: "jpeg",
+        dpi: 144,
+        name: "a.pdf",
+        onProgress,
+        render,
+        createCanvas: () => canvas as unknown as HTMLCanvasElement,
+      }
+    );
+
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(render.mock.calls[0][2]).toEqual({
+      scale: 2,
+      rotation: 0,
+      // 元の /Rotate 90 で表示している向きの座標に直す
+      crop: { x: 0.4, y: 0.1, width: 0.4, height: 0.5 },
+      maxWidth: 10000,
+      maxHeight: 10000,
+    });
+    expect(render.mock.calls[1][2]).toMatchObject({ scale: 2, rotation: 90, crop: undefined });
+    expect(canvas.toBlob).toHaveBeenCalledWith(expect.any(Function), "image/jpeg", 0.92);
+    expect(onProgress.mock.calls).toEqual([
+      [{ current: 1, total: 2, page: 3 }],
+      [{ current: 2, total: 2, page: 1 }],
+    ]);
+    await expect(readZipNames(zip)).resolves.toEqual(["a_01.jpg", "a_02.jpg"]);
+    expect(canvas.width).toBe(0);
+  });
+
+  it("中止すると残りのページを描画せずに AbortError を投げる", async () => {
+    const controller = new AbortController();
+    const render = vi.fn(async () => {
+      controller.abort();
+    });
+
+    const result = exportPagesAsImages(makeDoc(), [{ pageNumber: 1 }, { pageNumber: 2 }], {
+      format: "png",
+      dpi: 72,
+      signal: controller.signal,
+      render,
+      createCanvas: () => makeCanvas() as unknown as HTMLCanvasElement,
+    });
+
+    await expect(result).rejects.toMatchObject({ name: "AbortError" });
+    expect(render).toHaveBeenCalledTimes(1);
+  });
+
+  it("書き出すページが無ければエラーにする", async () => {
+    await expect(exportPagesAsImages(makeDoc(), [], { format: "png", dpi: 150 })).rejects.toThrow(
+      "書き出すページがありません"
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import { toDisplayCropRect, type CropRect } from "./crop";
+import { renderPageToCanvas, type PdfDocumentProxy, type PdfPageProxy, type RenderOptions } from "./pdf";
+import { composeRotation } from "./rotation";
+import { stripPdfExtension } from "./split";
+import { createZip, type ZipEntry } from "./zip";
+
+export type ImageFormat = "png" | "jpeg";
+
+export const IMAGE_EXPORT_DPI_OPTIONS = [72, 150, 200, 300, 600];
+export const DEFAULT_IMAGE_EXPORT_DPI = 150;
+export const MIN_IMAGE_EXPORT_DPI = 36;
+export const MAX_IMAGE_EXPORT_DPI = 600;
+
+/** ブラウザのキャンバスの上限に収めるため、これを超える辺は縮小する（その分 DPI は下がる） */
+export const MAX_IMAGE_EXPORT_DIMENSION = 10000;
+
+const POINTS_PER_INCH = 72;
+const JPEG_QUALITY = 0.92;
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+};
+
+const EXTENSIONS: Record<ImageFormat, string> = {
+  png: "png",
+  jpeg: "jpg",
+};
+
+export type ImageExportTarget = {
+  pageNumber: number;
+  /** ページ元来の /Rotate に加算する回転差分 */
+  rotation?: number;
+  /** トリミング範囲（回転前の向きでの相対座標） */
+  crop?: CropRect;
+  /** 黒く塗りつぶす墨消し範囲（回転前の向きでの相対座標） */
+  redactions?: CropRect[];
+};
+
+export type ImageExportOptions = {
+  format: ImageFormat;
+  dpi: number;
+  /** 元のファイル名（画像とZIPのファイル名に使う） */
+  name?: string;
+  signal?: AbortSignal;
+  /** ページを描画し始める前に呼ぶ（current は1始まり） */
+  onProgress?: (progress: { current: number; total: number; page: number }) => void;
+  createCanvas?: () => HTMLCanvasElement;
+  render?: (page: PdfPageProxy, canvas: HTMLCanvasElement, options: RenderOptions) => Promise<unknown>;
+};
+
+/** PDF の 1pt は 1/72 インチなので、DPI を描画倍率に直す */
+export const dpiToScale = (dpi: number): number => {
+  if (!Number.isFinite(dpi) || dpi < MIN_IMAGE_EXPORT_DPI || dpi > MAX_IMAGE_EXPORT_DPI) {
+    throw new Error(`解像度は ${MIN_IMAGE_EXPORT_DPI}〜${MAX_IMAGE_EXPORT_DPI} dpi で指定してください`);
+  }
+  return dpi / POINTS_PER_INCH;
+};
+
+/**
+ * 書き出す画像のファイル名。出力順の連番（桁数をそろえる）を付ける。
+ */
+export const formatImageFileName = (name: string, index: number, total: number, format: ImageFormat): string => {
+  const base = stripPdfExtension(name) || "document";
+  const digits = Math.max(2, String(total).length);
+  return `${base}_${String(index).padStart(digits, "0")}.${EXTENSIONS[format]}`;
+};
+
+export const formatImageZipFileName = (name: string): string => `${stripPdfExtension(name) || "document"}_images.zip`;
+
+const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new DOMException("画像の書き出しを中止しました", "AbortError");
+  }
+};
+
+export const canvasToBytes = (
+  canvas: HTMLCanvasElement,
+  format: ImageFormat,
+  quality: number = JPEG_QUALITY
+): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error("画像の変換に失敗しました"));
+          return;
+        }
+        const reader = new FileReader();
+        reader.onerror = () => reject(new Error("画像の変換に失敗しました"));
+        reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+        reader.readAsArrayBuffer(blob);
+      },
+      MIME_TYPES[format],
+      format === "jpeg" ? quality : undefined
+    );
+  });
+
+/**
+ * ページを現在の回転とトリミングで画像にし、ZIPにまとめる。
+ * signal で中止した場合は AbortError を投げる。
+ */
+export const exportPagesAsImages = async (
+  doc: PdfDocumentProxy,
+  targets: ImageExportTarget[],
+  options: ImageExportOptions
+): Promise<Blob> => {
+  if (targets.length === 0) {
+    throw new Error("書き出すページがありません");
+  }
+  const scale = dpiToScale(options.dpi);
+  const render = options.render ?? renderPageToCanvas;
+  // 大きな画像を何枚も保持しないよう、キャンバスは使い回す
+  const canvas = options.createCanvas?.() ?? document.createElement("canvas");
+  const entries: ZipEntry[] = [];
+  try {
+    for (const [index, target] of targets.entries()) {
+      throwIfAborted(options.signal);
+      options.onProgress?.({ current: index + 1, total: targets.length, page: target.pageNumber });
+      const page = await doc.getPage(target.pageNumber);
+      const rotation = target.rotation ?? 0;
+      const displayRotation = composeRotation(page.rotate, rotation);
+      await render(page, canvas, {
+        scale,
+        rotation,
+        crop: target.crop ? toDisplayCropRect(target.crop, displayRotation) : undefined,
+        redactions: target.redactions?.map((rect) => toDisplayCropRect(rect, displayRotation)),
+        maxWidth: MAX_IMAGE_EXPORT_DIMENSION,
+        maxHeight: MAX_IMAGE_EXPORT_DIMENSION,
+      });
+      throwIfAborted(options.signal);
+      entries.push({
+        name: formatImageFileName(options.name ?? "", index + 1, targets.length, options.format),
+        data: await canvasToBytes(canvas, options.format),
+      });
+    }
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+  return createZip(entries);
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPdfFromImages,
+  compareFileNames,
+  createOrientationMatrix,
+  formatImagePdfName,
+  getOrientedSize,
+  isImageFile,
+  layoutImagePage,
+  readJpegOrientation,
+} from "./image-to-pdf";
+
+/** 1x1 の透明でない PNG */
+const PNG_1X1 = Uint8Array.from(
+  atob("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=="),
+  (char) => char.charCodeAt(0)
+);
+
+/**
+ * 大きさと EXIF の Orientation だけを持つ JPEG（pdf-lib は SOF から大きさを読むだけなので描画できなくてよい）
+ */
+const makeJpeg = (width: number, height: number, orientation?: number, littleEndian = true): Uint8Array => {
+  const bytes: number[] = [0xff, 0xd8];
+  if (orientation !== undefined) {
+    const u16 = (value: number) => (littleEndian ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff]);
+    const u32 = (value: number) => (littleEndian ? [value, 0, 0, 0] : [0, 0, 0, value]);
+    const tiff = [
+      ...(littleEndian ? [0x49, 0x49, 0x2a, 0x00] : [0x4d, 0x4d, 0x00, 0x2a]),
+      ...u32(8),
+      ...u16(2),
+      // 先頭の別のタグを読み飛ばせることも確かめる
+      ...u16(0x010f), ...u16(2), ...u32(1), 0, 0, 0, 0,
+      ...u16(0x0112), ...u16(3), ...u32(1), ...u16(orientation), 0, 0,
+      ...u32(0),
+    ];
+    const exif = [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff];
+    bytes.push(0xff, 0xe1, (exif.length + 2) >> 8, (exif.length + 2) & 0xff, ...exif);
+  }
+  bytes.push(0xff, 0xc0, 0, 17, 8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3);
+  bytes.push(1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1);
+  bytes.push(0xff, 0xd9);
+  return Uint8Array.from(bytes);
+};
+
+const toBuffer = (bytes: Uint8Array): ArrayBuffer => Uint8Array.from(bytes).buffer;
+
+describe("isImageFile / compareFileNames / formatImagePdfName", () => {
+  it("JPEG/PNG を MIME タイプか拡張子で判定する", () => {
+    expect(isImageFile({ name: "a.jpg", type: "" })).toBe(true);
+    expect(isImageFile({ name: "a.bin", type: "image/png" })).toBe(true);
+    expect(isImageFile({ name: "a.JPEG", type: "" })).toBe(true);
+    expect(isImageFile({ name: "a.gif", type: "image/gif" })).toBe(false);
+  });
+
+  it("ファイル名の数字を数値として並べ、先頭の画像の名前でPDFの名前を付ける", () => {
+    expect(["scan10.jpg", "scan2.jpg", "Scan1.jpg"].sort(compareFileNames)).toEqual([
+      "Scan1.jpg",
+      "scan2.jpg",
+      "scan10.jpg",
+    ]);
+    expect(formatImagePdfName(["scan1.jpg", "scan2.jpg"])).toBe("scan1.pdf");
+    expect(formatImagePdfName([])).toBe("images.pdf");
+  });
+});
+
+describe("readJpegOrientation", () => {
+  it("EXIF の Orientation をリトル/ビッグエンディアンのどちらでも読む", () => {
+    expect(readJpegOrientation(makeJpeg(4, 3, 6))).toBe(6);
+    expect(readJpegOrientation(makeJpeg(4, 3, 8, false))).toBe(8);
+  });
+
+  it("EXIF が無いか値が不正なら 1 を返す", () => {
+    expect(readJpegOrientation(makeJpeg(4, 3))).toBe(1);
+    expect(readJpegOrientation(makeJpeg(4, 3, 9))).toBe(1);
+  });
+});
+
+describe("createOrientationMatrix", () => {
+  const box = { x: 10, y: 20, width: 30, height: 40 };
+  const apply = (matrix: number[], u: number, v: number) => [
+    matrix[0] * u + matrix[2] * v + matrix[4],
+    matrix[1] * u + matrix[3] * v + matrix[5],
+  ];
+
+  it("画像の左上の角を Orientation どおりの位置に置く", () => {
+    // 画像の左上は単位正方形の (0, 1)
+    expect(apply(createOrientationMatrix(1, box), 0, 1)).toEqual([10, 60]);
+    expect(apply(createOrientationMatrix(3, box), 0, 1)).toEqual([40, 20]);
+    // 時計回りに90度回転して表示する画像は、左上が右上に来る
+    expect(apply(createOrientationMatrix(6, box), 0, 1)).toEqual([40, 60]);
+    expect(apply(createOrientationMatrix(8, box), 0, 1)).toEqual([10, 20]);
+    expect(apply(createOrientationMatrix(2, box), 0, 1)).toEqual([40, 60]);
+    expect(apply(createOrientationMatrix(5, box), 0, 1)).toEqual([10, 60]);
+  });
+
+  it("どの向きでも単位正方形を box 全体に写す", () => {
+    for (let orientation = 1; orientation <= 8; orientation += 1) {
+      const matrix = createOrientationMatrix(orientation, box);
+      const corners = [apply(matrix, 0, 0), apply(matrix, 1, 0), apply(matrix, 0, 1), apply(matrix, 1, 1)];
+      expect(corners.map(([x]) => x).sort((a, b) => a - b)).toEqual([10, 10, 40, 40]);
+      expect(corners.map(([, y]) => y).sort((a, b) => a - b)).toEqual([20, 20, 60, 60]);
+    }
+  });
+});
+
+describe("layoutImagePage", () => {
+  it("画像の大きさのままなら 96dpi として pt に直す", () => {
+    expect(layoutImagePage({ width: 960, height: 480 }, "image")).toEqual({
+      width: 720,
+      height: 360,
+      box: { x: 0, y: 0, width: 720, height: 360 },
+    });
+    expect(getOrientedSize(960, 480, 6)).toEqual({ width: 480, height: 960 });
+  });
+
+  it("用紙に合わせる場合は横長の画像なら横向きにし、中央に収める", () => {
+    const layout = layoutImagePage({ width: 1000, height: 500 }, "letter");
+    expect(layout.width).toBe(792);
+    expect(layout.height).toBe(612);
+    expect(layout.box).toEqual({ x: 0, y: 108, width: 792, height: 396 });
+  });
+});
+
+describe("buildPdfFromImages", () => {
+  it("画像を1枚1ページにし、EXIF の向きで縦横を入れ替えたページにする", async () => {
+    const buffer = await buildPdfFromImages(
+      [
+        { name: "a.jpg", data: toBuffer(makeJpeg(400, 300, 6)) },
+        { name: "b.png", data: toBuffer(PNG_1X1) },
+      ],
+      { pageSize: "image" }
+    );
+
+    const { PDFDocument } = await import("pdf-lib");
+    const pdfDoc = await PDFDocument.load(buffer);
+    expect(pdfDoc.getPages().map((page) => page.getSize())).toEqual([
+      { width: 225, height: 300 },
+      { width: 0.75, height: 0.75 },
+    ]);
+  });
+
+  it("JPEG/PNG 以外はファイル名を付けてエラーにする", async () => {
+    await expect(
+      buildPdfFromImages([{ name: "c.gif", data: toBuffer(Uint8Array.from([0x47, 0x49, 0x46, 0x38])) }], {
+        pageSize: "a4",
+      })
+    ).rejects.toThrow("c.gif は対応していない画像形式です（JPEG/PNGのみ）");
+  });
+});
@@ -0,0 +1,166 @@
+import { layoutNormalizedPage } from "./page-size";
+import type { PageBox } from "./skew";
+
+/** image: 画像の大きさのまま、a4/letter: 用紙に収まるよう縮小・拡大して中央に置く */
+export type ImagePageSize = "image" | "a4" | "letter";
+
+export type ImageSource = {
+  name: string;
+  data: ArrayBuffer;
+};
+
+type ImageType = "jpeg" | "png";
+
+/** 解像度の情報を使わず、画像の 1px を 96dpi として pt に直す */
+const IMAGE_PIXELS_PER_INCH = 96;
+const POINTS_PER_INCH = 72;
+/** PDF のページの辺の上限（pt） */
+const MAX_PAGE_SIZE = 14400;
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png)$/i;
+
+export const isImageFile = (file: { name: string; type: string }): boolean =>
+  file.type === "image/jpeg" || file.type === "image/png" || IMAGE_EXTENSIONS.test(file.name);
+
+/** 数字を数値として比べるファイル名の比較（scan2 が scan10 より前になる） */
+export const compareFileNames = (a: string, b: string): number =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+/** 画像から作るPDFの名前。先頭の画像の名前の拡張子を .pdf にする */
+export const formatImagePdfName = (names: string[]): string => {
+  const base = (names[0] ?? "").replace(/\.[^.]+$/, "");
+  return `${base || "images"}.pdf`;
+};
+
+const detectImageType = (image: ImageSource): ImageType => {
+  const bytes = new Uint8Array(image.data, 0, Math.min(4, image.data.byteLength));
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "jpeg";
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return "png";
+  throw new Error(`${image.name} は対応していない画像形式です（JPEG/PNGのみ）`);
+};
+
+/**
+ * JPEG の EXIF（APP1）から Orientation（1〜8）を読む。見つからなければ 1（そのまま）を返す。
+ */
+export const readJpegOrientation = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = view.getUint16(offset + 2);
+    // SOS 以降は画像データなので、そこまでに無ければ EXIF は無い
+    if (marker === 0xda || length < 2) break;
+    const segment = offset + 4;
+    const isExif =
+      marker === 0xe1 &&
+      segment + 14 <= bytes.length &&
+      String.fromCharCode(...bytes.subarray(segment, segment + 4)) === "Exif";
+    if (isExif) {
+      const tiff = segment + 6;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd + 2 > bytes.length) return 1;
+      const count = view.getUint16(ifd, littleEndian);
+      for (let index = 0; index < count; index += 1) {
+        const entry = ifd + 2 + index * 12;
+        if (entry + 12 > bytes.length) break;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const value = view.getUint16(entry + 8, littleEndian);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+/** Orientation 5〜8 は90度回転を含むため、見た目の幅と高さが入れ替わる */
+export const getOrientedSize = (
+  width: number,
+  height: number,
+  orientation: number
+): { width: number; height: number } => (orientation >= 5 ? { width: height, height: width } : { width, height });
+
+/**
+ * 画像（単位正方形）を Orientation に従って正しい向きで box に描く変換行列 [a, b, c, d, e, f]。
+ */
+export const createOrientationMatrix = (orientation: number, box: PageBox): number[] => {
+  const { x, y, width, height } = box;
+  switch (orientation) {
+    case 2:
+      return [-width, 0, 0, height, x + width, y];
+    case 3:
+      return [-width, 0, 0, -height, x + width, y + height];
+    case 4:
+      return [width, 0, 0, -height, x, y + height];
+    case 5:
+      return [0, -height, -width, 0, x + width, y + height];
+    case 6:
+      return [0, -height, width, 0, x, y + height];
+    case 7:
+      return [0, height, width, 0, x, y];
+    case 8:
+      return [0, height, -width, 0, x + width, y];
+    default:
+      return [width, 0, 0, height, x, y];
+  }
+};
+
+/**
+ * 見た目の画像の大きさ（px）からページの大きさと画像を置く範囲を決める。
+ * 用紙に合わせる場合は画像の縦横に合わせて用紙の向きを変え、余白が均等になるよう中央に置く。
+ */
+export const layoutImagePage = (
+  image: { width: number; height: number },
+  pageSize: ImagePageSize
+): { width: number; height: number; box: PageBox } => {
+  if (pageSize === "image") {
+    const ratio = POINTS_PER_INCH / IMAGE_PIXELS_PER_INCH;
+    const shrink = Math.min(1, MAX_PAGE_SIZE / (image.width * ratio), MAX_PAGE_SIZE / (image.height * ratio));
+    const width = image.width * ratio * shrink;
+    const height = image.height * ratio * shrink;
+    return { width, height, box: { x: 0, y: 0, width, height } };
+  }
+  const { width, height, box } = layoutNormalizedPage(image, {
+    paper: pageSize,
+    orientation: "auto",
+    marginMm: 0,
+    fit: "fit",
+  });
+  return { width, height, box };
+};
+
+/**
+ * JPEG/PNG 画像を1枚1ページにしたPDFを作る。JPEG は EXIF の Orientation どおりの向きで配置する。
+ */
+export const buildPdfFromImages = async (
+  images: ImageSource[],
+  options: { pageSize: ImagePageSize }
+): Promise<ArrayBuffer> => {
+  if (images.length === 0) {
+    throw new Error("画像がありません");
+  }
+  const pdfLib = await import("pdf-lib");
+  const { PDFDocument, pushGraphicsState, popGraphicsState, concatTransformationMatrix, drawObject } = pdfLib;
+  const pdfDoc = await PDFDocument.create();
+  for (const image of images) {
+    const type = detectImageType(image);
+    const bytes = new Uint8Array(image.data);
+    const embedded = type === "jpeg" ? await pdfDoc.embedJpg(bytes) : await pdfDoc.embedPng(bytes);
+    const orientation = type === "jpeg" ? readJpegOrientation(bytes) : 1;
+    const layout = layoutImagePage(getOrientedSize(embedded.width, embedded.height, orientation), options.pageSize);
+    const page = pdfDoc.addPage([layout.width, layout.height]);
+    const name = page.node.newXObject("Image", embedded.ref);
+    const [a, b, c, d, e, f] = createOrientationMatrix(orientation, layout.box);
+    page.pushOperators(
+      pushGraphicsState(),
+      concatTransformationMatrix(a, b, c, d, e, f),
+      drawObject(name),
+      popGraphicsState()
+    );
+  }
+  const saved = await pdfDoc.save();
+  return Uint8Array.from(saved).buffer;
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  arrangeSheets,
+  DEFAULT_IMPOSITION,
+  fitPageInCell,
+  layoutSheet,
+  placeRotatedPage,
+  resolveGrid,
+  type ImpositionOptions,
+} from "./imposition";
+
+const nup = (pagesPerSheet: number, patch: Partial<ImpositionOptions> = {}): ImpositionOptions => ({
+  ...DEFAULT_IMPOSITION,
+  pagesPerSheet,
+  ...patch,
+});
+
+describe("resolveGrid", () => {
+  it("縦向きの用紙では行を多く、横向きの用紙では列を多くする", () => {
+    expect(resolveGrid(2, false)).toEqual({ columns: 1, rows: 2 });
+    expect(resolveGrid(2, true)).toEqual({ columns: 2, rows: 1 });
+    expect(resolveGrid(6, false)).toEqual({ columns: 2, rows: 3 });
+    expect(resolveGrid(8, true)).toEqual({ columns: 4, rows: 2 });
+    expect(resolveGrid(9, true)).toEqual({ columns: 3, rows: 3 });
+    expect(resolveGrid(16, false)).toEqual({ columns: 4, rows: 4 });
+  });
+});
+
+describe("arrangeSheets", () => {
+  it("N-up は順に並べ、最後の面の余りは白紙にする", () => {
+    expect(arrangeSheets(5, nup(4))).toEqual([
+      [0, 1, 2, 3],
+      [4, null, null, null],
+    ]);
+  });
+
+  it("中綴じ冊子は4の倍数まで白紙で補い、表・裏の順に並べる", () => {
+    expect(arrangeSheets(6, { ...DEFAULT_IMPOSITION, layout: "booklet" })).toEqual([
+      [null, 0],
+      [1, null],
+      [5, 2],
+      [3, 4],
+    ]);
+  });
+
+  it("1面のページ数が選択肢に無ければエラーにする", () => {
+    expect(() => arrangeSheets(4, nup(3))).toThrow("1面のページ数は 2/4/6/8/9/16 から選んでください");
+  });
+});
+
+describe("layoutSheet", () => {
+  it("自動の向きでは縦長のページを2面なら横向き、4面なら縦向きの用紙に並べる", () => {
+    const portraitPage = { width: 595.28, height: 841.89 };
+    const two = layoutSheet(portraitPage, nup(2));
+    expect(two.width).toBeCloseTo(841.89);
+    expect(two.cells).toHaveLength(2);
+    expect(two.cells[0]).toEqual({ x: 0, y: 0, width: expect.closeTo(420.945), height: expect.closeTo(595.28) });
+    const four = layoutSheet(portraitPage, nup(4));
+    expect(four.width).toBeCloseTo(595.28);
+  });
+
+  it("横長のページを2面に並べるときは縦向きの用紙で上下に置く", () => {
+    const layout = layoutSheet({ width: 841.89, height: 595.28 }, nup(2));
+    expect(layout.height).toBeCloseTo(841.89);
+    // 1つ目のセルは上半分
+    expect(layout.cells[0].y).toBeCloseTo(841.89 / 2);
+    expect(layout.cells[1].y).toBe(0);
+  });
+
+  it("向きを指定するとその向きの用紙にする", () => {
+    const layout = layoutSheet({ width: 100, height: 200 }, nup(2, { orientation: "portrait", paper: "letter" }));
+    expect(layout).toMatchObject({ width: 612, height: 792 });
+  });
+});
+
+describe("fitPageInCell", () => {
+  it("セルに収めて中央に置く", () => {
+    expect(fitPageInCell({ x: 10, y: 20, width: 200, height: 200 }, { width: 100, height: 50 })).toEqual({
+      x: 10,
+      y: 70,
+      width: 200,
+      height: 100,
+    });
+  });
+});
+
+describe("placeRotatedPage", () => {
+  const box = { x: 10, y: 20, width: 300, height: 200 };
+
+  it("回転なしは左下に置く", () => {
+    expect(placeRotatedPage(box, { width: 150, height: 100 }, 0)).toEqual({ x: 10, y: 20, scale: 2, rotate: 0 });
+  });
+
+  it("90度は左上を中心に時計回りに回す", () => {
+    expect(placeRotatedPage(box, { width: 100, height: 150 }, 90)).toEqual({ x: 10, y: 220, scale: 2, rotate: -90 });
+  });
+
+  it("180度と270度もページが box に収まる位置にする", () => {
+    expect(placeRotatedPage(box, { width: 150, height: 100 }, 180)).toEqual({ x: 310, y: 220, scale: 2, rotate: -180 });
+    expect(placeRotatedPage(box, { width: 100, height: 150 }, -90)).toEqual({ x: 310, y: 20, scale: 2, rotate: -270 });
+  });
+});
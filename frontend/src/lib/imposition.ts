@@ -0,0 +1,131 @@
+import { PAPER_SIZES, type PaperOrientation, type PaperSize } from "./page-size";
+import type { PageBox } from "./skew";
+
+/** nup: 1枚に複数ページを順に並べる、booklet: 中綴じ冊子の順に2ページずつ並べる */
+export type ImpositionLayout = "nup" | "booklet";
+
+export type ImpositionOptions = {
+  layout: ImpositionLayout;
+  /** 1面に並べるページ数（booklet では常に2） */
+  pagesPerSheet: number;
+  paper: PaperSize;
+  /** auto: 並べたページが大きくなる向きを選ぶ */
+  orientation: PaperOrientation;
+};
+
+export const NUP_PAGES_PER_SHEET_OPTIONS = [2, 4, 6, 8, 9, 16];
+
+export const DEFAULT_IMPOSITION: ImpositionOptions = {
+  layout: "nup",
+  pagesPerSheet: 2,
+  paper: "a4",
+  orientation: "auto",
+};
+
+export type PageSize = { width: number; height: number };
+
+const resolvePagesPerSheet = (options: ImpositionOptions): number => {
+  if (options.layout === "booklet") return 2;
+  if (!NUP_PAGES_PER_SHEET_OPTIONS.includes(options.pagesPerSheet)) {
+    throw new Error(`1面のページ数は ${NUP_PAGES_PER_SHEET_OPTIONS.join("/")} から選んでください`);
+  }
+  return options.pagesPerSheet;
+};
+
+/**
+ * 1面の列数と行数。縦向きの用紙では行を多く、横向きの用紙では列を多くする（2 → 1x2 / 2x1、6 → 2x3 / 3x2）。
+ */
+export const resolveGrid = (pagesPerSheet: number, landscape: boolean): { columns: number; rows: number } => {
+  let short = Math.floor(Math.sqrt(pagesPerSheet));
+  while (pagesPerSheet % short !== 0) short -= 1;
+  const long = pagesPerSheet / short;
+  return landscape ? { columns: long, rows: short } : { columns: short, rows: long };
+};
+
+/**
+ * 出力する面ごとに、並べるページの位置（0始まり、null は白紙）をセルの順（左上から行ごと）に返す。
+ * 中綴じ冊子はページ数を4の倍数まで白紙で補い、表・裏の順に面を並べる（両面印刷して二つ折りにする）。
+ */
+export const arrangeSheets = (pageCount: number, options: ImpositionOptions): Array<Array<number | null>> => {
+  const perSheet = resolvePagesPerSheet(options);
+  const toSlot = (index: number): number | null => (index < pageCount ? index : null);
+  const sheets: Array<Array<number | null>> = [];
+  if (options.layout === "booklet") {
+    const total = Math.ceil(pageCount / 4) * 4;
+    for (let sheet = 0; sheet < total / 4; sheet += 1) {
+      sheets.push([toSlot(total - 1 - sheet * 2), toSlot(sheet * 2)]);
+      sheets.push([toSlot(sheet * 2 + 1), toSlot(total - 2 - sheet * 2)]);
+    }
+    return sheets;
+  }
+  for (let start = 0; start < pageCount; start += perSheet) {
+    sheets.push(Array.from({ length: perSheet }, (_, offset) => toSlot(start + offset)));
+  }
+  return sheets;
+};
+
+/** size をセルに収めて中央に置いた範囲 */
+export const fitPageInCell = (cell: PageBox, size: PageSize): PageBox => {
+  const scale = Math.min(cell.width / size.width, cell.height / size.height);
+  const width = size.width * scale;
+  const height = size.height * scale;
+  return { x: cell.x + (cell.width - width) / 2, y: cell.y + (cell.height - height) / 2, width, height };
+};
+
+const layoutCells = (sheet: PageSize, grid: { columns: number; rows: number }): PageBox[] => {
+  const width = sheet.width / grid.columns;
+  const height = sheet.height / grid.rows;
+  // PDF の座標は左下が原点なので、上の行ほど y が大きい
+  return Array.from({ length: grid.columns * grid.rows }, (_, index) => ({
+    x: (index % grid.columns) * width,
+    y: sheet.height - (Math.floor(index / grid.columns) + 1) * height,
+    width,
+    height,
+  }));
+};
+
+/**
+ * 面の大きさとセルの範囲を決める。向きが auto なら、先頭ページ（見た目の向き）が大きく並ぶ向きを選ぶ。
+ */
+export const layoutSheet = (
+  firstPage: PageSize,
+  options: ImpositionOptions
+): { width: number; height: number; cells: PageBox[] } => {
+  const perSheet = resolvePagesPerSheet(options);
+  const paper = PAPER_SIZES[options.paper];
+  const build = (landscape: boolean) => {
+    const sheet = landscape ? { width: paper.height, height: paper.width } : paper;
+    return { ...sheet, cells: layoutCells(sheet, resolveGrid(perSheet, landscape)) };
+  };
+  if (options.orientation !== "auto") {
+    return build(options.orientation === "landscape");
+  }
+  const portrait = build(false);
+  const landscape = build(true);
+  const scaleOf = (layout: { cells: PageBox[] }) => fitPageInCell(layout.cells[0], firstPage).width / firstPage.width;
+  return scaleOf(landscape) > scaleOf(portrait) ? landscape : portrait;
+};
+
+/**
+ * 回転前の大きさ size のページを、/Rotate（時計回り）の見た目で box に描くための
+ * 描画位置・倍率・回転角（反時計回り、描画位置が回転の中心）を返す。
+ */
+export const placeRotatedPage = (
+  box: PageBox,
+  size: PageSize,
+  rotation: number
+): { x: number; y: number; scale: number; rotate: number } => {
+  const normalized = ((rotation % 360) + 360) % 360;
+  const quarter = normalized === 90 || normalized === 270;
+  const scale = box.width / (quarter ? size.height : size.width);
+  switch (normalized) {
+    case 90:
+      return { x: box.x, y: box.y + box.height, scale, rotate: -90 };
+    case 180:
+      return { x: box.x + box.width, y: box.y + box.height, scale, rotate: -180 };
+    case 270:
+      return { x: box.x + box.width, y: box.y, scale, rotate: -270 };
+    default:
+      return { x: box.x, y: box.y, scale, rotate: 0 };
+  }
+};
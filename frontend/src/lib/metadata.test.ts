@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_METADATA, readDocumentMetadata, writeDocumentMetadata } from "./metadata";
+import type { PdfDocumentProxy } from "./pdf";
+
+const createDoc = (info: Record<string, unknown> | null): PdfDocumentProxy => ({
+  numPages: 1,
+  getPage: async () => {
+    throw new Error("not used");
+  },
+  getMetadata: async () => ({ info }),
+});
+
+describe("readDocumentMetadata", () => {
+  it("文書情報の文字列だけを読み、無い項目は空にする", async () => {
+    const metadata = await readDocumentMetadata(
+      createDoc({ Title: "議事録", Author: "総務部", Keywords: 3, Producer: "Scanner 1.0", IsLinearized: false })
+    );
+    expect(metadata).toEqual({
+      ...EMPTY_METADATA,
+      title: "議事録",
+      author: "総務部",
+      producer: "Scanner 1.0",
+    });
+  });
+
+  it("getMetadata を持たない文書や情報の無い文書は空にする", async () => {
+    expect(await readDocumentMetadata({ numPages: 0, getPage: createDoc(null).getPage })).toEqual(EMPTY_METADATA);
+    expect(await readDocumentMetadata(createDoc(null))).toEqual(EMPTY_METADATA);
+  });
+});
+
+describe("writeDocumentMetadata", () => {
+  const createPdf = async () => {
+    const { PDFDocument, PDFName } = await import("pdf-lib");
+    const doc = await PDFDocument.create();
+    doc.addPage([100, 100]);
+    doc.setTitle("old");
+    doc.setAuthor("someone");
+    doc.catalog.set(PDFName.of("Metadata"), doc.context.register(doc.context.stream("<x:xmpmeta/>")));
+    return doc;
+  };
+
+  it("入力した項目を書き込み、空の項目は削除する", async () => {
+    const { PDFDocument, PDFName } = await import("pdf-lib");
+    const doc = await createPdf();
+
+    await writeDocumentMetadata(doc, { ...EMPTY_METADATA, title: " 新しいタイトル ", keywords: "請求書 2026" });
+
+    const saved = await PDFDocument.load(await doc.save(), { updateMetadata: false });
+    expect(saved.getTitle()).toBe("新しいタイトル");
+    expect(saved.getKeywords()).toBe("請求書 2026");
+    expect(saved.getAuthor()).toBeUndefined();
+    expect(saved.catalog.get(PDFName.of("Metadata"))).toBeUndefined();
+  });
+
+  it("null ならすべての文書情報を削除する", async () => {
+    const { PDFDocument } = await import("pdf-lib");
+    const doc = await createPdf();
+
+    await writeDocumentMetadata(doc, null);
+
+    const saved = await PDFDocument.load(await doc.save(), { updateMetadata: false });
+    expect(saved.getTitle()).toBeUndefined();
+    expect(saved.getProducer()).toBeUndefined();
+    expect(saved.getCreationDate()).toBeUndefined();
+  });
+});
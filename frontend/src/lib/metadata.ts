@@ -0,0 +1,78 @@
+import type { PDFDocument } from "pdf-lib";
+import type { PdfDocumentProxy } from "./pdf";
+
+/** 文書情報辞書（/Info）のうち画面で編集する項目 */
+export type DocumentMetadata = {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string;
+  creator: string;
+  producer: string;
+};
+
+export const EMPTY_METADATA: DocumentMetadata = {
+  title: "",
+  author: "",
+  subject: "",
+  keywords: "",
+  creator: "",
+  producer: "",
+};
+
+/** 画面での並び順と表示名、/Info のキー */
+export const METADATA_FIELDS: Array<{ key: keyof DocumentMetadata; label: string; infoKey: string }> = [
+  { key: "title", label: "タイトル", infoKey: "Title" },
+  { key: "author", label: "作成者", infoKey: "Author" },
+  { key: "subject", label: "サブタイトル", infoKey: "Subject" },
+  { key: "keywords", label: "キーワード", infoKey: "Keywords" },
+  { key: "creator", label: "作成アプリケーション", infoKey: "Creator" },
+  { key: "producer", label: "PDF変換", infoKey: "Producer" },
+];
+
+/**
+ * PDF.js の getMetadata から文書情報を読む。文字列でない値や getMetadata を持たない文書は空にする。
+ */
+export const readDocumentMetadata = async (doc: PdfDocumentProxy): Promise<DocumentMetadata> => {
+  if (!doc.getMetadata) return EMPTY_METADATA;
+  const { info } = await doc.getMetadata();
+  const metadata = { ...EMPTY_METADATA };
+  for (const field of METADATA_FIELDS) {
+    const value = info?.[field.infoKey];
+    if (typeof value === "string") metadata[field.key] = value;
+  }
+  return metadata;
+};
+
+/**
+ * 保存する文書の /Info を書き換える。metadata が null ならすべての文書情報を削除する。
+ * XMP メタデータ（カタログの /Metadata）は /Info と食い違わないよう常に外す。
+ * 外したストリームはまだ文書に残るので、書き出す前に呼び出し側で参照されないオブジェクトとして取り除く。
+ */
+export const writeDocumentMetadata = async (
+  pdfDoc: PDFDocument,
+  metadata: DocumentMetadata | null
+): Promise<void> => {
+  const { PDFDict, PDFName, PDFHexString } = await import("pdf-lib");
+  const { context } = pdfDoc;
+  pdfDoc.catalog.delete(PDFName.of("Metadata"));
+  let info = context.lookupMaybe(context.trailerInfo.Info, PDFDict);
+  if (!info) {
+    info = context.obj({});
+    context.trailerInfo.Info = context.register(info);
+  }
+  if (!metadata) {
+    for (const key of info.keys()) {
+      info.delete(key);
+    }
+    return;
+  }
+  for (const field of METADATA_FIELDS) {
+    const value = metadata[field.key].trim();
+    if (value) {
+      info.set(PDFName.of(field.infoKey), PDFHexString.fromText(value));
+    } else {
+      info.delete(PDFName.of(field.infoKey));
+    }
+  }
+};
@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from "vitest";
-import { detectOrientationFromPage, renderPageToPng, requestOrientation } from "./ocr";
+import { detectOrientationFromPage, detectSkewForPage, renderPageToPng, requestOrientation, requestSkew } from "./ocr";
 import type { PdfPageProxy } from "./pdf";
 
 describe("renderPageToPng", () => {
@@ -165,3 +165,80 @@ describe("detectOrientationFromPage", () => {
     expect(result.imageBase64).toContain("ABC");
   });
 });
+
+describe("requestSkew", () => {
+  it("傾き推定APIへbase64を送り角度を取得する", async () => {
+    const fetcher = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        angle: 1.8,
+        confidence: 0.66,
+        processingMs: 40,
+      }),
+    });
+
+    const result = await requestSkew("base64-image", { fetcher });
+
+    expect(fetcher).toHaveBeenCalledWith("/api/ocr/skew", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ imageBase64: "base64-image" }),
+    });
+    expect(result.angle).toBeCloseTo(1.8);
+    expect(result.confidence).toBeCloseTo(0.66);
+  });
+
+  it("HTTPエラーの場合はメッセージ付きで失敗させる", async () => {
+    const fetcher = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 501,
+      json: async () => ({
+        success: false,
+        message: "傾き推定に対応していません",
+      }),
+    });
+
+    await expect(requestSkew("data", { fetcher })).rejects.toThrow(
+      "OCRのリクエストに失敗しました (HTTP 501): 傾き推定に対応していません"
+    );
+  });
+});
+
+describe("detectSkewForPage", () => {
+  it("回転差分を適用した向きで画像化してから傾きを推定する", async () => {
+    const renderMock = vi.fn().mockResolvedValue({ width: 100, height: 200 });
+    const canvas = {
+      getContext: vi.fn().mockReturnValue({}),
+      toDataURL: vi.fn().mockReturnValue("data:image/png;base64,XYZ"),
+    } as unknown as HTMLCanvasElement;
+    const page = {} as PdfPageProxy;
+    const pdfDoc = { numPages: 3, getPage: vi.fn().mockResolvedValue(page) };
+    const fetcher = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, angle: -2.5, confidence: 0.5, processingMs: 12 }),
+    });
+
+    const result = await detectSkewForPage(pdfDoc, 2, {
+      rotation: 90,
+      scale: 1.5,
+      render: renderMock,
+      createCanvas: () => canvas,
+      fetcher,
+    });
+
+    expect(pdfDoc.getPage).toHaveBeenCalledWith(2);
+    expect(renderMock).toHaveBeenCalledWith(page, canvas, { scale: 1.5, rotation: 90 });
+    expect(fetcher).toHaveBeenCalledWith(
+      "/api/ocr/skew",
+      expect.objectContaining({ body: JSON.stringify({ imageBase64: "data:image/png;base64,XYZ" }) })
+    );
+    expect(result).toMatchObject({ page: 2, angle: -2.5, confidence: 0.5 });
+  });
+
+  it("範囲外のページ番号はエラーにする", async () => {
+    const pdfDoc = { numPages: 1, getPage: vi.fn() };
+
+    await expect(detectSkewForPage(pdfDoc, 2)).rejects.toThrow("ページ番号が不正です");
+  });
+});
@@ -23,6 +23,33 @@ export type OrientationSuggestion = OrientationResponse & {
   imageBase64?: string;
 };
 
+export type SkewResponse = {
+  success: true;
+  angle: number | null;
+  confidence: number;
+  processingMs: number;
+};
+
+export type SkewRequestOptions = {
+  fetcher?: typeof fetch;
+  endpoint?: string;
+};
+
+export type SkewSuggestion = SkewResponse & {
+  page: number;
+};
+
+export type DetectSkewForPageOptions = SkewRequestOptions & {
+  scale?: number;
+  /**
+   * ページ元来の /Rotate に加算する回転差分。
+   * 見た目の向き（回転適用後）で傾きを測るため、現在の回転差分を渡す。
+   */
+  rotation?: number;
+  render?: RenderPageToPngOptions["render"];
+  createCanvas?: () => HTMLCanvasElement;
+};
+
 export type RenderPageToPngOptions = {
   scale?: number;
   rotation?: number;
@@ -46,10 +73,15 @@ export type DetectOrientationParams = {
 
 export type DetectOrientationForPageOptions = OrientationRequestOptions & {
   scale?: number;
+  /**
+   * ページ元来の /Rotate に加算する回転差分。
+   * 未指定なら元の向きのまま画像化するため、推定結果はそのまま回転マップの値として使える。
+   */
   rotation?: number;
 };
 
 const DEFAULT_ENDPOINT = "/api/ocr/orientation";
+const DEFAULT_SKEW_ENDPOINT = "/api/ocr/skew";
 
 const safeReadJson = async (res: unknown): Promise<unknown | null> => {
   if (!res || typeof res !== "object") {
@@ -105,17 +137,11 @@ export const renderPageToPng = async (
   return { dataUrl, viewport };
 };
 
-export const requestOrientation = async (
-  imageBase64: string,
-  options: OrientationRequestOptions = {}
-): Promise<OrientationResponse> => {
-  const fetcher = options.fetcher ?? fetch;
-  const endpoint = options.endpoint ?? DEFAULT_ENDPOINT;
-  const payload: { imageBase64: string; threshold?: number } = { imageBase64 };
-  if (typeof options.threshold === "number" && Number.isFinite(options.threshold)) {
-    payload.threshold = options.threshold;
-  }
-
+const postOcrRequest = async (
+  endpoint: string,
+  payload: Record<string, unknown>,
+  fetcher: typeof fetch
+): Promise<unknown> => {
   let res: Response;
   try {
     res = await fetcher(endpoint, {
@@ -142,9 +168,37 @@ export const requestOrientation = async (
     throw new Error(message);
   }
 
+  return data;
+};
+
+export const requestOrientation = async (
+  imageBase64: string,
+  options: OrientationRequestOptions = {}
+): Promise<OrientationResponse> => {
+  const payload: { imageBase64: string; threshold?: number } = { imageBase64 };
+  if (typeof options.threshold === "number" && Number.isFinite(options.threshold)) {
+    payload.threshold = options.threshold;
+  }
+
+  const data = await postOcrRequest(options.endpoint ?? DEFAULT_ENDPOINT, payload, options.fetcher ?? fetch);
   return data as OrientationResponse;
 };
 
+/**
+ * 傾き推定APIを呼び出す。angle は画像上で時計回りに傾いている角度（度）で、推定できなければ null。
+ */
+export const requestSkew = async (
+  imageBase64: string,
+  options: SkewRequestOptions = {}
+): Promise<SkewResponse> => {
+  const data = await postOcrRequest(
+    options.endpoint ?? DEFAULT_SKEW_ENDPOINT,
+    { imageBase64 },
+    options.fetcher ?? fetch
+  );
+  return data as SkewResponse;
+};
+
 export const detectOrientationFromPage = async (
   params: DetectOrientationParams
 ): Promise<{ suggestion: OrientationResponse; imageBase64: string; viewport: { width: number; height: number } }> => {
@@ -208,3 +262,26 @@ export const detectOrientationForPage = async (
     ...suggestion,
   };
 };
+
+export const detectSkewForPage = async (
+  pdfDoc: { numPages: number; getPage: (pageNumber: number) => Promise<PdfPageProxy> },
+  pageNumber: number,
+  options: DetectSkewForPageOptions = {}
+): Promise<SkewSuggestion> => {
+  if (!pdfDoc) {
+    throw new Error("PDFが読み込まれていません");
+  }
+  if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pdfDoc.numPages) {
+    throw new Error("ページ番号が不正です");
+  }
+
+  const page = await pdfDoc.getPage(pageNumber);
+  const { dataUrl } = await renderPageToPng(page, {
+    scale: options.scale ?? 1,
+    rotation: options.rotation ?? 0,
+    createCanvas: options.createCanvas,
+    render: options.render,
+  });
+  const result = await requestSkew(dataUrl, { fetcher: options.fetcher, endpoint: options.endpoint });
+  return { page: pageNumber, ...result };
+};
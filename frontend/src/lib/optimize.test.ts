@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertOptimizationOptions,
+  estimateOptimizedSize,
+  formatFileSize,
+  planImageSize,
+  toGrayscale,
+  toRgba,
+  type PdfImageInfo,
+} from "./optimize";
+
+describe("planImageSize", () => {
+  it("ページの長辺に指定の解像度で収まる大きさまで縮小する", () => {
+    // A4 の長辺 842pt を 150dpi にすると 1755px
+    expect(planImageSize(2480, 3508, 842, 150)).toEqual({ width: 1241, height: 1755 });
+  });
+
+  it("解像度が足りない画像は拡大しない", () => {
+    expect(planImageSize(400, 300, 842, 150)).toEqual({ width: 400, height: 300 });
+  });
+});
+
+describe("estimateOptimizedSize", () => {
+  const scan: PdfImageInfo = { bytes: 2_000_000, width: 2480, height: 3508, optimizable: true, pageExtent: 842 };
+
+  it("画像以外のデータはそのままにして、圧縮し直せる画像の大きさを見積もる", () => {
+    const estimated = estimateOptimizedSize(2_100_000, [scan], { dpi: 150, quality: 75, grayscale: false });
+    expect(estimated).toBeGreaterThan(100_000);
+    expect(estimated).toBeLessThan(2_100_000);
+  });
+
+  it("品質を下げる・グレーにするほど小さく見積もる", () => {
+    const color = estimateOptimizedSize(2_100_000, [scan], { dpi: 150, quality: 75, grayscale: false });
+    const gray = estimateOptimizedSize(2_100_000, [scan], { dpi: 150, quality: 75, grayscale: true });
+    const low = estimateOptimizedSize(2_100_000, [scan], { dpi: 150, quality: 40, grayscale: false });
+    expect(gray).toBeLessThan(color);
+    expect(low).toBeLessThan(color);
+  });
+
+  it("扱えない形式の画像と、圧縮し直すと大きくなる画像は元のままとする", () => {
+    const small = { ...scan, bytes: 1000 };
+    const cmyk = { ...scan, optimizable: false };
+    expect(estimateOptimizedSize(5000, [small], { dpi: 150, quality: 75, grayscale: false })).toBe(5000);
+    expect(estimateOptimizedSize(2_100_000, [cmyk], { dpi: 72, quality: 10, grayscale: true })).toBe(2_100_000);
+  });
+});
+
+describe("assertOptimizationOptions", () => {
+  it("解像度と品質の範囲を確かめる", () => {
+    expect(() => assertOptimizationOptions({ dpi: 150, quality: 75, grayscale: false })).not.toThrow();
+    expect(() => assertOptimizationOptions({ dpi: 20, quality: 75, grayscale: false })).toThrow(
+      "画像の解像度は 36〜600 dpi で指定してください"
+    );
+    expect(() => assertOptimizationOptions({ dpi: 150, quality: 0, grayscale: false })).toThrow(
+      "画像の品質は 10〜100 で指定してください"
+    );
+  });
+});
+
+describe("formatFileSize", () => {
+  it("B・KB・MB で表示する", () => {
+    expect(formatFileSize(512)).toBe("512 B");
+    expect(formatFileSize(1536)).toBe("1.5 KB");
+    expect(formatFileSize(3 * 1024 * 1024)).toBe("3.0 MB");
+  });
+});
+
+describe("toRgba / toGrayscale", () => {
+  it("グレー・RGB の画素を RGBA にし、輝度のグレーにできる", () => {
+    expect(Array.from(toRgba(Uint8Array.from([10, 200]), 1, 2))).toEqual([10, 10, 10, 255, 200, 200, 200, 255]);
+    const rgba = toRgba(Uint8Array.from([255, 0, 0]), 3, 1);
+    expect(Array.from(rgba)).toEqual([255, 0, 0, 255]);
+    toGrayscale(rgba);
+    expect(Array.from(rgba)).toEqual([76, 76, 76, 255]);
+  });
+});
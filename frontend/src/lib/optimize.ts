@@ -0,0 +1,177 @@
+import { canvasToBytes } from "./image-export";
+
+/** 保存時に埋め込み画像を圧縮し直す設定 */
+export type ImageOptimizationOptions = {
+  /** ページに収めたときにこの解像度を超える画像は縮小する */
+  dpi: number;
+  /** JPEG の品質（1〜100） */
+  quality: number;
+  grayscale: boolean;
+};
+
+export const OPTIMIZE_DPI_OPTIONS = [72, 100, 150, 200, 300];
+export const MIN_OPTIMIZE_DPI = 36;
+export const MAX_OPTIMIZE_DPI = 600;
+export const MIN_OPTIMIZE_QUALITY = 10;
+export const MAX_OPTIMIZE_QUALITY = 100;
+
+export const DEFAULT_IMAGE_OPTIMIZATION: ImageOptimizationOptions = {
+  dpi: 150,
+  quality: 75,
+  grayscale: false,
+};
+
+const POINTS_PER_INCH = 72;
+
+/**
+ * 圧縮し直す画像。JPEG はそのままのデータ、それ以外は展開した 8bit の画素（グレーは1、RGB は3成分）で渡す
+ */
+export type SourceImage =
+  | { kind: "jpeg"; width: number; height: number; data: Uint8Array }
+  | { kind: "raw"; width: number; height: number; components: 1 | 3; data: Uint8Array };
+
+export type ImageRecodeTarget = {
+  width: number;
+  height: number;
+  /** JPEG の品質（0〜1） */
+  quality: number;
+  grayscale: boolean;
+};
+
+/** 画像を target の大きさの JPEG にする。変換できなければ null を返す */
+export type ImageRecoder = (image: SourceImage, target: ImageRecodeTarget) => Promise<Uint8Array | null>;
+
+/** 元の画像と、それを置いたページのうち最も大きいページの長辺（pt） */
+export type PdfImageInfo = {
+  /** 埋め込まれているデータの大きさ（バイト） */
+  bytes: number;
+  width: number;
+  height: number;
+  /** 圧縮し直せる形式か（JPEG か、Flate で圧縮した 8bit のグレー・RGB） */
+  optimizable: boolean;
+  pageExtent: number;
+};
+
+export const assertOptimizationOptions = (options: ImageOptimizationOptions): void => {
+  if (!Number.isFinite(options.dpi) || options.dpi < MIN_OPTIMIZE_DPI || options.dpi > MAX_OPTIMIZE_DPI) {
+    throw new Error(`画像の解像度は ${MIN_OPTIMIZE_DPI}〜${MAX_OPTIMIZE_DPI} dpi で指定してください`);
+  }
+  if (
+    !Number.isFinite(options.quality) ||
+    options.quality < MIN_OPTIMIZE_QUALITY ||
+    options.quality > MAX_OPTIMIZE_QUALITY
+  ) {
+    throw new Error(`画像の品質は ${MIN_OPTIMIZE_QUALITY}〜${MAX_OPTIMIZE_QUALITY} で指定してください`);
+  }
+};
+
+/**
+ * 画像を置いたページの長辺（pt）から、縮小後の大きさを求める。
+ * 画像がページ全体に回転して置かれても解像度が足りるよう、縦横どちらにも長辺を使う。
+ */
+export const planImageSize = (
+  width: number,
+  height: number,
+  pageExtent: number,
+  dpi: number
+): { width: number; height: number } => {
+  const allowed = Math.ceil((pageExtent / POINTS_PER_INCH) * dpi);
+  const scale = Math.min(1, allowed / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+/** JPEG の1画素あたりのおおよそのバイト数（品質 75 のカラー写真・スキャンを基準にした目安） */
+const estimateBytesPerPixel = (quality: number, grayscale: boolean): number => {
+  const base = 0.05 + 0.4 * (quality / 100) ** 2;
+  return grayscale ? base * 0.6 : base;
+};
+
+/**
+ * 圧縮後のファイルサイズを見積もる。画像以外のデータは変わらないものとし、
+ * 圧縮し直して大きくなる画像は元のまま残す（保存時と同じ扱い）。
+ */
+export const estimateOptimizedSize = (
+  totalBytes: number,
+  images: PdfImageInfo[],
+  options: ImageOptimizationOptions
+): number =>
+  images.reduce((size, image) => {
+    if (!image.optimizable) return size;
+    const target = planImageSize(image.width, image.height, image.pageExtent, options.dpi);
+    const estimated = Math.round(target.width * target.height * estimateBytesPerPixel(options.quality, options.grayscale));
+    return size - image.bytes + Math.min(image.bytes, estimated);
+  }, totalBytes);
+
+/** バイト数を「1.2 MB」のような表示にする */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/** グレー・RGB の画素を、キャンバスに描ける RGBA にする */
+export const toRgba = (data: Uint8Array, components: 1 | 3, pixelCount: number): Uint8ClampedArray<ArrayBuffer> => {
+  const rgba = new Uint8ClampedArray(pixelCount * 4);
+  for (let index = 0; index < pixelCount; index += 1) {
+    const offset = index * components;
+    rgba[index * 4] = data[offset];
+    rgba[index * 4 + 1] = data[offset + (components === 3 ? 1 : 0)];
+    rgba[index * 4 + 2] = data[offset + (components === 3 ? 2 : 0)];
+    rgba[index * 4 + 3] = 255;
+  }
+  return rgba;
+};
+
+/** RGBA の画素を輝度（ITU-R BT.601）のグレーにする */
+export const toGrayscale = (rgba: Uint8ClampedArray): void => {
+  for (let index = 0; index < rgba.length; index += 4) {
+    const luma = Math.round(0.299 * rgba[index] + 0.587 * rgba[index + 1] + 0.114 * rgba[index + 2]);
+    rgba[index] = luma;
+    rgba[index + 1] = luma;
+    rgba[index + 2] = luma;
+  }
+};
+
+/**
+ * キャンバスで画像を縮小して JPEG にする（ブラウザで動かす既定の実装）。
+ * グレーにしても JPEG はカラーのまま書き出すが、色差の成分がほぼ無くなるので小さくなる。
+ */
+export const recodeImageWithCanvas: ImageRecoder = async (image, target) => {
+  const canvas = document.createElement("canvas");
+  const source = document.createElement("canvas");
+  try {
+    canvas.width = target.width;
+    canvas.height = target.height;
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+    let drawable: CanvasImageSource;
+    if (image.kind === "jpeg") {
+      drawable = await createImageBitmap(new Blob([Uint8Array.from(image.data)], { type: "image/jpeg" }));
+    } else {
+      source.width = image.width;
+      source.height = image.height;
+      const sourceContext = source.getContext("2d");
+      if (!sourceContext) return null;
+      const pixels = toRgba(image.data, image.components, image.width * image.height);
+      sourceContext.putImageData(new ImageData(pixels, image.width, image.height), 0, 0);
+      drawable = source;
+    }
+    context.imageSmoothingQuality = "high";
+    context.drawImage(drawable, 0, 0, target.width, target.height);
+    if (drawable instanceof ImageBitmap) drawable.close();
+    if (target.grayscale) {
+      const pixels = context.getImageData(0, 0, target.width, target.height);
+      toGrayscale(pixels.data);
+      context.putImageData(pixels, 0, 0);
+    }
+    return await canvasToBytes(canvas, "jpeg", target.quality);
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+    source.width = 0;
+    source.height = 0;
+  }
+};
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  addOutlineItem,
+  createOutlineItem,
+  isSameOutline,
+  readOutline,
+  removeOutlineItem,
+  renameOutlineItem,
+  resolveOutlineTargets,
+  type OutlineItem,
+} from "./outline";
+import type { PdfDocumentProxy, PdfOutlineNode } from "./pdf";
+
+const pageRefs = [{ num: 10 }, { num: 20 }, { num: 30 }];
+
+const createDoc = (outline: PdfOutlineNode[] | null): PdfDocumentProxy => ({
+  numPages: 3,
+  getPage: async () => {
+    throw new Error("not used");
+  },
+  getOutline: async () => outline,
+  getDestination: async (name) => (name === "chapter2" ? [pageRefs[1], { name: "Fit" }] : null),
+  getPageIndex: async (ref) => {
+    const index = pageRefs.indexOf(ref as { num: number });
+    if (index < 0) throw new Error("Invalid pageIndex request.");
+    return index;
+  },
+});
+
+const stripIds = (items: OutlineItem[]): unknown[] =>
+  items.map((item) => ({ title: item.title, pageNumber: item.pageNumber, children: stripIds(item.children) }));
+
+describe("readOutline", () => {
+  it("ページ参照・名前付きの移動先・ページ位置をページ番号にし、pageOffset を足す", async () => {
+    const outline = await readOutline(
+      createDoc([
+        {
+          title: "第1章",
+          dest: [pageRefs[0], { name: "XYZ" }, 0, 800, null],
+          items: [{ title: "1.1", dest: [2, { name: "Fit" }], items: [] }],
+        },
+        { title: "第2章", dest: "chapter2", items: [] },
+        { title: "サイト", dest: null, items: [] },
+        { title: "壊れた参照", dest: [{ num: 99 }], items: [] },
+      ]),
+      5
+    );
+
+    expect(stripIds(outline)).toEqual([
+      { title: "第1章", pageNumber: 6, children: [{ title: "1.1", pageNumber: 8, children: [] }] },
+      { title: "第2章", pageNumber: 7, children: [] },
+      { title: "サイト", pageNumber: null, children: [] },
+      { title: "壊れた参照", pageNumber: null, children: [] },
+    ]);
+    expect(new Set(outline.map((item) => item.id)).size).toBe(4);
+  });
+
+  it("getOutline を持たない文書やしおりの無い文書は空にする", async () => {
+    expect(await readOutline({ numPages: 1, getPage: createDoc(null).getPage })).toEqual([]);
+    expect(await readOutline(createDoc(null))).toEqual([]);
+  });
+});
+
+describe("しおりの編集", () => {
+  const base = [
+    createOutlineItem("第1章", 1, [createOutlineItem("1.1", 2)]),
+    createOutlineItem("第2章", 3),
+  ];
+
+  it("追加は名前の前後の空白を除いて最上位の末尾に入れ、空の名前はエラーにする", () => {
+    const added = addOutlineItem(base, "  付録 ", 4);
+    expect(added).toHaveLength(3);
+    expect(added[2]).toMatchObject({ title: "付録", pageNumber: 4, children: [] });
+    expect(() => addOutlineItem(base, "  ", 1)).toThrow("しおりの名前を入力してください");
+  });
+
+  it("入れ子のしおりも名前を変えられ、削除すると子も消える", () => {
+    const renamed = renameOutlineItem(base, base[0].children[0].id, "1.1 はじめに");
+    expect(renamed[0].children[0].title).toBe("1.1 はじめに");
+    expect(base[0].children[0].title).toBe("1.1");
+
+    expect(stripIds(removeOutlineItem(base, base[0].id))).toEqual([
+      { title: "第2章", pageNumber: 3, children: [] },
+    ]);
+  });
+});
+
+describe("isSameOutline", () => {
+  it("id を除いた名前・移動先・入れ子で比べる", () => {
+    const outline = [createOutlineItem("第1章", 1, [createOutlineItem("1.1", 2)])];
+    expect(isSameOutline(outline, [createOutlineItem("第1章", 1, [createOutlineItem("1.1", 2)])])).toBe(true);
+    expect(isSameOutline(outline, [createOutlineItem("第1章", 1, [createOutlineItem("1.1", 3)])])).toBe(false);
+    expect(isSameOutline(outline, [createOutlineItem("第1章", 1)])).toBe(false);
+  });
+});
+
+describe("resolveOutlineTargets", () => {
+  it("出力の位置に付け替え、削除したページは並び順で次（無ければ前）の出力ページへ移す", () => {
+    const items = [
+      createOutlineItem("A", 3),
+      createOutlineItem("B", 4),
+      createOutlineItem("C", 2),
+    ];
+
+    expect(resolveOutlineTargets(items, [3, 1, 2, 4], [1, 2])).toEqual([
+      { title: "A", pageIndex: 0, children: [] },
+      { title: "B", pageIndex: 1, children: [] },
+      { title: "C", pageIndex: 1, children: [] },
+    ]);
+  });
+
+  it("並び順に無いページや移動先の無いしおりは落とし、子が残れば最初の子のページを指す", () => {
+    const items = [
+      createOutlineItem("外部リンク", null),
+      createOutlineItem("まとめ", null, [createOutlineItem("範囲外", 9), createOutlineItem("結論", 2)]),
+    ];
+
+    expect(resolveOutlineTargets(items, [1, 2], [1, 2])).toEqual([
+      { title: "まとめ", pageIndex: 1, children: [{ title: "結論", pageIndex: 1, children: [] }] },
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+import type { PdfDocumentProxy, PdfOutlineNode } from "./pdf";
+
+/** しおりの項目。pageNumber はワークスペースのページ番号（移動先が解決できなければ null） */
+export type OutlineItem = {
+  id: string;
+  title: string;
+  pageNumber: number | null;
+  children: OutlineItem[];
+};
+
+let nextOutlineId = 1;
+
+export const createOutlineItem = (
+  title: string,
+  pageNumber: number | null,
+  children: OutlineItem[] = []
+): OutlineItem => {
+  const id = `outline-${nextOutlineId}`;
+  nextOutlineId += 1;
+  return { id, title, pageNumber, children };
+};
+
+const resolveDestinationPage = async (doc: PdfDocumentProxy, dest: PdfOutlineNode["dest"]): Promise<number | null> => {
+  try {
+    const explicit = typeof dest === "string" ? await doc.getDestination?.(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) return null;
+    const target = explicit[0];
+    // ページ参照の代わりに 0 始まりのページ位置が入っているPDFもある
+    if (typeof target === "number") {
+      return Number.isInteger(target) && target >= 0 && target < doc.numPages ? target + 1 : null;
+    }
+    if (!doc.getPageIndex || target === null || typeof target !== "object") return null;
+    return (await doc.getPageIndex(target)) + 1;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * PDF.js の getOutline からしおりを読む。ページ番号は pageOffset を足したワークスペースの番号にする。
+ * getOutline を持たない文書やしおりの無い文書は空にする。
+ */
+export const readOutline = async (doc: PdfDocumentProxy, pageOffset = 0): Promise<OutlineItem[]> => {
+  if (!doc.getOutline) return [];
+  const convert = async (nodes: PdfOutlineNode[]): Promise<OutlineItem[]> => {
+    const items: OutlineItem[] = [];
+    for (const node of nodes) {
+      const pageNumber = await resolveDestinationPage(doc, node.dest);
+      items.push(
+        createOutlineItem(
+          node.title,
+          pageNumber === null ? null : pageNumber + pageOffset,
+          await convert(node.items ?? [])
+        )
+      );
+    }
+    return items;
+  };
+  return convert((await doc.getOutline()) ?? []);
+};
+
+export const normalizeOutlineTitle = (title: string): string => {
+  const trimmed = title.trim();
+  if (!trimmed) {
+    throw new Error("しおりの名前を入力してください");
+  }
+  return trimmed;
+};
+
+const mapOutline = (
+  items: OutlineItem[],
+  update: (item: OutlineItem) => OutlineItem | null
+): OutlineItem[] =>
+  items.flatMap((item) => {
+    const next = update(item);
+    if (!next) return [];
+    return [{ ...next, children: mapOutline(next.children, update) }];
+  });
+
+export const findOutlineItem = (items: OutlineItem[], id: string): OutlineItem | null => {
+  for (const item of items) {
+    if (item.id === id) return item;
+    const found = findOutlineItem(item.children, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+/** 最上位の末尾にしおりを追加する */
+export const addOutlineItem = (items: OutlineItem[], title: string, pageNumber: number): OutlineItem[] => [
+  ...items,
+  createOutlineItem(normalizeOutlineTitle(title), pageNumber),
+];
+
+export const renameOutlineItem = (items: OutlineItem[], id: string, title: string): OutlineItem[] => {
+  const normalized = normalizeOutlineTitle(title);
+  return mapOutline(items, (item) => (item.id === id ? { ...item, title: normalized } : item));
+};
+
+/** しおりを削除する。子のしおりも一緒に削除する */
+export const removeOutlineItem = (items: OutlineItem[], id: string): OutlineItem[] =>
+  mapOutline(items, (item) => (item.id === id ? null : item));
+
+/** 名前・移動先・入れ子が同じか（id は読み込むたびに変わるので比べない） */
+export const isSameOutline = (a: OutlineItem[], b: OutlineItem[]): boolean =>
+  a.length === b.length &&
+  a.every(
+    (item, index) =>
+      item.title === b[index].title &&
+      item.pageNumber === b[index].pageNumber &&
+      isSameOutline(item.children, b[index].children)
+  );
+
+/** 保存するしおり。pageIndex は出力するPDFでの 0 始まりのページ位置 */
+export type ResolvedOutlineItem = {
+  title: string;
+  pageIndex: number;
+  children: ResolvedOutlineItem[];
+};
+
+/**
+ * しおりの移動先を出力するページの位置に置き換える。
+ * 移動先が削除されたページなら、並び順（order）で後ろにある最初の出力ページ、無ければ前にある最後の出力ページへ移す。
+ * order に無いページや移動先の無いしおりは落とすが、子が残るなら最初の子と同じページを指して残す。
+ */
+export const resolveOutlineTargets = (
+  items: OutlineItem[],
+  order: number[],
+  outputPages: number[]
+): ResolvedOutlineItem[] => {
+  const outputIndexOf = new Map(outputPages.map((pageNumber, index) => [pageNumber, index]));
+  const resolvePage = (pageNumber: number | null): number | null => {
+    if (pageNumber === null) return null;
+    const direct = outputIndexOf.get(pageNumber);
+    if (direct !== undefined) return direct;
+    const position = order.indexOf(pageNumber);
+    if (position < 0) return null;
+    const following = order.slice(position + 1).find((page) => outputIndexOf.has(page));
+    if (following !== undefined) return outputIndexOf.get(following)!;
+    const preceding = order
+      .slice(0, position)
+      .reverse()
+      .find((page) => outputIndexOf.has(page));
+    return preceding === undefined ? null : outputIndexOf.get(preceding)!;
+  };
+  const resolve = (nodes: OutlineItem[]): ResolvedOutlineItem[] =>
+    nodes.flatMap((item) => {
+      const children = resolve(item.children);
+      const pageIndex = resolvePage(item.pageNumber) ?? children[0]?.pageIndex;
+      if (pageIndex === undefined) return [];
+      return [{ title: item.title, pageIndex, children }];
+    });
+  return resolve(items);
+};
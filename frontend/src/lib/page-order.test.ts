@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { createPageOrder, movePagesInOrder, normalizePageOrder, sortPagesByOrder } from "./page-order";
+
+describe("createPageOrder", () => {
+  it("1..numPagesの並びを作る", () => {
+    expect(createPageOrder(3)).toEqual([1, 2, 3]);
+    expect(createPageOrder(0)).toEqual([]);
+  });
+});
+
+describe("normalizePageOrder", () => {
+  it("範囲外・重複を除外し、欠けたページを末尾に補う", () => {
+    expect(normalizePageOrder([3, 3, 9, 1, 2.5], 4)).toEqual([3, 1, 2, 4]);
+  });
+});
+
+describe("movePagesInOrder", () => {
+  it("複数ページを相対順を保ったまま挿入位置へ移動する", () => {
+    expect(movePagesInOrder([1, 2, 3, 4, 5], [4, 2], 0)).toEqual([2, 4, 1, 3, 5]);
+    expect(movePagesInOrder([1, 2, 3, 4, 5], [1, 2], 4)).toEqual([3, 4, 1, 2, 5]);
+    expect(movePagesInOrder([1, 2, 3, 4, 5], [1], 5)).toEqual([2, 3, 4, 5, 1]);
+  });
+
+  it("位置が変わらない場合は元の配列をそのまま返す", () => {
+    const order = [1, 2, 3];
+    expect(movePagesInOrder(order, [2], 1)).toBe(order);
+    expect(movePagesInOrder(order, [2], 2)).toBe(order);
+    expect(movePagesInOrder(order, [9], 0)).toBe(order);
+  });
+});
+
+describe("sortPagesByOrder", () => {
+  it("並び順に従って並べ替える", () => {
+    expect(sortPagesByOrder([1, 2, 4], [4, 3, 2, 1])).toEqual([4, 2, 1]);
+  });
+});
@@ -0,0 +1,50 @@
+export const createPageOrder = (numPages: number): number[] => {
+  if (!Number.isFinite(numPages) || numPages < 1) return [];
+  return Array.from({ length: Math.trunc(numPages) }, (_, index) => index + 1);
+};
+
+/**
+ * 並び順を 1..numPages の順列に正規化する。
+ * 範囲外・重複は除外し、欠けているページは末尾に元の順で補う。
+ */
+export const normalizePageOrder = (order: number[], numPages: number): number[] => {
+  if (numPages < 1) return [];
+  const seen = new Set<number>();
+  const normalized: number[] = [];
+  for (const page of order) {
+    if (!Number.isInteger(page) || page < 1 || page > numPages) continue;
+    if (seen.has(page)) continue;
+    seen.add(page);
+    normalized.push(page);
+  }
+  for (let page = 1; page <= numPages; page += 1) {
+    if (!seen.has(page)) normalized.push(page);
+  }
+  return normalized;
+};
+
+/**
+ * 指定ページを並び順の insertIndex（移動前の並びでの挿入位置）へまとめて移動する。
+ * 移動するページ同士の相対順は現在の並びを維持する。
+ */
+export const movePagesInOrder = (order: number[], pageNumbers: number[], insertIndex: number): number[] => {
+  const moving = new Set(pageNumbers);
+  const moved = order.filter((page) => moving.has(page));
+  if (moved.length === 0) return order;
+
+  const clampedIndex = Math.min(Math.max(0, Math.trunc(insertIndex)), order.length);
+  const shift = order.slice(0, clampedIndex).filter((page) => moving.has(page)).length;
+  const rest = order.filter((page) => !moving.has(page));
+  const targetIndex = clampedIndex - shift;
+  const next = [...rest.slice(0, targetIndex), ...moved, ...rest.slice(targetIndex)];
+  const unchanged = next.every((page, index) => page === order[index]);
+  return unchanged ? order : next;
+};
+
+/**
+ * ページ番号を並び順に従って並べ替える。並びに含まれないページは除外する。
+ */
+export const sortPagesByOrder = (pageNumbers: number[], order: number[]): number[] => {
+  const targets = new Set(pageNumbers);
+  return order.filter((page) => targets.has(page));
+};
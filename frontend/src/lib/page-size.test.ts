@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createNormalizeTransform,
+  drawNormalizedPreview,
+  layoutNormalizedPage,
+  mmToPoints,
+  normalizePageMargin,
+  type PageSizeNormalization,
+} from "./page-size";
+
+const a4Fit: PageSizeNormalization = { paper: "a4", orientation: "auto", marginMm: 0, fit: "fit" };
+
+describe("normalizePageMargin", () => {
+  it("0〜50mm の余白を受け付け、範囲外はエラーにする", () => {
+    expect(normalizePageMargin(0)).toBe(0);
+    expect(normalizePageMargin(12.5)).toBe(12.5);
+    expect(() => normalizePageMargin(-1)).toThrow("余白は0〜50mmで指定してください");
+    expect(() => normalizePageMargin(51)).toThrow("余白は0〜50mmで指定してください");
+    expect(() => normalizePageMargin(Number.NaN)).toThrow("余白は0〜50mmで指定してください");
+  });
+
+  it("mm を pt に換算する", () => {
+    expect(mmToPoints(25.4)).toBe(72);
+  });
+});
+
+describe("layoutNormalizedPage", () => {
+  it("自動の向きではページの縦横に合わせて用紙を回し、全体を中央に収める", () => {
+    const layout = layoutNormalizedPage({ width: 400, height: 200 }, a4Fit);
+    expect(layout.width).toBeCloseTo(841.89);
+    expect(layout.height).toBeCloseTo(595.28);
+    expect(layout.box.width).toBeCloseTo(841.89);
+    expect(layout.box.height).toBeCloseTo(420.945);
+    expect(layout.box.y).toBeCloseTo((595.28 - 420.945) / 2);
+    expect(layout.clip.y).toBeCloseTo(layout.box.y);
+    expect(layout.clip.height).toBeCloseTo(layout.box.height);
+  });
+
+  it("向きを指定すると縦横に関係なくその向きの用紙にする", () => {
+    const layout = layoutNormalizedPage({ width: 400, height: 200 }, { ...a4Fit, orientation: "portrait" });
+    expect(layout.width).toBeCloseTo(595.28);
+    expect(layout.height).toBeCloseTo(841.89);
+  });
+
+  it("余白の内側に収める", () => {
+    const layout = layoutNormalizedPage(
+      { width: 612, height: 792 },
+      { paper: "letter", orientation: "auto", marginMm: 25.4, fit: "fit" }
+    );
+    // 余白 72pt の内側は 468x648。幅で決まり倍率は 468 / 612
+    expect(layout.box.x).toBeCloseTo(72);
+    expect(layout.box.width).toBeCloseTo(468);
+    expect(layout.box.height).toBeCloseTo(792 * (468 / 612));
+    expect(layout.box.y).toBeCloseTo((792 - 792 * (468 / 612)) / 2);
+  });
+
+  it("埋める場合ははみ出した部分を余白の内側で切り取る", () => {
+    const layout = layoutNormalizedPage(
+      { width: 100, height: 100 },
+      { paper: "letter", orientation: "portrait", marginMm: 0, fit: "fill" }
+    );
+    expect(layout.box).toEqual({ x: -90, y: 0, width: 792, height: 792 });
+    expect(layout.clip).toEqual({ x: 0, y: 0, width: 612, height: 792 });
+  });
+});
+
+describe("createNormalizeTransform", () => {
+  it("回転の無いページは CropBox を用紙の中央へ写す行列を返す", () => {
+    const transform = createNormalizeTransform(
+      { x: 10, y: 20, width: 200, height: 300 },
+      0,
+      { paper: "letter", orientation: "portrait", marginMm: 0, fit: "fit" }
+    );
+    expect(transform.width).toBe(612);
+    expect(transform.height).toBe(792);
+    const [a, b, c, d, e, f] = transform.matrix;
+    expect([b, c]).toEqual([0, 0]);
+    expect(a).toBeCloseTo(2.64);
+    expect(d).toBeCloseTo(2.64);
+    // CropBox の左下 (10, 20) が (42, 0) に来る
+    expect(a * 10 + e).toBeCloseTo(42);
+    expect(d * 20 + f).toBeCloseTo(0);
+    expect(transform.clip).toEqual({ x: expect.closeTo(42), y: 0, width: expect.closeTo(528), height: 792 });
+  });
+
+  it("90度回転したページは見た目の向きで用紙を選び、回転前の座標に直す", () => {
+    // 回転前 200x300 → 見た目 300x200 の横向きなので、用紙は横向き 792x612（回転前は 612x792）
+    const transform = createNormalizeTransform(
+      { x: 0, y: 0, width: 200, height: 300 },
+      270,
+      { paper: "letter", orientation: "auto", marginMm: 0, fit: "fit" }
+    );
+    expect(transform.width).toBe(612);
+    expect(transform.height).toBe(792);
+    const [a, , , , e, f] = transform.matrix;
+    expect(a).toBeCloseTo(2.64);
+    expect(e).toBeCloseTo(42);
+    expect(f).toBeCloseTo(0);
+  });
+});
+
+describe("drawNormalizedPreview", () => {
+  it("用紙の大きさのキャンバスに白地を塗り、ページを中央に描く", () => {
+    const ctx = {
+      fillStyle: "",
+      fillRect: vi.fn(),
+      save: vi.fn(),
+      restore: vi.fn(),
+      beginPath: vi.fn(),
+      rect: vi.fn(),
+      clip: vi.fn(),
+      drawImage: vi.fn(),
+    };
+    const target = { width: 0, height: 0, getContext: () => ctx } as unknown as HTMLCanvasElement;
+    const source = {} as HTMLCanvasElement;
+
+    drawNormalizedPreview(
+      source,
+      target,
+      { width: 612, height: 396 },
+      { paper: "letter", orientation: "portrait", marginMm: 0, fit: "fit" },
+      { maxWidth: 180, maxHeight: 240 }
+    );
+
+    // 612x792 を 180x240 に収めると倍率は 180 / 612
+    expect(target.width).toBe(180);
+    expect(target.height).toBe(233);
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 180, 233);
+    const [, x, y, width, height] = ctx.drawImage.mock.calls[0];
+    expect(x).toBeCloseTo(0);
+    expect(y).toBeCloseTo(((792 - 396) / 2) * (180 / 612));
+    expect(width).toBeCloseTo(180);
+    expect(height).toBeCloseTo(396 * (180 / 612));
+  });
+
+  it("コンテキストが取得できなければエラーにする", () => {
+    const target = { getContext: () => null } as unknown as HTMLCanvasElement;
+    expect(() =>
+      drawNormalizedPreview({} as HTMLCanvasElement, target, { width: 1, height: 1 }, a4Fit, { maxWidth: 1, maxHeight: 1 })
+    ).toThrow("キャンバスのコンテキストが取得できません");
+  });
+});
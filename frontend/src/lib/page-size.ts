@@ -0,0 +1,171 @@
+import type { PageBox } from "./skew";
+
+export type PaperSize = "a3" | "a4" | "a5" | "b5" | "letter" | "legal";
+
+/** auto: ページごとに見た目の縦横に合わせて用紙の向きを選ぶ */
+export type PaperOrientation = "auto" | "portrait" | "landscape";
+
+/** fit: ページ全体を余白の内側に収める、fill: 余白の内側を埋めるよう拡大し、はみ出した部分は切り取る */
+export type PageFitMode = "fit" | "fill";
+
+export type PageSizeNormalization = {
+  paper: PaperSize;
+  orientation: PaperOrientation;
+  /** 用紙の四辺に取る余白（mm） */
+  marginMm: number;
+  fit: PageFitMode;
+};
+
+/** 用紙の大きさ（縦向き、pt） */
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  a3: { width: 841.89, height: 1190.55 },
+  a4: { width: 595.28, height: 841.89 },
+  a5: { width: 419.53, height: 595.28 },
+  b5: { width: 515.91, height: 728.5 },
+  letter: { width: 612, height: 792 },
+  legal: { width: 612, height: 1008 },
+};
+
+/** 画面で選ぶ用紙と向きの表示名 */
+export const PAPER_SIZE_OPTIONS: Array<{ value: PaperSize; label: string }> = [
+  { value: "a3", label: "A3" },
+  { value: "a4", label: "A4" },
+  { value: "a5", label: "A5" },
+  { value: "b5", label: "B5 (JIS)" },
+  { value: "letter", label: "Letter" },
+  { value: "legal", label: "Legal" },
+];
+
+export const PAPER_ORIENTATION_OPTIONS: Array<{ value: PaperOrientation; label: string }> = [
+  { value: "auto", label: "自動" },
+  { value: "portrait", label: "縦" },
+  { value: "landscape", label: "横" },
+];
+
+export const DEFAULT_PAGE_SIZE_NORMALIZATION: PageSizeNormalization = {
+  paper: "a4",
+  orientation: "auto",
+  marginMm: 0,
+  fit: "fit",
+};
+
+export const MAX_PAGE_MARGIN_MM = 50;
+
+const POINTS_PER_INCH = 72;
+const MILLIMETERS_PER_INCH = 25.4;
+
+export const mmToPoints = (mm: number): number => (mm * POINTS_PER_INCH) / MILLIMETERS_PER_INCH;
+
+export const normalizePageMargin = (value: number): number => {
+  if (!Number.isFinite(value) || value < 0 || value > MAX_PAGE_MARGIN_MM) {
+    throw new Error(`余白は0〜${MAX_PAGE_MARGIN_MM}mmで指定してください`);
+  }
+  return value;
+};
+
+const intersectBoxes = (a: PageBox, b: PageBox): PageBox => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+    height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y),
+  };
+};
+
+/**
+ * 見た目の向きでのページの大きさから、そろえた後のページの大きさと内容を置く範囲を決める。
+ * box はページ全体を置く範囲、clip は実際に見える範囲（box と余白の内側の重なり）。
+ * どちらも用紙の中央に置くため、原点が左上でも左下でも同じ値になる。
+ */
+export const layoutNormalizedPage = (
+  size: { width: number; height: number },
+  normalization: PageSizeNormalization
+): { width: number; height: number; box: PageBox; clip: PageBox } => {
+  if (!(size.width > 0 && size.height > 0)) {
+    throw new Error("ページの大きさが不正です");
+  }
+  const paper = PAPER_SIZES[normalization.paper];
+  const landscape =
+    normalization.orientation === "landscape" || (normalization.orientation === "auto" && size.width > size.height);
+  const width = landscape ? paper.height : paper.width;
+  const height = landscape ? paper.width : paper.height;
+  const margin = mmToPoints(normalizePageMargin(normalization.marginMm));
+  const area = { x: margin, y: margin, width: width - margin * 2, height: height - margin * 2 };
+  const fitScale = Math.min(area.width / size.width, area.height / size.height);
+  const fillScale = Math.max(area.width / size.width, area.height / size.height);
+  const scale = normalization.fit === "fill" ? fillScale : fitScale;
+  const boxWidth = size.width * scale;
+  const boxHeight = size.height * scale;
+  const box = { x: (width - boxWidth) / 2, y: (height - boxHeight) / 2, width: boxWidth, height: boxHeight };
+  return { width, height, box, clip: intersectBoxes(box, area) };
+};
+
+/**
+ * 保存時に PDF のページへ適用する変換を作る。ページは /Rotate を保ったまま、
+ * 回転前の座標で MediaBox の大きさ・内容の変換行列 [a, b, c, d, e, f]・切り取る範囲を返す。
+ * cropBox は現在の表示領域、rotation は最終的な /Rotate。
+ */
+export const createNormalizeTransform = (
+  cropBox: PageBox,
+  rotation: number,
+  normalization: PageSizeNormalization
+): {
+  width: number;
+  height: number;
+  matrix: [number, number, number, number, number, number];
+  clip: PageBox;
+} => {
+  const quarter = ((rotation % 360) + 360) % 180 === 90;
+  const swap = (box: PageBox): PageBox =>
+    quarter ? { x: box.y, y: box.x, width: box.height, height: box.width } : box;
+  const layout = layoutNormalizedPage(
+    quarter ? { width: cropBox.height, height: cropBox.width } : cropBox,
+    normalization
+  );
+  // 中央に置いた範囲は90度回しても中央のままなので、幅と高さを入れ替えれば回転前の座標になる
+  const box = swap(layout.box);
+  const scale = box.width / cropBox.width;
+  return {
+    width: quarter ? layout.height : layout.width,
+    height: quarter ? layout.width : layout.height,
+    matrix: [scale, 0, 0, scale, box.x - cropBox.x * scale, box.y - cropBox.y * scale],
+    clip: swap(layout.clip),
+  };
+};
+
+/**
+ * 描画済みのサムネイル（source）を、そろえた後のページに置いた見た目で target に描く。
+ * pageSize は見た目の向きでのページの大きさ（pt）。
+ */
+export const drawNormalizedPreview = (
+  source: HTMLCanvasElement,
+  target: HTMLCanvasElement,
+  pageSize: { width: number; height: number },
+  normalization: PageSizeNormalization,
+  limits: { maxWidth: number; maxHeight: number }
+): void => {
+  const ctx = target.getContext?.("2d");
+  if (!ctx) {
+    throw new Error("キャンバスのコンテキストが取得できません");
+  }
+  const layout = layoutNormalizedPage(pageSize, normalization);
+  const scale = Math.min(limits.maxWidth / layout.width, limits.maxHeight / layout.height);
+  target.width = Math.round(layout.width * scale);
+  target.height = Math.round(layout.height * scale);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, target.width, target.height);
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(layout.clip.x * scale, layout.clip.y * scale, layout.clip.width * scale, layout.clip.height * scale);
+  ctx.clip();
+  ctx.drawImage(
+    source,
+    layout.box.x * scale,
+    layout.box.y * scale,
+    layout.box.width * scale,
+    layout.box.height * scale
+  );
+  ctx.restore();
+};
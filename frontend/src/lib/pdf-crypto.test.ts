@@ -0,0 +1,163 @@
+import { describe, expect, it, vi } from "vitest";
+import { PDFDocument, PDFParser, PDFRawStream, decodePDFRawStream } from "pdf-lib";
+import { decryptPdfBytes, encryptPdfDocument, isEncryptedPdf, md5, rc4 } from "./pdf-crypto";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/** AES-128（R4）で暗号化し、オブジェクトストリームを含むPDF（ユーザー: user / 所有者: owner、タイトル: Legacy title） */
+const AES128_PDF = Uint8Array.from(
+  atob(
+    "JVBERi0xLjYKJeLjz9MKOCAwIG9iago8PCAvVHlwZSAvT2JqU3RtIC9OIDUgL0ZpcnN0IDI2IC9GaWx0ZXIgL0ZsYXRlRGVj" +
+    "b2RlIC9MZW5ndGggMjA4ID4+CnN0cmVhbQoICAgICAgICAgICAgICAgI/YvOVThS93iJhjK+YVxyXjHx4S0AJ8VdVPc9cR4P" +
+    "7m3/AypyugG72gaiqh8rzYO5Q6YHZgAaV4LZ5YOgtnHZCXhDWbQgoGm1XY8v35prSHSCGxHj4F98VIPgQ/K/4q6Do6J0QZdh" +
+    "/bp9GGDWjMgTHyRTPjveZfApg+fyW9x0K3jKBAAFKg2OPJ1S774srvDWpwDFiYj1Vp58Gpu0jkIY+yNKOT5LxDHgBvE114C1" +
+    "ztdjXq7fKyWm2sJ744E3p4s3CmVuZHN0cmVhbQplbmRvYmoKNCAwIG9iago8PCAvTGVuZ3RoIDY0ID4+CnN0cmVhbQoEBAQE" +
+    "BAQEBAQEBAQEBAQEo6vaObnXSOoyqrOt00c2xOoo/4hDlkqhdVfMau/+P6tor+pKC63+Rd+Ct4MDA9WcCmVuZHN0cmVhbQpl" +
+    "bmRvYmoKNyAwIG9iago8PCAvRmlsdGVyIC9TdGFuZGFyZCAvViA0IC9SIDQgL0xlbmd0aCAxMjggL0NGIDw8IC9TdGRDRiA8" +
+    "PCAvQ0ZNIC9BRVNWMiAvQXV0aEV2ZW50IC9Eb2NPcGVuIC9MZW5ndGggMTYgPj4gPj4gL1N0bUYgL1N0ZENGIC9TdHJGIC9T" +
+    "dGRDRiAvTyA8MGJhMzgzNWY4OGY5MDM4OGU3NGU1NDU4NDEyNWNlMTQyYmUwZGUyNGM2YjBkMzc3NDZlMDc1Yjg5MTc1NjY3" +
+    "MT4gL1UgPGI4ZDA0YzBiNjQ3OTU2ZDc1ZGYzYjFmNWE0MzdlZjk3MDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDA+" +
+    "IC9QIC0zOTA0ID4+CmVuZG9iago5IDAgb2JqCjw8IC9UeXBlIC9YUmVmIC9TaXplIDEwIC9XIFsxIDIgMV0gL1Jvb3QgMSAw" +
+    "IFIgL0luZm8gNiAwIFIgL0VuY3J5cHQgNyAwIFIgL0lEIFs8MDAwMTAyMDMwNDA1MDYwNzA4MDkwYTBiMGMwZDBlMGY+PDAw" +
+    "MDEwMjAzMDQwNTA2MDcwODA5MGEwYjBjMGQwZTBmPl0gL0xlbmd0aCA0MCA+PgpzdHJlYW0KAAAA/wIACAACAAgBAgAIAgEB" +
+    "RAACAAgDAgAIBAEBtgABAA8AAQLkAAplbmRzdHJlYW0KZW5kb2JqCnN0YXJ0eHJlZgo3NDAKJSVFT0YK"
+  ),
+  (char) => char.charCodeAt(0)
+);
+
+/**
+ * qpdf（qpdf --static-id --object-streams=generate --encrypt user owner 256）で AES-256（R6）に暗号化したPDF。
+ * ユーザー: user / 所有者: owner、タイトル: qpdf title、200x300 のページの (10, 20) に矩形を描いている
+ */
+const QPDF_AES256_PDF = Uint8Array.from(
+  atob(
+    "JVBERi0xLjcKJb/3ov4KMSAwIG9iago8PCAvRXh0ZW5zaW9ucyA8PCAvQURCRSA8PCAvQmFzZVZlcnNpb24gLzEuNyAvRXh0" +
+    "ZW5zaW9uTGV2ZWwgOCA+PiA+PiAvUGFnZXMgMyAwIFIgL1R5cGUgL0NhdGFsb2cgPj4KZW5kb2JqCjIgMCBvYmoKPDwgL1R5" +
+    "cGUgL09ialN0bSAvTGVuZ3RoIDI1NiAvRmlsdGVyIC9GbGF0ZURlY29kZSAvTiAzIC9GaXJzdCAxNSA+PgpzdHJlYW0K0Sxz" +
+    "bNlbQPCLSoSuvC1YpJVbltUh0fPmtiiGoD08dRGHgt9ISracJIeDzfoyP5koDbditZHQ7ztclEZwMu/NFXoGAc3VP7lxROAk" +
+    "MlgGP8NSmqnc3BcrsWp3D5PFohjwRD/8JJVVzderfU6v42wKqKSgmXdByWtt/5oVpH3Icf+O0nw9aBpb0If3KK06sM+TcXRx" +
+    "RIpb9V4MuyC2m1Q9NMrgTjp9Xy/xEeItrLcvZUZUNxj/0JupkJQ/BTh9qinjQwP0DCDlrlIqChHrpmtCQguCbIqAdFv1IL28" +
+    "uydzpzHMgks+w4QHFK3zhmoegsjX2APNfofaHlvvU0DXYy36KmVuZHN0cmVhbQplbmRvYmoKNiAwIG9iago8PCAvRmlsdGVy" +
+    "IC9GbGF0ZURlY29kZSAvTGVuZ3RoIDgwID4+CnN0cmVhbQovNX4kgkZ5DNHuVlLHeX7nrbN6ADjrxa3tlM8lpOF2TxuZ9KwL" +
+    "u5gSxQJxqA9RGbGW3nbbR6jhE6J645wUFZrY/sWDzGo8OXeeIL2FN/QCEmVuZHN0cmVhbQplbmRvYmoKNyAwIG9iago8PCAv" +
+    "Q0YgPDwgL1N0ZENGIDw8IC9BdXRoRXZlbnQgL0RvY09wZW4gL0NGTSAvQUVTVjMgL0xlbmd0aCAzMiA+PiA+PiAvRmlsdGVy" +
+    "IC9TdGFuZGFyZCAvTGVuZ3RoIDI1NiAvTyA8ZWQ0MTg5Mjg5N2JkZGE2MWMyODZiMjNkYzdiYzgwYTEyOGFmY2EwYjVkMDcw" +
+    "YzA3YmRiYWFhYjk5MmE3MTNhYzdjNjczZDZjYzFlOTBiZDY5YzMxZjM2MDViNTU5YmEzPiAvT0UgPDIyNTdiNTFmYTRiZWZj" +
+    "OTQzNDJjN2I5NzdkMDUyNzM4OTgzOTRhYTUwODFjODM3ZDY3MjQ4ODcyOTQxOGY0MzA+IC9QIC00IC9QZXJtcyA8ZjQ2Nzcy" +
+    "YmNjOGY2NzA4NjQxNjI1NzQ1YjZjNmFhZTM+IC9SIDYgL1N0bUYgL1N0ZENGIC9TdHJGIC9TdGRDRiAvVSA8OTYxMTNiMWNk" +
+    "Y2JjOWRlNzkyNTNkMDJjYjI5Y2JmYmQwYmUyODgwMjRlOTM3Zjc2NzgyZjg1N2JlYzUyMzYxMDI2ZjJiOTVhN2Q2MDE3MGY5" +
+    "M2EwMTdmN2VkZDY1MTAyPiAvVUUgPDQ4MmE2ZGU3Y2M2NWI5ZTZiNjE2Mjk1NmVmZjNlN2Y1MzQ4ZmRmYzkyZmMyMWQ0YmU5" +
+    "YjUxOTE2M2MwNzFiNDQ+IC9WIDUgPj4KZW5kb2JqCjggMCBvYmoKPDwgL1R5cGUgL1hSZWYgL0xlbmd0aCA0MiAvRmlsdGVy" +
+    "IC9GbGF0ZURlY29kZSAvRGVjb2RlUGFybXMgPDwgL0NvbHVtbnMgNCAvUHJlZGljdG9yIDEyID4+IC9XIFsgMSAyIDEgXSAv" +
+    "SW5mbyA0IDAgUiAvUm9vdCAxIDAgUiAvU2l6ZSA5IC9JRCBbPDMxNDE1OTI2NTM1ODk3OTMyMzg0NjI2NDMzODMyNzk1Pjwz" +
+    "MTQxNTkyNjUzNTg5NzkzMjM4NDYyNjQzMzgzMjc5NT5dIC9FbmNyeXB0IDcgMCBSID4+CnN0cmVhbQp4nGNiAAImRgZ+BiYG" +
+    "hmIQqwHEYmCEEP8Zn/xjYmCcBhRjUmYAAEhqBLcKZW5kc3RyZWFtCmVuZG9iagpzdGFydHhyZWYKMTE4MwolJUVPRgo="
+  ),
+  (char) => char.charCodeAt(0)
+);
+
+const createEncryptedPdf = async (password: string) => {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage([200, 300]);
+  pdfDoc.setTitle("秘密の文書");
+  await pdfDoc.flush();
+  await encryptPdfDocument(pdfDoc, password);
+  return pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false });
+};
+
+describe("md5", () => {
+  it("既知のダイジェストと一致する", () => {
+    expect(toHex(md5(new Uint8Array(0)))).toBe("d41d8cd98f00b204e9800998ecf8427e");
+    expect(toHex(md5(encode("abc")))).toBe("900150983cd24fb0d6963f7d28e17f72");
+  });
+});
+
+describe("rc4", () => {
+  it("既知の暗号文と一致する", () => {
+    expect(toHex(rc4(encode("Key"), encode("Plaintext")))).toBe("bbf316e8d940af0ad3");
+  });
+});
+
+describe("isEncryptedPdf", () => {
+  it("トレーラーや xref ストリームに /Encrypt があれば暗号化されているとする", async () => {
+    const plain = await (await PDFDocument.create()).save();
+    expect(isEncryptedPdf(plain)).toBe(false);
+    expect(isEncryptedPdf(await createEncryptedPdf("secret"))).toBe(true);
+    // 所有者パスワードだけでも /Encrypt は xref ストリームの辞書に書かれる
+    expect(isEncryptedPdf(AES128_PDF)).toBe(true);
+    expect(isEncryptedPdf(encode("<< /EncryptMetadata false >>"))).toBe(false);
+  });
+});
+
+describe("decryptPdfBytes", () => {
+  it("暗号化されていないPDFはそのまま返す", async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage();
+    const bytes = await pdfDoc.save();
+    await expect(decryptPdfBytes(bytes, "")).resolves.toBe(bytes);
+  });
+
+  it("AES-256 で暗号化したPDFを復号できる", async () => {
+    const encrypted = await createEncryptedPdf("pässword");
+    await expect(PDFDocument.load(encrypted)).rejects.toThrow();
+
+    const decrypted = await PDFDocument.load(await decryptPdfBytes(encrypted, "pässword"));
+    expect(decrypted.getTitle()).toBe("秘密の文書");
+    expect(decrypted.getPage(0).getSize()).toEqual({ width: 200, height: 300 });
+  });
+
+  it("AES-128 のPDFはユーザー・所有者どちらのパスワードでも復号できる", async () => {
+    for (const password of ["user", "owner"]) {
+      const decrypted = await PDFDocument.load(await decryptPdfBytes(AES128_PDF, password));
+      expect(decrypted.getTitle()).toBe("Legacy title");
+      expect(decrypted.getPageCount()).toBe(1);
+    }
+  });
+
+  it("qpdf で AES-256 に暗号化したPDFを、ユーザー・所有者どちらのパスワードでも復号できる", async () => {
+    for (const password of ["user", "owner"]) {
+      const decrypted = await PDFDocument.load(await decryptPdfBytes(QPDF_AES256_PDF, password));
+      expect(decrypted.getTitle()).toBe("qpdf title");
+      expect(decrypted.getPage(0).getSize()).toEqual({ width: 200, height: 300 });
+      const contents = decrypted.getPage(0).node.Contents()?.lookup(0);
+      if (!(contents instanceof PDFRawStream)) throw new Error("ページの内容がありません");
+      expect(new TextDecoder().decode(decodePDFRawStream(contents).decode())).toContain("1 0 0 1 10 20 cm");
+    }
+  });
+
+  it("パスワードが違えばエラーにする", async () => {
+    await expect(decryptPdfBytes(await createEncryptedPdf("secret"), "wrong")).rejects.toThrow("パスワードが違います");
+    await expect(decryptPdfBytes(AES128_PDF, "")).rejects.toThrow("パスワードが違います");
+    await expect(decryptPdfBytes(QPDF_AES256_PDF, "wrong")).rejects.toThrow("パスワードが違います");
+  });
+
+  it("pdf-lib の内部の解析処理が見つからなければ、分かるエラーにする", async () => {
+    const spy = vi.spyOn(PDFParser, "forBytesWithOptions").mockReturnValue({} as PDFParser);
+    try {
+      await expect(decryptPdfBytes(AES128_PDF, "user")).rejects.toThrow("pdf-lib の内部の処理が想定と異なるため");
+    } finally {
+      spy.mockRestore();
+    }
+  });
+});
+
+describe("encryptPdfDocument", () => {
+  it("暗号化したPDFを pdf.js でパスワードを入力して開ける", async () => {
+    const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+    const encrypted = await createEncryptedPdf("pässword");
+
+    const loaded = await pdfjs.getDocument({ data: encrypted.slice(), password: "pässword" }).promise;
+    try {
+      expect(loaded.numPages).toBe(1);
+      const { info } = await loaded.getMetadata();
+      expect((info as { Title?: string }).Title).toBe("秘密の文書");
+    } finally {
+      await loaded.destroy();
+    }
+    await expect(pdfjs.getDocument({ data: encrypted.slice(), password: "wrong" }).promise).rejects.toMatchObject({
+      name: "PasswordException",
+    });
+  });
+});
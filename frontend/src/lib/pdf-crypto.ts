@@ -0,0 +1,600 @@
+import type { PDFContext, PDFDict, PDFDocument, PDFObject, PDFRawStream, PDFRef } from "pdf-lib";
+
+/**
+ * PDF の標準セキュリティハンドラ（パスワード暗号化）の復号と暗号化。
+ * pdf-lib は暗号化されたPDFを扱えないため、読み込み前に復号し、保存前に暗号化する（ADR-016）。
+ * 復号は RC4（R2〜R4）、AES-128（AESV2）、AES-256（R5/R6）に対応し、暗号化は AES-256（R6）で行う。
+ */
+
+type PdfLib = typeof import("pdf-lib");
+
+const PASSWORD_PADDING = Uint8Array.from([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08, 0x2e, 0x2e,
+  0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+/** すべての操作を許可する /P の値 */
+const ALL_PERMISSIONS = -4;
+
+const ENDOBJ = Array.from("endobj", (char) => char.charCodeAt(0));
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const isSameBytes = (a: Uint8Array, b: Uint8Array): boolean =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (value) => value.toString(16).padStart(2, "0")).join("");
+
+const randomBytes = (length: number): Uint8Array<ArrayBuffer> => crypto.getRandomValues(new Uint8Array(length));
+
+const int32LittleEndian = (value: number): Uint8Array =>
+  Uint8Array.from([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff]);
+
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_TABLE = Array.from({ length: 64 }, (_, index) => Math.floor(Math.abs(Math.sin(index + 1)) * 2 ** 32) >>> 0);
+
+/** MD5（Web Crypto には無いため自前で計算する。R2〜R4 の鍵の導出にだけ使う） */
+export const md5 = (data: Uint8Array): Uint8Array => {
+  const paddedLength = (((data.length + 8) >> 6) + 1) << 6;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(data.length / 0x20000000), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+    for (let index = 0; index < 64; index += 1) {
+      const round = index >> 4;
+      let f: number;
+      let g: number;
+      if (round === 0) {
+        f = (b & c) | (~b & d);
+        g = index;
+      } else if (round === 1) {
+        f = (d & b) | (~d & c);
+        g = (5 * index + 1) % 16;
+      } else if (round === 2) {
+        f = b ^ c ^ d;
+        g = (3 * index + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * index) % 16;
+      }
+      const shift = MD5_SHIFTS[round * 4 + (index % 4)];
+      const sum = (a + f + MD5_TABLE[index] + view.getUint32(offset + g * 4, true)) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+    a0 = (a0 + a) | 0;
+    b0 = (b0 + b) | 0;
+    c0 = (c0 + c) | 0;
+    d0 = (d0 + d) | 0;
+  }
+  const digest = new Uint8Array(16);
+  const digestView = new DataView(digest.buffer);
+  [a0, b0, c0, d0].forEach((value, index) => digestView.setUint32(index * 4, value >>> 0, true));
+  return digest;
+};
+
+/** RC4（暗号化と復号は同じ処理） */
+export const rc4 = (key: Uint8Array, data: Uint8Array): Uint8Array => {
+  const state = Uint8Array.from({ length: 256 }, (_, index) => index);
+  let j = 0;
+  for (let i = 0; i < 256; i += 1) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+  const output = new Uint8Array(data.length);
+  let i = 0;
+  j = 0;
+  for (let index = 0; index < data.length; index += 1) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    output[index] = data[index] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return output;
+};
+
+const digest = async (algorithm: "SHA-256" | "SHA-384" | "SHA-512", data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.digest(algorithm, concatBytes(data)));
+
+const importAesKey = (key: Uint8Array, usage: "encrypt" | "decrypt") =>
+  crypto.subtle.importKey("raw", concatBytes(key), "AES-CBC", false, [usage]);
+
+/** AES-CBC で暗号化する（PKCS#7 パディング付き） */
+const aesEncrypt = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-CBC", iv: concatBytes(iv) }, await importAesKey(key, "encrypt"), concatBytes(data))
+  );
+
+/** AES-CBC で復号する（PKCS#7 パディングを取り除く） */
+const aesDecrypt = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(
+    await crypto.subtle.decrypt({ name: "AES-CBC", iv: concatBytes(iv) }, await importAesKey(key, "decrypt"), concatBytes(data))
+  );
+
+/** パディング無しの AES-CBC 暗号化（data は16バイトの倍数）。付加されるパディングのブロックを捨てる */
+const aesEncryptNoPadding = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> =>
+  (await aesEncrypt(key, iv, data)).slice(0, data.length);
+
+/**
+ * パディング無しの AES-CBC 復号（data は16バイトの倍数）。
+ * Web Crypto はパディングを必須とするため、復号するとパディングだけになるブロックを末尾に足してから復号する。
+ */
+const aesDecryptNoPadding = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> => {
+  const lastBlock = data.slice(data.length - 16);
+  const paddingBlock = await aesEncryptNoPadding(key, lastBlock, new Uint8Array(16).fill(16));
+  return aesDecrypt(key, iv, concatBytes(data, paddingBlock));
+};
+
+/** R2〜R4 のパスワードは Latin-1 として扱い、32バイトに切り詰め/パディングする */
+const padPassword = (password: string): Uint8Array => {
+  const bytes = Uint8Array.from(Array.from(password.slice(0, 32), (char) => char.charCodeAt(0) & 0xff));
+  return concatBytes(bytes, PASSWORD_PADDING.slice(0, 32 - bytes.length));
+};
+
+/** R5/R6 のパスワードは UTF-8 で最大127バイト */
+const encodeUnicodePassword = (password: string): Uint8Array => new TextEncoder().encode(password).slice(0, 127);
+
+/** R6 のハッシュ（ISO 32000-2 Algorithm 2.B）。R5 は SHA-256 1回だけ */
+const hashPasswordV5 = async (
+  revision: number,
+  password: Uint8Array,
+  salt: Uint8Array,
+  userKey: Uint8Array = new Uint8Array(0)
+): Promise<Uint8Array> => {
+  let key = await digest("SHA-256", concatBytes(password, salt, userKey));
+  if (revision < 6) return key;
+  let encrypted: Uint8Array = new Uint8Array(0);
+  for (let round = 0; round < 64 || encrypted[encrypted.length - 1] > round - 32; round += 1) {
+    const block = concatBytes(password, key, userKey);
+    const repeated = new Uint8Array(block.length * 64);
+    for (let index = 0; index < 64; index += 1) {
+      repeated.set(block, index * block.length);
+    }
+    encrypted = await aesEncryptNoPadding(key.slice(0, 16), key.slice(16, 32), repeated);
+    const remainder = encrypted.slice(0, 16).reduce((total, value) => total + value, 0) % 3;
+    key = await digest(remainder === 0 ? "SHA-256" : remainder === 1 ? "SHA-384" : "SHA-512", encrypted);
+  }
+  return key.slice(0, 32);
+};
+
+type CipherMethod = "none" | "rc4" | "aes128" | "aes256";
+
+type StandardSecurity = {
+  revision: number;
+  keyLength: number;
+  owner: Uint8Array;
+  user: Uint8Array;
+  ownerEncryption?: Uint8Array;
+  userEncryption?: Uint8Array;
+  permissions: number;
+  encryptMetadata: boolean;
+  streamMethod: CipherMethod;
+  stringMethod: CipherMethod;
+};
+
+const readBytes = (pdfLib: PdfLib, dict: PDFDict, key: string): Uint8Array | undefined => {
+  const value = dict.lookup(pdfLib.PDFName.of(key));
+  if (value instanceof pdfLib.PDFString || value instanceof pdfLib.PDFHexString) return value.asBytes();
+  return undefined;
+};
+
+const readNumber = (pdfLib: PdfLib, dict: PDFDict, key: string): number | undefined => {
+  const value = dict.lookup(pdfLib.PDFName.of(key));
+  return value instanceof pdfLib.PDFNumber ? value.asNumber() : undefined;
+};
+
+const resolveCryptFilter = (pdfLib: PdfLib, dict: PDFDict, key: "StmF" | "StrF", version: number): CipherMethod => {
+  if (version < 4) return "rc4";
+  const filterName = dict.lookup(pdfLib.PDFName.of(key));
+  if (!(filterName instanceof pdfLib.PDFName) || filterName.decodeText() === "Identity") return "none";
+  const filters = dict.lookup(pdfLib.PDFName.of("CF"));
+  const filter = filters instanceof pdfLib.PDFDict ? filters.lookup(filterName) : undefined;
+  const method = filter instanceof pdfLib.PDFDict ? filter.lookup(pdfLib.PDFName.of("CFM")) : undefined;
+  switch (method instanceof pdfLib.PDFName ? method.decodeText() : "None") {
+    case "V2":
+      return "rc4";
+    case "AESV2":
+      return "aes128";
+    case "AESV3":
+      return "aes256";
+    case "None":
+      return "none";
+    default:
+      throw new Error("対応していない暗号化方式です");
+  }
+};
+
+const readStandardSecurity = (pdfLib: PdfLib, dict: PDFDict): StandardSecurity => {
+  const filter = dict.lookup(pdfLib.PDFName.of("Filter"));
+  const owner = readBytes(pdfLib, dict, "O");
+  const user = readBytes(pdfLib, dict, "U");
+  const version = readNumber(pdfLib, dict, "V") ?? 0;
+  const revision = readNumber(pdfLib, dict, "R") ?? 0;
+  if (
+    !(filter instanceof pdfLib.PDFName) ||
+    filter.decodeText() !== "Standard" ||
+    !owner ||
+    !user ||
+    ![1, 2, 4, 5].includes(version) ||
+    revision < 2 ||
+    revision > 6
+  ) {
+    throw new Error("対応していない暗号化方式です");
+  }
+  const encryptMetadata = dict.lookup(pdfLib.PDFName.of("EncryptMetadata"));
+  return {
+    revision,
+    keyLength: version === 1 ? 5 : Math.floor((readNumber(pdfLib, dict, "Length") ?? 40) / 8),
+    owner,
+    user,
+    ownerEncryption: readBytes(pdfLib, dict, "OE"),
+    userEncryption: readBytes(pdfLib, dict, "UE"),
+    permissions: readNumber(pdfLib, dict, "P") ?? 0,
+    encryptMetadata: !(encryptMetadata instanceof pdfLib.PDFBool) || encryptMetadata.asBoolean(),
+    streamMethod: resolveCryptFilter(pdfLib, dict, "StmF", version),
+    stringMethod: resolveCryptFilter(pdfLib, dict, "StrF", version),
+  };
+};
+
+/** R2〜R4 のファイル鍵（ISO 32000-1 Algorithm 2） */
+const computeRc4FileKey = (security: StandardSecurity, paddedPassword: Uint8Array, fileId: Uint8Array): Uint8Array => {
+  const metadataFlag = security.revision >= 4 && !security.encryptMetadata ? Uint8Array.from([0xff, 0xff, 0xff, 0xff]) : [];
+  let hash = md5(
+    concatBytes(
+      paddedPassword,
+      security.owner.slice(0, 32),
+      int32LittleEndian(security.permissions),
+      fileId,
+      Uint8Array.from(metadataFlag)
+    )
+  );
+  if (security.revision >= 3) {
+    for (let index = 0; index < 50; index += 1) {
+      hash = md5(hash.slice(0, security.keyLength));
+    }
+  }
+  return hash.slice(0, security.keyLength);
+};
+
+/** ファイル鍵から求めた /U が一致するかを確かめる（ISO 32000-1 Algorithm 4/5） */
+const isValidRc4UserKey = (security: StandardSecurity, fileKey: Uint8Array, fileId: Uint8Array): boolean => {
+  if (security.revision === 2) {
+    return isSameBytes(rc4(fileKey, PASSWORD_PADDING), security.user.slice(0, 32));
+  }
+  let value = rc4(fileKey, md5(concatBytes(PASSWORD_PADDING, fileId)));
+  for (let round = 1; round <= 19; round += 1) {
+    value = rc4(
+      fileKey.map((byte) => byte ^ round),
+      value
+    );
+  }
+  return isSameBytes(value, security.user.slice(0, 16));
+};
+
+/** 所有者パスワードから /O を復号してユーザーパスワードを取り出す（ISO 32000-1 Algorithm 7） */
+const recoverRc4UserPassword = (security: StandardSecurity, password: string): Uint8Array => {
+  let hash = md5(padPassword(password));
+  if (security.revision >= 3) {
+    for (let index = 0; index < 50; index += 1) {
+      hash = md5(hash);
+    }
+  }
+  const ownerKey = hash.slice(0, security.keyLength);
+  if (security.revision === 2) {
+    return rc4(ownerKey, security.owner.slice(0, 32));
+  }
+  let value: Uint8Array = security.owner.slice(0, 32);
+  for (let round = 19; round >= 0; round -= 1) {
+    value = rc4(
+      ownerKey.map((byte) => byte ^ round),
+      value
+    );
+  }
+  return value;
+};
+
+/** パスワードからファイル鍵を求める。ユーザー/所有者パスワードのどちらでもよく、違えば null */
+const computeFileKey = async (
+  security: StandardSecurity,
+  password: string,
+  fileId: Uint8Array
+): Promise<Uint8Array | null> => {
+  if (security.revision >= 5) {
+    const passwordBytes = encodeUnicodePassword(password);
+    const { user, owner, revision } = security;
+    const userHash = await hashPasswordV5(revision, passwordBytes, user.slice(32, 40));
+    if (isSameBytes(userHash, user.slice(0, 32)) && security.userEncryption) {
+      const key = await hashPasswordV5(revision, passwordBytes, user.slice(40, 48));
+      return aesDecryptNoPadding(key, new Uint8Array(16), security.userEncryption.slice(0, 32));
+    }
+    const ownerHash = await hashPasswordV5(revision, passwordBytes, owner.slice(32, 40), user.slice(0, 48));
+    if (isSameBytes(ownerHash, owner.slice(0, 32)) && security.ownerEncryption) {
+      const key = await hashPasswordV5(revision, passwordBytes, owner.slice(40, 48), user.slice(0, 48));
+      return aesDecryptNoPadding(key, new Uint8Array(16), security.ownerEncryption.slice(0, 32));
+    }
+    return null;
+  }
+  const userKey = computeRc4FileKey(security, padPassword(password), fileId);
+  if (isValidRc4UserKey(security, userKey, fileId)) return userKey;
+  const ownerKey = computeRc4FileKey(security, recoverRc4UserPassword(security, password), fileId);
+  return isValidRc4UserKey(security, ownerKey, fileId) ? ownerKey : null;
+};
+
+/** オブジェクトごとの鍵（ISO 32000-1 Algorithm 1）。AES-256 はファイル鍵をそのまま使う */
+const computeObjectKey = (fileKey: Uint8Array, method: CipherMethod, ref: PDFRef): Uint8Array => {
+  if (method === "aes256") return fileKey;
+  const { objectNumber, generationNumber } = ref;
+  const suffix = [
+    objectNumber & 0xff,
+    (objectNumber >> 8) & 0xff,
+    (objectNumber >> 16) & 0xff,
+    generationNumber & 0xff,
+    (generationNumber >> 8) & 0xff,
+  ];
+  const salt = method === "aes128" ? [0x73, 0x41, 0x6c, 0x54] : [];
+  return md5(concatBytes(fileKey, Uint8Array.from([...suffix, ...salt]))).slice(0, Math.min(fileKey.length + 5, 16));
+};
+
+const decryptData = async (method: CipherMethod, key: Uint8Array, data: Uint8Array): Promise<Uint8Array> => {
+  if (method === "none") return data;
+  if (method === "rc4") return rc4(key, data);
+  if (data.length < 32 || data.length % 16 !== 0) return new Uint8Array(0);
+  try {
+    return await aesDecrypt(key, data.slice(0, 16), data.slice(16));
+  } catch {
+    // パディングが壊れたデータは内容を諦めて空にする（PDF.js と同じく読み込み自体は続ける）
+    return new Uint8Array(0);
+  }
+};
+
+type ObjectTransform = (bytes: Uint8Array, isStream: boolean) => Promise<Uint8Array>;
+
+/** 文字列とストリームの中身を再帰的に変換した新しいオブジェクトを返す */
+const transformObject = async (pdfLib: PdfLib, object: PDFObject, transform: ObjectTransform): Promise<PDFObject> => {
+  if (object instanceof pdfLib.PDFString || object instanceof pdfLib.PDFHexString) {
+    return pdfLib.PDFHexString.of(toHex(await transform(object.asBytes(), false)));
+  }
+  if (object instanceof pdfLib.PDFDict) {
+    for (const [key, value] of object.entries()) {
+      object.set(key, await transformObject(pdfLib, value, transform));
+    }
+    return object;
+  }
+  if (object instanceof pdfLib.PDFArray) {
+    for (let index = 0; index < object.size(); index += 1) {
+      object.set(index, await transformObject(pdfLib, object.get(index), transform));
+    }
+    return object;
+  }
+  if (object instanceof pdfLib.PDFStream) {
+    await transformObject(pdfLib, object.dict, transform);
+    return pdfLib.PDFRawStream.of(object.dict, await transform(object.getContents(), true));
+  }
+  return object;
+};
+
+const isStreamOfType = (pdfLib: PdfLib, object: PDFObject, type: string): boolean =>
+  object instanceof pdfLib.PDFRawStream && object.dict.lookup(pdfLib.PDFName.of("Type")) === pdfLib.PDFName.of(type);
+
+/** pdf-lib の解析で使う内部メソッド（公開APIでは間接オブジェクトごとに手を入れられないため参照する） */
+type ParserInternals = {
+  context: PDFContext;
+  parseIndirectObjectHeader: () => PDFRef;
+  skipWhitespaceAndComments: () => void;
+  parseObject: () => PDFObject;
+  matchKeyword: (keyword: number[]) => boolean;
+  shouldWaitForTick: () => boolean;
+  parseIndirectObject: () => Promise<PDFRef>;
+};
+
+const PARSER_METHODS = [
+  "parseIndirectObject",
+  "parseIndirectObjectHeader",
+  "skipWhitespaceAndComments",
+  "parseObject",
+  "matchKeyword",
+  "shouldWaitForTick",
+] as const;
+
+const PARSER_INTERNALS_ERROR =
+  "pdf-lib の内部の処理が想定と異なるため、パスワード付きのPDFを読み込めません（pdf-lib の更新を確認してください）";
+
+/**
+ * pdf-lib の公開されていない解析処理を使う前に、差し替える前提のメソッドとプロパティがあるかを確かめる。
+ * pdf-lib の更新で内部が変わったときに、壊れたPDFを作らずに分かるエラーにする。
+ */
+const toParserInternals = (pdfLib: PdfLib, parser: object): ParserInternals => {
+  const candidate = parser as Partial<Record<string, unknown>>;
+  if (
+    PARSER_METHODS.some((name) => typeof candidate[name] !== "function") ||
+    !(candidate.context instanceof pdfLib.PDFContext)
+  ) {
+    throw new Error(PARSER_INTERNALS_ERROR);
+  }
+  return parser as ParserInternals;
+};
+
+/**
+ * 間接オブジェクトを1つずつ変換しながらPDFを解析する。
+ * 暗号化されたオブジェクトストリームは中身を展開する前に復号する必要があるため、pdf-lib の解析処理を差し替える。
+ * transform が null を返したオブジェクトは取り込まない。
+ */
+const parseWithTransform = async (
+  pdfLib: PdfLib,
+  bytes: Uint8Array,
+  transform: (ref: PDFRef, object: PDFObject) => Promise<PDFObject | null>
+): Promise<PDFContext> => {
+  const parser = pdfLib.PDFParser.forBytesWithOptions(bytes);
+  const internals = toParserInternals(pdfLib, parser);
+  let overridden = false;
+  internals.parseIndirectObject = async () => {
+    overridden = true;
+    const ref = internals.parseIndirectObjectHeader();
+    internals.skipWhitespaceAndComments();
+    const parsed = internals.parseObject();
+    internals.skipWhitespaceAndComments();
+    internals.matchKeyword(ENDOBJ);
+    // 相互参照ストリームは暗号化されない
+    if (isStreamOfType(pdfLib, parsed, "XRef")) {
+      pdfLib.PDFXRefStreamParser.forStream(parsed as PDFRawStream).parseIntoContext();
+      return ref;
+    }
+    const object = await transform(ref, parsed);
+    if (!object) return ref;
+    if (isStreamOfType(pdfLib, object, "ObjStm")) {
+      await pdfLib.PDFObjectStreamParser.forStream(
+        object as PDFRawStream,
+        internals.shouldWaitForTick
+      ).parseIntoContext();
+      return ref;
+    }
+    internals.context.assign(ref, object);
+    return ref;
+  };
+  const context = await parser.parseDocument();
+  // 差し替えたメソッドが呼ばれていなければ、復号しないままのオブジェクトを読み込んでいる
+  if (!overridden) throw new Error(PARSER_INTERNALS_ERROR);
+  return context;
+};
+
+const readFileId = (pdfLib: PdfLib, context: PDFContext): Uint8Array => {
+  const ids = context.lookup(context.trailerInfo.ID);
+  const first = ids instanceof pdfLib.PDFArray ? ids.lookup(0) : undefined;
+  return first instanceof pdfLib.PDFString || first instanceof pdfLib.PDFHexString ? first.asBytes() : new Uint8Array(0);
+};
+
+/** トレーラー（xref ストリームの辞書を含む）の /Encrypt。/EncryptMetadata などほかのキーには一致しない */
+const ENCRYPT_ENTRY = /\/Encrypt\s*(?:\d+\s+\d+\s+R|<<)/;
+
+/**
+ * 元PDFが暗号化されているかを、トレーラーの /Encrypt の有無で調べる。
+ * 所有者パスワードだけのPDFはパスワードを聞かずに開けるため、入力されたパスワードの有無では判断できない。
+ * トレーラーと xref ストリームの辞書は圧縮されないので、バイト列を走査して探す。
+ */
+export const isEncryptedPdf = (bytes: Uint8Array): boolean =>
+  ENCRYPT_ENTRY.test(new TextDecoder("latin1").decode(bytes));
+
+/**
+ * 暗号化されたPDFを復号し、暗号化されていないPDFのバイト列を返す。暗号化されていなければそのまま返す。
+ * ユーザーパスワードと所有者パスワードのどちらでも復号できる。
+ */
+export const decryptPdfBytes = async (bytes: Uint8Array, password: string): Promise<Uint8Array> => {
+  const pdfLib = await import("pdf-lib");
+  // 1回目は /Encrypt を読むだけなので、暗号化されたオブジェクトストリームは展開しない
+  const probe = await parseWithTransform(pdfLib, bytes, async (_, object) =>
+    isStreamOfType(pdfLib, object, "ObjStm") ? null : object
+  );
+  const encryptRef = probe.trailerInfo.Encrypt;
+  const encryptDict = probe.lookup(encryptRef);
+  if (!(encryptDict instanceof pdfLib.PDFDict)) return bytes;
+
+  const security = readStandardSecurity(pdfLib, encryptDict);
+  const fileId = readFileId(pdfLib, probe);
+  const fileKey = await computeFileKey(security, password, fileId);
+  if (!fileKey) {
+    throw new Error("パスワードが違います");
+  }
+
+  const context = await parseWithTransform(pdfLib, bytes, async (ref, object) => {
+    if (encryptRef instanceof pdfLib.PDFRef && ref === encryptRef) return null;
+    if (!security.encryptMetadata && isStreamOfType(pdfLib, object, "Metadata")) return object;
+    return transformObject(pdfLib, object, (data, isStream) => {
+      const method = isStream ? security.streamMethod : security.stringMethod;
+      return decryptData(method, computeObjectKey(fileKey, method, ref), data);
+    });
+  });
+  context.trailerInfo.Encrypt = undefined;
+  return pdfLib.PDFWriter.forContext(context, 50).serializeToBuffer();
+};
+
+/**
+ * 文書の文字列とストリームを AES-256（R6）で暗号化し、/Encrypt を設定する。
+ * 所有者パスワードはユーザーパスワードと同じにし、すべての操作を許可する。
+ * 暗号化後に埋め込みなどでオブジェクトが増えないよう、呼び出し前に flush し、
+ * 保存時はオブジェクトストリームを使わない（useObjectStreams: false）こと。
+ */
+export const encryptPdfDocument = async (pdfDoc: PDFDocument, password: string): Promise<void> => {
+  const pdfLib = await import("pdf-lib");
+  const { context } = pdfDoc;
+  const fileKey = randomBytes(32);
+  const passwordBytes = encodeUnicodePassword(password);
+  const zeroIv = new Uint8Array(16);
+
+  const userSalts = randomBytes(16);
+  const user = concatBytes(await hashPasswordV5(6, passwordBytes, userSalts.slice(0, 8)), userSalts);
+  const userEncryption = await aesEncryptNoPadding(
+    await hashPasswordV5(6, passwordBytes, userSalts.slice(8, 16)),
+    zeroIv,
+    fileKey
+  );
+  const ownerSalts = randomBytes(16);
+  const owner = concatBytes(await hashPasswordV5(6, passwordBytes, ownerSalts.slice(0, 8), user), ownerSalts);
+  const ownerEncryption = await aesEncryptNoPadding(
+    await hashPasswordV5(6, passwordBytes, ownerSalts.slice(8, 16), user),
+    zeroIv,
+    fileKey
+  );
+  const permissionBlock = concatBytes(
+    int32LittleEndian(ALL_PERMISSIONS),
+    Uint8Array.from([0xff, 0xff, 0xff, 0xff, 0x54, 0x61, 0x64, 0x62]),
+    randomBytes(4)
+  );
+  const permissions = await aesEncryptNoPadding(fileKey, zeroIv, permissionBlock);
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    context.assign(
+      ref,
+      await transformObject(pdfLib, object, async (data) => {
+        const iv = randomBytes(16);
+        return concatBytes(iv, await aesEncrypt(fileKey, iv, data));
+      })
+    );
+  }
+
+  const hex = (bytes: Uint8Array) => pdfLib.PDFHexString.of(toHex(bytes));
+  context.trailerInfo.Encrypt = context.register(
+    context.obj({
+      Filter: "Standard",
+      V: 5,
+      R: 6,
+      Length: 256,
+      CF: { StdCF: { AuthEvent: "DocOpen", CFM: "AESV3", Length: 32 } },
+      StmF: "StdCF",
+      StrF: "StdCF",
+      O: hex(owner),
+      U: hex(user),
+      OE: hex(ownerEncryption),
+      UE: hex(userEncryption),
+      P: ALL_PERMISSIONS,
+      Perms: hex(permissions),
+      EncryptMetadata: true,
+    })
+  );
+  if (!context.trailerInfo.ID) {
+    const id = hex(randomBytes(16));
+    context.trailerInfo.ID = context.obj([id, id]);
+  }
+};
@@ -11,6 +11,7 @@ const pdfLibMocks = vi.hoisted(() => {
     },
     degrees: vi.fn((value: number) => value),
     page: {
+      getRotation: vi.fn(() => ({ angle: 0 })),
       setRotation: vi.fn(),
     },
   };
@@ -1,5 +1,15 @@
+import type { PDFDict, PDFNumber, PDFRef } from "pdf-lib";
 import { describe, expect, it, vi } from "vitest";
-import { savePdfWithRotation } from "./pdf-save";
+import { EMPTY_METADATA } from "./metadata";
+import type { SourceImage } from "./optimize";
+import {
+  inspectActiveContent,
+  inspectPdfImages,
+  savePdfExtract,
+  savePdfIncremental,
+  savePdfSplit,
+  savePdfWithRotation,
+} from "./pdf-save";
 
 vi.mock("file-saver", () => ({
   saveAs: vi.fn(),
@@ -68,3 +78,1353 @@ describe("savePdfWithRotation", () => {
     open.mockRestore();
   });
 });
+
+const readBlob = (blob: Blob): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const createPdfWithRotations = async (rotations: number[]): Promise<ArrayBuffer> => {
+  const { PDFDocument, degrees } = await import("pdf-lib");
+  const doc = await PDFDocument.create();
+  rotations.forEach((rotation) => {
+    const page = doc.addPage([200, 300]);
+    page.setRotation(degrees(rotation));
+  });
+  const bytes = await doc.save();
+  return Uint8Array.from(bytes).buffer;
+};
+
+/** ページごとに「PAGE-1」のような文字を描いたPDF */
+const createPdfWithPageTexts = async (count: number): Promise<ArrayBuffer> => {
+  const { PDFDocument, StandardFonts } = await import("pdf-lib");
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  for (let index = 0; index < count; index += 1) {
+    doc.addPage([200, 300]).drawText(`PAGE-${index + 1}`, { x: 10, y: 10, font });
+  }
+  return Uint8Array.from(await doc.save()).buffer;
+};
+
+/** ページから参照されていないものも含め、ファイルにあるすべてのストリームを展開して読む */
+const readAllStreams = async (bytes: ArrayBuffer | Uint8Array): Promise<string> => {
+  const { PDFDocument, PDFRawStream, decodePDFRawStream } = await import("pdf-lib");
+  const doc = await PDFDocument.load(bytes);
+  return doc.context
+    .enumerateIndirectObjects()
+    .map(([, object]) =>
+      object instanceof PDFRawStream ? new TextDecoder("latin1").decode(decodePDFRawStream(object).decode()) : ""
+    )
+    .join("\n");
+};
+
+/** 無圧縮の ZIP から、ローカルファイルヘッダの後ろにそのまま入っている各ファイルを取り出す */
+const readZipEntries = async (blob: Blob): Promise<Uint8Array[]> => {
+  const zip = new Uint8Array(await readBlob(blob));
+  const view = new DataView(zip.buffer);
+  const entries: Uint8Array[] = [];
+  for (let offset = 0; view.getUint32(offset, true) === 0x04034b50; ) {
+    const size = view.getUint32(offset + 22, true);
+    const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    entries.push(zip.slice(start, start + size));
+    offset = start + size;
+  }
+  return entries;
+};
+
+/** drawText が書き出す16進の文字列 */
+const toHexText = (text: string): string =>
+  `<${Array.from(text, (char) => char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")).join("")}>`;
+
+const readSavedRotations = async (saveAs: ReturnType<typeof vi.fn>): Promise<number[]> => {
+  const { PDFDocument } = await import("pdf-lib");
+  const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+  const saved = await PDFDocument.load(await readBlob(blob));
+  return saved.getPages().map((page) => page.getRotation().angle);
+};
+
+describe("savePdfWithRotation (元の/Rotate)", () => {
+  it("回転マップに無いページは元の/Rotateを維持する", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([90, 0, 270]);
+
+    await savePdfWithRotation(buffer, {});
+
+    await expect(readSavedRotations(saveAs)).resolves.toEqual([90, 0, 270]);
+  });
+
+  it("回転マップの値は元の/Rotateへの差分として加算する", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([90, 0, 270]);
+
+    await savePdfWithRotation(buffer, { 1: 90, 2: 270, 3: 180 });
+
+    await expect(readSavedRotations(saveAs)).resolves.toEqual([180, 270, 90]);
+  });
+});
+
+describe("savePdfWithRotation (ページ削除)", () => {
+  it("削除指定したページを出力から除外する", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([0, 90, 180]);
+
+    await savePdfWithRotation(buffer, { 3: 90 }, { deletedPages: [2] });
+
+    await expect(readSavedRotations(saveAs)).resolves.toEqual([0, 270]);
+  });
+
+  it("削除したページの内容はファイルに残さない", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithPageTexts(3);
+
+    await savePdfWithRotation(buffer, {}, { deletedPages: [2] });
+
+    const streams = await readAllStreams(await readBlob(saveAs.mock.calls[0][0] as Blob));
+    expect(streams).toContain(toHexText("PAGE-1"));
+    expect(streams).toContain(toHexText("PAGE-3"));
+    expect(streams).not.toContain(toHexText("PAGE-2"));
+  });
+
+  it("全ページ削除時はエラーにする", async () => {
+    const buffer = await createPdfWithRotations([0, 0]);
+
+    await expect(savePdfWithRotation(buffer, {}, { deletedPages: [1, 2] })).rejects.toThrow(
+      "すべてのページが削除されているため保存できません"
+    );
+  });
+});
+
+describe("savePdfWithRotation (並び替え)", () => {
+  it("指定した並び順でページを出力し、削除ページは除外する", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([0, 90, 180, 270]);
+
+    await savePdfWithRotation(buffer, { 1: 90 }, { pageOrder: [4, 1, 3, 2], deletedPages: [3] });
+
+    await expect(readSavedRotations(saveAs)).resolves.toEqual([270, 90, 90]);
+  });
+
+  it("並び順に欠けたページは元の順で末尾に補う", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([0, 90, 180]);
+
+    await savePdfWithRotation(buffer, {}, { pageOrder: [3] });
+
+    await expect(readSavedRotations(saveAs)).resolves.toEqual([180, 0, 90]);
+  });
+});
+
+describe("savePdfWithRotation (結合)", () => {
+  it("複数のPDFを通し番号で結合し、回転・削除・並び順を適用する", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const first = await createPdfWithRotations([0, 90]);
+    const second = await createPdfWithRotations([180, 0, 270]);
+
+    await savePdfWithRotation([first, second], { 3: 90, 4: 180 }, { pageOrder: [3, 1, 2, 4, 5], deletedPages: [2] });
+
+    await expect(readSavedRotations(saveAs)).resolves.toEqual([270, 0, 180, 270]);
+  });
+
+  it("結合するPDFのいずれかが空ならエラーにする", async () => {
+    const first = await createPdfWithRotations([0]);
+
+    await expect(savePdfWithRotation([first, new ArrayBuffer(0)], {})).rejects.toThrow("保存するPDFデータが空です");
+  });
+});
+
+describe("savePdfSplit", () => {
+  it("まとまりごとに回転を適用したPDFを作り、ZIPで保存する", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([0, 90, 180]);
+
+    await savePdfSplit(
+      buffer,
+      { 1: 90 },
+      [
+        { fileName: "a_1.pdf", pages: [3, 1] },
+        { fileName: "a_2.pdf", pages: [2] },
+      ],
+      { zipFileName: "a_split.zip" }
+    );
+
+    expect(saveAs).toHaveBeenCalledTimes(1);
+    const [blob, fileName] = saveAs.mock.calls[0] as [Blob, string];
+    expect(fileName).toBe("a_split.zip");
+    expect(blob.type).toBe("application/zip");
+    const view = new DataView(await readBlob(blob));
+    expect(view.getUint16(view.byteLength - 22 + 10, true)).toBe(2);
+  });
+
+  it("各ファイルには、ほかのファイルに入れたページの内容を含めない", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithPageTexts(3);
+
+    await savePdfSplit(buffer, {}, [
+      { fileName: "a_1.pdf", pages: [1, 2] },
+      { fileName: "a_2.pdf", pages: [3] },
+    ]);
+
+    const [first, second] = await Promise.all(
+      (await readZipEntries(saveAs.mock.calls[0][0] as Blob)).map((entry) => readAllStreams(entry))
+    );
+    expect(first).toContain(toHexText("PAGE-2"));
+    expect(first).not.toContain(toHexText("PAGE-3"));
+    expect(second).toContain(toHexText("PAGE-3"));
+    expect(second).not.toContain(toHexText("PAGE-1"));
+    expect(second).not.toContain(toHexText("PAGE-2"));
+  });
+
+  it("ページの無いまとまりはエラーにする", async () => {
+    const buffer = await createPdfWithRotations([0]);
+
+    await expect(savePdfSplit(buffer, {}, [{ fileName: "a.pdf", pages: [] }])).rejects.toThrow(
+      "分割後のファイルにページがありません"
+    );
+  });
+});
+
+describe("savePdfWithRotation (傾き補正)", () => {
+  const readContentStreams = async (saveAs: ReturnType<typeof vi.fn>): Promise<string[][]> => {
+    const { PDFDocument, PDFArray, PDFName, PDFRawStream, decodePDFRawStream } = await import("pdf-lib");
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    const saved = await PDFDocument.load(await readBlob(blob));
+    return saved.getPages().map((page) => {
+      const contents = page.node.Contents();
+      const refs = contents instanceof PDFArray ? contents.asArray() : [page.node.get(PDFName.of("Contents"))];
+      return refs.map((ref) => {
+        const stream = saved.context.lookup(ref);
+        if (!(stream instanceof PDFRawStream)) return "";
+        return new TextDecoder().decode(decodePDFRawStream(stream).decode());
+      });
+    });
+  };
+
+  it("補正するページだけ内容を中心回りに回転させる変換行列で包む", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const { PDFDocument, rgb } = await import("pdf-lib");
+    const doc = await PDFDocument.create();
+    doc.addPage([200, 100]).drawRectangle({ x: 10, y: 10, width: 50, height: 20, color: rgb(0, 0, 0) });
+    doc.addPage([200, 100]).drawRectangle({ x: 10, y: 10, width: 50, height: 20, color: rgb(0, 0, 0) });
+    const buffer = Uint8Array.from(await doc.save()).buffer;
+
+    await savePdfWithRotation(buffer, { 1: 90 }, { skewMap: { 1: 2 } });
+
+    const [first, second] = await readContentStreams(saveAs);
+    const match = /^q\s+([-\d.e ]+) cm/.exec(first[0]);
+    expect(match).not.toBeNull();
+    const [a, b, c, d] = match![1].trim().split(/\s+/).map(Number);
+    const radians = (-2 * Math.PI) / 180;
+    expect(a).toBeCloseTo(Math.cos(radians));
+    expect(b).toBeCloseTo(Math.sin(radians));
+    expect(c).toBeCloseTo(-Math.sin(radians));
+    expect(d).toBeCloseTo(Math.cos(radians));
+    expect(first[first.length - 1].trim()).toBe("Q");
+    expect(second).toHaveLength(1);
+  });
+});
+
+describe("savePdfWithRotation (トリミング)", () => {
+  it("回転前の向きでの相対座標を元の CropBox に対する新しい CropBox にする", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([90, 0]);
+
+    await savePdfWithRotation(buffer, { 2: 90 }, { cropMap: { 1: { x: 0.25, y: 0.1, width: 0.5, height: 0.6 } } });
+
+    const { PDFDocument } = await import("pdf-lib");
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    const saved = await PDFDocument.load(await readBlob(blob));
+    const [first, second] = saved.getPages();
+    expect(first.getCropBox()).toEqual({ x: 50, y: expect.closeTo(90), width: 100, height: 180 });
+    expect(first.getRotation().angle).toBe(90);
+    expect(second.getCropBox()).toEqual({ x: 0, y: 0, width: 200, height: 300 });
+  });
+});
+
+describe("savePdfWithRotation (ページサイズの統一)", () => {
+  it("回転とトリミングの後の見た目で用紙に収め、/Rotate を保ったまま中央に置く", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    // 1ページ目は 200x300 を横向きに回して 300x200、2ページ目は 200x300 の縦向き
+    const buffer = await createPdfWithRotations([0, 0]);
+
+    await savePdfWithRotation(
+      buffer,
+      { 1: 90 },
+      { normalizePageSize: { paper: "letter", orientation: "auto", marginMm: 0, fit: "fit" } }
+    );
+
+    const { PDFDocument, PDFName } = await import("pdf-lib");
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    const saved = await PDFDocument.load(await readBlob(blob));
+    const [first, second] = saved.getPages();
+    // 見た目が横向きなので用紙も横向き（792x612）。/Rotate 90 のため回転前の MediaBox は 612x792
+    expect(first.getRotation().angle).toBe(90);
+    expect(first.getMediaBox()).toEqual({ x: 0, y: 0, width: 612, height: 792 });
+    expect(first.getCropBox()).toEqual({ x: 0, y: 0, width: 612, height: 792 });
+    expect(second.getMediaBox()).toEqual({ x: 0, y: 0, width: 612, height: 792 });
+    expect(second.node.get(PDFName.of("TrimBox"))).toBeUndefined();
+  });
+
+  it("内容を表示範囲で切り取り、拡大縮小して中央に置く変換行列で包む", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const { PDFDocument, PDFArray, PDFRawStream, decodePDFRawStream, rgb } = await import("pdf-lib");
+    const doc = await PDFDocument.create();
+    doc.addPage([200, 300]).drawRectangle({ x: 10, y: 10, width: 50, height: 20, color: rgb(0, 0, 0) });
+    const buffer = Uint8Array.from(await doc.save()).buffer;
+
+    await savePdfWithRotation(
+      buffer,
+      {},
+      { normalizePageSize: { paper: "letter", orientation: "portrait", marginMm: 0, fit: "fit" } }
+    );
+
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    const saved = await PDFDocument.load(await readBlob(blob));
+    const contents = saved.getPages()[0].node.Contents();
+    expect(contents).toBeInstanceOf(PDFArray);
+    const streams = (contents as InstanceType<typeof PDFArray>).asArray().map((ref) => {
+      const stream = saved.context.lookup(ref);
+      if (!(stream instanceof PDFRawStream)) return "";
+      return new TextDecoder().decode(decodePDFRawStream(stream).decode());
+    });
+    // 200x300 を 612x792 に収めると倍率 2.64、横は (612 - 528) / 2 = 42 だけずらす
+    const match = /^q\s+([-\d.e ]+) re\s+W\s+n\s+([-\d.e ]+) cm/.exec(streams[0]);
+    expect(match).not.toBeNull();
+    const [x, y, width, height] = match![1].trim().split(/\s+/).map(Number);
+    expect([x, y, width, height]).toEqual([42, 0, 528, 792]);
+    const [a, , , d, e, f] = match![2].trim().split(/\s+/).map(Number);
+    expect(a).toBeCloseTo(2.64);
+    expect(d).toBeCloseTo(2.64);
+    expect(e).toBeCloseTo(42);
+    expect(f).toBeCloseTo(0);
+    expect(streams[streams.length - 1].trim()).toBe("Q");
+  });
+});
+
+describe("savePdfWithRotation (スタンプ)", () => {
+  const readPageStreams = async (saveAs: ReturnType<typeof vi.fn>): Promise<string[][]> => {
+    const { PDFDocument, PDFArray, PDFRawStream, decodePDFRawStream } = await import("pdf-lib");
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    const saved = await PDFDocument.load(await readBlob(blob));
+    return saved.getPages().map((page) => {
+      const contents = page.node.Contents();
+      const refs = contents instanceof PDFArray ? contents.asArray() : [];
+      return refs.map((ref) => {
+        const stream = saved.context.lookup(ref);
+        if (!(stream instanceof PDFRawStream)) return "";
+        return new TextDecoder().decode(decodePDFRawStream(stream).decode());
+      });
+    });
+  };
+
+  it("出力する順に連番を振り、回転したページでは見た目の向きに合わせて文字を回す", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const { PDFDocument, degrees, rgb } = await import("pdf-lib");
+    const doc = await PDFDocument.create();
+    doc.addPage([200, 300]).drawRectangle({ x: 10, y: 10, width: 50, height: 20, color: rgb(0, 0, 0) });
+    doc.addPage([200, 300]).setRotation(degrees(90));
+    const buffer = Uint8Array.from(await doc.save()).buffer;
+
+    await savePdfWithRotation(buffer, {}, {
+      pageOrder: [2, 1],
+      stamp: {
+        stamps: [{ template: "B-{n}", position: "bottom-right", fontSize: 10, opacity: 0.5 }],
+        startNumber: 7,
+        digits: 3,
+        fileName: "bundle.pdf",
+      },
+    });
+
+    const [rotated, upright] = await readPageStreams(saveAs);
+    const readTextMatrix = (stream: string) =>
+      /([-\d.e]+) ([-\d.e]+) ([-\d.e]+) ([-\d.e]+) ([-\d.e]+) ([-\d.e]+) Tm/.exec(stream)!.slice(1).map(Number);
+    // 90度回転したページ（見た目 300x200）の右下は、回転前の右上の辺に沿う。文字は反時計回りに90度回す
+    expect(rotated[rotated.length - 1]).toContain("<422D303037> Tj");
+    const [a, b, c, d, e] = readTextMatrix(rotated[rotated.length - 1]);
+    expect([a, b, c, d].map((value) => Math.round(value))).toEqual([0, 1, -1, 0]);
+    expect(e).toBeCloseTo(200 - (10 * 72) / 25.4);
+    // 元の内容は q ... Q で包んでから、その後にスタンプを描く
+    expect(upright[0].trim()).toBe("q");
+    expect(upright[upright.length - 2].trim()).toBe("Q");
+    expect(upright[upright.length - 1]).toContain("<422D303038> Tj");
+    expect(readTextMatrix(upright[upright.length - 1]).slice(0, 4)).toEqual([1, 0, 0, 1]);
+  });
+
+  it("分割したファイルをまたいで連番を続ける", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([0, 0, 0]);
+
+    await savePdfSplit(
+      buffer,
+      {},
+      [
+        { fileName: "a.pdf", pages: [1, 2] },
+        { fileName: "b.pdf", pages: [3] },
+      ],
+      {
+        stamp: {
+          stamps: [{ template: "{n}", position: "top-center", fontSize: 12, opacity: 1 }],
+          startNumber: 1,
+          digits: 2,
+          fileName: "bundle.pdf",
+        },
+      }
+    );
+
+    const { PDFDocument, PDFArray, PDFRawStream, decodePDFRawStream } = await import("pdf-lib");
+    const stamped: string[] = [];
+    for (const entry of await readZipEntries(saveAs.mock.calls[0][0] as Blob)) {
+      const pdf = await PDFDocument.load(entry);
+      for (const page of pdf.getPages()) {
+        const contents = page.node.Contents();
+        const refs = contents instanceof PDFArray ? contents.asArray() : [];
+        const stream = pdf.context.lookup(refs[refs.length - 1]);
+        if (!(stream instanceof PDFRawStream)) continue;
+        stamped.push(/<([0-9A-F]+)> Tj/.exec(new TextDecoder().decode(decodePDFRawStream(stream).decode()))?.[1] ?? "");
+      }
+    }
+    expect(stamped).toEqual(["3031", "3032", "3033"]);
+  });
+
+  it("日本語のファイル名は描けない文字を「_」にして押し、保存を止めない", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([0]);
+
+    await savePdfWithRotation(buffer, {}, {
+      stamp: {
+        stamps: [{ template: "{file}", position: "top-left", fontSize: 10, opacity: 1 }],
+        startNumber: 1,
+        digits: 1,
+        fileName: "見積書_A.pdf",
+      },
+    });
+
+    const [page] = await readPageStreams(saveAs);
+    // "__A"
+    expect(page[page.length - 1]).toContain("<5F5F41> Tj");
+  });
+});
+
+describe("savePdfWithRotation (割り付け)", () => {
+  const readSavedPdf = async (saveAs: ReturnType<typeof vi.fn>) => {
+    const { PDFDocument } = await import("pdf-lib");
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    return PDFDocument.load(await readBlob(blob));
+  };
+
+  const createPdfWithContent = async (count: number): Promise<ArrayBuffer> => {
+    const { PDFDocument, rgb } = await import("pdf-lib");
+    const doc = await PDFDocument.create();
+    for (let index = 0; index < count; index += 1) {
+      doc.addPage([200, 300]).drawRectangle({ x: 10, y: 10, width: 50, height: 20, color: rgb(0, 0, 0) });
+    }
+    return Uint8Array.from(await doc.save()).buffer;
+  };
+
+  it("N-up では回転を反映したページを埋め込んで用紙に並べる", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithContent(3);
+
+    await savePdfWithRotation(buffer, { 2: 90 }, {
+      deletedPages: [3],
+      imposition: { layout: "nup", pagesPerSheet: 2, paper: "a4", orientation: "landscape" },
+    });
+
+    const { PDFName, PDFDict } = await import("pdf-lib");
+    const saved = await readSavedPdf(saveAs);
+    expect(saved.getPageCount()).toBe(1);
+    const [sheet] = saved.getPages();
+    expect(sheet.getSize().width).toBeCloseTo(841.89);
+    expect(sheet.getRotation().angle).toBe(0);
+    const xObjects = sheet.node.Resources()!.lookup(PDFName.of("XObject"), PDFDict);
+    expect(xObjects.keys()).toHaveLength(2);
+  });
+
+  it("中綴じ冊子は4の倍数の面になるよう白紙を補う", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithContent(5);
+
+    await savePdfWithRotation(buffer, {}, {
+      imposition: { layout: "booklet", pagesPerSheet: 2, paper: "a4", orientation: "auto" },
+    });
+
+    const saved = await readSavedPdf(saveAs);
+    // 8ページ分（用紙2枚の表裏）
+    expect(saved.getPageCount()).toBe(4);
+    expect(saved.getPages()[0].getSize().width).toBeCloseTo(841.89);
+  });
+});
+
+describe("savePdfWithRotation (文書情報)", () => {
+  const readSavedPdf = async (saveAs: ReturnType<typeof vi.fn>) => {
+    const { PDFDocument } = await import("pdf-lib");
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    return PDFDocument.load(await readBlob(blob), { updateMetadata: false });
+  };
+
+  it("指定した文書情報で書き換え、割り付けた出力にも書き込む", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([0]);
+    const metadata = {
+      title: "報告書",
+      author: "山田",
+      subject: "",
+      keywords: "",
+      creator: "Scanner",
+      producer: "Scanner PDF",
+    };
+
+    await savePdfWithRotation(buffer, {}, { metadata });
+    const saved = await readSavedPdf(saveAs);
+    expect(saved.getTitle()).toBe("報告書");
+    expect(saved.getAuthor()).toBe("山田");
+    expect(saved.getSubject()).toBeUndefined();
+    expect(saved.getProducer()).toBe("Scanner PDF");
+
+    await savePdfWithRotation(buffer, {}, {
+      metadata,
+      imposition: { layout: "nup", pagesPerSheet: 2, paper: "a4", orientation: "auto" },
+    });
+    expect((await readSavedPdf(saveAs)).getTitle()).toBe("報告書");
+  });
+
+  const createPdfWithXmp = async (): Promise<ArrayBuffer> => {
+    const { PDFDocument, PDFName } = await import("pdf-lib");
+    const doc = await PDFDocument.create();
+    doc.addPage([200, 300]);
+    const xmp = doc.context.stream(
+      '<x:xmpmeta xmlns:x="adobe:ns:meta/"><dc:creator>Hidden Author</dc:creator></x:xmpmeta>',
+      { Type: "Metadata", Subtype: "XML" }
+    );
+    doc.catalog.set(PDFName.of("Metadata"), doc.context.register(xmp));
+    return Uint8Array.from(await doc.save()).buffer;
+  };
+
+  const readSavedText = async (saveAs: ReturnType<typeof vi.fn>): Promise<string> =>
+    new TextDecoder("latin1").decode(await readBlob(saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob));
+
+  it("stripMetadata なら文書情報をすべて削除する", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithXmp();
+    expect(new TextDecoder("latin1").decode(buffer)).toContain("Hidden Author");
+
+    await savePdfWithRotation(buffer, {}, { stripMetadata: true });
+
+    const saved = await readSavedPdf(saveAs);
+    expect(saved.getProducer()).toBeUndefined();
+    expect(saved.getCreator()).toBeUndefined();
+    expect(saved.getModificationDate()).toBeUndefined();
+    // カタログから外した XMP のストリームもファイルに残さない
+    expect(await readSavedText(saveAs)).not.toContain("Hidden Author");
+  });
+
+  it("文書情報を書き換えるときも、元の XMP メタデータをファイルに残さない", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+
+    await savePdfWithRotation(await createPdfWithXmp(), {}, { metadata: { ...EMPTY_METADATA, author: "山田" } });
+
+    expect((await readSavedPdf(saveAs)).getAuthor()).toBe("山田");
+    expect(await readSavedText(saveAs)).not.toContain("Hidden Author");
+  });
+});
+
+describe("savePdfWithRotation (しおり)", () => {
+  type SavedOutline = { title: string; page: number; children: SavedOutline[] };
+
+  const readSavedOutline = async (saveAs: ReturnType<typeof vi.fn>): Promise<SavedOutline[] | null> => {
+    const pdfLib = await import("pdf-lib");
+    const { PDFArray, PDFHexString, PDFName } = pdfLib;
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    const saved = await pdfLib.PDFDocument.load(await readBlob(blob));
+    const pageRefs = saved.getPages().map((page) => page.ref);
+    const root = saved.catalog.lookupMaybe(PDFName.of("Outlines"), pdfLib.PDFDict);
+    if (!root) return null;
+    const walk = (first: PDFDict | undefined): SavedOutline[] => {
+      const items: SavedOutline[] = [];
+      for (let node = first; node; node = node.lookupMaybe(PDFName.of("Next"), pdfLib.PDFDict)) {
+        const dest = node.lookup(PDFName.of("Dest"), PDFArray);
+        items.push({
+          title: node.lookup(PDFName.of("Title"), PDFHexString).decodeText(),
+          page: pageRefs.indexOf(dest.get(0) as PDFRef) + 1,
+          children: walk(node.lookupMaybe(PDFName.of("First"), pdfLib.PDFDict)),
+        });
+      }
+      return items;
+    };
+    return walk(root.lookupMaybe(PDFName.of("First"), pdfLib.PDFDict));
+  };
+
+  const outline = [
+    {
+      id: "a",
+      title: "第1章",
+      pageNumber: 1,
+      children: [{ id: "b", title: "1.1 概要", pageNumber: 2, children: [] }],
+    },
+    { id: "c", title: "第2章", pageNumber: 3, children: [] },
+    { id: "d", title: "リンク", pageNumber: null, children: [] },
+  ];
+
+  it("並べ替え後の位置へ付け替え、削除したページのしおりは並び順で次のページへ移す", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([0, 0, 0, 0]);
+
+    await savePdfWithRotation(buffer, {}, { outline, pageOrder: [4, 1, 2, 3], deletedPages: [1] });
+
+    await expect(readSavedOutline(saveAs)).resolves.toEqual([
+      { title: "第1章", page: 2, children: [{ title: "1.1 概要", page: 2, children: [] }] },
+      { title: "第2章", page: 3, children: [] },
+    ]);
+  });
+
+  it("抽出では出力しないページのしおりを落とし、割り付けでは並べた面を指す", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([0, 0, 0, 0]);
+
+    await savePdfExtract(buffer, {}, [2, 3], { numPages: 4, outline });
+    await expect(readSavedOutline(saveAs)).resolves.toEqual([
+      { title: "第1章", page: 1, children: [{ title: "1.1 概要", page: 1, children: [] }] },
+      { title: "第2章", page: 2, children: [] },
+    ]);
+
+    await savePdfWithRotation(buffer, {}, {
+      outline,
+      imposition: { layout: "nup", pagesPerSheet: 2, paper: "a4", orientation: "auto" },
+    });
+    await expect(readSavedOutline(saveAs)).resolves.toEqual([
+      { title: "第1章", page: 1, children: [{ title: "1.1 概要", page: 1, children: [] }] },
+      { title: "第2章", page: 2, children: [] },
+    ]);
+  });
+
+  it("空のしおりを指定すると /Outlines を削除する", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([0, 0]);
+
+    await savePdfWithRotation(buffer, {}, { outline });
+    await expect(readSavedOutline(saveAs)).resolves.not.toBeNull();
+
+    await savePdfWithRotation(buffer, {}, { outline: [] });
+    await expect(readSavedOutline(saveAs)).resolves.toBeNull();
+  });
+});
+
+describe("savePdfWithRotation (白紙・複製ページ)", () => {
+  it("追加ページを並び順どおりに出力し、並び順に無い追加ページは出力しない", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const first = await createPdfWithRotations([0, 90]);
+    const second = await createPdfWithRotations([180]);
+
+    // 3〜5 は追加ページ、6 は後から結合したPDFの1ページ目
+    await savePdfWithRotation([first, second], { 4: 90 }, {
+      pageOrder: [1, 3, 2, 4, 6],
+      virtualPages: {
+        3: { kind: "blank", width: 150, height: 250 },
+        4: { kind: "duplicate", of: 2 },
+        5: { kind: "duplicate", of: 6 },
+      },
+    });
+
+    const { PDFDocument } = await import("pdf-lib");
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    const saved = await PDFDocument.load(await readBlob(blob));
+    const pages = saved.getPages();
+    expect(pages.map((page) => page.getRotation().angle)).toEqual([0, 0, 90, 180, 180]);
+    expect(pages[1].getSize()).toEqual({ width: 150, height: 250 });
+    expect(pages[3].getSize()).toEqual({ width: 200, height: 300 });
+  });
+});
+
+describe("savePdfWithRotation (墨消し)", () => {
+  /** 大きさだけを持つ JPEG（pdf-lib は SOF から大きさを読むだけなので描画できなくてよい） */
+  const jpeg = Uint8Array.from([
+    0xff, 0xd8, 0xff, 0xc0, 0, 17, 8, 0, 30, 0, 20, 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1, 0xff, 0xd9,
+  ]);
+  const toHex = (text: string) =>
+    Array.from(text, (char) => char.charCodeAt(0).toString(16).padStart(2, "0").toUpperCase()).join("");
+
+  /** 参照されていないものも含め、保存したファイルの全オブジェクトを文字列にする */
+  const readAllObjects = async (saveAs: ReturnType<typeof vi.fn>): Promise<string> => {
+    const { PDFDocument, PDFName, PDFRawStream, decodePDFRawStream } = await import("pdf-lib");
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    const saved = await PDFDocument.load(await readBlob(blob));
+    return saved.context
+      .enumerateIndirectObjects()
+      .map(([, object]) =>
+        object instanceof PDFRawStream && object.dict.get(PDFName.of("Filter")) === PDFName.of("FlateDecode")
+          ? new TextDecoder().decode(decodePDFRawStream(object).decode())
+          : object.toString()
+      )
+      .join("\n");
+  };
+
+  it("墨消ししたページは文字・フォーム・注釈を残さず画像だけにし、他のページはそのまま残す", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const { PDFDict, PDFDocument, PDFName, StandardFonts } = await import("pdf-lib");
+    const doc = await PDFDocument.create();
+    const font = await doc.embedFont(StandardFonts.Helvetica);
+    const secret = doc.addPage([200, 300]);
+    secret.drawText("SECRET", { x: 20, y: 250, size: 12, font });
+    const field = doc.getForm().createTextField("account");
+    field.setText("ACCOUNT-123");
+    field.addToPage(secret, { x: 20, y: 200, width: 100, height: 20 });
+    doc.addPage([200, 300]).drawText("PUBLIC", { x: 20, y: 250, size: 12, font });
+    const buffer = Uint8Array.from(await doc.save()).buffer;
+
+    await savePdfWithRotation(buffer, { 1: 90 }, { redactions: { 1: { data: jpeg, format: "jpeg" } } });
+
+    const objects = await readAllObjects(saveAs);
+    expect(objects).not.toContain(toHex("SECRET"));
+    expect(objects).not.toContain("ACCOUNT-123");
+    expect(objects).not.toContain(toHex("ACCOUNT-123"));
+    expect(objects).toContain(toHex("PUBLIC"));
+
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    const saved = await PDFDocument.load(await readBlob(blob));
+    const [redacted] = saved.getPages();
+    expect(redacted.getRotation().angle).toBe(90);
+    expect(redacted.node.Annots()?.size() ?? 0).toBe(0);
+    // リソースは差し替えた画像だけになる
+    const resources = redacted.node.Resources()!;
+    expect(resources.lookup(PDFName.of("XObject"), PDFDict).keys()).toHaveLength(1);
+    expect(resources.lookup(PDFName.of("Font"), PDFDict).keys()).toHaveLength(0);
+    expect(saved.getForm().getFields()).toHaveLength(0);
+  });
+});
+
+describe("savePdfWithRotation (注釈)", () => {
+  it("メモ・ハイライト・手書きを PDF の注釈として書き込み、ページサイズの統一に合わせて動かす", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([0, 0]);
+
+    await savePdfWithRotation(
+      buffer,
+      {},
+      {
+        normalizePageSize: { paper: "letter", orientation: "portrait", marginMm: 0, fit: "fit" },
+        annotations: {
+          1: [
+            { id: "annotation-1", kind: "note", point: { x: 0.5, y: 0.5 }, text: "確認する" },
+            { id: "annotation-2", kind: "highlight", rect: { x: 0, y: 0, width: 0.5, height: 0.1 } },
+            { id: "annotation-3", kind: "ink", points: [{ x: 0, y: 1 }, { x: 1, y: 1 }] },
+          ],
+        },
+      }
+    );
+
+    const { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName } = await import("pdf-lib");
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    const saved = await PDFDocument.load(await readBlob(blob));
+    const [first, second] = saved.getPages();
+    expect(second.node.Annots()?.size() ?? 0).toBe(0);
+    const annots = first.node
+      .Annots()!
+      .asArray()
+      .map((ref) => saved.context.lookup(ref, PDFDict));
+    const numbers = (dict: PDFDict, key: string) =>
+      dict
+        .lookup(PDFName.of(key), PDFArray)
+        .asArray()
+        .map((value) => (value as PDFNumber).asNumber());
+    expect(annots.map((annot) => annot.get(PDFName.of("Subtype"))?.toString())).toEqual(["/Text", "/Highlight", "/Ink"]);
+    // 200x300 は letter（612x792）へ倍率 2.64・横に 42 ずらして置くので、注釈も同じ位置へ動かす
+    const [note, highlight, ink] = annots;
+    expect(note.lookup(PDFName.of("Contents"), PDFHexString).decodeText()).toBe("確認する");
+    numbers(note, "Rect").forEach((value, index) => expect(value).toBeCloseTo([306, 376, 326, 396][index]));
+    numbers(highlight, "QuadPoints").forEach((value, index) =>
+      expect(value).toBeCloseTo([42, 792, 306, 792, 42, 712.8, 306, 712.8][index])
+    );
+    const inkList = saved.context.lookup(ink.get(PDFName.of("InkList")), PDFArray).lookup(0, PDFArray);
+    inkList.asArray().forEach((value, index) =>
+      expect((value as PDFNumber).asNumber()).toBeCloseTo([42, 0, 570, 0][index])
+    );
+    expect(annots.every((annot) => annot.get(PDFName.of("AP")) instanceof PDFDict)).toBe(true);
+  });
+});
+
+describe("savePdfWithRotation (フォーム)", () => {
+  const createFormPdf = async (): Promise<ArrayBuffer> => {
+    const { PDFDocument } = await import("pdf-lib");
+    const doc = await PDFDocument.create();
+    const page = doc.addPage([200, 300]);
+    const form = doc.getForm();
+    form.createTextField("name").addToPage(page, { x: 20, y: 250, width: 120, height: 20 });
+    form.createCheckBox("agree").addToPage(page, { x: 20, y: 220, width: 12, height: 12 });
+    const plan = form.createDropdown("plan");
+    plan.addOptions(["A", "B"]);
+    plan.addToPage(page, { x: 20, y: 190, width: 80, height: 20 });
+    const size = form.createRadioGroup("size");
+    size.addOptionToPage("S", page, { x: 20, y: 160, width: 12, height: 12 });
+    size.addOptionToPage("M", page, { x: 40, y: 160, width: 12, height: 12 });
+    return Uint8Array.from(await doc.save()).buffer;
+  };
+
+  const loadSaved = async (saveAs: ReturnType<typeof vi.fn>) => {
+    const { PDFDocument } = await import("pdf-lib");
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    return PDFDocument.load(await readBlob(blob));
+  };
+
+  it("名前ごとの値を入力欄に書き込み、見つからない名前は無視する", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+
+    await savePdfWithRotation(await createFormPdf(), { 1: 90 }, {
+      formValues: { name: "Taro", agree: true, plan: "B", size: "M", missing: "x" },
+    });
+
+    const saved = await loadSaved(saveAs);
+    const form = saved.getForm();
+    expect(saved.getPages()[0].getRotation().angle).toBe(90);
+    expect(form.getTextField("name").getText()).toBe("Taro");
+    expect(form.getCheckBox("agree").isChecked()).toBe(true);
+    expect(form.getDropdown("plan").getSelected()).toEqual(["B"]);
+    expect(form.getRadioGroup("size").getSelected()).toBe("M");
+  });
+
+  it("平坦化すると入力欄を消して値をページの内容として残す", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+
+    await savePdfWithRotation(await createFormPdf(), {}, { formValues: { name: "Taro" }, flattenForms: true });
+
+    const saved = await loadSaved(saveAs);
+    expect(saved.getForm().getFields()).toHaveLength(0);
+    const page = saved.getPages()[0];
+    expect(page.node.Annots()?.size() ?? 0).toBe(0);
+    // 値は入力欄の外観を描いた XObject としてページに残る
+    expect(page.node.Resources()?.toString()).toContain("/FlatWidget");
+  });
+
+  it("暗号化して保存しても、入力欄の外観を入力した値で描き直す", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const { PDFDocument, PDFName, PDFRawStream, decodePDFRawStream } = await import("pdf-lib");
+    const { decryptPdfBytes } = await import("./pdf-crypto");
+    const source = await PDFDocument.load(await createFormPdf());
+    source.getForm().getTextField("name").setText("old");
+
+    await savePdfWithRotation(Uint8Array.from(await source.save()).buffer, {}, {
+      formValues: { name: "NEWVALUE" },
+      outputPassword: "secret",
+    });
+
+    const encrypted = new Uint8Array(await readBlob(saveAs.mock.calls[0][0] as Blob));
+    const saved = await PDFDocument.load(await decryptPdfBytes(encrypted, "secret"));
+    const [widget] = saved.getForm().getTextField("name").acroField.getWidgets();
+    const appearance = saved.context.lookup(widget.getNormalAppearance(), PDFRawStream);
+    const content = new TextDecoder("latin1").decode(decodePDFRawStream(appearance).decode());
+    // 標準フォントの文字は16進で書かれる（"NEWVALUE" / "old"）
+    expect(content).toContain("<4E455756414C5545>");
+    expect(content).not.toContain("<6F6C64>");
+    expect(saved.getForm().acroForm.dict.has(PDFName.of("NeedAppearances"))).toBe(false);
+  });
+
+  it("標準フォントで描けない値は外観を作らずビューアに任せ、平坦化ではエラーにする", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const { PDFBool, PDFName } = await import("pdf-lib");
+
+    await savePdfWithRotation(await createFormPdf(), {}, { formValues: { name: "山田" } });
+
+    const saved = await loadSaved(saveAs);
+    expect(saved.getForm().getTextField("name").getText()).toBe("山田");
+    expect(saved.getForm().acroForm.dict.get(PDFName.of("NeedAppearances"))).toBe(PDFBool.True);
+
+    await expect(
+      savePdfWithRotation(await createFormPdf(), {}, { formValues: { name: "山田" }, flattenForms: true })
+    ).rejects.toThrow("平坦化する入力欄に使えるのは半角の英数字と記号だけです: name");
+  });
+});
+
+describe("savePdfWithRotation (回転の焼き込み)", () => {
+  it("内容・用紙の枠・注釈を回して /Rotate を 0 にし、回転しないページはそのまま残す", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const { PDFArray, PDFDict, PDFDocument, PDFName, PDFRawStream, decodePDFRawStream, rgb } = await import("pdf-lib");
+    const doc = await PDFDocument.create();
+    const page = doc.addPage([200, 300]);
+    page.drawRectangle({ x: 10, y: 10, width: 50, height: 20, color: rgb(0, 0, 0) });
+    page.node.set(PDFName.of("TrimBox"), doc.context.obj([10, 10, 190, 290]));
+    const link = doc.context.obj({
+      Type: "Annot",
+      Subtype: "Link",
+      Rect: [10, 20, 50, 40],
+      QuadPoints: [10, 40, 50, 40, 10, 20, 50, 20],
+    });
+    page.node.addAnnot(doc.context.register(link));
+    const appearance = doc.context.formXObject([], { BBox: [0, 0, 40, 20] });
+    const widget = doc.context.obj({
+      Type: "Annot",
+      Subtype: "Widget",
+      Rect: [100, 100, 140, 120],
+      MK: { R: 90 },
+      AP: { N: doc.context.register(appearance) },
+    });
+    page.node.addAnnot(doc.context.register(widget));
+    doc.addPage([200, 300]);
+    const buffer = Uint8Array.from(await doc.save()).buffer;
+
+    await savePdfWithRotation(buffer, { 1: 90 }, { bakeRotation: true });
+
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    const saved = await PDFDocument.load(await readBlob(blob));
+    const [baked, plain] = saved.getPages();
+    expect(baked.getRotation().angle).toBe(0);
+    expect(baked.getSize()).toEqual({ width: 300, height: 200 });
+    expect(baked.getTrimBox()).toEqual({ x: 10, y: 10, width: 280, height: 180 });
+    const contents = baked.node.Contents() as InstanceType<typeof PDFArray>;
+    const first = saved.context.lookup(contents.get(0), PDFRawStream);
+    expect(new TextDecoder().decode(decodePDFRawStream(first).decode())).toMatch(/^q\s+0 -1 1 0 0 200 cm/);
+
+    const numbersOf = (dict: InstanceType<typeof PDFDict>, key: string) =>
+      dict
+        .lookup(PDFName.of(key), PDFArray)
+        .asArray()
+        .map((value) => (value as PDFNumber).asNumber());
+    const [savedLink, savedWidget] = baked.node
+      .Annots()!
+      .asArray()
+      .map((ref) => saved.context.lookup(ref, PDFDict));
+    expect(numbersOf(savedLink, "Rect")).toEqual([20, 150, 40, 190]);
+    expect(numbersOf(savedLink, "QuadPoints")).toEqual([40, 190, 40, 150, 20, 190, 20, 150]);
+    expect(numbersOf(savedWidget, "Rect")).toEqual([100, 60, 120, 100]);
+    expect(savedWidget.lookup(PDFName.of("MK"), PDFDict).get(PDFName.of("R"))?.toString()).toBe("0");
+    const normal = savedWidget.lookup(PDFName.of("AP"), PDFDict).lookup(PDFName.of("N"), PDFRawStream);
+    expect(numbersOf(normal.dict, "Matrix")).toEqual([0, -1, 1, 0, 0, 0]);
+
+    expect(plain.getRotation().angle).toBe(0);
+    expect(plain.getSize()).toEqual({ width: 200, height: 300 });
+  });
+});
+
+describe("savePdfWithRotation (画像の圧縮)", () => {
+  /** 2000x3000 の大きさだけを持つ JPEG */
+  const largeJpeg = Uint8Array.from([
+    0xff, 0xd8, 0xff, 0xc0, 0, 17, 8, 0x0b, 0xb8, 0x07, 0xd0, 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1, 0xff, 0xd9,
+  ]);
+  const recoded = Uint8Array.from([0xff, 0xd8, 0xff, 0xd9]);
+
+  const createImagePdf = async (): Promise<ArrayBuffer> => {
+    const { PDFDocument } = await import("pdf-lib");
+    const doc = await PDFDocument.create();
+    const page = doc.addPage([200, 300]);
+    page.drawImage(await doc.embedJpg(largeJpeg), { x: 0, y: 0, width: 200, height: 300 });
+    const gray = doc.context.flateStream(new Uint8Array(16).fill(128), {
+      Type: "XObject",
+      Subtype: "Image",
+      Width: 4,
+      Height: 4,
+      ColorSpace: "DeviceGray",
+      BitsPerComponent: 8,
+    });
+    page.node.newXObject("Gray", doc.context.register(gray));
+    doc.context.register(doc.context.obj({ Orphan: true }));
+    return Uint8Array.from(await doc.save()).buffer;
+  };
+
+  const loadSaved = async (saveAs: ReturnType<typeof vi.fn>) => {
+    const { PDFDocument } = await import("pdf-lib");
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    return PDFDocument.load(await readBlob(blob));
+  };
+
+  it("ページの解像度に合わせて画像を縮小した JPEG に置き換え、使われていないオブジェクトを取り除く", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const { PDFName, PDFRawStream } = await import("pdf-lib");
+    // グレーの画像は圧縮し直すと元より大きくなったことにする
+    const recodeImage = vi.fn(async (image: SourceImage) => (image.kind === "jpeg" ? recoded : new Uint8Array(256)));
+    const onOutputSize = vi.fn();
+
+    await savePdfWithRotation(await createImagePdf(), {}, {
+      optimizeImages: { dpi: 72, quality: 60, grayscale: true },
+      recodeImage,
+      onOutputSize,
+    });
+
+    expect(recodeImage).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "jpeg", width: 2000, height: 3000 }),
+      { width: 200, height: 300, quality: 0.6, grayscale: true }
+    );
+    expect(recodeImage).toHaveBeenCalledWith(
+      { kind: "raw", width: 4, height: 4, components: 1, data: new Uint8Array(16).fill(128) },
+      { width: 4, height: 4, quality: 0.6, grayscale: true }
+    );
+    const saved = await loadSaved(saveAs);
+    const images = saved.context
+      .enumerateIndirectObjects()
+      .map(([, object]) => object)
+      .filter((object): object is PDFRawStream => object instanceof PDFRawStream)
+      .filter((stream) => stream.dict.get(PDFName.of("Subtype")) === PDFName.of("Image"));
+    expect(images).toHaveLength(2);
+    // 小さくなった画像だけを置き換える
+    expect(images.map((image) => image.dict.get(PDFName.of("Filter"))?.toString()).sort()).toEqual([
+      "/DCTDecode",
+      "/FlateDecode",
+    ]);
+    const jpeg = images.find((image) => image.dict.get(PDFName.of("Filter")) === PDFName.of("DCTDecode"))!;
+    expect(jpeg.contents).toEqual(recoded);
+    expect(jpeg.dict.get(PDFName.of("Width"))?.toString()).toBe("200");
+    expect(
+      saved.context.enumerateIndirectObjects().some(([, object]) => object.toString().includes("/Orphan"))
+    ).toBe(false);
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    expect(onOutputSize).toHaveBeenCalledWith(blob.size);
+  });
+
+  it("confirmDownload があれば、出力の大きさを見せて確かめてからダウンロードし、取りやめたら保存しない", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createImagePdf();
+    const recodeImage = vi.fn().mockResolvedValue(recoded);
+    const confirmDownload = vi.fn().mockResolvedValue(false);
+    const options = { optimizeImages: { dpi: 72, quality: 60, grayscale: false }, recodeImage, confirmDownload };
+
+    await savePdfWithRotation(buffer, {}, options);
+    expect(confirmDownload).toHaveBeenCalledWith(expect.any(Number));
+    expect(saveAs).not.toHaveBeenCalled();
+
+    confirmDownload.mockResolvedValue(true);
+    await savePdfWithRotation(buffer, {}, options);
+    const blob = saveAs.mock.calls[0][0] as Blob;
+    expect(confirmDownload).toHaveBeenLastCalledWith(blob.size);
+  });
+
+  it("解像度・品質が範囲外ならエラーにする", async () => {
+    await expect(
+      savePdfWithRotation(await createImagePdf(), {}, { optimizeImages: { dpi: 1000, quality: 75, grayscale: false } })
+    ).rejects.toThrow("画像の解像度は 36〜600 dpi で指定してください");
+  });
+
+  it("推定のために、ページに置いた画像の大きさと圧縮し直せる形式かを調べる", async () => {
+    const { PDFDocument } = await import("pdf-lib");
+    const doc = await PDFDocument.create();
+    const page = doc.addPage([200, 300]);
+    page.drawImage(await doc.embedJpg(largeJpeg), { x: 0, y: 0, width: 100, height: 150 });
+    const cmyk = doc.context.stream(largeJpeg, {
+      Type: "XObject",
+      Subtype: "Image",
+      Width: 2000,
+      Height: 3000,
+      ColorSpace: "DeviceCMYK",
+      BitsPerComponent: 8,
+      Filter: "DCTDecode",
+    });
+    page.node.newXObject("Cmyk", doc.context.register(cmyk));
+    const buffer = Uint8Array.from(await doc.save()).buffer;
+
+    const result = await inspectPdfImages([buffer]);
+
+    expect(result.totalBytes).toBe(buffer.byteLength);
+    expect(result.images).toEqual([
+      { bytes: largeJpeg.length, width: 2000, height: 3000, optimizable: true, pageExtent: 300 },
+      { bytes: largeJpeg.length, width: 2000, height: 3000, optimizable: false, pageExtent: 300 },
+    ]);
+  });
+});
+
+describe("savePdfWithRotation (アクティブな内容の除去)", () => {
+  const createActivePdf = async (): Promise<ArrayBuffer> => {
+    const { PDFDocument, PDFHexString, PDFName, PDFString } = await import("pdf-lib");
+    const doc = await PDFDocument.create();
+    const first = doc.addPage([200, 200]);
+    const second = doc.addPage([200, 200]);
+    const { context } = doc;
+    const script = (code: string) => context.obj({ S: "JavaScript", JS: PDFString.of(code) });
+    const file = context.register(context.flateStream(new Uint8Array(8), { Type: "EmbeddedFile" }));
+    const fileSpec = context.obj({ Type: "Filespec", UF: PDFHexString.fromText("secret.txt"), EF: { F: file } });
+    doc.catalog.set(
+      PDFName.of("Names"),
+      context.obj({
+        JavaScript: { Names: [PDFString.of("init"), context.register(script("app.alert(1)"))] },
+        EmbeddedFiles: { Names: [PDFString.of("secret.txt"), context.register(fileSpec)] },
+      })
+    );
+    doc.catalog.set(PDFName.of("OpenAction"), script("app.launchURL('x')"));
+    first.node.set(PDFName.of("AA"), context.obj({ O: script("this.print()") }));
+    const annot = (dict: object) => context.register(context.obj({ Type: "Annot", Rect: [0, 0, 10, 10], ...dict }));
+    first.node.set(
+      PDFName.of("Annots"),
+      context.obj([
+        annot({ Subtype: "Link", A: { S: "URI", URI: PDFString.of("https://example.com/") } }),
+        annot({ Subtype: "Link", A: { S: "GoTo", D: [second.ref, "Fit"] } }),
+        annot({ Subtype: "FileAttachment", FS: fileSpec }),
+      ])
+    );
+    second.node.set(
+      PDFName.of("Annots"),
+      context.obj([annot({ Subtype: "Link", A: { S: "Launch", F: PDFString.of("calc.exe") } })])
+    );
+    return Uint8Array.from(await doc.save({ useObjectStreams: false })).buffer;
+  };
+
+  const expected = [
+    { kind: "javascript", detail: "init" },
+    { kind: "embeddedFile", detail: "secret.txt" },
+    { kind: "autoAction", detail: "JavaScript" },
+    { kind: "autoAction", pageNumber: 1, detail: "JavaScript" },
+    { kind: "externalLink", pageNumber: 1, detail: "https://example.com/" },
+    { kind: "embeddedFile", pageNumber: 1, detail: "secret.txt" },
+    { kind: "launch", pageNumber: 2, detail: undefined },
+  ];
+
+  it("読み込んだPDFのスクリプト・自動実行・添付ファイル・外部へのリンクを調べる", async () => {
+    expect(await inspectActiveContent([await createActivePdf()])).toEqual(expected);
+  });
+
+  it("取り除いて保存し、取り除いたものを知らせる。ページ内の移動だけのリンクは残す", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const { PDFDocument, PDFName } = await import("pdf-lib");
+    const onSanitize = vi.fn();
+
+    await savePdfWithRotation(await createActivePdf(), {}, { sanitize: true, onSanitize });
+
+    expect(onSanitize).toHaveBeenCalledWith(expected);
+    const bytes = await readBlob(saveAs.mock.calls[0][0] as Blob);
+    const text = new TextDecoder("latin1").decode(bytes);
+    expect(text).not.toContain("app.alert");
+    expect(text).not.toContain("/EmbeddedFile");
+    const saved = await PDFDocument.load(bytes);
+    expect(saved.catalog.has(PDFName.of("OpenAction"))).toBe(false);
+    expect(saved.getPage(0).node.has(PDFName.of("AA"))).toBe(false);
+    expect(saved.getPage(0).node.Annots()?.size()).toBe(1);
+    expect(saved.getPage(1).node.Annots()?.size()).toBe(0);
+    expect(await inspectActiveContent([bytes])).toEqual([]);
+  });
+
+  it("分割して保存するときは、取り除いたものをまとめて1回知らせる。文書全体のものは1回だけ数える", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const onSanitize = vi.fn();
+
+    await savePdfSplit(
+      await createActivePdf(),
+      {},
+      [
+        { fileName: "a_1.pdf", pages: [1] },
+        { fileName: "a_2.pdf", pages: [2] },
+      ],
+      { sanitize: true, onSanitize }
+    );
+
+    expect(onSanitize).toHaveBeenCalledTimes(1);
+    expect(onSanitize).toHaveBeenCalledWith(expected);
+    expect(saveAs).toHaveBeenCalledTimes(1);
+  });
+
+  it("sanitize を指定しなければ何も取り除かない", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+
+    await savePdfWithRotation(await createActivePdf(), {}, {});
+
+    const bytes = await readBlob(saveAs.mock.calls[0][0] as Blob);
+    expect(await inspectActiveContent([bytes])).toHaveLength(expected.length);
+  });
+});
+
+describe("savePdfIncremental", () => {
+  const createPdf = async (useObjectStreams: boolean): Promise<Uint8Array> => {
+    const { PDFDocument } = await import("pdf-lib");
+    const doc = await PDFDocument.create();
+    doc.addPage([200, 300]);
+    doc.addPage([200, 300]);
+    return doc.save({ useObjectStreams });
+  };
+
+  const readSaved = async (saveAs: ReturnType<typeof vi.fn>): Promise<Uint8Array> => {
+    const blob = saveAs.mock.calls[saveAs.mock.calls.length - 1][0] as Blob;
+    return new Uint8Array(await readBlob(blob));
+  };
+
+  const latin1 = (bytes: Uint8Array) => new TextDecoder("latin1").decode(bytes);
+
+  it("元のバイト列を変えずに、書き換えたページ辞書と相互参照表を末尾に追記する", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const original = await createPdf(false);
+
+    await savePdfIncremental(Uint8Array.from(original).buffer, { 2: 90 }, {
+      cropMap: { 2: { x: 0, y: 0, width: 0.5, height: 0.5 } },
+    });
+
+    const saved = await readSaved(saveAs);
+    expect(saved.subarray(0, original.length)).toEqual(original);
+    const text = latin1(saved);
+    const xrefOffset = Number(/startxref\s+(\d+)\s*%%EOF\s*$/.exec(text)![1]);
+    const xref = /^xref\n(\d+) 1\n(\d{10}) (\d{5}) n\r\ntrailer\n([\s\S]*?)\nstartxref/.exec(text.slice(xrefOffset));
+    expect(xref).not.toBeNull();
+    const [, objectNumber, objectOffset, , trailer] = xref!;
+    expect(text.startsWith(`${objectNumber} 0 obj`, Number(objectOffset))).toBe(true);
+    expect(trailer).toContain(`/Prev ${/startxref\s+(\d+)/.exec(latin1(original))![1]}`);
+
+    const { PDFDocument } = await import("pdf-lib");
+    const [first, second] = (await PDFDocument.load(saved)).getPages();
+    expect(first.getRotation().angle).toBe(0);
+    expect(second.getRotation().angle).toBe(90);
+    expect(second.getCropBox()).toEqual({ x: 0, y: 150, width: 100, height: 150 });
+  });
+
+  it("元のファイルが相互参照ストリームを使っていれば、追記も相互参照ストリームで書く", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const original = await createPdf(true);
+
+    await savePdfIncremental(Uint8Array.from(original).buffer, { 1: 270 });
+
+    const saved = await readSaved(saveAs);
+    expect(saved.subarray(0, original.length)).toEqual(original);
+    const text = latin1(saved);
+    const xrefOffset = Number(/startxref\s+(\d+)\s*%%EOF\s*$/.exec(text)![1]);
+    const xref = text.slice(xrefOffset);
+    expect(xref).toMatch(/^\d+ 0 obj\n<<[\s\S]*\/Type \/XRef/);
+    // 1行目（書き換えたページ）の位置が、そのページのオブジェクトを指す
+    const index = /\/Index \[ (\d+) 1 (\d+) 1 \]/.exec(xref)!;
+    const dataStart = xrefOffset + xref.indexOf("stream\n") + "stream\n".length;
+    const row = new DataView(saved.buffer, saved.byteOffset + dataStart, 14);
+    expect(row.getUint8(0)).toBe(1);
+    expect(text.startsWith(`${index[1]} 0 obj`, row.getUint32(1))).toBe(true);
+    expect(row.getUint32(8)).toBe(xrefOffset);
+
+    const { PDFDocument } = await import("pdf-lib");
+    expect((await PDFDocument.load(saved)).getPages()[0].getRotation().angle).toBe(270);
+  });
+
+  it("回転もトリミングもしていなければ元のファイルをそのまま保存する", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const original = await createPdf(false);
+
+    await savePdfIncremental(Uint8Array.from(original).buffer, {});
+
+    expect(await readSaved(saveAs)).toEqual(original);
+  });
+});
+
+describe("savePdfWithRotation (パスワード)", () => {
+  const encrypt = async (buffer: ArrayBuffer, password: string): Promise<ArrayBuffer> => {
+    const { PDFDocument } = await import("pdf-lib");
+    const { encryptPdfDocument } = await import("./pdf-crypto");
+    const doc = await PDFDocument.load(buffer);
+    await doc.flush();
+    await encryptPdfDocument(doc, password);
+    return Uint8Array.from(await doc.save({ useObjectStreams: false })).buffer;
+  };
+
+  it("暗号化された元PDFをパスワードで復号して結合する", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const first = await createPdfWithRotations([0]);
+    const second = await encrypt(await createPdfWithRotations([90, 180]), "secret");
+
+    await savePdfWithRotation([first, second], { 3: 90 }, { sourcePasswords: [null, "secret"] });
+
+    await expect(readSavedRotations(saveAs)).resolves.toEqual([0, 90, 270]);
+  });
+
+  it("元PDFのパスワードが違えばエラーにする", async () => {
+    const encrypted = await encrypt(await createPdfWithRotations([0]), "secret");
+
+    await expect(savePdfWithRotation(encrypted, {}, { sourcePasswords: ["wrong"] })).rejects.toThrow(
+      "パスワードが違います"
+    );
+  });
+
+  it("出力のパスワードを指定すると暗号化して保存する", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const { PDFDocument } = await import("pdf-lib");
+    const { decryptPdfBytes } = await import("./pdf-crypto");
+
+    await savePdfWithRotation(await createPdfWithRotations([0, 0]), { 2: 90 }, { outputPassword: "新しい" });
+
+    const saved = new Uint8Array(await readBlob(saveAs.mock.calls[0][0] as Blob));
+    await expect(PDFDocument.load(saved)).rejects.toThrow();
+    const decrypted = await PDFDocument.load(await decryptPdfBytes(saved, "新しい"));
+    expect(decrypted.getPages().map((page) => page.getRotation().angle)).toEqual([0, 90]);
+  });
+
+  it("出力のパスワードが空ならエラーにする", async () => {
+    const buffer = await createPdfWithRotations([0]);
+
+    await expect(savePdfWithRotation(buffer, {}, { outputPassword: "" })).rejects.toThrow(
+      "出力するPDFのパスワードを入力してください"
+    );
+  });
+});
+
+describe("savePdfExtract", () => {
+  it("選択ページだけを並び順どおりに現在の回転で書き出し、削除ページと範囲外は除く", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const buffer = await createPdfWithRotations([0, 90, 180, 270]);
+
+    await savePdfExtract(buffer, { 3: 90 }, [2, 3, 4, 9, 3], {
+      numPages: 4,
+      pageOrder: [3, 1, 4, 2],
+      deletedPages: [4],
+      fileName: "a_p2-4.pdf",
+    });
+
+    expect(saveAs.mock.calls[0][1]).toBe("a_p2-4.pdf");
+    await expect(readSavedRotations(saveAs)).resolves.toEqual([270, 90]);
+  });
+
+  it("選択しなかったページの内容はファイルに残さず、出力の設定はそのまま使う", async () => {
+    const saveAs = (await import("file-saver")).saveAs as unknown as ReturnType<typeof vi.fn>;
+    saveAs.mockReset();
+    const { PDFDocument } = await import("pdf-lib");
+    const buffer = await createPdfWithPageTexts(3);
+
+    await savePdfExtract(buffer, {}, [2], {
+      numPages: 3,
+      metadata: { ...EMPTY_METADATA, title: "抜粋" },
+    });
+
+    const bytes = await readBlob(saveAs.mock.calls[0][0] as Blob);
+    const streams = await readAllStreams(bytes);
+    expect(streams).toContain(toHexText("PAGE-2"));
+    expect(streams).not.toContain(toHexText("PAGE-1"));
+    expect(streams).not.toContain(toHexText("PAGE-3"));
+    expect((await PDFDocument.load(bytes)).getTitle()).toBe("抜粋");
+  });
+
+  it("書き出すページが無ければエラーにする", async () => {
+    const buffer = await createPdfWithRotations([0, 0]);
+
+    await expect(savePdfExtract(buffer, {}, [2], { numPages: 2, deletedPages: [2] })).rejects.toThrow(
+      "抽出するページがありません"
+    );
+  });
+});
@@ -1,8 +1,128 @@
 import { saveAs } from "file-saver";
-import type { PageRotationMap } from "./rotation";
+import type { PDFArray, PDFDocument, PDFObject, PDFPage, PDFRawStream, PDFRef } from "pdf-lib";
+import {
+  composeRotation,
+  createBakeRotationMatrix,
+  transformBox,
+  transformPoints,
+  type PageRotationMap,
+  type Rotation,
+  type RotationMatrix,
+} from "./rotation";
+import { normalizePageOrder, sortPagesByOrder } from "./page-order";
+import { normalizeSelectedPages } from "./selection";
+import { createDeskewMatrix, type PageBox, type PageSkewMap } from "./skew";
+import { toPdfCropBox, type PageCropMap } from "./crop";
+import type { SplitPart } from "./split";
+import type { VirtualPageMap } from "./sources";
+import { createZip, type ZipEntry } from "./zip";
+import { decryptPdfBytes, encryptPdfDocument } from "./pdf-crypto";
+import { createNormalizeTransform, type PageSizeNormalization } from "./page-size";
+import { writeDocumentMetadata, type DocumentMetadata } from "./metadata";
+import { arrangeSheets, fitPageInCell, layoutSheet, placeRotatedPage, type ImpositionOptions } from "./imposition";
+import { resolveOutlineTargets, type OutlineItem, type ResolvedOutlineItem } from "./outline";
+import { assertStampSettings, formatStampText, placeStamp, type StampOptions } from "./stamp";
+import type { RedactedPageImage } from "./redaction";
+import { canDrawFormValue, type FormValues } from "./form";
+import { scanActiveContent, type ActiveContentFinding } from "./sanitize";
+import {
+  assertOptimizationOptions,
+  planImageSize,
+  recodeImageWithCanvas,
+  type ImageOptimizationOptions,
+  type ImageRecoder,
+  type PdfImageInfo,
+  type SourceImage,
+} from "./optimize";
+import {
+  ANNOTATION_COLORS,
+  INK_LINE_WIDTH,
+  NOTE_ICON_SIZE,
+  toPdfAnnotationGeometry,
+  type AnnotationMatrix,
+  type PageAnnotation,
+  type PageAnnotationMap,
+} from "./annotation";
 
-export type SaveOptions = {
+export type PdfOutputOptions = {
+  /** 出力から除外するページ番号 */
+  deletedPages?: number[];
+  /** 出力するページの並び順（元のページ番号）。未指定なら元の順 */
+  pageOrder?: number[];
+  /** 出力するページを明示する（この順で出力し、pageOrder/deletedPages より優先） */
+  pages?: number[];
+  /** 傾き補正の角度（見た目で時計回りが正）。ページ内容を変換行列で回転させる */
+  skewMap?: PageSkewMap;
+  /** トリミング範囲（回転前の向きでの相対座標）。元の CropBox に対する範囲を新しい CropBox にする */
+  cropMap?: PageCropMap;
+  /**
+   * ワークスペースで追加した白紙・複製ページ。これ以外のページ番号は昇順に元PDFのページへ対応させる。
+   * 並び順に含まれない追加ページは出力しない
+   */
+  virtualPages?: VirtualPageMap;
+  /**
+   * 墨消し済みのページ画像（ページ番号ごと）。指定したページは内容・注釈をこの画像だけに置き換え、
+   * どこからも参照されなくなったオブジェクトも出力から取り除く
+   */
+  redactions?: Record<number, RedactedPageImage>;
+  /**
+   * ページごとに書き込む注釈（メモ・ハイライト・手書き）。元の注釈は残したまま追加し、
+   * 傾き補正・ページサイズの統一で動かした内容に合わせて位置を変える
+   */
+  annotations?: PageAnnotationMap;
+  /** フォームの入力欄に書き込む値（名前ごと）。先頭の元PDFのフォームに書き込み、見つからない名前は無視する */
+  formValues?: FormValues;
+  /** フォームの入力欄を平坦化し、値をページの内容として描く（傾き補正・ページサイズの統一・割り付けにも追従する） */
+  flattenForms?: boolean;
+  /** 指定すると、回転・傾き補正・トリミングの後で全ページをこの用紙に拡大縮小して中央に置く */
+  normalizePageSize?: PageSizeNormalization;
+  /**
+   * true なら回転を /Rotate で指定せず、内容・用紙の大きさ・注釈を回して /Rotate を 0 にする
+   * （/Rotate を読まないソフトや印刷ドライバ向け）
+   */
+  bakeRotation?: boolean;
+  /**
+   * 指定すると、ページサイズをそろえた後の見た目の向きで各ページに文字を押す（ベイツ番号・「CONFIDENTIAL」など）。
+   * 連番は出力する順に数える
+   */
+  stamp?: StampOptions;
+  /** 指定すると、出力するページを N-up または中綴じ冊子の順に用紙へ割り付ける */
+  imposition?: ImpositionOptions;
+  /** 指定すると文書情報（タイトル・作成者など）をこの内容で書き換える */
+  metadata?: DocumentMetadata;
+  /** true なら文書情報と XMP メタデータをすべて削除する（metadata より優先） */
+  stripMetadata?: boolean;
+  /**
+   * 指定すると、しおりをこの内容で書き直す（空なら削除する）。移動先は出力するページに付け替え、
+   * 削除したページを指すしおりは並び順で次のページへ移す。未指定なら先頭の元PDFのしおりをそのまま残す
+   */
+  outline?: OutlineItem[];
+  /** 元PDFを開いたときのパスワード（元PDFと同じ順）。暗号化された元PDFはこれで復号してから読み込む */
+  sourcePasswords?: (string | null)[];
+  /** 指定すると出力を AES-256 で暗号化し、このパスワードを設定する */
+  outputPassword?: string;
+  /**
+   * 指定すると、埋め込み画像をこの解像度・品質の JPEG に圧縮し直し、どこからも参照されないオブジェクトを取り除く。
+   * 圧縮し直して小さくならない画像は元のまま残す
+   */
+  optimizeImages?: ImageOptimizationOptions;
+  /** 画像を圧縮し直す処理（既定はキャンバスで JPEG にする。テストで差し替える） */
+  recodeImage?: ImageRecoder;
+  /**
+   * true なら文書・ページの JavaScript、開いたときなどに自動で実行する動作、添付ファイル、外部へのリンクを
+   * 出力から取り除く。しおりや入力欄に付いたものも対象にする
+   */
+  sanitize?: boolean;
+  /** sanitize で取り除いたものを知らせる（ページ番号はワークスペースの番号） */
+  onSanitize?: (removed: ActiveContentFinding[]) => void;
+};
+
+export type SaveOptions = PdfOutputOptions & {
   fileName?: string;
+  /** ダウンロードする直前に、出力したファイルの大きさ（バイト）を知らせる */
+  onOutputSize?: (bytes: number) => void;
+  /** 指定すると、出力したファイルの大きさ（バイト）を見せて確かめ、true で解決したときだけダウンロードする */
+  confirmDownload?: (bytes: number) => Promise<boolean>;
   /**
    * 保存ダイアログがブロックされた場合に新規タブで開くフォールバックを有効化する
    * Safari/一部の環境では有効になる
@@ -10,34 +130,950 @@ export type SaveOptions = {
   enableFallbackOpen?: boolean;
 };
 
-export const savePdfWithRotation = async (
-  originalBuffer: ArrayBuffer,
-  rotationMap: PageRotationMap,
-  options: SaveOptions = {}
-): Promise<void> => {
-  if (!originalBuffer || originalBuffer.byteLength === 0) {
+export type SplitSaveOptions = Omit<PdfOutputOptions, "pages" | "deletedPages" | "pageOrder"> & {
+  zipFileName?: string;
+  /** ダウンロードする直前に、ZIP の大きさ（バイト）を知らせる */
+  onOutputSize?: (bytes: number) => void;
+  confirmDownload?: (bytes: number) => Promise<boolean>;
+  enableFallbackOpen?: boolean;
+};
+
+export type ExtractSaveOptions = Omit<PdfOutputOptions, "pages"> & {
+  /** ワークスペースの総ページ数（選択ページの正規化に使う） */
+  numPages: number;
+  fileName?: string;
+  enableFallbackOpen?: boolean;
+  onOutputSize?: (bytes: number) => void;
+  confirmDownload?: (bytes: number) => Promise<boolean>;
+};
+
+const assertBuffers = (buffers: ArrayBuffer[]): void => {
+  if (buffers.length === 0 || buffers.some((buffer) => !buffer || buffer.byteLength === 0)) {
     throw new Error("保存するPDFデータが空です");
   }
+};
+
+const resolveOutputPageNumbers = (pageCount: number, options: PdfOutputOptions): number[] => {
+  if (options.pages) {
+    const seen = new Set<number>();
+    return options.pages.filter((pageNumber) => {
+      if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pageCount) return false;
+      if (seen.has(pageNumber)) return false;
+      seen.add(pageNumber);
+      return true;
+    });
+  }
+  const deletedSet = new Set(options.deletedPages ?? []);
+  const orderSet = new Set(options.pageOrder ?? []);
+  const virtualPages = options.virtualPages ?? {};
+  // 並び順に含まれない追加ページは取り消し済みなので、補完せずに除外する
+  return normalizePageOrder(options.pageOrder ?? [], pageCount).filter(
+    (pageNumber) => !deletedSet.has(pageNumber) && (!virtualPages[pageNumber] || orderSet.has(pageNumber))
+  );
+};
+
+/**
+ * 元PDFを pdf-lib で読み込む。pdf-lib は暗号化されたPDFを扱えないため、
+ * 読み込めなければ復号を試み、暗号化されていなかった場合は元のエラーを投げる。
+ */
+const loadSourceDocument = async (
+  pdfLib: typeof import("pdf-lib"),
+  buffer: ArrayBuffer,
+  password: string | null | undefined
+): Promise<PDFDocument> => {
+  try {
+    return await pdfLib.PDFDocument.load(buffer);
+  } catch (error) {
+    const bytes = new Uint8Array(buffer);
+    const decrypted = await decryptPdfBytes(bytes, password ?? "");
+    if (decrypted === bytes) throw error;
+    return pdfLib.PDFDocument.load(decrypted);
+  }
+};
+
+/**
+ * 見た目が確定したページを embedPage でフォーム XObject にし、新しいPDFの用紙へ割り付ける。
+ * /Rotate はフォームに引き継がれないため、描画するときに同じ向きへ回す。
+ */
+const imposePages = async (
+  pdfLib: typeof import("pdf-lib"),
+  pages: PDFPage[],
+  options: ImpositionOptions
+): Promise<PDFDocument> => {
+  if (pages.length === 0) {
+    throw new Error("割り付けるページがありません");
+  }
+  const { degrees } = pdfLib;
+  const sheetDoc = await pdfLib.PDFDocument.create();
+  const displaySizes = pages.map((page) => {
+    const box = page.getCropBox();
+    return page.getRotation().angle % 180 === 0
+      ? { width: box.width, height: box.height }
+      : { width: box.height, height: box.width };
+  });
+  const layout = layoutSheet(displaySizes[0], options);
+  // 内容の無いページ（白紙）は埋め込めないので描かない
+  const drawable = pages.filter((page) => page.node.Contents() !== undefined);
+  const embedded = await sheetDoc.embedPages(
+    drawable,
+    drawable.map((page) => {
+      const box = page.getCropBox();
+      return { left: box.x, bottom: box.y, right: box.x + box.width, top: box.y + box.height };
+    })
+  );
+  const embeddedOf = new Map(drawable.map((page, index) => [page, embedded[index]]));
+  for (const slots of arrangeSheets(pages.length, options)) {
+    const sheet = sheetDoc.addPage([layout.width, layout.height]);
+    slots.forEach((slot, cellIndex) => {
+      const form = slot === null ? undefined : embeddedOf.get(pages[slot]);
+      if (slot === null || !form) return;
+      const box = fitPageInCell(layout.cells[cellIndex], displaySizes[slot]);
+      const placement = placeRotatedPage(box, form.size(), pages[slot].getRotation().angle);
+      sheet.drawPage(form, {
+        x: placement.x,
+        y: placement.y,
+        xScale: placement.scale,
+        yScale: placement.scale,
+        rotate: degrees(placement.rotate),
+      });
+    });
+  }
+  return sheetDoc;
+};
+
+/**
+ * 墨消しするページの内容・リソース・注釈を捨て、墨消し済みの画像だけを描いたページにする。
+ * 黒い矩形を重ねるだけでは下の文字を抽出できてしまうため、内容ごと置き換える。
+ * 注釈に対応するフォームのフィールドと、内容と対応しなくなる構造ツリー（タグ）も取り除く。
+ */
+const redactPages = async (
+  pdfLib: typeof import("pdf-lib"),
+  pdfDoc: PDFDocument,
+  pages: PDFPage[],
+  images: Record<number, RedactedPageImage>
+): Promise<void> => {
+  const { PDFArray, PDFDict, PDFName } = pdfLib;
+  const { context, catalog } = pdfDoc;
+  const removedAnnots = new Set<PDFObject>();
+  let redacted = false;
+  for (const [key, image] of Object.entries(images)) {
+    const page = pages[Number(key) - 1];
+    if (!page) continue;
+    const embedded = await pdfDoc.embedJpg(image.data);
+    // 画像は表示領域全体を描いたものなので、CropBox にそのまま合わせる
+    const box = page.getCropBox();
+    page.node.Annots()?.asArray().forEach((annot) => removedAnnots.add(annot));
+    page.node.delete(PDFName.of("Contents"));
+    for (const name of ["Thumb", "PieceInfo", "StructParents"]) {
+      page.node.delete(PDFName.of(name));
+    }
+    page.node.set(PDFName.of("Annots"), context.obj([]));
+    page.node.set(PDFName.of("Resources"), context.obj({ Font: {}, XObject: {}, ExtGState: {} }));
+    page.drawImage(embedded, { x: box.x, y: box.y, width: box.width, height: box.height });
+    redacted = true;
+  }
+  if (!redacted) return;
+
+  const pruneFields = (fields: PDFArray): void => {
+    for (let index = fields.size() - 1; index >= 0; index -= 1) {
+      const field = fields.get(index);
+      if (removedAnnots.has(field)) {
+        fields.remove(index);
+        continue;
+      }
+      const kids = context.lookupMaybe(field, PDFDict)?.lookupMaybe(PDFName.of("Kids"), PDFArray);
+      if (kids) {
+        pruneFields(kids);
+        if (kids.size() === 0) fields.remove(index);
+      }
+    }
+  };
+  const fields = catalog.lookupMaybe(PDFName.of("AcroForm"), PDFDict)?.lookupMaybe(PDFName.of("Fields"), PDFArray);
+  if (fields) pruneFields(fields);
+  catalog.delete(PDFName.of("StructTreeRoot"));
+};
+
+/** 圧縮し直せる画像の形式。JPEG か、Flate で圧縮した 8bit のグレー・RGB だけを扱う */
+type ImageFormat = { kind: "jpeg" | "raw"; width: number; height: number; components: 1 | 3 };
+
+const readImageFormat = (pdfLib: typeof import("pdf-lib"), stream: PDFRawStream): ImageFormat | null => {
+  const { PDFArray, PDFBool, PDFName, PDFNumber, PDFRawStream } = pdfLib;
+  const { dict } = stream;
+  const numberOf = (key: string) => dict.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber();
+  const width = numberOf("Width");
+  const height = numberOf("Height");
+  if (!width || !height || numberOf("BitsPerComponent") !== 8) return null;
+  // マスク・色の反転・予測符号化を伴う画像は、置き換えると見た目が変わるので扱わない
+  if (
+    dict.has(PDFName.of("Mask")) ||
+    dict.has(PDFName.of("Decode")) ||
+    dict.has(PDFName.of("DecodeParms")) ||
+    dict.get(PDFName.of("ImageMask")) === PDFBool.True
+  ) {
+    return null;
+  }
+  const filterValue = dict.lookup(PDFName.of("Filter"));
+  const filter = filterValue instanceof PDFArray && filterValue.size() === 1 ? filterValue.lookup(0) : filterValue;
+  const colorSpace = dict.lookup(PDFName.of("ColorSpace"));
+  let components: number | undefined;
+  if (colorSpace === PDFName.of("DeviceGray")) components = 1;
+  else if (colorSpace === PDFName.of("DeviceRGB")) components = 3;
+  else if (colorSpace instanceof PDFArray && colorSpace.lookup(0) === PDFName.of("ICCBased")) {
+    const profile = colorSpace.lookup(1);
+    if (profile instanceof PDFRawStream) components = profile.dict.lookupMaybe(PDFName.of("N"), PDFNumber)?.asNumber();
+  }
+  if (components !== 1 && components !== 3) return null;
+  if (filter === PDFName.of("DCTDecode")) return { kind: "jpeg", width, height, components };
+  if (filter === PDFName.of("FlateDecode")) return { kind: "raw", width, height, components };
+  return null;
+};
+
+/**
+ * ページのリソースから直接使っている画像を集め、それぞれを置いたページのうち最も大きいページの長辺（pt）を求める。
+ * フォーム XObject の中の画像は扱わない（スキャンしたPDFはページに直接画像を置く）。
+ */
+const collectPageImages = (
+  pdfLib: typeof import("pdf-lib"),
+  pages: PDFPage[]
+): Map<PDFRef, { stream: PDFRawStream; pageExtent: number }> => {
+  const { PDFDict, PDFName, PDFRawStream, PDFRef } = pdfLib;
+  const images = new Map<PDFRef, { stream: PDFRawStream; pageExtent: number }>();
+  pages.forEach((page) => {
+    const box = page.getCropBox();
+    const extent = Math.max(box.width, box.height);
+    const xObjects = page.node.Resources()?.lookupMaybe(PDFName.of("XObject"), PDFDict);
+    xObjects?.values().forEach((value) => {
+      if (!(value instanceof PDFRef)) return;
+      const stream = page.doc.context.lookup(value);
+      if (!(stream instanceof PDFRawStream) || stream.dict.get(PDFName.of("Subtype")) !== PDFName.of("Image")) return;
+      images.set(value, { stream, pageExtent: Math.max(images.get(value)?.pageExtent ?? 0, extent) });
+    });
+  });
+  return images;
+};
+
+/**
+ * ページの画像を、ページに収めたときに指定の解像度を超えない大きさの JPEG に圧縮し直す。
+ * 透明度（/SMask）は元の画像のものをそのまま使う（大きさが違ってもページ上では同じ範囲に重なる）。
+ */
+const optimizeImages = async (
+  pdfLib: typeof import("pdf-lib"),
+  pdfDoc: PDFDocument,
+  pages: PDFPage[],
+  options: ImageOptimizationOptions,
+  recode: ImageRecoder
+): Promise<void> => {
+  assertOptimizationOptions(options);
+  const { PDFName, PDFRawStream, decodePDFRawStream } = pdfLib;
+  for (const [ref, { stream, pageExtent }] of collectPageImages(pdfLib, pages)) {
+    const format = readImageFormat(pdfLib, stream);
+    if (!format) continue;
+    const source: SourceImage =
+      format.kind === "jpeg"
+        ? { kind: "jpeg", width: format.width, height: format.height, data: stream.contents }
+        : {
+            kind: "raw",
+            width: format.width,
+            height: format.height,
+            components: format.components,
+            data: decodePDFRawStream(stream).decode(),
+          };
+    if (source.kind === "raw" && source.data.length < format.width * format.height * format.components) continue;
+    const target = planImageSize(format.width, format.height, pageExtent, options.dpi);
+    const bytes = await recode(source, { ...target, quality: options.quality / 100, grayscale: options.grayscale });
+    if (!bytes || bytes.length >= stream.contents.length) continue;
+    const dict = pdfDoc.context.obj({
+      Type: "XObject",
+      Subtype: "Image",
+      Width: target.width,
+      Height: target.height,
+      ColorSpace: "DeviceRGB",
+      BitsPerComponent: 8,
+      Filter: "DCTDecode",
+    });
+    const softMask = stream.dict.get(PDFName.of("SMask"));
+    if (softMask) dict.set(PDFName.of("SMask"), softMask);
+    pdfDoc.context.assign(ref, PDFRawStream.of(dict, bytes));
+  }
+};
+
+/** 変換行列を続けて掛けた行列を返す（m1 の後に m2） */
+const multiplyMatrix = (m1: RotationMatrix, m2: RotationMatrix): RotationMatrix => [
+  m1[0] * m2[0] + m1[1] * m2[2],
+  m1[0] * m2[1] + m1[1] * m2[3],
+  m1[2] * m2[0] + m1[3] * m2[2],
+  m1[2] * m2[1] + m1[3] * m2[3],
+  m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+  m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+];
+
+/** 注釈のフラグ NoRotate（ページを回してもアイコンを正立させたままにする） */
+const ANNOTATION_FLAG_NO_ROTATE = 16;
 
-  const { PDFDocument, degrees } = await import("pdf-lib");
-  const pdfDoc = await PDFDocument.load(originalBuffer);
-  const pages = pdfDoc.getPages();
+/**
+ * ページの /Rotate を内容に焼き込み、/Rotate を 0 にする。
+ * 内容は q ... Q で包んで回し、用紙の枠（MediaBox・CropBox など）と注釈の位置・外観も同じ行列で移す。
+ */
+const bakePageRotation = (pdfLib: typeof import("pdf-lib"), pdfDoc: PDFDocument, page: PDFPage): void => {
+  const rotation = page.getRotation().angle as Rotation;
+  if (rotation === 0) return;
+  const {
+    PDFArray,
+    PDFDict,
+    PDFName,
+    PDFNumber,
+    PDFStream,
+    concatTransformationMatrix,
+    degrees,
+    popGraphicsState,
+    pushGraphicsState,
+  } = pdfLib;
+  const { context } = pdfDoc;
+  const matrix = createBakeRotationMatrix(page.getMediaBox(), rotation);
+  const cropBox = page.getCropBox();
+  page.node.normalize();
+  const start = context.register(context.contentStream([pushGraphicsState(), concatTransformationMatrix(...matrix)]));
+  const end = context.register(context.contentStream([popGraphicsState()]));
+  page.node.wrapContentStreams(start, end);
+
+  const setBox = (name: string, box: PageBox) =>
+    page.node.set(PDFName.of(name), context.obj([box.x, box.y, box.x + box.width, box.y + box.height]));
+  setBox("MediaBox", transformBox(matrix, page.getMediaBox()));
+  setBox("CropBox", transformBox(matrix, cropBox));
+  for (const name of ["BleedBox", "TrimBox", "ArtBox"]) {
+    const box = page.node.lookupMaybe(PDFName.of(name), PDFArray);
+    if (box) setBox(name, transformBox(matrix, box.asRectangle()));
+  }
+  page.setRotation(degrees(0));
+
+  const numbersOf = (array: PDFArray) =>
+    array.asArray().map((value) => context.lookupMaybe(value, PDFNumber)?.asNumber() ?? 0);
+  // 外観は /Matrix に回転だけを足す（/Rect への当てはめで位置は合う）
+  const linear: RotationMatrix = [matrix[0], matrix[1], matrix[2], matrix[3], 0, 0];
+  const rotatedAppearances = new Set<PDFObject>();
+  const rotateAppearance = (value: PDFObject | undefined) => {
+    const stream = context.lookup(value);
+    if (stream instanceof PDFDict) {
+      // 状態ごとの外観（チェックボックスのオン・オフなど）
+      stream.values().forEach(rotateAppearance);
+      return;
+    }
+    if (!(stream instanceof PDFStream) || rotatedAppearances.has(stream)) return;
+    rotatedAppearances.add(stream);
+    const current = stream.dict.lookupMaybe(PDFName.of("Matrix"), PDFArray);
+    const base = (current ? numbersOf(current) : [1, 0, 0, 1, 0, 0]) as RotationMatrix;
+    stream.dict.set(PDFName.of("Matrix"), context.obj(multiplyMatrix(base, linear)));
+  };
+
+  page.node
+    .Annots()
+    ?.asArray()
+    .forEach((ref) => {
+      const annotation = context.lookupMaybe(ref, PDFDict);
+      if (!annotation) return;
+      const rect = annotation.lookupMaybe(PDFName.of("Rect"), PDFArray);
+      if (rect) {
+        const box = transformBox(matrix, rect.asRectangle());
+        annotation.set(PDFName.of("Rect"), context.obj([box.x, box.y, box.x + box.width, box.y + box.height]));
+      }
+      for (const name of ["QuadPoints", "Vertices", "L", "CL"]) {
+        const points = annotation.lookupMaybe(PDFName.of(name), PDFArray);
+        if (points) annotation.set(PDFName.of(name), context.obj(transformPoints(matrix, numbersOf(points))));
+      }
+      const inkList = annotation.lookupMaybe(PDFName.of("InkList"), PDFArray);
+      if (inkList) {
+        const strokes = inkList.asArray().map((stroke) => {
+          const points = context.lookupMaybe(stroke, PDFArray);
+          return points ? transformPoints(matrix, numbersOf(points)) : [];
+        });
+        annotation.set(PDFName.of("InkList"), context.obj(strokes));
+      }
+      // 入力欄の文字の向き（反時計回り）は、ページの回転を打ち消した分だけ戻す
+      const characteristics = annotation.lookupMaybe(PDFName.of("MK"), PDFDict);
+      const widgetRotation = characteristics?.lookupMaybe(PDFName.of("R"), PDFNumber)?.asNumber();
+      if (characteristics && widgetRotation !== undefined) {
+        characteristics.set(PDFName.of("R"), PDFNumber.of((((widgetRotation - rotation) % 360) + 360) % 360));
+      }
+      const flags = annotation.lookupMaybe(PDFName.of("F"), PDFNumber)?.asNumber() ?? 0;
+      if (flags & ANNOTATION_FLAG_NO_ROTATE) return;
+      const appearances = annotation.lookupMaybe(PDFName.of("AP"), PDFDict);
+      appearances?.values().forEach(rotateAppearance);
+    });
+};
+
+/**
+ * フォームの入力欄に値を書き込み、指定があれば平坦化する。
+ * 外観は標準フォントで作り直すため、描けない文字の値は外観を作らずビューアに任せる（/NeedAppearances）。
+ * 平坦化ではビューアに任せられないので、描けない文字の値はエラーにする。
+ */
+const fillForm = (
+  pdfLib: typeof import("pdf-lib"),
+  pdfDoc: PDFDocument,
+  values: FormValues,
+  flatten: boolean
+): void => {
+  const { PDFCheckBox, PDFDict, PDFDropdown, PDFName, PDFOptionList, PDFRadioGroup, PDFTextField } = pdfLib;
+  if (!pdfDoc.catalog.get(PDFName.of("AcroForm"))) return;
+  const form = pdfDoc.getForm();
+  let needAppearances = false;
+  Object.entries(values).forEach(([name, value]) => {
+    const field = form.getFieldMaybe(name);
+    if (!field) return;
+    if (!canDrawFormValue(value)) {
+      if (flatten) {
+        throw new Error(`平坦化する入力欄に使えるのは半角の英数字と記号だけです: ${name}`);
+      }
+      needAppearances = true;
+    }
+    try {
+      if (field instanceof PDFTextField) {
+        field.setText(String(value));
+      } else if (field instanceof PDFCheckBox) {
+        if (value) field.check();
+        else field.uncheck();
+      } else if (field instanceof PDFRadioGroup) {
+        if (value) field.select(String(value));
+        else field.clear();
+      } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+        if (value) field.select(String(value));
+        else field.clear();
+      }
+    } catch {
+      throw new Error(`入力欄「${name}」に値を設定できません`);
+    }
+    if (!canDrawFormValue(value)) form.markFieldAsClean(field.ref);
+  });
+  if (needAppearances) {
+    form.acroForm.dict.set(PDFName.of("NeedAppearances"), pdfLib.PDFBool.True);
+  }
+  if (!flatten) {
+    // 暗号化して保存するときは save() が外観を作り直さないので、ここで入力した値の外観（/AP）にしておく
+    form.updateFieldAppearances();
+    return;
+  }
+  form.flatten();
+  // pdf-lib は読み込んだPDFの入力欄を平坦化すると、削除した入力欄への参照を /Annots に残すので取り除く
+  pdfDoc.getPages().forEach((page) => {
+    const annots = page.node.Annots();
+    if (!annots) return;
+    const kept = annots.asArray().filter((ref) => {
+      const annot = pdfDoc.context.lookupMaybe(ref, PDFDict);
+      return annot !== undefined && annot.get(PDFName.of("Subtype")) !== PDFName.of("Widget");
+    });
+    page.node.set(PDFName.of("Annots"), pdfDoc.context.obj(kept));
+  });
+};
+
+/**
+ * 注釈を PDF の注釈オブジェクト（/Text・/Highlight・/Ink）としてページに追加する。
+ * 注釈はページの座標で置くので、/Rotate で回したページでは注釈も一緒に回って表示される。
+ * 外観ストリーム（/AP）も作り、ビューアが独自に描き直さなくても同じ見た目にする。
+ */
+const writeAnnotations = (
+  pdfLib: typeof import("pdf-lib"),
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  annotations: PageAnnotation[],
+  box: { x: number; y: number; width: number; height: number },
+  matrices: AnnotationMatrix[]
+): void => {
+  const {
+    PDFHexString,
+    PDFName,
+    PDFString,
+    LineCapStyle,
+    LineJoinStyle,
+    closePath,
+    fill,
+    fillAndStroke,
+    lineTo,
+    moveTo,
+    rectangle,
+    setFillingRgbColor,
+    setGraphicsState,
+    setLineCap,
+    setLineJoin,
+    setLineWidth,
+    setStrokingRgbColor,
+    stroke,
+  } = pdfLib;
+  const { context } = pdfDoc;
+  const modified = PDFString.fromDate(new Date());
+  annotations.forEach((annotation) => {
+    const geometry = toPdfAnnotationGeometry(annotation, box, matrices);
+    const color = ANNOTATION_COLORS[annotation.kind];
+    const common = {
+      Type: "Annot",
+      Rect: geometry.rect,
+      C: color,
+      NM: PDFHexString.fromText(annotation.id),
+      M: modified,
+    };
+    let dict;
+    if (annotation.kind === "note") {
+      const [x, y] = geometry.rect;
+      const appearance = context.formXObject(
+        [
+          setFillingRgbColor(...color),
+          setStrokingRgbColor(0.4, 0.3, 0),
+          setLineWidth(0.5),
+          rectangle(x + 1, y + 1, NOTE_ICON_SIZE - 2, NOTE_ICON_SIZE - 2),
+          fillAndStroke(),
+          ...[0.7, 0.5, 0.3].flatMap((ratio) => [
+            moveTo(x + 5, y + NOTE_ICON_SIZE * ratio),
+            lineTo(x + NOTE_ICON_SIZE - 5, y + NOTE_ICON_SIZE * ratio),
+          ]),
+          stroke(),
+        ],
+        { BBox: geometry.rect }
+      );
+      dict = context.obj({
+        ...common,
+        Subtype: "Text",
+        Contents: PDFHexString.fromText(annotation.text),
+        Name: "Comment",
+        Open: false,
+        // 印刷する・拡大縮小しない・回転しない（メモのアイコンは常に正立させる）
+        F: 4 | 8 | 16,
+        AP: { N: context.register(appearance) },
+      });
+    } else if (annotation.kind === "highlight") {
+      const [x1, y1, x2, y2, x3, y3, x4, y4] = geometry.quadPoints!;
+      const appearance = context.formXObject(
+        [
+          setGraphicsState("GS0"),
+          setFillingRgbColor(...color),
+          moveTo(x1, y1),
+          lineTo(x2, y2),
+          lineTo(x4, y4),
+          lineTo(x3, y3),
+          closePath(),
+          fill(),
+        ],
+        { BBox: geometry.rect, Resources: { ExtGState: { GS0: { Type: "ExtGState", BM: "Multiply" } } } }
+      );
+      dict = context.obj({
+        ...common,
+        Subtype: "Highlight",
+        QuadPoints: geometry.quadPoints!,
+        F: 4,
+        AP: { N: context.register(appearance) },
+      });
+    } else {
+      const inkList = geometry.inkList!;
+      const appearance = context.formXObject(
+        [
+          setStrokingRgbColor(...color),
+          setLineWidth(INK_LINE_WIDTH),
+          setLineCap(LineCapStyle.Round),
+          setLineJoin(LineJoinStyle.Round),
+          moveTo(inkList[0], inkList[1]),
+          ...Array.from({ length: inkList.length / 2 - 1 }, (_, index) =>
+            lineTo(inkList[index * 2 + 2], inkList[index * 2 + 3])
+          ),
+          stroke(),
+        ],
+        { BBox: geometry.rect }
+      );
+      dict = context.obj({
+        ...common,
+        Subtype: "Ink",
+        InkList: [inkList],
+        BS: { W: INK_LINE_WIDTH, S: "S" },
+        F: 4,
+        AP: { N: context.register(appearance) },
+      });
+    }
+    dict.set(PDFName.of("P"), page.ref);
+    page.node.addAnnot(context.register(dict));
+  });
+};
+
+/**
+ * トレーラーからたどれないオブジェクトを削除する。pdf-lib は参照されなくなったオブジェクトも書き出すため、
+ * 墨消しで外した内容や、出力しないページの内容がファイルに残らないようにする。
+ */
+const removeUnreachableObjects = (pdfLib: typeof import("pdf-lib"), pdfDoc: PDFDocument): void => {
+  const { PDFArray, PDFDict, PDFRef, PDFStream } = pdfLib;
+  const { context } = pdfDoc;
+  const reachable = new Set<PDFRef>();
+  const pending: (PDFObject | undefined)[] = [context.trailerInfo.Root, context.trailerInfo.Info];
+  while (pending.length > 0) {
+    const object = pending.pop();
+    if (object instanceof PDFRef) {
+      if (reachable.has(object)) continue;
+      reachable.add(object);
+      pending.push(context.lookup(object));
+    } else if (object instanceof PDFDict) {
+      object.entries().forEach(([, value]) => pending.push(value));
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    }
+  }
+  context.enumerateIndirectObjects().forEach(([ref]) => {
+    if (!reachable.has(ref)) context.delete(ref);
+  });
+};
+
+/**
+ * 出力する順に各ページへスタンプを押す。文字は /Rotate で回した後の見た目で水平になるよう回して描く。
+ */
+const stampPages = async (
+  pdfLib: typeof import("pdf-lib"),
+  pdfDoc: PDFDocument,
+  pages: PDFPage[],
+  options: StampOptions
+): Promise<void> => {
+  assertStampSettings(options);
+  const { StandardFonts, degrees, pushGraphicsState, popGraphicsState } = pdfLib;
+  // 日付をまたいで保存しても全ページで同じ日付にする
+  const textOptions = { ...options, date: options.date ?? new Date() };
+  const texts = pages.map((_, index) =>
+    options.stamps.map((stamp) => formatStampText(stamp.template, index, textOptions))
+  );
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  pages.forEach((page, index) => {
+    // 元の内容が変換行列を戻さずに終わっていても位置がずれないよう、q ... Q で包んでから描く
+    page.node.normalize();
+    const start = pdfDoc.context.register(pdfDoc.context.contentStream([pushGraphicsState()]));
+    const end = pdfDoc.context.register(pdfDoc.context.contentStream([popGraphicsState()]));
+    page.node.wrapContentStreams(start, end);
+    options.stamps.forEach((stamp, stampIndex) => {
+      const text = texts[index][stampIndex];
+      const size = {
+        width: font.widthOfTextAtSize(text, stamp.fontSize),
+        height: font.heightAtSize(stamp.fontSize, { descender: false }),
+      };
+      const placement = placeStamp(page.getCropBox(), page.getRotation().angle, size, stamp.position);
+      page.drawText(text, {
+        x: placement.x,
+        y: placement.y,
+        size: stamp.fontSize,
+        font,
+        opacity: stamp.opacity,
+        rotate: degrees(placement.rotate),
+      });
+    });
+  });
+};
+
+/**
+ * しおりを /Outlines に書き直す。項目はすべて開いた状態にし、移動先はページ全体を表示する（/Fit）。
+ */
+const writeOutline = (
+  pdfLib: typeof import("pdf-lib"),
+  pdfDoc: PDFDocument,
+  items: ResolvedOutlineItem[]
+): void => {
+  const { PDFName, PDFHexString, PDFNumber } = pdfLib;
+  const { context, catalog } = pdfDoc;
+  if (items.length === 0) {
+    catalog.delete(PDFName.of("Outlines"));
+    return;
+  }
+  const pageRefs = pdfDoc.getPages().map((page) => page.ref);
+  // 同じ階層の項目を Prev/Next でつなぎ、開いている子孫の数（/Count）を返す
+  const writeLevel = (nodes: ResolvedOutlineItem[], parent: PDFRef) => {
+    const refs = nodes.map(() => context.nextRef());
+    let count = nodes.length;
+    nodes.forEach((node, index) => {
+      const entry = context.obj({ Title: PDFHexString.fromText(node.title), Parent: parent });
+      entry.set(PDFName.of("Dest"), context.obj([pageRefs[node.pageIndex], "Fit"]));
+      if (index > 0) entry.set(PDFName.of("Prev"), refs[index - 1]);
+      if (index < nodes.length - 1) entry.set(PDFName.of("Next"), refs[index + 1]);
+      if (node.children.length > 0) {
+        const level = writeLevel(node.children, refs[index]);
+        entry.set(PDFName.of("First"), level.first);
+        entry.set(PDFName.of("Last"), level.last);
+        entry.set(PDFName.of("Count"), PDFNumber.of(level.count));
+        count += level.count;
+      }
+      context.assign(refs[index], entry);
+    });
+    return { first: refs[0], last: refs[refs.length - 1], count };
+  };
+  const rootRef = context.nextRef();
+  const level = writeLevel(items, rootRef);
+  context.assign(
+    rootRef,
+    context.obj({ Type: "Outlines", First: level.first, Last: level.last, Count: PDFNumber.of(level.count) })
+  );
+  catalog.set(PDFName.of("Outlines"), rootRef);
+};
+
+/**
+ * 回転・削除・並び順・傾き補正・トリミングを反映したPDFのバイト列を作る。
+ * 複数の元PDFを渡した場合は先頭のPDFに残りのページを複製して1つのPDFへ結合する。
+ * ページ番号は元PDFを渡した順に通し番号で数え、追加ページ（virtualPages）の番号は飛ばす。
+ */
+const buildPdfBytes = async (
+  buffers: ArrayBuffer[],
+  rotationMap: PageRotationMap,
+  options: PdfOutputOptions
+): Promise<Uint8Array> => {
+  const pdfLib = await import("pdf-lib");
+  const { degrees } = pdfLib;
+  if (options.outputPassword === "") {
+    throw new Error("出力するPDFのパスワードを入力してください");
+  }
+  const pdfDoc = await loadSourceDocument(pdfLib, buffers[0], options.sourcePasswords?.[0]);
+  const sourcePages = [...pdfDoc.getPages()];
+  const attachedPageCount = sourcePages.length;
+  // 複製ページの作成用に、各ページの元の文書と位置を覚えておく
+  const origins = sourcePages.map((_, index) => ({ doc: pdfDoc, index }));
+  for (const [index, buffer] of buffers.slice(1).entries()) {
+    const sourceDoc = await loadSourceDocument(pdfLib, buffer, options.sourcePasswords?.[index + 1]);
+    const indices = sourceDoc.getPageIndices();
+    const copiedPages = await pdfDoc.copyPages(sourceDoc, indices);
+    sourcePages.push(...copiedPages);
+    origins.push(...indices.map((index) => ({ doc: sourceDoc, index })));
+  }
+
+  const virtualPages = options.virtualPages ?? {};
+  const pageCount = sourcePages.length + Object.keys(virtualPages).length;
+  const sourceIndexOf = new Map<number, number>();
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber += 1) {
+    if (!virtualPages[pageNumber]) sourceIndexOf.set(pageNumber, sourceIndexOf.size);
+  }
+  const pages: PDFPage[] = [];
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber += 1) {
+    const virtualPage = virtualPages[pageNumber];
+    if (!virtualPage) {
+      pages.push(sourcePages[sourceIndexOf.get(pageNumber)!]);
+    } else if (virtualPage.kind === "blank") {
+      const blank = pdfLib.PDFPage.create(pdfDoc);
+      blank.setSize(virtualPage.width, virtualPage.height);
+      pages.push(blank);
+    } else {
+      const origin = origins[sourceIndexOf.get(virtualPage.of) ?? -1];
+      if (!origin) {
+        throw new Error("複製元のページが見つかりません");
+      }
+      const [copied] = await pdfDoc.copyPages(origin.doc, [origin.index]);
+      pages.push(copied);
+    }
+  }
+
+  const outputPageNumbers = resolveOutputPageNumbers(pages.length, options);
+  if (pages.length > 0 && outputPageNumbers.length === 0) {
+    throw new Error("すべてのページが削除されているため保存できません");
+  }
+
+  if (options.sanitize) {
+    // 墨消しで注釈ごと画像にするページも、元PDFにあったものとして数える
+    const removed = await scanActiveContent(
+      pdfDoc,
+      outputPageNumbers.map((pageNumber) => ({ page: pages[pageNumber - 1], pageNumber })),
+      { remove: true }
+    );
+    options.onSanitize?.(removed);
+  }
+
+  if (options.redactions) {
+    // 傾き補正・トリミングなどは置き換えた画像に対して行う
+    await redactPages(pdfLib, pdfDoc, pages, options.redactions);
+  }
+
+  if (options.formValues || options.flattenForms) {
+    // 平坦化した入力欄はページの内容になり、この後の傾き補正などで内容と一緒に動く
+    fillForm(pdfLib, pdfDoc, options.formValues ?? {}, options.flattenForms ?? false);
+  }
+
+  // 注釈は傾き補正・ページサイズの統一で内容に掛けた変換に合わせて置く
+  const annotationTransforms = new Map<number, { box: PageBox; matrices: AnnotationMatrix[] }>();
 
   pages.forEach((page, index) => {
     const pageNumber = index + 1;
-    const rotation = rotationMap[pageNumber] ?? 0;
+    const annotationTransform = options.annotations?.[pageNumber]?.length
+      ? { box: page.getCropBox(), matrices: [] as AnnotationMatrix[] }
+      : null;
+    if (annotationTransform) annotationTransforms.set(pageNumber, annotationTransform);
+    // 回転マップは元の /Rotate に対する差分として保持しているため、既存値に加算する
+    const rotation = composeRotation(page.getRotation().angle, rotationMap[pageNumber] ?? 0);
     page.setRotation(degrees(rotation));
+
+    const correction = options.skewMap?.[pageNumber] ?? 0;
+    if (correction !== 0) {
+      // /Rotate では90度単位しか表せないため、既存の内容を q ... Q で包んで中心回りに回転させる
+      const { pushGraphicsState, popGraphicsState, concatTransformationMatrix } = pdfLib;
+      page.node.normalize();
+      const matrix = createDeskewMatrix(page.getCropBox(), correction);
+      annotationTransform?.matrices.push(matrix);
+      const start = pdfDoc.context.register(
+        pdfDoc.context.contentStream([pushGraphicsState(), concatTransformationMatrix(...matrix)])
+      );
+      const end = pdfDoc.context.register(pdfDoc.context.contentStream([popGraphicsState()]));
+      page.node.wrapContentStreams(start, end);
+    }
+
+    // 傾き補正は元の表示領域の中心で回すため、CropBox の変更はその後に行う
+    const crop = options.cropMap?.[pageNumber];
+    if (crop) {
+      const box = toPdfCropBox(page.getCropBox(), crop);
+      page.setCropBox(box.x, box.y, box.width, box.height);
+    }
+
+    // 用紙をそろえるのは見た目が確定した後。/Rotate は残し、回転前の座標で内容を拡大縮小して中央に置く
+    if (options.normalizePageSize) {
+      const { pushGraphicsState, popGraphicsState, concatTransformationMatrix, rectangle, clip, endPath } = pdfLib;
+      const transform = createNormalizeTransform(page.getCropBox(), rotation, options.normalizePageSize);
+      annotationTransform?.matrices.push(transform.matrix);
+      page.node.normalize();
+      // 元の表示領域の外にある内容が新しい用紙に出てこないよう、表示される範囲で切り取る
+      const start = pdfDoc.context.register(
+        pdfDoc.context.contentStream([
+          pushGraphicsState(),
+          rectangle(transform.clip.x, transform.clip.y, transform.clip.width, transform.clip.height),
+          clip(),
+          endPath(),
+          concatTransformationMatrix(...transform.matrix),
+        ])
+      );
+      const end = pdfDoc.context.register(pdfDoc.context.contentStream([popGraphicsState()]));
+      page.node.wrapContentStreams(start, end);
+      page.setMediaBox(0, 0, transform.width, transform.height);
+      page.setCropBox(0, 0, transform.width, transform.height);
+      for (const name of ["BleedBox", "TrimBox", "ArtBox"]) {
+        page.node.delete(pdfLib.PDFName.of(name));
+      }
+    }
   });
 
-  const bytes = await pdfDoc.save();
-  const arrayBuffer = Uint8Array.from(bytes).buffer;
-  const blob = new Blob([arrayBuffer], { type: "application/pdf" });
-  const fileName = options.fileName ?? "rotated.pdf";
+  const outputPages = outputPageNumbers.map((pageNumber) => pages[pageNumber - 1]);
+  outputPageNumbers.forEach((pageNumber) => {
+    const transform = annotationTransforms.get(pageNumber);
+    if (!transform) return;
+    writeAnnotations(
+      pdfLib,
+      pdfDoc,
+      pages[pageNumber - 1],
+      options.annotations![pageNumber],
+      transform.box,
+      transform.matrices
+    );
+  });
+  if (options.bakeRotation) {
+    // スタンプは回した後の正立した用紙に押す
+    outputPages.forEach((page) => bakePageRotation(pdfLib, pdfDoc, page));
+  }
+  if (options.stamp && options.stamp.stamps.length > 0) {
+    await stampPages(pdfLib, pdfDoc, outputPages, options.stamp);
+  }
+  if (options.optimizeImages) {
+    // 割り付けでは圧縮し直した画像を埋め込む
+    const recode = options.recodeImage ?? recodeImageWithCanvas;
+    await optimizeImages(pdfLib, pdfDoc, outputPages, options.optimizeImages, recode);
+  }
+  const pagesChanged =
+    outputPages.length !== attachedPageCount || outputPages.some((page, index) => page !== pages[index]);
+  if (pagesChanged) {
+    // 一旦すべてのページをページツリーから外し、並び順どおりに削除ページを除いて戻す
+    // （結合したページはまだページツリーに含まれていないので、ここで追加される）
+    for (let index = attachedPageCount - 1; index >= 0; index -= 1) {
+      pdfDoc.removePage(index);
+    }
+    outputPages.forEach((page) => pdfDoc.addPage(page));
+  }
+
+  // 割り付ける場合は、並べ替えたページを埋め込んだ別の文書を出力する
+  const outputDoc = options.imposition ? await imposePages(pdfLib, outputPages, options.imposition) : pdfDoc;
+  if (options.outline) {
+    // 抽出・分割では出力しないページへ移さず、そのページを指すしおりを落とす
+    const order = options.pages ? outputPageNumbers : normalizePageOrder(options.pageOrder ?? [], pages.length);
+    let targets = resolveOutlineTargets(options.outline, order, outputPageNumbers);
+    if (options.imposition) {
+      // 割り付けた場合は、ページを並べた面を指す
+      const sheetOf: number[] = [];
+      arrangeSheets(outputPages.length, options.imposition).forEach((slots, sheet) => {
+        slots.forEach((slot) => {
+          if (slot !== null && sheetOf[slot] === undefined) sheetOf[slot] = sheet;
+        });
+      });
+      const toSheets = (nodes: ResolvedOutlineItem[]): ResolvedOutlineItem[] =>
+        nodes.map((node) => ({ ...node, pageIndex: sheetOf[node.pageIndex], children: toSheets(node.children) }));
+      targets = toSheets(targets);
+    }
+    writeOutline(pdfLib, outputDoc, targets);
+  }
+  if (options.stripMetadata || options.metadata) {
+    await writeDocumentMetadata(outputDoc, options.stripMetadata ? null : options.metadata!);
+  }
+  const redacted = !!options.redactions && Object.keys(options.redactions).length > 0;
+  const metadataChanged = !!options.stripMetadata || !!options.metadata;
+  if (redacted || options.optimizeImages || options.sanitize || pagesChanged || metadataChanged) {
+    // 画像やフォントを埋め込んでから、外した内容や置き換えた画像・スクリプト・添付ファイル、
+    // 削除・抽出で出力しないページの内容、外した XMP メタデータを取り除く
+    await outputDoc.flush();
+    removeUnreachableObjects(pdfLib, outputDoc);
+  }
+  if (options.outputPassword !== undefined) {
+    // 暗号化した後にフォントの埋め込みなどでオブジェクトが増えないよう、先に書き出しの準備を済ませる
+    await outputDoc.flush();
+    await encryptPdfDocument(outputDoc, options.outputPassword);
+    return outputDoc.save({ useObjectStreams: false, updateFieldAppearances: false });
+  }
+  return outputDoc.save();
+};
 
+/**
+ * 圧縮後のサイズを見積もるため、元PDFのページに置かれた画像の大きさと形式を調べる。
+ * 画像の中身は展開しない。
+ */
+export const inspectPdfImages = async (
+  buffers: ArrayBuffer[],
+  options: Pick<PdfOutputOptions, "sourcePasswords"> = {}
+): Promise<{ totalBytes: number; images: PdfImageInfo[] }> => {
+  assertBuffers(buffers);
+  const pdfLib = await import("pdf-lib");
+  const { PDFName, PDFNumber } = pdfLib;
+  const images: PdfImageInfo[] = [];
+  for (const [index, buffer] of buffers.entries()) {
+    const doc = await loadSourceDocument(pdfLib, buffer, options.sourcePasswords?.[index]);
+    collectPageImages(pdfLib, doc.getPages()).forEach(({ stream, pageExtent }) => {
+      const numberOf = (key: string) => stream.dict.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber() ?? 0;
+      images.push({
+        bytes: stream.contents.length,
+        width: numberOf("Width"),
+        height: numberOf("Height"),
+        optimizable: readImageFormat(pdfLib, stream) !== null,
+        pageExtent,
+      });
+    });
+  }
+  return { totalBytes: buffers.reduce((total, buffer) => total + buffer.byteLength, 0), images };
+};
+
+/**
+ * 読み込んだ元PDFにある JavaScript・自動実行する動作・添付ファイル・外部へのリンクを調べる（取り除かない）。
+ * ページ番号は元PDFを渡した順の通し番号にする。
+ */
+export const inspectActiveContent = async (
+  buffers: ArrayBuffer[],
+  options: Pick<PdfOutputOptions, "sourcePasswords"> = {}
+): Promise<ActiveContentFinding[]> => {
+  assertBuffers(buffers);
+  const pdfLib = await import("pdf-lib");
+  const findings: ActiveContentFinding[] = [];
+  let pageOffset = 0;
+  for (const [index, buffer] of buffers.entries()) {
+    const doc = await loadSourceDocument(pdfLib, buffer, options.sourcePasswords?.[index]);
+    const pages = doc.getPages().map((page, pageIndex) => ({ page, pageNumber: pageOffset + pageIndex + 1 }));
+    findings.push(...(await scanActiveContent(doc, pages, { remove: false })));
+    pageOffset += pages.length;
+  }
+  return findings;
+};
+
+/**
+ * Blob をファイルとして保存する。enableFallbackOpen なら保存ダイアログが使えないときに新規タブで開く。
+ */
+export const downloadBlob = (blob: Blob, fileName: string, enableFallbackOpen?: boolean): void => {
   try {
     saveAs(blob, fileName);
   } catch (error) {
-    if (options.enableFallbackOpen) {
+    if (enableFallbackOpen) {
       const url = URL.createObjectURL(blob);
       const opened = window.open(url, "_blank");
       if (!opened) {
@@ -48,3 +1084,256 @@ export const savePdfWithRotation = async (
     throw error;
   }
 };
+
+/**
+ * 出力した大きさを知らせ、confirmDownload があれば確かめてからダウンロードする。
+ * 取りやめたらダウンロードしない。
+ */
+const confirmAndDownload = async (
+  blob: Blob,
+  fileName: string,
+  options: Pick<SaveOptions, "onOutputSize" | "confirmDownload" | "enableFallbackOpen">
+): Promise<void> => {
+  options.onOutputSize?.(blob.size);
+  if (options.confirmDownload && !(await options.confirmDownload(blob.size))) return;
+  downloadBlob(blob, fileName, options.enableFallbackOpen);
+};
+
+/**
+ * 回転・削除・並び順を反映してPDFを保存する。
+ * 複数の元PDFを渡した場合は1つのPDFに結合して保存する。
+ */
+export const savePdfWithRotation = async (
+  originalBuffer: ArrayBuffer | ArrayBuffer[],
+  rotationMap: PageRotationMap,
+  options: SaveOptions = {}
+): Promise<void> => {
+  const buffers = Array.isArray(originalBuffer) ? originalBuffer : [originalBuffer];
+  assertBuffers(buffers);
+
+  const bytes = await buildPdfBytes(buffers, rotationMap, options);
+  const arrayBuffer = Uint8Array.from(bytes).buffer;
+  const blob = new Blob([arrayBuffer], { type: "application/pdf" });
+  await confirmAndDownload(blob, options.fileName ?? "rotated.pdf", options);
+};
+
+export type IncrementalSaveOptions = {
+  cropMap?: PageCropMap;
+  fileName?: string;
+  enableFallbackOpen?: boolean;
+  onOutputSize?: (bytes: number) => void;
+};
+
+const toLatin1Bytes = (text: string): Uint8Array => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+const bytesOf = (object: PDFObject): Uint8Array => {
+  const bytes = new Uint8Array(object.sizeInBytes());
+  object.copyBytesInto(bytes, 0);
+  return bytes;
+};
+
+/**
+ * 元のファイルの末尾に、書き換えたページ辞書と相互参照・トレーラーだけを書き足す（追記保存）。
+ * 元のバイト列は1バイトも変えないので、署名が守っているバイト範囲はそのまま残る。
+ * 相互参照は元のファイルの最後の相互参照と同じ形式（表またはストリーム）で書く。
+ */
+const buildIncrementalUpdate = async (
+  buffer: ArrayBuffer,
+  rotationMap: PageRotationMap,
+  cropMap: PageCropMap
+): Promise<Uint8Array> => {
+  const pdfLib = await import("pdf-lib");
+  const { PDFDocument, degrees } = pdfLib;
+  const original = new Uint8Array(buffer);
+  let pdfDoc: PDFDocument;
+  try {
+    pdfDoc = await PDFDocument.load(original, { updateMetadata: false });
+  } catch (error) {
+    if (error instanceof pdfLib.EncryptedPDFError) {
+      throw new Error("パスワード付きのPDFは追記して保存できません");
+    }
+    throw error;
+  }
+
+  const changed: PDFRef[] = [];
+  pdfDoc.getPages().forEach((page, index) => {
+    const pageNumber = index + 1;
+    const delta = rotationMap[pageNumber] ?? 0;
+    const crop = cropMap[pageNumber];
+    if (delta === 0 && !crop) return;
+    page.setRotation(degrees(composeRotation(page.getRotation().angle, delta)));
+    if (crop) {
+      const box = toPdfCropBox(page.getCropBox(), crop);
+      page.setCropBox(box.x, box.y, box.width, box.height);
+    }
+    changed.push(page.ref);
+  });
+  if (changed.length === 0) return original;
+
+  const text = new TextDecoder("latin1").decode(original);
+  const startXref = /startxref\s+(\d+)\s*%%EOF\s*$/.exec(text);
+  if (!startXref) {
+    throw new Error("PDFの末尾を読めないため追記して保存できません");
+  }
+  const previous = Number(startXref[1]);
+  const usesXrefStream = !text.startsWith("xref", previous);
+  const previousSize = Number(/\/Size\s+(\d+)/.exec(text.slice(previous))?.[1] ?? 0);
+  const size = Math.max(previousSize, pdfDoc.context.largestObjectNumber + 1);
+
+  const chunks: Uint8Array[] = [original];
+  let offset = original.length;
+  const write = (bytes: Uint8Array) => {
+    chunks.push(bytes);
+    offset += bytes.length;
+  };
+  if (original[original.length - 1] !== 0x0a && original[original.length - 1] !== 0x0d) {
+    write(toLatin1Bytes("\n"));
+  }
+  const entries = [...changed]
+    .sort((a, b) => a.objectNumber - b.objectNumber)
+    .map((ref) => {
+      const entry = { ref, offset };
+      write(toLatin1Bytes(`${ref.objectNumber} ${ref.generationNumber} obj\n`));
+      write(bytesOf(pdfDoc.context.lookup(ref)!));
+      write(toLatin1Bytes("\nendobj\n"));
+      return entry;
+    });
+
+  const { Root, Info, ID } = pdfDoc.context.trailerInfo;
+  const xrefOffset = offset;
+  if (usesXrefStream) {
+    // 相互参照ストリーム自身にも新しいオブジェクト番号を振る
+    const streamNumber = size;
+    const rows = [
+      ...entries.map((entry) => ({
+        number: entry.ref.objectNumber,
+        generation: entry.ref.generationNumber,
+        offset: entry.offset,
+      })),
+      { number: streamNumber, generation: 0, offset: xrefOffset },
+    ];
+    const data = new Uint8Array(rows.length * 7);
+    const view = new DataView(data.buffer);
+    rows.forEach((row, index) => {
+      view.setUint8(index * 7, 1);
+      view.setUint32(index * 7 + 1, row.offset);
+      view.setUint16(index * 7 + 5, row.generation);
+    });
+    const stream = pdfDoc.context.stream(data, {
+      Type: "XRef",
+      Size: size + 1,
+      W: [1, 4, 2],
+      Index: rows.flatMap((row) => [row.number, 1]),
+      Prev: previous,
+      Root,
+      Info,
+      ID,
+    });
+    write(toLatin1Bytes(`${streamNumber} 0 obj\n`));
+    write(bytesOf(stream));
+    write(toLatin1Bytes("\nendobj\n"));
+  } else {
+    // 各行はちょうど20バイト（10桁の位置・5桁の世代番号・n・CRLF）
+    const lines = entries.map(({ ref, offset: objectOffset }) => {
+      const position = String(objectOffset).padStart(10, "0");
+      const generation = String(ref.generationNumber).padStart(5, "0");
+      return `${ref.objectNumber} 1\n${position} ${generation} n\r\n`;
+    });
+    write(toLatin1Bytes(`xref\n${lines.join("")}trailer\n`));
+    write(bytesOf(pdfDoc.context.obj({ Size: size, Root, Info, ID, Prev: previous })));
+    write(toLatin1Bytes("\n"));
+  }
+  write(toLatin1Bytes(`startxref\n${xrefOffset}\n%%EOF\n`));
+
+  const output = new Uint8Array(offset);
+  let position = 0;
+  chunks.forEach((chunk) => {
+    output.set(chunk, position);
+    position += chunk.length;
+  });
+  return output;
+};
+
+/**
+ * 回転とトリミングだけを、元のPDFの末尾に追記して保存する。電子署名を無効にしないための保存方法で、
+ * 1つの元PDFだけを、並べ替え・削除などをせずに保存するときに使う。
+ */
+export const savePdfIncremental = async (
+  originalBuffer: ArrayBuffer,
+  rotationMap: PageRotationMap,
+  options: IncrementalSaveOptions = {}
+): Promise<void> => {
+  assertBuffers([originalBuffer]);
+  const bytes = await buildIncrementalUpdate(originalBuffer, rotationMap, options.cropMap ?? {});
+  const blob = new Blob([Uint8Array.from(bytes).buffer], { type: "application/pdf" });
+  options.onOutputSize?.(blob.size);
+  downloadBlob(blob, options.fileName ?? "rotated.pdf", options.enableFallbackOpen);
+};
+
+/**
+ * 選択ページだけを現在の並び順で新しいPDFに書き出す。削除ページは含めない。
+ * 回転・傾き補正・トリミングは savePdfWithRotation と同じ手順で適用する。
+ */
+export const savePdfExtract = async (
+  originalBuffer: ArrayBuffer | ArrayBuffer[],
+  rotationMap: PageRotationMap,
+  selectedPages: number[],
+  options: ExtractSaveOptions
+): Promise<void> => {
+  const buffers = Array.isArray(originalBuffer) ? originalBuffer : [originalBuffer];
+  assertBuffers(buffers);
+  // 出力の設定はそのまま渡し、新しい設定を足しても抽出で落とさない
+  const { numPages, fileName, enableFallbackOpen, onOutputSize, confirmDownload, deletedPages, pageOrder, ...output } =
+    options;
+  const deletedSet = new Set(deletedPages ?? []);
+  const normalized = normalizeSelectedPages(selectedPages, numPages).filter((page) => !deletedSet.has(page));
+  const pages = pageOrder ? sortPagesByOrder(normalized, pageOrder) : normalized;
+  if (pages.length === 0) {
+    throw new Error("抽出するページがありません");
+  }
+
+  const bytes = await buildPdfBytes(buffers, rotationMap, { ...output, pages });
+  const arrayBuffer = Uint8Array.from(bytes).buffer;
+  const blob = new Blob([arrayBuffer], { type: "application/pdf" });
+  await confirmAndDownload(blob, fileName ?? "extracted.pdf", { onOutputSize, confirmDownload, enableFallbackOpen });
+};
+
+/**
+ * ページのまとまりごとにPDFを作り、ZIPにまとめて保存する。
+ * 各PDFは savePdfWithRotation と同じ手順で回転を適用する。
+ */
+export const savePdfSplit = async (
+  originalBuffer: ArrayBuffer | ArrayBuffer[],
+  rotationMap: PageRotationMap,
+  parts: SplitPart[],
+  options: SplitSaveOptions = {}
+): Promise<void> => {
+  const buffers = Array.isArray(originalBuffer) ? originalBuffer : [originalBuffer];
+  assertBuffers(buffers);
+  if (parts.length === 0 || parts.some((part) => part.pages.length === 0)) {
+    throw new Error("分割後のファイルにページがありません");
+  }
+
+  // 出力の設定はそのまま渡し、新しい設定を足しても分割で落とさない
+  const { zipFileName, enableFallbackOpen, onOutputSize, confirmDownload, stamp, onSanitize, ...output } = options;
+  const entries: ZipEntry[] = [];
+  // 連番は分割したファイルをまたいで続ける
+  let stampedPages = 0;
+  const removed: ActiveContentFinding[] = [];
+  for (const part of parts) {
+    // 文書全体のもの（ページ番号が無いもの）はどのファイルからも取り除くので、最初のファイルの分だけ数える
+    const isFirstPart = entries.length === 0;
+    const bytes = await buildPdfBytes(buffers, rotationMap, {
+      ...output,
+      pages: part.pages,
+      stamp: stamp && { ...stamp, startNumber: stamp.startNumber + stampedPages },
+      onSanitize: (partRemoved) =>
+        removed.push(...partRemoved.filter((finding) => isFirstPart || finding.pageNumber !== undefined)),
+    });
+    entries.push({ name: part.fileName, data: bytes });
+    stampedPages += part.pages.length;
+  }
+  if (output.sanitize) onSanitize?.(removed);
+  const zip = createZip(entries);
+  await confirmAndDownload(zip, zipFileName ?? "split.zip", { onOutputSize, confirmDownload, enableFallbackOpen });
+};
@@ -1,11 +1,33 @@
 import { describe, expect, it, vi } from "vitest";
-import { createPdfLoader, type PdfDocumentProxy, type PdfJsLike } from "./pdf";
+import {
+  createPdfLoader,
+  PdfLoadError,
+  readPageRotations,
+  renderPageToCanvas,
+  type PdfDocumentProxy,
+  type PdfJsLike,
+  type PdfLoadingTask,
+  type PdfPageProxy,
+} from "./pdf";
 
 const makeDoc = (): PdfDocumentProxy => ({
   numPages: 1,
   getPage: vi.fn(),
 });
 
+const makePage = (rotate?: number): PdfPageProxy => ({
+  rotate,
+  getViewport: vi.fn(() => ({ width: 100, height: 100 })),
+  render: vi.fn(() => ({ promise: Promise.resolve() })),
+});
+
+const makeCanvas = (): HTMLCanvasElement =>
+  ({
+    width: 0,
+    height: 0,
+    getContext: () => ({}) as CanvasRenderingContext2D,
+  }) as unknown as HTMLCanvasElement;
+
 describe("createPdfLoader", () => {
   it("PDF.js に渡しても呼び出し元の ArrayBuffer が detached にならない", async () => {
     const doc = makeDoc();
@@ -24,5 +46,145 @@ describe("createPdfLoader", () => {
 
     expect(buffer.byteLength).toBeGreaterThan(0);
   });
+
+  /** 正しいパスワードが渡されるまでパスワードを要求する PDF.js の代わり */
+  const makePasswordPdfJs = (doc: PdfDocumentProxy, correctPassword: string): PdfJsLike => ({
+    getDocument: () => {
+      const passwordError = (code: number) => Object.assign(new Error("password"), { name: "PasswordException", code });
+      const task: PdfLoadingTask = {
+        promise: new Promise<PdfDocumentProxy>((resolve, reject) => {
+          const request = (reason: number) => {
+            if (!task.onPassword) {
+              reject(passwordError(reason));
+              return;
+            }
+            task.onPassword((password) => {
+              if (password instanceof Error) reject(passwordError(reason));
+              else if (password === correctPassword) resolve(doc);
+              else request(2);
+            }, reason);
+          };
+          queueMicrotask(() => request(1));
+        }),
+      };
+      return task;
+    },
+  });
+
+  it("パスワードを尋ね、違えば理由を incorrect にして尋ね直す", async () => {
+    const doc = makeDoc();
+    const onPassword = vi.fn().mockResolvedValueOnce("wrong").mockResolvedValueOnce("secret");
+    const loader = createPdfLoader(makePasswordPdfJs(doc, "secret"));
+
+    await expect(loader.loadFromArrayBuffer(new Uint8Array([1]).buffer, { onPassword })).resolves.toBe(doc);
+
+    expect(onPassword.mock.calls).toEqual([["required"], ["incorrect"]]);
+  });
+
+  it("パスワードの入力を取り消すと password_cancelled のエラーにする", async () => {
+    const loader = createPdfLoader(makePasswordPdfJs(makeDoc(), "secret"));
+
+    const result = loader.loadFromArrayBuffer(new Uint8Array([1]).buffer, { onPassword: async () => null });
+
+    await expect(result).rejects.toBeInstanceOf(PdfLoadError);
+    await expect(result).rejects.toMatchObject({
+      code: "password_cancelled",
+      message: "パスワードの入力が取り消されました",
+    });
+  });
+
+  it("パスワードを尋ねる手段がなければ password_required のエラーにする", async () => {
+    const loader = createPdfLoader(makePasswordPdfJs(makeDoc(), "secret"));
+
+    await expect(loader.loadFromArrayBuffer(new Uint8Array([1]).buffer)).rejects.toMatchObject({
+      code: "password_required",
+      message: "パスワードで保護されたPDFです",
+    });
+  });
+
+  it("壊れたPDFとそれ以外の失敗を区別する", async () => {
+    const failWith = (error: Error): PdfJsLike => ({
+      getDocument: () => ({ promise: Promise.reject(error) }),
+    });
+    const buffer = new Uint8Array([1]).buffer;
+    const invalid = Object.assign(new Error("Invalid PDF structure."), { name: "InvalidPDFException" });
+    const passwordIncorrect = Object.assign(new Error("Incorrect Password"), { name: "PasswordException", code: 2 });
+
+    await expect(createPdfLoader(failWith(invalid)).loadFromArrayBuffer(buffer)).rejects.toMatchObject({
+      code: "invalid_pdf",
+      message: "PDFファイルが壊れているか、PDF形式ではありません",
+    });
+    await expect(createPdfLoader(failWith(passwordIncorrect)).loadFromArrayBuffer(buffer)).rejects.toMatchObject({
+      code: "incorrect_password",
+      message: "パスワードが違います",
+    });
+    await expect(createPdfLoader(failWith(new Error("boom"))).loadFromArrayBuffer(buffer)).rejects.toMatchObject({
+      code: "unknown",
+      message: "PDFの読み込みに失敗しました",
+    });
+  });
 });
 
+describe("renderPageToCanvas", () => {
+  it("ページ元来の/Rotateに回転差分を加算して描画する", async () => {
+    const page = makePage(90);
+
+    await renderPageToCanvas(page, makeCanvas(), { scale: 1, rotation: 90 });
+
+    expect(page.getViewport).toHaveBeenCalledWith({ scale: 1, rotation: 180 });
+  });
+
+  it("回転差分が未指定なら元の/Rotateのまま描画する", async () => {
+    const page = makePage(270);
+
+    await renderPageToCanvas(page, makeCanvas(), { scale: 1 });
+
+    expect(page.getViewport).toHaveBeenCalledWith({ scale: 1, rotation: 270 });
+  });
+
+  it("トリミング範囲だけをずらして描画し、キャンバスをその大きさにする", async () => {
+    const page = makePage(0);
+    const canvas = makeCanvas();
+
+    const size = await renderPageToCanvas(page, canvas, {
+      scale: 1,
+      crop: { x: 0.1, y: 0.2, width: 0.5, height: 0.4 },
+    });
+
+    expect(size).toEqual({ width: 50, height: 40 });
+    expect(canvas.width).toBe(50);
+    expect(canvas.height).toBe(40);
+    expect(page.render).toHaveBeenCalledWith(
+      expect.objectContaining({ transform: [1, 0, 0, 1, -10, -20] })
+    );
+  });
+
+  it("墨消し範囲をトリミング後の位置に合わせて黒く塗る", async () => {
+    const page = makePage(0);
+    const fillRect = vi.fn();
+    const ctx = { fillRect, fillStyle: "" };
+    const canvas = { width: 0, height: 0, getContext: () => ctx } as unknown as HTMLCanvasElement;
+
+    await renderPageToCanvas(page, canvas, {
+      scale: 1,
+      crop: { x: 0.1, y: 0.2, width: 0.5, height: 0.4 },
+      redactions: [{ x: 0.2, y: 0.3, width: 0.1, height: 0.05 }],
+    });
+
+    expect(ctx.fillStyle).toBe("#000");
+    const [x, y, width, height] = fillRect.mock.calls[0];
+    expect([x, y, width, height].map((value: number) => Math.round(value * 1000) / 1000)).toEqual([10, 10, 10, 5]);
+  });
+});
+
+describe("readPageRotations", () => {
+  it("0度以外の元の/Rotateだけをページ番号で返す", async () => {
+    const pages = [makePage(0), makePage(90), makePage(undefined), makePage(180)];
+    const doc: PdfDocumentProxy = {
+      numPages: pages.length,
+      getPage: vi.fn(async (pageNumber: number) => pages[pageNumber - 1]),
+    };
+
+    await expect(readPageRotations(doc)).resolves.toEqual({ 2: 90, 4: 180 });
+  });
+});
@@ -1,11 +1,58 @@
+import type { CropRect } from "./crop";
+import { composeRotation, resolveIntrinsicRotation, type PageRotationMap } from "./rotation";
+
 export type PdfPageViewport = {
   width: number;
   height: number;
 };
 
+/** PDF.js の getTextContent が返す文字の断片。transform はユーザー空間での文字の配置（e, f が基準線の始点） */
+export type PdfTextItem = {
+  str?: string;
+  transform?: number[];
+  width?: number;
+  height?: number;
+};
+
+/** PDF.js の getAnnotations が返す注釈の情報（使う項目だけ） */
+export type PdfAnnotationData = {
+  subtype?: string;
+  /** [x1, y1, x2, y2]（ユーザー空間の座標） */
+  rect?: number[];
+  contentsObj?: { str?: string };
+  contents?: string;
+  /** 以下はフォームの入力欄（/Widget）の項目 */
+  fieldType?: string;
+  fieldName?: string;
+  fieldValue?: string | string[] | null;
+  checkBox?: boolean;
+  radioButton?: boolean;
+  pushButton?: boolean;
+  /** チェックボックスがオンのときの値 */
+  exportValue?: string;
+  /** ラジオボタンのこの選択肢の値 */
+  buttonValue?: string;
+  options?: Array<{ exportValue?: string; displayValue?: string }>;
+  combo?: boolean;
+  multiLine?: boolean;
+  readOnly?: boolean;
+  hidden?: boolean;
+};
+
 export type PdfPageProxy = {
+  /** PDFに元から設定されている /Rotate（PDF.js が正規化した値） */
+  rotate?: number;
+  /** 表示領域 [左, 下, 右, 上]（ユーザー空間の座標） */
+  view?: number[];
+  getTextContent?: () => Promise<{ items: PdfTextItem[] }>;
+  getAnnotations?: () => Promise<PdfAnnotationData[]>;
   getViewport: (params: { scale: number; rotation?: number }) => PdfPageViewport;
-  render: (params: { canvasContext: CanvasRenderingContext2D; viewport: PdfPageViewport }) => {
+  render: (params: {
+    canvasContext: CanvasRenderingContext2D;
+    viewport: PdfPageViewport;
+    /** 描画位置をずらす変換行列（トリミング範囲だけを描画するときに使う） */
+    transform?: number[];
+  }) => {
     promise: Promise<unknown>;
   };
 };
@@ -13,20 +60,86 @@ export type PdfPageProxy = {
 export type PdfDocumentProxy = {
   numPages: number;
   getPage: (pageNumber: number) => Promise<PdfPageProxy>;
+  /** 文書情報（/Info）。PDF.js の文書は持つが、束ねた文書や白紙の文書は持たない */
+  getMetadata?: () => Promise<{ info: Record<string, unknown> | null; metadata?: unknown }>;
+  /** しおり（/Outlines）の木。PDF.js の文書だけが持ち、しおりが無ければ null */
+  getOutline?: () => Promise<PdfOutlineNode[] | null>;
+  /** 名前付きの移動先を解決する */
+  getDestination?: (name: string) => Promise<unknown[] | null>;
+  /** ページオブジェクトの参照から 0 始まりのページ位置を求める */
+  getPageIndex?: (ref: unknown) => Promise<number>;
+};
+
+/** PDF.js の getOutline が返すしおりの項目（使う項目だけ） */
+export type PdfOutlineNode = {
+  title: string;
+  /** 名前付きの移動先、または [ページ参照, /XYZ, ...] の配列。URL などのリンクなら null */
+  dest: string | unknown[] | null;
+  items: PdfOutlineNode[];
 };
 
 export type PdfLoader = {
   loadFromArrayBuffer: (buffer: ArrayBuffer, options?: LoadOptions) => Promise<PdfDocumentProxy>;
 };
 
+export type PdfLoadingTask = {
+  promise: Promise<PdfDocumentProxy>;
+  /** 設定するとパスワードが必要なときに呼ばれる（reason は 1: 未入力、2: 不一致） */
+  onPassword?: ((updatePassword: (password: string | Error) => void, reason: number) => void) | null;
+};
+
 export type PdfJsLike = {
-  getDocument: (src: { data: ArrayBuffer }) => { promise: Promise<PdfDocumentProxy> };
+  getDocument: (src: { data: ArrayBuffer }) => PdfLoadingTask;
   GlobalWorkerOptions?: { workerSrc?: string };
 };
 
+/** required: 初めて尋ねる、incorrect: 直前に入力したパスワードが違った */
+export type PasswordReason = "required" | "incorrect";
+
 export type LoadOptions = {
   workerSrc?: string;
   baseUrl?: string;
+  /** パスワードを尋ねる。null を返すと読み込みを取りやめる */
+  onPassword?: (reason: PasswordReason) => Promise<string | null>;
+};
+
+export type PdfLoadErrorCode =
+  | "password_required"
+  | "incorrect_password"
+  | "password_cancelled"
+  | "invalid_pdf"
+  | "unknown";
+
+const LOAD_ERROR_MESSAGES: Record<PdfLoadErrorCode, string> = {
+  password_required: "パスワードで保護されたPDFです",
+  incorrect_password: "パスワードが違います",
+  password_cancelled: "パスワードの入力が取り消されました",
+  invalid_pdf: "PDFファイルが壊れているか、PDF形式ではありません",
+  unknown: "PDFの読み込みに失敗しました",
+};
+
+/** PDFを読み込めなかった理由を code で区別できるエラー */
+export class PdfLoadError extends Error {
+  code: PdfLoadErrorCode;
+
+  constructor(code: PdfLoadErrorCode, options?: { cause?: unknown }) {
+    super(LOAD_ERROR_MESSAGES[code], options);
+    this.name = "PdfLoadError";
+    this.code = code;
+  }
+}
+
+/** PDF.js の PasswordResponses.INCORRECT_PASSWORD */
+const INCORRECT_PASSWORD = 2;
+
+const toLoadErrorCode = (error: unknown, cancelled: boolean): PdfLoadErrorCode => {
+  const { name, code } = (error ?? {}) as { name?: unknown; code?: unknown };
+  if (name === "PasswordException") {
+    if (cancelled) return "password_cancelled";
+    return code === INCORRECT_PASSWORD ? "incorrect_password" : "password_required";
+  }
+  if (name === "InvalidPDFException") return "invalid_pdf";
+  return "unknown";
 };
 
 export const resolveWorkerSrc = (): string =>
@@ -44,22 +157,58 @@ export const createPdfLoader = (pdfjs: PdfJsLike) => {
         pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
       }
 
+      let cancelled = false;
       try {
         // pdfjs-dist は内部で ArrayBuffer を Worker に transfer し、呼び出し元の buffer が
         // detached（byteLength=0）になる場合があるため、常にコピーを渡す。
         const bufferForPdfJs = buffer.slice(0);
         const task = pdfjs.getDocument({ data: bufferForPdfJs });
+        const onPassword = options?.onPassword;
+        if (onPassword) {
+          task.onPassword = (updatePassword, reason) => {
+            // Error を渡すと PDF.js はパスワード例外で読み込みを終える
+            const cancel = () => {
+              cancelled = true;
+              updatePassword(new PdfLoadError("password_cancelled"));
+            };
+            onPassword(reason === INCORRECT_PASSWORD ? "incorrect" : "required").then(
+              (password) => (password === null ? cancel() : updatePassword(password)),
+              cancel
+            );
+          };
+        }
         return await task.promise;
       } catch (error) {
-        throw new Error("PDFの読み込みに失敗しました", { cause: error as Error });
+        throw new PdfLoadError(toLoadErrorCode(error, cancelled), { cause: error });
       }
     },
   };
 };
 
+/**
+ * 全ページの元の /Rotate を取得する。0 度のページはマップに含めない。
+ */
+export const readPageRotations = async (doc: PdfDocumentProxy): Promise<PageRotationMap> => {
+  const pageNumbers = Array.from({ length: doc.numPages }, (_, index) => index + 1);
+  const pages = await Promise.all(pageNumbers.map((pageNumber) => doc.getPage(pageNumber)));
+  const rotations: PageRotationMap = {};
+  pages.forEach((page, index) => {
+    const rotation = resolveIntrinsicRotation(page?.rotate);
+    if (rotation !== 0) {
+      rotations[index + 1] = rotation;
+    }
+  });
+  return rotations;
+};
+
 export type RenderOptions = {
   scale: number;
+  /** ページ元来の /Rotate に加算する回転差分 */
   rotation?: number;
+  /** 表示する範囲（回転後の向きでの相対座標）。指定するとその範囲だけを描画する */
+  crop?: CropRect;
+  /** 描画した後に黒く塗りつぶす範囲（回転後の向きでの、ページ全体に対する相対座標） */
+  redactions?: CropRect[];
   maxWidth?: number;
   maxHeight?: number;
   maxCanvasWidth?: number;
@@ -116,7 +265,7 @@ export const renderPageToCanvas = async (
     throw new Error("スケールは正の数で指定してください");
   }
 
-  const rotation = options.rotation ?? 0;
+  const rotation = composeRotation(page.rotate, options.rotation ?? 0);
   const baseViewport = page.getViewport({
     scale: options.scale,
     rotation,
@@ -126,18 +275,43 @@ export const renderPageToCanvas = async (
     resolveLimit(options.maxWidth ?? options.maxCanvasWidth) ?? DEFAULT_MAX_CANVAS_DIMENSION;
   const maxHeight =
     resolveLimit(options.maxHeight ?? options.maxCanvasHeight) ?? DEFAULT_MAX_CANVAS_DIMENSION;
-  const clamped = clampViewport(baseViewport, maxWidth, maxHeight);
+  const crop = options.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  // 上限はトリミング後の大きさに対して適用する
+  const clamped = clampViewport(
+    { width: baseViewport.width * crop.width, height: baseViewport.height * crop.height },
+    maxWidth,
+    maxHeight
+  );
   const viewport =
     clamped.scale < 1
       ? page.getViewport({ scale: options.scale * clamped.scale, rotation })
       : baseViewport;
 
-  canvas.width = Math.round(viewport.width);
-  canvas.height = Math.round(viewport.height);
+  const width = viewport.width * crop.width;
+  const height = viewport.height * crop.height;
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
 
-  const renderTask = page.render({ canvasContext: ctx, viewport });
+  const renderTask = options.crop
+    ? page.render({
+        canvasContext: ctx,
+        viewport,
+        transform: [1, 0, 0, 1, -viewport.width * crop.x, -viewport.height * crop.y],
+      })
+    : page.render({ canvasContext: ctx, viewport });
   await renderTask.promise;
-  return { width: viewport.width, height: viewport.height };
+  if (options.redactions && options.redactions.length > 0) {
+    ctx.fillStyle = "#000";
+    options.redactions.forEach((rect) => {
+      ctx.fillRect(
+        (rect.x - crop.x) * viewport.width,
+        (rect.y - crop.y) * viewport.height,
+        rect.width * viewport.width,
+        rect.height * viewport.height
+      );
+    });
+  }
+  return { width, height };
 };
 
 export type PageCache<T> = {
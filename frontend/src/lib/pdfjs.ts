@@ -1,4 +1,4 @@
-import { createPdfLoader, resolveWorkerSrc, type PdfDocumentProxy, type PdfJsLike, type PdfLoader } from "./pdf";
+import { createPdfLoader, resolveWorkerSrc, type PdfJsLike, type PdfLoader, type PdfLoadingTask } from "./pdf";
 
 export type PdfJsDistOptions = {
   workerSrc?: string;
@@ -26,7 +26,7 @@ export const createPdfJsDistLoader = (options: PdfJsDistOptions = {}): PdfLoader
       loaderPromise = loadPdfJsDist().then((pdfjsDist) => {
         const pdfjsLike: PdfJsLike = {
           getDocument: ({ data }) =>
-            pdfjsDist.getDocument({ data }) as unknown as { promise: Promise<PdfDocumentProxy> },
+            pdfjsDist.getDocument({ data }) as unknown as PdfLoadingTask,
           GlobalWorkerOptions: pdfjsDist.GlobalWorkerOptions as unknown as { workerSrc?: string },
         };
         return createPdfLoader(pdfjsLike);
@@ -39,7 +39,7 @@ export const createPdfJsDistLoader = (options: PdfJsDistOptions = {}): PdfLoader
     loadFromArrayBuffer: async (buffer, extraOptions) => {
       const workerSrc = extraOptions?.workerSrc ?? resolvedOptions.workerSrc;
       const loader = await getLoader();
-      return loader.loadFromArrayBuffer(buffer, { workerSrc });
+      return loader.loadFromArrayBuffer(buffer, { workerSrc, onPassword: extraOptions?.onPassword });
     },
   };
 };
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest";
+import type { PdfDocumentProxy, PdfPageProxy } from "./pdf";
+import { findRedactedText, normalizeRedactionRect, rasterizeRedactedPages } from "./redaction";
+
+const makePage = (overrides: Partial<PdfPageProxy> = {}): PdfPageProxy => ({
+  rotate: 0,
+  view: [0, 0, 200, 100],
+  getViewport: vi.fn(() => ({ width: 200, height: 100 })),
+  render: vi.fn(),
+  ...overrides,
+});
+
+describe("normalizeRedactionRect", () => {
+  it("ページ内に収めて丸め、ページ全体も受け付ける", () => {
+    expect(normalizeRedactionRect({ x: 0.5, y: 0.5, width: -0.6, height: 0.8 })).toEqual({
+      x: 0,
+      y: 0.5,
+      width: 0.5,
+      height: 0.5,
+    });
+    expect(normalizeRedactionRect({ x: 0, y: 0, width: 1, height: 1 })).toEqual({ x: 0, y: 0, width: 1, height: 1 });
+  });
+
+  it("小さすぎる範囲や不正な値はエラーにする", () => {
+    expect(() => normalizeRedactionRect({ x: 0.1, y: 0.1, width: 0.001, height: 0.5 })).toThrow(
+      "墨消し範囲が小さすぎます"
+    );
+    expect(() => normalizeRedactionRect({ x: Number.NaN, y: 0, width: 1, height: 1 })).toThrow("墨消し範囲が不正です");
+  });
+});
+
+describe("findRedactedText", () => {
+  it("範囲に重なる文字だけを返す（y は上から測る）", async () => {
+    const page = makePage({
+      getTextContent: async () => ({
+        items: [
+          // 左上の「秘密」は上から 10〜20%
+          { str: "秘密", transform: [10, 0, 0, 10, 20, 80], width: 20, height: 10 },
+          { str: "公開", transform: [10, 0, 0, 10, 20, 10], width: 20, height: 10 },
+          { str: " ", transform: [10, 0, 0, 10, 20, 80], width: 5, height: 10 },
+        ],
+      }),
+    });
+
+    await expect(findRedactedText(page, [{ x: 0, y: 0, width: 0.5, height: 0.25 }])).resolves.toEqual(["秘密"]);
+    await expect(findRedactedText(page, [{ x: 0.5, y: 0, width: 0.5, height: 1 }])).resolves.toEqual([]);
+  });
+
+  it("文字を取り出せないページは空にする", async () => {
+    await expect(findRedactedText(makePage(), [{ x: 0, y: 0, width: 1, height: 1 }])).resolves.toEqual([]);
+  });
+});
+
+describe("rasterizeRedactedPages", () => {
+  it("墨消しのあるページだけを回転前の向きで描いて範囲を塗り、JPEG にする", async () => {
+    const pages: Record<number, PdfPageProxy> = { 1: makePage({ rotate: 90 }), 2: makePage() };
+    const doc: PdfDocumentProxy = { numPages: 2, getPage: vi.fn(async (pageNumber: number) => pages[pageNumber]) };
+    const canvas = {
+      width: 0,
+      height: 0,
+      toBlob: vi.fn((callback: (blob: Blob | null) => void, type: string) => callback(new Blob(["jpeg"], { type }))),
+    };
+    const render = vi.fn(async () => {});
+    const rect = { x: 0.1, y: 0.2, width: 0.3, height: 0.4 };
+
+    const images = await rasterizeRedactedPages(doc, { 1: [rect] }, [2, 1], {
+      dpi: 144,
+      render,
+      createCanvas: () => canvas as unknown as HTMLCanvasElement,
+    });
+
+    expect(Object.keys(images)).toEqual(["1"]);
+    expect(images[1].format).toBe("jpeg");
+    expect(new TextDecoder().decode(images[1].data)).toBe("jpeg");
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(render.mock.calls[0]).toEqual([
+      pages[1],
+      canvas,
+      { scale: 2, rotation: -90, redactions: [rect], maxWidth: 10000, maxHeight: 10000 },
+    ]);
+    expect(canvas.toBlob).toHaveBeenCalledWith(expect.any(Function), "image/jpeg", 0.92);
+    expect(canvas.width).toBe(0);
+  });
+});
@@ -0,0 +1,136 @@
+import type { CropRect } from "./crop";
+import { MAX_IMAGE_EXPORT_DIMENSION, canvasToBytes, dpiToScale } from "./image-export";
+import { renderPageToCanvas, type PdfDocumentProxy, type PdfPageProxy, type RenderOptions } from "./pdf";
+
+/** ページごとの墨消し範囲（回転前の向きでの相対座標） */
+export type PageRedactionMap = Record<number, CropRect[]>;
+
+/** 保存時にページの内容と差し替える、墨消し済みの画像（表示領域全体を回転前の向きで描いたもの） */
+export type RedactedPageImage = {
+  data: Uint8Array;
+  format: "jpeg";
+};
+
+/** これより小さい墨消しは操作ミスとみなして受け付けない */
+export const MIN_REDACTION_SIZE = 0.005;
+
+/** 墨消ししたページを画像にするときの解像度 */
+export const REDACTION_DPI = 200;
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const roundRatio = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * 墨消し範囲をページ内に収めて丸める。トリミングと違い、ページ全体を塗りつぶす範囲も受け付ける。
+ */
+export const normalizeRedactionRect = (rect: CropRect): CropRect => {
+  const values = [rect.x, rect.y, rect.width, rect.height];
+  if (values.some((value) => !Number.isFinite(value))) {
+    throw new Error("墨消し範囲が不正です");
+  }
+  const left = clamp01(Math.min(rect.x, rect.x + rect.width));
+  const right = clamp01(Math.max(rect.x, rect.x + rect.width));
+  const top = clamp01(Math.min(rect.y, rect.y + rect.height));
+  const bottom = clamp01(Math.max(rect.y, rect.y + rect.height));
+  if (right - left < MIN_REDACTION_SIZE || bottom - top < MIN_REDACTION_SIZE) {
+    throw new Error("墨消し範囲が小さすぎます");
+  }
+  return {
+    x: roundRatio(left),
+    y: roundRatio(top),
+    width: roundRatio(right - left),
+    height: roundRatio(bottom - top),
+  };
+};
+
+export const isSameRedactions = (a: CropRect[] | undefined, b: CropRect[] | undefined): boolean => {
+  const left = a ?? [];
+  const right = b ?? [];
+  return (
+    left.length === right.length &&
+    left.every(
+      (rect, index) =>
+        rect.x === right[index].x &&
+        rect.y === right[index].y &&
+        rect.width === right[index].width &&
+        rect.height === right[index].height
+    )
+  );
+};
+
+const overlaps = (a: CropRect, b: CropRect): boolean =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+/**
+ * 墨消し範囲に重なる、抽出できる文字を返す。文字の位置は基準線と幅・高さからおおまかに求める。
+ * getTextContent を持たないページ（白紙など）は空にする。
+ */
+export const findRedactedText = async (page: PdfPageProxy, rects: CropRect[]): Promise<string[]> => {
+  if (!page.getTextContent || rects.length === 0) return [];
+  const viewport = page.getViewport({ scale: 1, rotation: 0 });
+  const [left, bottom, right, top] = page.view ?? [0, 0, viewport.width, viewport.height];
+  const width = right - left;
+  const height = top - bottom;
+  if (width <= 0 || height <= 0) return [];
+  const { items } = await page.getTextContent();
+  const found: string[] = [];
+  items.forEach((item) => {
+    const text = item.str?.trim();
+    if (!text || !item.transform) return;
+    const [, , c, d, x, y] = item.transform;
+    const itemHeight = item.height || Math.hypot(c, d);
+    const box = {
+      x: (x - left) / width,
+      y: 1 - (y + itemHeight - bottom) / height,
+      width: (item.width ?? 0) / width,
+      height: itemHeight / height,
+    };
+    if (rects.some((rect) => overlaps(rect, box))) {
+      found.push(text);
+    }
+  });
+  return found;
+};
+
+export type RedactionRasterOptions = {
+  dpi?: number;
+  createCanvas?: () => HTMLCanvasElement;
+  render?: (page: PdfPageProxy, canvas: HTMLCanvasElement, options: RenderOptions) => Promise<unknown>;
+};
+
+/**
+ * 墨消しするページを回転前の向きのまま画像にし、範囲を黒く塗りつぶす。
+ * 保存時はこの画像でページの内容を置き換え、範囲の下の文字や画像を残さない。
+ */
+export const rasterizeRedactedPages = async (
+  doc: PdfDocumentProxy,
+  redactionMap: PageRedactionMap,
+  pageNumbers: number[],
+  options: RedactionRasterOptions = {}
+): Promise<Record<number, RedactedPageImage>> => {
+  const targets = pageNumbers.filter((pageNumber) => (redactionMap[pageNumber]?.length ?? 0) > 0);
+  const images: Record<number, RedactedPageImage> = {};
+  if (targets.length === 0) return images;
+  const scale = dpiToScale(options.dpi ?? REDACTION_DPI);
+  const render = options.render ?? renderPageToCanvas;
+  const canvas = options.createCanvas?.() ?? document.createElement("canvas");
+  try {
+    for (const pageNumber of targets) {
+      const page = await doc.getPage(pageNumber);
+      // 元の /Rotate を打ち消して回転前の向きで描く（回転は保存時に /Rotate で付け直す）
+      await render(page, canvas, {
+        scale,
+        rotation: -(page.rotate ?? 0),
+        redactions: redactionMap[pageNumber],
+        maxWidth: MAX_IMAGE_EXPORT_DIMENSION,
+        maxHeight: MAX_IMAGE_EXPORT_DIMENSION,
+      });
+      images[pageNumber] = { data: await canvasToBytes(canvas, "jpeg"), format: "jpeg" };
+    }
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+  return images;
+};
@@ -1,5 +1,15 @@
 import { describe, expect, it } from "vitest";
-import { applyRotationChange, clampPageNumber, getPageRotation, normalizeRotation } from "./rotation";
+import {
+  applyRotationChange,
+  clampPageNumber,
+  composeRotation,
+  createBakeRotationMatrix,
+  getPageRotation,
+  normalizeRotation,
+  resolveIntrinsicRotation,
+  transformBox,
+  transformPoints,
+} from "./rotation";
 
 describe("normalizeRotation", () => {
   it("90度単位で0/90/180/270に正規化する", () => {
@@ -66,3 +76,53 @@ describe("clampPageNumber", () => {
     expect(() => clampPageNumber(1, 0)).toThrow("総ページ数は1以上である必要があります");
   });
 });
+
+describe("resolveIntrinsicRotation", () => {
+  it("元の/Rotateを0/90/180/270に正規化する", () => {
+    expect(resolveIntrinsicRotation(90)).toBe(90);
+    expect(resolveIntrinsicRotation(-90)).toBe(270);
+    expect(resolveIntrinsicRotation(540)).toBe(180);
+  });
+
+  it("未設定や90度単位でない値は0度として扱う", () => {
+    expect(resolveIntrinsicRotation(undefined)).toBe(0);
+    expect(resolveIntrinsicRotation(45)).toBe(0);
+    expect(resolveIntrinsicRotation(Number.NaN)).toBe(0);
+  });
+});
+
+describe("composeRotation", () => {
+  it("元の/Rotateに差分を加算した最終角度を返す", () => {
+    expect(composeRotation(90, 0)).toBe(90);
+    expect(composeRotation(90, 90)).toBe(180);
+    expect(composeRotation(270, 180)).toBe(90);
+    expect(composeRotation(undefined, 270)).toBe(270);
+  });
+
+  it("90度単位でない差分はエラーを投げる", () => {
+    expect(() => composeRotation(90, 30)).toThrow("回転角は90度単位である必要があります");
+  });
+});
+
+describe("createBakeRotationMatrix", () => {
+  const box = { x: 0, y: 0, width: 200, height: 300 };
+
+  it("見た目と同じ向きに回し、回した用紙の左下を原点にする", () => {
+    // 回転前の左上の角は、時計回りに90度回すと右上、180度で右下、270度で左下に来る
+    expect(transformPoints(createBakeRotationMatrix(box, 90), [0, 300])).toEqual([300, 200]);
+    expect(transformPoints(createBakeRotationMatrix(box, 180), [0, 300])).toEqual([200, 0]);
+    expect(transformPoints(createBakeRotationMatrix(box, 270), [0, 300])).toEqual([0, 0]);
+    expect(createBakeRotationMatrix(box, 0)).toEqual([1, 0, 0, 1, 0, 0]);
+  });
+
+  it("原点がずれた用紙も回した大きさの用紙に収める", () => {
+    const shifted = { x: 50, y: 20, width: 200, height: 300 };
+    expect(transformBox(createBakeRotationMatrix(shifted, 90), shifted)).toEqual({ x: 0, y: 0, width: 300, height: 200 });
+    expect(transformBox(createBakeRotationMatrix(shifted, 270), shifted)).toEqual({
+      x: 0,
+      y: 0,
+      width: 300,
+      height: 200,
+    });
+  });
+});
@@ -1,3 +1,5 @@
+import type { PageBox } from "./skew";
+
 export type Rotation = 0 | 90 | 180 | 270;
 
 export type PageRotationMap = Record<number, Rotation>;
@@ -35,6 +37,75 @@ export const getPageRotation = (rotationMap: PageRotationMap, pageNumber: number
   return normalizeRotation(rotationMap[pageNumber]);
 };
 
+/**
+ * PDFに元から設定されている /Rotate を正規化する。
+ * 90度単位でない不正値は PDF.js と同様に 0 度として扱う。
+ */
+export const resolveIntrinsicRotation = (value: number | undefined): Rotation => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value % 90 !== 0) {
+    return 0;
+  }
+  return normalizeRotation(value);
+};
+
+/**
+ * 元の /Rotate に回転マップの差分を加えた最終的な表示角度を返す。
+ * 描画・OCR・保存はすべてこの値を使う。
+ */
+export const composeRotation = (intrinsic: number | undefined, delta: number): Rotation => {
+  assertMultipleOf90(delta);
+  return normalizeRotation(resolveIntrinsicRotation(intrinsic) + delta);
+};
+
+export type RotationMatrix = [number, number, number, number, number, number];
+
+/**
+ * /Rotate の回転を内容に焼き込む変換行列 [a, b, c, d, e, f] を作る。
+ * box（MediaBox）を見た目と同じ向きに回し、回した用紙の左下が原点に来るよう移す。
+ */
+export const createBakeRotationMatrix = (box: PageBox, rotation: Rotation): RotationMatrix => {
+  const right = box.x + box.width;
+  const top = box.y + box.height;
+  // 原点にある用紙で移動量が -0 にならないよう 0 にそろえる
+  switch (rotation) {
+    case 90:
+      return [0, -1, 1, 0, -box.y || 0, right];
+    case 180:
+      return [-1, 0, 0, -1, right, top];
+    case 270:
+      return [0, 1, -1, 0, top, -box.x || 0];
+    default:
+      return [1, 0, 0, 1, 0, 0];
+  }
+};
+
+/** 点の並び [x1, y1, x2, y2, ...] に変換行列を掛ける */
+export const transformPoints = (matrix: RotationMatrix, points: number[]): number[] => {
+  const [a, b, c, d, e, f] = matrix;
+  return points.flatMap((value, index) =>
+    index % 2 === 0 ? [a * value + c * points[index + 1] + e, b * value + d * points[index + 1] + f] : []
+  );
+};
+
+/** 矩形に変換行列を掛け、四隅を囲む矩形を返す */
+export const transformBox = (matrix: RotationMatrix, box: PageBox): PageBox => {
+  const corners = transformPoints(matrix, [
+    box.x,
+    box.y,
+    box.x + box.width,
+    box.y,
+    box.x,
+    box.y + box.height,
+    box.x + box.width,
+    box.y + box.height,
+  ]);
+  const xs = corners.filter((_, index) => index % 2 === 0);
+  const ys = corners.filter((_, index) => index % 2 === 1);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
 export const clampPageNumber = (page: number, totalPages: number): number => {
   if (!Number.isFinite(totalPages) || totalPages < 1) {
     throw new Error("総ページ数は1以上である必要があります");
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFString, type PDFPage } from "pdf-lib";
+import { describeFinding, scanActiveContent, summarizeFindings } from "./sanitize";
+
+describe("describeFinding", () => {
+  it("種類に名前・リンク先とページ番号を添える", () => {
+    expect(describeFinding({ kind: "externalLink", pageNumber: 2, detail: "https://example.com/" })).toBe(
+      "外部へのリンク「https://example.com/」（p.2）"
+    );
+    expect(describeFinding({ kind: "autoAction" })).toBe("自動実行");
+  });
+});
+
+describe("summarizeFindings", () => {
+  it("種類ごとの件数を決まった順に並べ、無ければ空文字にする", () => {
+    expect(
+      summarizeFindings([
+        { kind: "embeddedFile", detail: "a.txt" },
+        { kind: "javascript" },
+        { kind: "javascript", pageNumber: 1 },
+      ])
+    ).toBe("JavaScript 2件、添付ファイル 1件");
+    expect(summarizeFindings([])).toBe("");
+  });
+});
+
+describe("scanActiveContent", () => {
+  const createActiveDocument = async () => {
+    const doc = await PDFDocument.create();
+    const page = doc.addPage([200, 200]);
+    const { context } = doc;
+    const script = (code: string) => context.register(context.obj({ S: "JavaScript", JS: PDFString.of(code) }));
+    const file = context.register(context.flateStream(new Uint8Array(4), { Type: "EmbeddedFile" }));
+    const fileSpec = context.obj({ Type: "Filespec", UF: PDFHexString.fromText("請求書.xlsx"), EF: { F: file } });
+    // JavaScript の名前ツリーは /Kids で分かれたものもたどる
+    const scriptLeaf = context.register(context.obj({ Names: [PDFString.of("b"), script("app.beep()")] }));
+    doc.catalog.set(
+      PDFName.of("Names"),
+      context.obj({
+        JavaScript: { Names: [PDFString.of("a"), script("app.alert(1)")], Kids: [scriptLeaf] },
+        EmbeddedFiles: { Names: [PDFHexString.fromText("請求書.xlsx"), context.register(fileSpec)] },
+      })
+    );
+    doc.catalog.set(PDFName.of("OpenAction"), script("this.print()"));
+    doc.catalog.set(PDFName.of("AA"), context.obj({ WC: script("app.alert(2)") }));
+    page.node.set(PDFName.of("AA"), context.obj({ O: context.obj({ S: "Launch", F: PDFString.of("a.exe") }) }));
+    const annot = (dict: object) => context.register(context.obj({ Type: "Annot", Rect: [0, 0, 10, 10], ...dict }));
+    page.node.set(
+      PDFName.of("Annots"),
+      context.obj([
+        annot({ Subtype: "Link", A: { S: "URI", URI: PDFString.of("https://example.com/") } }),
+        // 移動のあとに JavaScript がつながった動作は JavaScript として数える
+        annot({ Subtype: "Link", A: { S: "GoTo", D: [page.ref, "Fit"], Next: script("app.alert(3)") } }),
+        annot({ Subtype: "Link", A: { S: "Launch", F: PDFString.of("calc.exe") } }),
+        annot({ Subtype: "Link", A: { S: "GoTo", D: [page.ref, "Fit"] } }),
+      ])
+    );
+    const outlineItem = context.register(
+      context.obj({ Title: PDFString.of("外部"), A: { S: "URI", URI: PDFString.of("https://example.org/") } })
+    );
+    doc.catalog.set(PDFName.of("Outlines"), context.obj({ Type: "Outlines", First: outlineItem, Last: outlineItem }));
+    return { doc, page };
+  };
+
+  const scan = (doc: PDFDocument, page: PDFPage, remove: boolean) =>
+    scanActiveContent(doc, [{ page, pageNumber: 3 }], { remove });
+
+  it("文書とページのスクリプト・自動実行・起動・添付ファイル・外部へのリンクを数える", async () => {
+    const { doc, page } = await createActiveDocument();
+
+    expect(await scan(doc, page, false)).toEqual([
+      { kind: "javascript", detail: "a" },
+      { kind: "javascript", detail: "b" },
+      { kind: "embeddedFile", detail: "請求書.xlsx" },
+      { kind: "autoAction", detail: "JavaScript" },
+      { kind: "autoAction", detail: "JavaScript" },
+      { kind: "autoAction", pageNumber: 3, detail: "Launch" },
+      { kind: "externalLink", pageNumber: 3, detail: "https://example.com/" },
+      { kind: "javascript", pageNumber: 3, detail: undefined },
+      { kind: "launch", pageNumber: 3, detail: undefined },
+      { kind: "externalLink", detail: "https://example.org/" },
+    ]);
+    expect(doc.catalog.has(PDFName.of("OpenAction"))).toBe(true);
+    expect(page.node.Annots()?.size()).toBe(4);
+  });
+
+  it("remove なら取り除き、移動だけのリンクとしおりの項目は残す", async () => {
+    const { doc, page } = await createActiveDocument();
+
+    await scan(doc, page, true);
+
+    const names = doc.catalog.lookup(PDFName.of("Names"), PDFDict);
+    expect(names.has(PDFName.of("JavaScript"))).toBe(false);
+    expect(names.has(PDFName.of("EmbeddedFiles"))).toBe(false);
+    expect(doc.catalog.has(PDFName.of("OpenAction"))).toBe(false);
+    expect(doc.catalog.has(PDFName.of("AA"))).toBe(false);
+    expect(page.node.has(PDFName.of("AA"))).toBe(false);
+    const annots = page.node.Annots() as PDFArray;
+    expect(annots.size()).toBe(1);
+    expect(annots.lookup(0, PDFDict).lookup(PDFName.of("A"), PDFDict).lookup(PDFName.of("S"))).toBe(
+      PDFName.of("GoTo")
+    );
+    const outlines = doc.catalog.lookup(PDFName.of("Outlines"), PDFDict);
+    const item = outlines.lookup(PDFName.of("First"), PDFDict);
+    expect(item.has(PDFName.of("A"))).toBe(false);
+    expect(item.has(PDFName.of("Title"))).toBe(true);
+    expect(await scan(doc, page, false)).toEqual([]);
+  });
+
+  it("移動先だけの /OpenAction（配列）は開いたときの表示位置として残す", async () => {
+    const doc = await PDFDocument.create();
+    const page = doc.addPage([200, 200]);
+    doc.catalog.set(PDFName.of("OpenAction"), doc.context.obj([page.ref, "Fit"]));
+
+    expect(await scan(doc, page, true)).toEqual([]);
+    expect(doc.catalog.has(PDFName.of("OpenAction"))).toBe(true);
+  });
+});
@@ -0,0 +1,271 @@
+import type { PDFContext, PDFDict, PDFDocument, PDFObject, PDFPage } from "pdf-lib";
+
+type PdfLib = typeof import("pdf-lib");
+
+/** 共有する前に取り除きたい内容の種類 */
+export type ActiveContentKind = "javascript" | "autoAction" | "launch" | "embeddedFile" | "externalLink";
+
+export type ActiveContentFinding = {
+  kind: ActiveContentKind;
+  /** 見つかったページ（ワークスペースのページ番号）。文書全体のものは undefined */
+  pageNumber?: number;
+  /** スクリプトや添付ファイルの名前、リンク先、自動実行する動作の種類 */
+  detail?: string;
+};
+
+export const ACTIVE_CONTENT_LABELS: Record<ActiveContentKind, string> = {
+  javascript: "JavaScript",
+  autoAction: "自動実行",
+  launch: "外部プログラムの起動",
+  embeddedFile: "添付ファイル",
+  externalLink: "外部へのリンク",
+};
+
+/** 画面に出す1件の説明（「外部へのリンク「https://...」（p.2）」） */
+export const describeFinding = (finding: ActiveContentFinding): string =>
+  `${ACTIVE_CONTENT_LABELS[finding.kind]}${finding.detail ? `「${finding.detail}」` : ""}${
+    finding.pageNumber ? `（p.${finding.pageNumber}）` : ""
+  }`;
+
+/** 種類ごとの件数（「JavaScript 2件、添付ファイル 1件」）。何も無ければ空文字 */
+export const summarizeFindings = (findings: ActiveContentFinding[]): string =>
+  (Object.keys(ACTIVE_CONTENT_LABELS) as ActiveContentKind[])
+    .map((kind) => [kind, findings.filter((finding) => finding.kind === kind).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([kind, count]) => `${ACTIVE_CONTENT_LABELS[kind]} ${count}件`)
+    .join("、");
+
+const ACTION_KINDS: Record<string, ActiveContentKind> = {
+  JavaScript: "javascript",
+  Launch: "launch",
+  URI: "externalLink",
+  GoToR: "externalLink",
+  GoToE: "externalLink",
+  SubmitForm: "externalLink",
+  ImportData: "externalLink",
+};
+
+/** 1つの動作に複数の種類が含まれるとき、どれとして数えるか（危ないものを先に） */
+const KIND_PRIORITY: ActiveContentKind[] = ["javascript", "launch", "externalLink"];
+
+type ScanContext = {
+  pdfLib: PdfLib;
+  context: PDFContext;
+  remove: boolean;
+  findings: ActiveContentFinding[];
+  /** 入力欄とウィジェットが同じ辞書のときなどに、同じものを2回数えない */
+  seen: Set<PDFDict>;
+};
+
+const lookupDict = (scan: ScanContext, object: PDFObject | undefined): PDFDict | undefined => {
+  if (!object) return undefined;
+  const resolved = scan.context.lookup(object);
+  return resolved instanceof scan.pdfLib.PDFDict ? resolved : undefined;
+};
+
+const readText = (scan: ScanContext, object: PDFObject | undefined): string | undefined => {
+  const { PDFString, PDFHexString } = scan.pdfLib;
+  const resolved = object ? scan.context.lookup(object) : undefined;
+  return resolved instanceof PDFString || resolved instanceof PDFHexString ? resolved.decodeText() : undefined;
+};
+
+/** 動作の種類（/S）。/Next でつながった動作もたどり、取り除く対象の種類を集める */
+const readActionKinds = (scan: ScanContext, action: PDFDict): { kinds: Set<ActiveContentKind>; uri?: string } => {
+  const { PDFName, PDFArray } = scan.pdfLib;
+  const kinds = new Set<ActiveContentKind>();
+  let uri: string | undefined;
+  const visited = new Set<PDFDict>();
+  const pending: PDFDict[] = [action];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    const type = current.lookup(PDFName.of("S"));
+    const kind = type instanceof PDFName ? ACTION_KINDS[type.decodeText()] : undefined;
+    if (kind) kinds.add(kind);
+    // レンディションなど、/S が JavaScript でなくてもスクリプトを持てる動作がある
+    if (current.has(PDFName.of("JS"))) kinds.add("javascript");
+    uri ??= readText(scan, current.get(PDFName.of("URI")));
+    const next = current.get(PDFName.of("Next"));
+    const resolved = next ? scan.context.lookup(next) : undefined;
+    const nextActions = resolved instanceof PDFArray ? resolved.asArray() : next ? [next] : [];
+    nextActions.forEach((item) => {
+      const dict = lookupDict(scan, item);
+      if (dict) pending.push(dict);
+    });
+  }
+  return { kinds, uri };
+};
+
+const readActionType = (scan: ScanContext, action: PDFDict): string | undefined => {
+  const type = action.lookup(scan.pdfLib.PDFName.of("S"));
+  return type instanceof scan.pdfLib.PDFName ? type.decodeText() : undefined;
+};
+
+/** 名前ツリー（/Kids と /Names）に登録された名前を集める */
+const readNameTreeKeys = (scan: ScanContext, root: PDFDict): string[] => {
+  const { PDFName, PDFArray } = scan.pdfLib;
+  const keys: string[] = [];
+  const visited = new Set<PDFDict>();
+  const pending: PDFDict[] = [root];
+  while (pending.length > 0) {
+    const node = pending.pop()!;
+    if (visited.has(node)) continue;
+    visited.add(node);
+    const names = node.lookup(PDFName.of("Names"));
+    if (names instanceof PDFArray) {
+      for (let index = 0; index < names.size(); index += 2) {
+        keys.push(readText(scan, names.get(index)) ?? "");
+      }
+    }
+    const kids = node.lookup(PDFName.of("Kids"));
+    if (kids instanceof PDFArray) {
+      kids.asArray().forEach((kid) => {
+        const dict = lookupDict(scan, kid);
+        if (dict) pending.push(dict);
+      });
+    }
+  }
+  return keys;
+};
+
+/** 辞書の /AA（ページを開いたとき・入力欄に触れたときなどに実行する動作）を数えて取り除く */
+const scanAdditionalActions = (scan: ScanContext, dict: PDFDict, pageNumber?: number): void => {
+  const key = scan.pdfLib.PDFName.of("AA");
+  const actions = lookupDict(scan, dict.get(key));
+  if (!actions) return;
+  actions.entries().forEach(([, value]) => {
+    const action = lookupDict(scan, value);
+    scan.findings.push({ kind: "autoAction", pageNumber, detail: action && readActionType(scan, action) });
+  });
+  if (scan.remove) dict.delete(key);
+};
+
+/** 辞書の /A が取り除く対象なら数える。取り除くべきなら true を返す */
+const scanAction = (scan: ScanContext, dict: PDFDict, pageNumber?: number): boolean => {
+  const action = lookupDict(scan, dict.get(scan.pdfLib.PDFName.of("A")));
+  if (!action) return false;
+  const { kinds, uri } = readActionKinds(scan, action);
+  const kind = KIND_PRIORITY.find((candidate) => kinds.has(candidate));
+  if (!kind) return false;
+  scan.findings.push({ kind, pageNumber, detail: kind === "externalLink" ? uri : undefined });
+  return true;
+};
+
+const scanAnnotations = (scan: ScanContext, page: PDFPage, pageNumber: number): void => {
+  const { PDFName } = scan.pdfLib;
+  const annots = page.node.Annots();
+  if (!annots) return;
+  const removed: number[] = [];
+  for (let index = 0; index < annots.size(); index += 1) {
+    const annot = lookupDict(scan, annots.get(index));
+    if (!annot || scan.seen.has(annot)) continue;
+    scan.seen.add(annot);
+    const subtype = annot.lookup(PDFName.of("Subtype"));
+    let removeAnnot = false;
+    if (subtype === PDFName.of("FileAttachment")) {
+      const fileSpec = lookupDict(scan, annot.get(PDFName.of("FS")));
+      const fileName = fileSpec
+        ? (readText(scan, fileSpec.get(PDFName.of("UF"))) ?? readText(scan, fileSpec.get(PDFName.of("F"))))
+        : undefined;
+      scan.findings.push({ kind: "embeddedFile", pageNumber, detail: fileName });
+      removeAnnot = true;
+    }
+    if (scanAction(scan, annot, pageNumber)) {
+      // リンクは動作を外すと押しても何も起きない枠になるので、注釈ごと取り除く
+      if (subtype === PDFName.of("Link")) removeAnnot = true;
+      else if (scan.remove) annot.delete(PDFName.of("A"));
+    }
+    scanAdditionalActions(scan, annot, pageNumber);
+    if (removeAnnot) removed.push(index);
+  }
+  if (scan.remove) removed.reverse().forEach((index) => annots.remove(index));
+};
+
+/** 入力欄のツリーをたどり、ページの注釈として数えなかった入力欄の /AA（書式・計算のスクリプトなど）を扱う */
+const scanFormFields = (scan: ScanContext, acroForm: PDFDict): void => {
+  const { PDFName, PDFArray } = scan.pdfLib;
+  const pending: PDFObject[] = [...(acroForm.lookupMaybe(PDFName.of("Fields"), PDFArray)?.asArray() ?? [])];
+  while (pending.length > 0) {
+    const field = lookupDict(scan, pending.pop());
+    if (!field || scan.seen.has(field)) continue;
+    scan.seen.add(field);
+    if (scanAction(scan, field) && scan.remove) field.delete(PDFName.of("A"));
+    scanAdditionalActions(scan, field);
+    const kids = field.lookup(PDFName.of("Kids"));
+    if (kids instanceof PDFArray) pending.push(...kids.asArray());
+  }
+};
+
+/** しおりの /A（リンク先の URL やスクリプト）を扱う。移動先だけのしおりはそのまま */
+const scanOutline = (scan: ScanContext, outlines: PDFDict): void => {
+  const { PDFName } = scan.pdfLib;
+  const pending: PDFObject[] = [outlines.get(PDFName.of("First"))].filter((item): item is PDFObject => !!item);
+  const visited = new Set<PDFDict>();
+  while (pending.length > 0) {
+    const item = lookupDict(scan, pending.pop());
+    if (!item || visited.has(item)) continue;
+    visited.add(item);
+    if (scanAction(scan, item) && scan.remove) item.delete(PDFName.of("A"));
+    for (const key of ["First", "Next"]) {
+      const next = item.get(PDFName.of(key));
+      if (next) pending.push(next);
+    }
+  }
+};
+
+/**
+ * 文書とページから、スクリプト・自動実行する動作・外部プログラムの起動・添付ファイル・外部へのリンクを探す。
+ * remove なら見つけたものを取り除く（取り除いた後の参照されないオブジェクトは呼び出し側で消す）。
+ * ページは出力するものだけを渡し、pageNumber は結果に載せるページ番号にする。
+ */
+export const scanActiveContent = async (
+  pdfDoc: PDFDocument,
+  pages: Array<{ page: PDFPage; pageNumber: number }>,
+  options: { remove: boolean }
+): Promise<ActiveContentFinding[]> => {
+  const pdfLib = await import("pdf-lib");
+  const { PDFName } = pdfLib;
+  const { catalog } = pdfDoc;
+  const scan: ScanContext = {
+    pdfLib,
+    context: pdfDoc.context,
+    remove: options.remove,
+    findings: [],
+    seen: new Set(),
+  };
+
+  const names = lookupDict(scan, catalog.get(PDFName.of("Names")));
+  const nameTrees: Array<[string, ActiveContentKind]> = [
+    ["JavaScript", "javascript"],
+    ["EmbeddedFiles", "embeddedFile"],
+  ];
+  nameTrees.forEach(([key, kind]) => {
+    const tree = names && lookupDict(scan, names.get(PDFName.of(key)));
+    if (!names || !tree) return;
+    readNameTreeKeys(scan, tree).forEach((name) => scan.findings.push({ kind, detail: name || undefined }));
+    if (scan.remove) names.delete(PDFName.of(key));
+  });
+  // 添付ファイルを一覧で見せる指定（ポートフォリオ）は、添付ファイルを外すと意味が無くなる
+  if (scan.remove) catalog.delete(PDFName.of("Collection"));
+
+  // 移動先だけの /OpenAction（配列）は開いたときの表示位置なので残す
+  const openAction = lookupDict(scan, catalog.get(PDFName.of("OpenAction")));
+  if (openAction) {
+    scan.findings.push({ kind: "autoAction", detail: readActionType(scan, openAction) });
+    if (scan.remove) catalog.delete(PDFName.of("OpenAction"));
+  }
+  scanAdditionalActions(scan, catalog);
+
+  pages.forEach(({ page, pageNumber }) => {
+    scanAdditionalActions(scan, page.node, pageNumber);
+    scanAnnotations(scan, page, pageNumber);
+  });
+
+  const acroForm = lookupDict(scan, catalog.get(PDFName.of("AcroForm")));
+  if (acroForm) scanFormFields(scan, acroForm);
+  const outlines = lookupDict(scan, catalog.get(PDFName.of("Outlines")));
+  if (outlines) scanOutline(scan, outlines);
+
+  return scan.findings;
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeSignature,
+  findIncrementalBlockers,
+  findSignatures,
+  formatPdfDate,
+  type WorkspaceEdits,
+} from "./signature";
+
+const toBytes = (text: string): Uint8Array => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+const NO_EDITS: WorkspaceEdits = {
+  merged: false,
+  encrypted: false,
+  pagesReordered: false,
+  pagesDeleted: false,
+  pagesAdded: false,
+  deskewed: false,
+  redacted: false,
+  annotated: false,
+  formsChanged: false,
+  metadataChanged: false,
+  outlineChanged: false,
+  pageSizeNormalized: false,
+  stamped: false,
+  imposed: false,
+  rotationBaked: false,
+  imagesOptimized: false,
+  passwordChanged: false,
+  sanitized: false,
+};
+
+describe("findSignatures", () => {
+  it("署名辞書の /ByteRange と名前・日時・理由を読む", () => {
+    const body =
+      "%PDF-1.7\n5 0 obj\n<< /Type /Sig /Filter /Adobe.PPKLite /ByteRange [0 100 200 38] " +
+      "/Contents <00> /Name (Yamada \\(Taro\\)) /M (D:20261019123456+09'00') /Reason (\\101pproved) >>\nendobj\n";
+    const signatures = findSignatures(toBytes(body.padEnd(238, " ")));
+    expect(signatures).toEqual([
+      {
+        name: "Yamada (Taro)",
+        signedAt: "2026-10-19 12:34",
+        reason: "Approved",
+        byteRange: [0, 100, 200, 38],
+        coversWholeFile: true,
+      },
+    ]);
+  });
+
+  it("16進の UTF-16 の名前を読み、同じバイト範囲の署名辞書は1つにまとめる", () => {
+    const dict = "<< /Type /Sig /ByteRange [0 10 20 5] /Name <FEFF5C71 7530> >>";
+    const body = `1 0 obj\n${dict}\nendobj\n2 0 obj\n${dict}\nendobj\n3 0 obj\n<< /ByteRange [0 30 40 5] >>\nendobj\n`;
+    const signatures = findSignatures(toBytes(body));
+    expect(signatures.map((signature) => signature.name)).toEqual(["山田", undefined]);
+    expect(signatures.every((signature) => !signature.coversWholeFile)).toBe(true);
+  });
+
+  it("署名が無ければ空の配列を返す", () => {
+    expect(findSignatures(toBytes("%PDF-1.7\n1 0 obj\n<< /Type /Catalog >>\nendobj\n"))).toEqual([]);
+  });
+});
+
+describe("formatPdfDate", () => {
+  it("PDFの日付を年月日と時刻にし、読めなければそのまま返す", () => {
+    expect(formatPdfDate("D:2026101909")).toBe("2026-10-19 09:00");
+    expect(formatPdfDate("昨日")).toBe("昨日");
+  });
+});
+
+describe("describeSignature", () => {
+  it("番号と署名した人の名前を表示する", () => {
+    const signature = { byteRange: [0, 1, 2, 3] as [number, number, number, number], coversWholeFile: true };
+    expect(describeSignature({ ...signature, name: "山田" }, 0)).toBe("署名 1（山田）");
+    expect(describeSignature(signature, 1)).toBe("署名 2");
+  });
+});
+
+describe("findIncrementalBlockers", () => {
+  it("回転とトリミング以外の編集を名前で返す", () => {
+    expect(findIncrementalBlockers(NO_EDITS)).toEqual([]);
+    expect(findIncrementalBlockers({ ...NO_EDITS, pagesDeleted: true, stamped: true })).toEqual([
+      "ページの削除",
+      "スタンプ",
+    ]);
+  });
+});
@@ -0,0 +1,160 @@
+/** PDFに含まれる電子署名（署名辞書 /Sig・/DocTimeStamp） */
+export type PdfSignature = {
+  /** 署名した人の名前（/Name） */
+  name?: string;
+  /** 署名した日時（/M を「2026-10-19 12:34」の形にしたもの） */
+  signedAt?: string;
+  reason?: string;
+  /** 署名が守っているバイト範囲 [開始, 長さ, 開始, 長さ] */
+  byteRange: [number, number, number, number];
+  /** 署名がファイルの末尾までを守っているか（false なら署名の後に追記されている） */
+  coversWholeFile: boolean;
+};
+
+const BYTE_RANGE = /\/ByteRange\s*\[\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s*\]/g;
+
+const LITERAL_ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+
+/** 文字列のバイト（1文字1バイト）を、BOM があれば UTF-16BE、無ければそのまま文字にする */
+const decodePdfText = (raw: string): string => {
+  if (raw.charCodeAt(0) !== 0xfe || raw.charCodeAt(1) !== 0xff) return raw;
+  let text = "";
+  for (let index = 2; index + 1 < raw.length; index += 2) {
+    text += String.fromCharCode((raw.charCodeAt(index) << 8) | raw.charCodeAt(index + 1));
+  }
+  return text;
+};
+
+/** リテラル文字列 ( ... ) の中身を、括弧の入れ子とエスケープを解いて返す */
+const readLiteralString = (text: string, start: number): string => {
+  let raw = "";
+  let depth = 1;
+  for (let index = start; index < text.length; index += 1) {
+    const char = text[index];
+    if (char === "\\") {
+      const next = text[index + 1];
+      const octal = /^[0-7]{1,3}/.exec(text.slice(index + 1, index + 4));
+      if (octal) {
+        raw += String.fromCharCode(parseInt(octal[0], 8) & 0xff);
+        index += octal[0].length;
+      } else if (next === "\r" || next === "\n") {
+        // 行の継続
+        index += next === "\r" && text[index + 2] === "\n" ? 2 : 1;
+      } else {
+        raw += LITERAL_ESCAPES[next] ?? next;
+        index += 1;
+      }
+      continue;
+    }
+    if (char === "(") depth += 1;
+    if (char === ")") {
+      depth -= 1;
+      if (depth === 0) break;
+    }
+    raw += char;
+  }
+  return raw;
+};
+
+/** 辞書の文字列 /key ( ... ) または /key < ... > を読む。無ければ undefined */
+const readDictString = (dict: string, key: string): string | undefined => {
+  const match = new RegExp(`/${key}\\s*([(<])(?!<)`).exec(dict);
+  if (!match) return undefined;
+  const start = match.index + match[0].length;
+  if (match[1] === "(") return decodePdfText(readLiteralString(dict, start));
+  const hex = dict.slice(start, dict.indexOf(">", start)).replace(/\s/g, "");
+  const raw = (hex.length % 2 === 0 ? hex : `${hex}0`).replace(/../g, (pair) =>
+    String.fromCharCode(parseInt(pair, 16))
+  );
+  return decodePdfText(raw);
+};
+
+/** PDFの日付（D:YYYYMMDDHHmmSS...）を「YYYY-MM-DD HH:mm」にする。読めなければそのまま返す */
+export const formatPdfDate = (value: string): string => {
+  const match = /^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?/.exec(value);
+  if (!match) return value;
+  const [, year, month = "01", day = "01", hour = "00", minute = "00"] = match;
+  return `${year}-${month}-${day} ${hour}:${minute}`;
+};
+
+/**
+ * ファイルのバイト列から署名辞書を探す。署名辞書は署名の値を決まった位置に置くため圧縮されないので、
+ * /ByteRange を手がかりに見つけ、同じ辞書の /Name・/M・/Reason を読む。
+ */
+export const findSignatures = (bytes: Uint8Array): PdfSignature[] => {
+  const text = new TextDecoder("latin1").decode(bytes);
+  const signatures: PdfSignature[] = [];
+  for (const match of text.matchAll(BYTE_RANGE)) {
+    const byteRange = match.slice(1, 5).map(Number) as PdfSignature["byteRange"];
+    // 追記で同じ署名辞書が書き直されていることがあるので、バイト範囲が同じものは1つにする
+    if (signatures.some((signature) => signature.byteRange.join(" ") === byteRange.join(" "))) continue;
+    const start = Math.max(text.lastIndexOf(" obj", match.index), 0);
+    const end = text.indexOf("endobj", match.index);
+    const dict = text.slice(start, end < 0 ? undefined : end);
+    const signedAt = readDictString(dict, "M");
+    signatures.push({
+      name: readDictString(dict, "Name"),
+      signedAt: signedAt === undefined ? undefined : formatPdfDate(signedAt),
+      reason: readDictString(dict, "Reason"),
+      byteRange,
+      coversWholeFile: byteRange[2] + byteRange[3] === bytes.length,
+    });
+  }
+  return signatures;
+};
+
+/** 画面に出す署名の名前（「署名 1（山田太郎）」） */
+export const describeSignature = (signature: PdfSignature, index: number): string =>
+  signature.name ? `署名 ${index + 1}（${signature.name}）` : `署名 ${index + 1}`;
+
+/**
+ * 保存しようとしているワークスペースの編集。追記保存（ページ辞書だけを書き足す）で扱えるのは
+ * 回転とトリミングだけなので、それ以外の編集があるかを項目ごとに持つ。
+ */
+export type WorkspaceEdits = {
+  merged: boolean;
+  encrypted: boolean;
+  pagesReordered: boolean;
+  pagesDeleted: boolean;
+  pagesAdded: boolean;
+  deskewed: boolean;
+  redacted: boolean;
+  annotated: boolean;
+  formsChanged: boolean;
+  metadataChanged: boolean;
+  outlineChanged: boolean;
+  pageSizeNormalized: boolean;
+  stamped: boolean;
+  imposed: boolean;
+  rotationBaked: boolean;
+  imagesOptimized: boolean;
+  passwordChanged: boolean;
+  sanitized: boolean;
+};
+
+const INCREMENTAL_BLOCKER_LABELS: Record<keyof WorkspaceEdits, string> = {
+  merged: "PDFの結合",
+  encrypted: "パスワード付きのPDF",
+  pagesReordered: "ページの並べ替え",
+  pagesDeleted: "ページの削除",
+  pagesAdded: "白紙・複製ページの追加",
+  deskewed: "傾き補正",
+  redacted: "墨消し",
+  annotated: "注釈の追加",
+  formsChanged: "フォームの入力",
+  metadataChanged: "文書情報の変更",
+  outlineChanged: "しおりの編集",
+  pageSizeNormalized: "ページサイズの統一",
+  stamped: "スタンプ",
+  imposed: "割り付け",
+  rotationBaked: "回転の焼き込み",
+  imagesOptimized: "画像の圧縮",
+  passwordChanged: "パスワードの設定",
+  sanitized: "スクリプト・添付ファイルなどの除去",
+};
+
+/** 追記保存できない編集の名前を返す。空なら回転とトリミングだけなので追記保存できる */
+export const findIncrementalBlockers = (edits: WorkspaceEdits): string[] =>
+  (Object.keys(INCREMENTAL_BLOCKER_LABELS) as Array<keyof WorkspaceEdits>)
+    .filter((key) => edits[key])
+    .map((key) => INCREMENTAL_BLOCKER_LABELS[key]);
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  applySkewChange,
+  createDeskewMatrix,
+  formatSkewAngle,
+  normalizeSkewAngle,
+  toSkewCorrection,
+} from "./skew";
+
+describe("normalizeSkewAngle", () => {
+  it("0.1度単位に丸める", () => {
+    expect(normalizeSkewAngle(1.234)).toBe(1.2);
+    expect(normalizeSkewAngle(-2.25)).toBe(-2.2);
+    expect(normalizeSkewAngle(-0.01)).toBe(0);
+  });
+
+  it("範囲外や数値でない値はエラーを投げる", () => {
+    expect(() => normalizeSkewAngle(46)).toThrow("傾き補正は-45〜45度で指定してください");
+    expect(() => normalizeSkewAngle(NaN)).toThrow("傾き補正は-45〜45度で指定してください");
+  });
+});
+
+describe("toSkewCorrection", () => {
+  it("推定した傾きを打ち消す向きの補正角にする", () => {
+    expect(toSkewCorrection(2.5)).toBe(-2.5);
+    expect(toSkewCorrection(-1.3)).toBe(1.3);
+  });
+});
+
+describe("applySkewChange", () => {
+  it("補正角を設定し、0なら解除する", () => {
+    const original = { 1: 1.5 };
+    const updated = applySkewChange(original, 3, -2);
+    expect(updated).toEqual({ 1: 1.5, 3: -2 });
+    expect(original).toEqual({ 1: 1.5 });
+    expect(applySkewChange(updated, 1, 0)).toEqual({ 3: -2 });
+  });
+});
+
+describe("formatSkewAngle", () => {
+  it("符号付きで小数1桁まで表示する", () => {
+    expect(formatSkewAngle(1.5)).toBe("+1.5°");
+    expect(formatSkewAngle(-2)).toBe("-2.0°");
+    expect(formatSkewAngle(0)).toBe("0.0°");
+  });
+});
+
+describe("createDeskewMatrix", () => {
+  const apply = (matrix: number[], x: number, y: number) => [
+    matrix[0] * x + matrix[2] * y + matrix[4],
+    matrix[1] * x + matrix[3] * y + matrix[5],
+  ];
+
+  it("表示領域の中心を固定したまま回転する", () => {
+    const matrix = createDeskewMatrix({ x: 0, y: 0, width: 200, height: 100 }, 3);
+    const [cx, cy] = apply(matrix, 100, 50);
+    expect(cx).toBeCloseTo(100);
+    expect(cy).toBeCloseTo(50);
+  });
+
+  it("見た目で時計回りの補正はユーザー空間では負の回転になる", () => {
+    const matrix = createDeskewMatrix({ x: 0, y: 0, width: 100, height: 100 }, 90);
+    // 中心の右側の点は、時計回りに90度回すと中心の下側（y が小さい側）へ移る
+    const [x, y] = apply(matrix, 100, 50);
+    expect(x).toBeCloseTo(50);
+    expect(y).toBeCloseTo(0);
+  });
+});
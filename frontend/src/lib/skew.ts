@@ -0,0 +1,59 @@
+/**
+ * 傾き補正の角度（度）。見た目の向きで時計回りを正とし、ページ番号をキーにする。
+ * 90度単位の回転（PageRotationMap）とは独立に保持し、保存時に内容へ変換行列として適用する。
+ */
+export type PageSkewMap = Record<number, number>;
+
+export const MAX_SKEW_CORRECTION = 45;
+
+/** 0.1度単位に丸める。範囲外や数値でない値はエラーにする */
+export const normalizeSkewAngle = (value: number): number => {
+  if (!Number.isFinite(value) || Math.abs(value) > MAX_SKEW_CORRECTION) {
+    throw new Error(`傾き補正は-${MAX_SKEW_CORRECTION}〜${MAX_SKEW_CORRECTION}度で指定してください`);
+  }
+  const rounded = Math.round(value * 10) / 10;
+  return rounded === 0 ? 0 : rounded;
+};
+
+/**
+ * 推定した傾き（画像上で時計回りに傾いている角度）を打ち消す補正角に変換する。
+ */
+export const toSkewCorrection = (estimatedAngle: number): number => normalizeSkewAngle(-estimatedAngle);
+
+/** 補正角を設定する。0 の場合は補正を解除する */
+export const applySkewChange = (skewMap: PageSkewMap, pageNumber: number, angle: number): PageSkewMap => {
+  const normalized = normalizeSkewAngle(angle);
+  const next = { ...skewMap };
+  if (normalized === 0) {
+    delete next[pageNumber];
+  } else {
+    next[pageNumber] = normalized;
+  }
+  return next;
+};
+
+export const formatSkewAngle = (angle: number): string => {
+  const fixed = Math.abs(angle).toFixed(1);
+  if (angle > 0) return `+${fixed}°`;
+  if (angle < 0) return `-${fixed}°`;
+  return `${fixed}°`;
+};
+
+export type PageBox = { x: number; y: number; width: number; height: number };
+
+/**
+ * ページの表示領域の中心で内容を回転させる変換行列 [a, b, c, d, e, f] を作る。
+ * PDFのユーザー空間は y 軸が上向きのため、見た目で時計回りに回すには負の角度で回転させる。
+ * /Rotate による90度単位の回転は向きを保つ回転なので、補正角は見た目の向きのまま使える。
+ */
+export const createDeskewMatrix = (
+  box: PageBox,
+  correction: number
+): [number, number, number, number, number, number] => {
+  const radians = (-correction * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  return [cos, sin, -sin, cos, cx - cx * cos + cy * sin, cy - cx * sin - cy * cos];
+};
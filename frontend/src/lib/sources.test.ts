@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest";
+import type { PdfDocumentProxy } from "./pdf";
+import { createBlankPage, createCompositeDocument, findSourceIndex, resolveSourcePage } from "./sources";
+
+const makeDoc = (numPages: number): PdfDocumentProxy => ({
+  numPages,
+  getPage: vi.fn(async () => ({ getViewport: vi.fn(), render: vi.fn() })),
+});
+
+describe("findSourceIndex / resolveSourcePage", () => {
+  const sources = [
+    { pageOffset: 0, numPages: 2 },
+    { pageOffset: 2, numPages: 3 },
+  ];
+
+  it("通し番号から元PDFとそのページ番号を求める", () => {
+    expect(findSourceIndex(sources, 2)).toBe(0);
+    expect(findSourceIndex(sources, 3)).toBe(1);
+    expect(resolveSourcePage(sources, 5)).toEqual({ sourceIndex: 1, pageNumber: 3 });
+  });
+
+  it("範囲外のページは該当なしとする", () => {
+    expect(findSourceIndex(sources, 0)).toBe(-1);
+    expect(resolveSourcePage(sources, 6)).toBeNull();
+  });
+});
+
+describe("createCompositeDocument", () => {
+  it("元PDFが1つならその文書をそのまま返す", () => {
+    const doc = makeDoc(2);
+    expect(createCompositeDocument([{ doc, pageOffset: 0, numPages: 2 }])).toBe(doc);
+  });
+
+  it("ページ取得を該当する元PDFへ振り分ける", async () => {
+    const first = makeDoc(2);
+    const second = makeDoc(1);
+    const composite = createCompositeDocument([
+      { doc: first, pageOffset: 0, numPages: 2 },
+      { doc: second, pageOffset: 2, numPages: 1 },
+    ]);
+
+    expect(composite.numPages).toBe(3);
+    await composite.getPage(3);
+    expect(second.getPage).toHaveBeenCalledWith(1);
+    await expect(composite.getPage(4)).rejects.toThrow("ページ番号が不正です");
+  });
+
+  it("追加した白紙・複製ページも通し番号で取得できる", async () => {
+    const doc = makeDoc(2);
+    const composite = createCompositeDocument([{ doc, pageOffset: 0, numPages: 2 }], {
+      3: { kind: "blank", width: 200, height: 100 },
+      4: { kind: "duplicate", of: 1 },
+    });
+
+    expect(composite.numPages).toBe(4);
+    const blank = await composite.getPage(3);
+    expect(blank.getViewport({ scale: 1 })).toEqual({ width: 200, height: 100 });
+    await composite.getPage(4);
+    expect(doc.getPage).toHaveBeenCalledWith(1);
+  });
+});
+
+describe("createBlankPage", () => {
+  it("回転に応じて縦横を入れ替え、白で塗りつぶす", async () => {
+    const page = createBlankPage(100, 50);
+    expect(page.getViewport({ scale: 2, rotation: 90 })).toEqual({ width: 100, height: 200 });
+
+    const ctx = {
+      canvas: { width: 30, height: 20 },
+      save: vi.fn(),
+      restore: vi.fn(),
+      setTransform: vi.fn(),
+      fillRect: vi.fn(),
+      fillStyle: "",
+    };
+    await page.render({
+      canvasContext: ctx as unknown as CanvasRenderingContext2D,
+      viewport: { width: 30, height: 20 },
+    }).promise;
+    expect(ctx.fillStyle).toBe("#ffffff");
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 30, 20);
+  });
+});
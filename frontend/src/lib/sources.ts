@@ -0,0 +1,103 @@
+import type { PdfDocumentProxy, PdfPageProxy } from "./pdf";
+import { normalizeRotation } from "./rotation";
+
+/** ワークスペース内で1つの元PDFが占めるページ範囲（pageOffset + 1 .. pageOffset + numPages） */
+export type SourceRange = {
+  pageOffset: number;
+  numPages: number;
+};
+
+export type DocumentSource = SourceRange & {
+  doc: PdfDocumentProxy;
+};
+
+/**
+ * 元PDFに存在しない、ワークスペース上で追加したページ。
+ * blank は白紙（大きさはPDFの単位 pt）、duplicate は元PDFのページ of の複製。
+ */
+export type VirtualPage =
+  | { kind: "blank"; width: number; height: number }
+  | { kind: "duplicate"; of: number };
+
+export type VirtualPageMap = Record<number, VirtualPage>;
+
+/**
+ * ワークスペースのページ番号がどの元PDFに属するかを返す。該当しなければ -1。
+ */
+export const findSourceIndex = (sources: SourceRange[], pageNumber: number): number =>
+  sources.findIndex(
+    (source) => pageNumber > source.pageOffset && pageNumber <= source.pageOffset + source.numPages
+  );
+
+/**
+ * ワークスペースのページ番号を元PDF内のページ番号へ変換する。
+ */
+export const resolveSourcePage = (
+  sources: SourceRange[],
+  pageNumber: number
+): { sourceIndex: number; pageNumber: number } | null => {
+  const sourceIndex = findSourceIndex(sources, pageNumber);
+  if (sourceIndex < 0) return null;
+  return { sourceIndex, pageNumber: pageNumber - sources[sourceIndex].pageOffset };
+};
+
+/**
+ * 白紙ページを PDF.js のページと同じ形で扱えるようにする。描画は白で塗りつぶすだけ。
+ */
+export const createBlankPage = (width: number, height: number): PdfPageProxy => ({
+  rotate: 0,
+  getViewport: ({ scale, rotation = 0 }) => {
+    const swapped = normalizeRotation(rotation) % 180 !== 0;
+    return {
+      width: (swapped ? height : width) * scale,
+      height: (swapped ? width : height) * scale,
+    };
+  },
+  render: ({ canvasContext }) => {
+    canvasContext.save();
+    canvasContext.setTransform(1, 0, 0, 1, 0, 0);
+    canvasContext.fillStyle = "#ffffff";
+    canvasContext.fillRect(0, 0, canvasContext.canvas.width, canvasContext.canvas.height);
+    canvasContext.restore();
+    return { promise: Promise.resolve() };
+  },
+});
+
+/**
+ * 複数のPDFと追加したページを通し番号で扱える1つの文書として束ねる。
+ * 元PDFが1つで追加ページもなければ、その文書をそのまま返す。
+ */
+export const createCompositeDocument = (
+  sources: DocumentSource[],
+  virtualPages: VirtualPageMap = {}
+): PdfDocumentProxy => {
+  const virtualNumbers = Object.keys(virtualPages).map(Number);
+  if (sources.length === 1 && virtualNumbers.length === 0) {
+    return sources[0].doc;
+  }
+  const numPages = Math.max(
+    0,
+    ...sources.map((source) => source.pageOffset + source.numPages),
+    ...virtualNumbers
+  );
+  const getSourcePage = (pageNumber: number): Promise<PdfPageProxy> => {
+    const resolved = resolveSourcePage(sources, pageNumber);
+    if (!resolved) {
+      throw new Error("ページ番号が不正です");
+    }
+    return sources[resolved.sourceIndex].doc.getPage(resolved.pageNumber);
+  };
+  return {
+    numPages,
+    getPage: async (pageNumber: number): Promise<PdfPageProxy> => {
+      const virtualPage = virtualPages[pageNumber];
+      if (virtualPage?.kind === "blank") {
+        return createBlankPage(virtualPage.width, virtualPage.height);
+      }
+      if (virtualPage?.kind === "duplicate") {
+        return getSourcePage(virtualPage.of);
+      }
+      return getSourcePage(pageNumber);
+    },
+  };
+};
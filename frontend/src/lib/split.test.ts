@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSplitParts,
+  ensureUniqueFileNames,
+  formatExtractFileName,
+  formatPageRanges,
+  formatSplitFileName,
+  parsePageRanges,
+  resolveRangeParts,
+  splitPageOrder,
+} from "./split";
+
+describe("splitPageOrder", () => {
+  it("分割点のページから新しいファイルを始める", () => {
+    expect(splitPageOrder([1, 2, 3, 4, 5], [3, 5])).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it("並び順の先頭の分割点は無視し、並び替え後の順で区切る", () => {
+    expect(splitPageOrder([4, 1, 2, 3], [4, 2])).toEqual([[4, 1], [2, 3]]);
+  });
+
+  it("削除ページを除き、空になったまとまりは出力しない", () => {
+    expect(splitPageOrder([1, 2, 3, 4], [2, 3], [2, 3])).toEqual([[1], [4]]);
+    expect(splitPageOrder([1, 2, 3], [3], [1])).toEqual([[2], [3]]);
+  });
+});
+
+describe("parsePageRanges", () => {
+  it("カンマ区切りの範囲と単一ページを解析する", () => {
+    expect(parsePageRanges("1-3, 5 ,6〜7", 7)).toEqual([[1, 2, 3], [5], [6, 7]]);
+  });
+
+  it("不正な入力はエラーにする", () => {
+    expect(() => parsePageRanges("", 3)).toThrow("ページ範囲を入力してください");
+    expect(() => parsePageRanges("1-a", 3)).toThrow("ページ範囲の形式が不正です: 1-a");
+    expect(() => parsePageRanges("2-4", 3)).toThrow("ページ範囲は1〜3で指定してください: 2-4");
+    expect(() => parsePageRanges("3-1", 3)).toThrow("範囲の開始は終了以下で指定してください: 3-1");
+  });
+});
+
+describe("formatPageRanges / formatExtractFileName", () => {
+  it("連続するページ番号を範囲にまとめる", () => {
+    expect(formatPageRanges([7, 3, 4, 5, 6])).toBe("3-7");
+    expect(formatPageRanges([1, 3, 4, 9, 3])).toBe("1,3-4,9");
+    expect(formatPageRanges([])).toBe("");
+  });
+
+  it("元のファイル名にページ範囲の接尾辞を付ける", () => {
+    expect(formatExtractFileName("report.pdf", [3, 4, 5, 6, 7])).toBe("report_p3-7.pdf");
+    expect(formatExtractFileName("", [2])).toBe("document_p2.pdf");
+  });
+});
+
+describe("resolveRangeParts", () => {
+  it("範囲内のページを並び順に揃え、削除ページを除く", () => {
+    expect(resolveRangeParts([[1, 2, 3], [4]], [3, 1, 2, 4], [2])).toEqual([[3, 1], [4]]);
+    expect(resolveRangeParts([[2]], [1, 2], [2])).toEqual([]);
+  });
+});
+
+describe("formatSplitFileName", () => {
+  it("テンプレートのプレースホルダを置き換え、連番をゼロ埋めする", () => {
+    expect(
+      formatSplitFileName("{name}_{index}_p{start}-{end}_{count}", {
+        name: "scan.PDF",
+        index: 3,
+        total: 12,
+        pages: [5, 6, 8],
+      })
+    ).toBe("scan_03_p5-8_3.pdf");
+  });
+
+  it("ファイル名に使えない文字を置き換え、空のテンプレートは既定値を使う", () => {
+    expect(formatSplitFileName("a/b:{index}", { name: "x.pdf", index: 1, total: 1, pages: [1] })).toBe("a_b_1.pdf");
+    expect(formatSplitFileName(" ", { name: "", index: 2, total: 2, pages: [1] })).toBe("document_2.pdf");
+  });
+});
+
+describe("ensureUniqueFileNames / buildSplitParts", () => {
+  it("重複するファイル名に連番を付ける", () => {
+    expect(ensureUniqueFileNames(["a.pdf", "A.pdf", "a.pdf"])).toEqual(["a.pdf", "A (2).pdf", "a (3).pdf"]);
+  });
+
+  it("ページのまとまりにファイル名を割り当てる", () => {
+    expect(buildSplitParts([[1, 2], [3]], "{name}", "doc.pdf")).toEqual([
+      { fileName: "doc.pdf", pages: [1, 2] },
+      { fileName: "doc (2).pdf", pages: [3] },
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import { sortPagesByOrder } from "./page-order";
+
+export const DEFAULT_SPLIT_NAME_TEMPLATE = "{name}_{index}";
+
+export type SplitPart = {
+  fileName: string;
+  /** 出力するページ番号（この順で出力する） */
+  pages: number[];
+};
+
+/**
+ * 分割点（新しいファイルの先頭にするページ番号）で並び順を区切る。
+ * 削除ページは区切りの判定後に取り除くため、削除ページに置いた分割点も有効なまま残る。
+ */
+export const splitPageOrder = (
+  pageOrder: number[],
+  splitPoints: number[],
+  deletedPages: number[] = []
+): number[][] => {
+  const splitSet = new Set(splitPoints);
+  const deletedSet = new Set(deletedPages);
+  const parts: number[][] = [];
+  let current: number[] = [];
+  pageOrder.forEach((page, index) => {
+    if (index > 0 && splitSet.has(page)) {
+      parts.push(current);
+      current = [];
+    }
+    if (!deletedSet.has(page)) current.push(page);
+  });
+  parts.push(current);
+  return parts.filter((part) => part.length > 0);
+};
+
+/**
+ * "1-3, 4, 7-9" 形式のページ範囲を解析する。範囲ごとにページ番号の配列を返す。
+ */
+export const parsePageRanges = (text: string, numPages: number): number[][] => {
+  const tokens = text
+    .split(/[,、\s]+/)
+    .map((token) => token.trim())
+    .filter((token) => token.length > 0);
+  if (tokens.length === 0) {
+    throw new Error("ページ範囲を入力してください");
+  }
+  return tokens.map((token) => {
+    const match = /^(\d+)(?:[-–〜~](\d+))?$/.exec(token);
+    if (!match) {
+      throw new Error(`ページ範囲の形式が不正です: ${token}`);
+    }
+    const start = Number(match[1]);
+    const end = match[2] === undefined ? start : Number(match[2]);
+    if (start < 1 || end > numPages) {
+      throw new Error(`ページ範囲は1〜${numPages}で指定してください: ${token}`);
+    }
+    if (start > end) {
+      throw new Error(`範囲の開始は終了以下で指定してください: ${token}`);
+    }
+    return Array.from({ length: end - start + 1 }, (_, offset) => start + offset);
+  });
+};
+
+/**
+ * ページ番号を昇順に並べ、連続する番号をまとめた "3-7,9" 形式にする。
+ */
+export const formatPageRanges = (pages: number[]): string => {
+  const sorted = Array.from(new Set(pages)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let start = sorted[0];
+  sorted.forEach((page, index) => {
+    const next = sorted[index + 1];
+    if (next === page + 1) return;
+    ranges.push(start === page ? String(page) : `${start}-${page}`);
+    start = next;
+  });
+  return ranges.join(",");
+};
+
+/**
+ * ページ範囲を現在の並び順に揃え、削除ページを除く。空になった範囲は除外する。
+ */
+export const resolveRangeParts = (
+  ranges: number[][],
+  pageOrder: number[],
+  deletedPages: number[] = []
+): number[][] => {
+  const deletedSet = new Set(deletedPages);
+  return ranges
+    .map((range) => sortPagesByOrder(range, pageOrder).filter((page) => !deletedSet.has(page)))
+    .filter((part) => part.length > 0);
+};
+
+const INVALID_FILE_NAME_CHARS = /[\\/:*?"<>|]/g;
+
+export const stripPdfExtension = (fileName: string): string => fileName.replace(/\.pdf$/i, "");
+
+export type SplitFileNameParams = {
+  /** 元のファイル名（拡張子の有無は問わない） */
+  name: string;
+  /** 1始まりの連番 */
+  index: number;
+  total: number;
+  pages: number[];
+};
+
+/**
+ * 出力ファイル名をテンプレートから作る。
+ * {name}: 元のファイル名, {index}: 連番（総数の桁数でゼロ埋め）, {start}/{end}: 先頭/末尾のページ番号, {count}: ページ数
+ */
+export const formatSplitFileName = (template: string, params: SplitFileNameParams): string => {
+  const digits = String(params.total).length;
+  const values: Record<string, string> = {
+    name: stripPdfExtension(params.name) || "document",
+    index: String(params.index).padStart(digits, "0"),
+    start: String(params.pages[0] ?? ""),
+    end: String(params.pages[params.pages.length - 1] ?? ""),
+    count: String(params.pages.length),
+  };
+  const base = (template.trim() || DEFAULT_SPLIT_NAME_TEMPLATE)
+    .replace(/\{(name|index|start|end|count)\}/g, (_, key: string) => values[key])
+    .replace(INVALID_FILE_NAME_CHARS, "_")
+    .trim();
+  return `${stripPdfExtension(base) || values.index}.pdf`;
+};
+
+/**
+ * 抽出したページのファイル名を作る（例: "report.pdf" の 3〜7 ページ → "report_p3-7.pdf"）。
+ */
+export const formatExtractFileName = (name: string, pages: number[]): string => {
+  const base = (stripPdfExtension(name) || "document").replace(INVALID_FILE_NAME_CHARS, "_");
+  return `${base}_p${formatPageRanges(pages)}.pdf`;
+};
+
+/**
+ * 同名のファイルに " (2)" のような連番を付けて重複を避ける。
+ */
+export const ensureUniqueFileNames = (fileNames: string[]): string[] => {
+  const used = new Set<string>();
+  return fileNames.map((fileName) => {
+    let candidate = fileName;
+    let suffix = 2;
+    while (used.has(candidate.toLowerCase())) {
+      candidate = fileName.replace(/(\.[^.]+)?$/, (ext) => ` (${suffix})${ext}`);
+      suffix += 1;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+/**
+ * ページのまとまりに出力ファイル名を割り当てる。
+ */
+export const buildSplitParts = (pageGroups: number[][], template: string, sourceName: string): SplitPart[] => {
+  const fileNames = ensureUniqueFileNames(
+    pageGroups.map((pages, index) =>
+      formatSplitFileName(template, { name: sourceName, index: index + 1, total: pageGroups.length, pages })
+    )
+  );
+  return pageGroups.map((pages, index) => ({ fileName: fileNames[index], pages }));
+};
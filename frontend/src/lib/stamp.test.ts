@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_STAMP_SETTINGS,
+  assertStampSettings,
+  formatStampFileName,
+  formatStampText,
+  placeStamp,
+} from "./stamp";
+
+const options = {
+  ...DEFAULT_STAMP_SETTINGS,
+  startNumber: 98,
+  digits: 5,
+  fileName: "contract-A.pdf",
+  date: new Date(2026, 9, 1),
+};
+
+describe("formatStampText", () => {
+  it("連番を0で埋め、日付とファイル名（拡張子なし）を差し込む", () => {
+    expect(formatStampText("ABC-{n}", 0, options)).toBe("ABC-00098");
+    expect(formatStampText("ABC-{n}", 3, options)).toBe("ABC-00101");
+    expect(formatStampText("{file} {date} {page}", 0, options)).toBe("contract-A 2026-10-01 {page}");
+  });
+
+  it("ファイル名の標準フォントで描けない文字は「_」に置き換える", () => {
+    expect(formatStampText("{file}-{n}", 0, { ...options, fileName: "契約書_v2.pdf" })).toBe("__v2-00098");
+  });
+
+  it("テンプレートが標準フォントで描けない文字を含めばエラーにする", () => {
+    expect(() => formatStampText("社外秘 {n}", 0, options)).toThrow(
+      "スタンプに使えるのは半角の英数字と記号だけです: 社外秘 00098"
+    );
+  });
+});
+
+describe("formatStampFileName", () => {
+  it("拡張子を外し、描けない文字の並びを「_」にして、置き換えたかを返す", () => {
+    expect(formatStampFileName("2026年度 見積書（改）.PDF")).toEqual({ text: "2026_ _", replaced: true });
+    expect(formatStampFileName("contract-A.pdf")).toEqual({ text: "contract-A", replaced: false });
+  });
+});
+
+describe("assertStampSettings", () => {
+  it("開始番号・桁数・文字・大きさ・不透明度を検証する", () => {
+    const stamp = DEFAULT_STAMP_SETTINGS.stamps[0];
+    expect(() => assertStampSettings(DEFAULT_STAMP_SETTINGS)).not.toThrow();
+    expect(() => assertStampSettings({ ...DEFAULT_STAMP_SETTINGS, startNumber: -1 })).toThrow(
+      "開始番号は0以上の整数で指定してください"
+    );
+    expect(() => assertStampSettings({ ...DEFAULT_STAMP_SETTINGS, digits: 13 })).toThrow("桁数は1〜12で指定してください");
+    expect(() => assertStampSettings({ ...DEFAULT_STAMP_SETTINGS, stamps: [{ ...stamp, template: " " }] })).toThrow(
+      "スタンプの文字を入力してください"
+    );
+    expect(() => assertStampSettings({ ...DEFAULT_STAMP_SETTINGS, stamps: [{ ...stamp, fontSize: 200 }] })).toThrow(
+      "文字の大きさは4〜144ptで指定してください"
+    );
+    expect(() => assertStampSettings({ ...DEFAULT_STAMP_SETTINGS, stamps: [{ ...stamp, opacity: 0 }] })).toThrow(
+      "不透明度は1〜100%で指定してください"
+    );
+  });
+});
+
+describe("placeStamp", () => {
+  const cropBox = { x: 10, y: 20, width: 200, height: 100 };
+  const text = { width: 20, height: 10 };
+  const margin = (10 * 72) / 25.4;
+
+  it("回転していなければ表示領域の中で余白を取って置く", () => {
+    const placement = placeStamp(cropBox, 0, text, "bottom-right");
+    expect(placement.x).toBeCloseTo(10 + 200 - margin - 20);
+    expect(placement.y).toBeCloseTo(20 + margin);
+    expect(placement.rotate).toBe(0);
+
+    const center = placeStamp(cropBox, 0, text, "center");
+    expect(center.x).toBeCloseTo(10 + 90);
+    expect(center.y).toBeCloseTo(20 + 45);
+  });
+
+  it("90度回転したページでは見た目の左上に、反時計回りに90度回して置く", () => {
+    // 見た目は幅100・高さ200。見た目の左上は回転前の左下にあたる
+    const placement = placeStamp(cropBox, 90, text, "top-left");
+    expect(placement.x).toBeCloseTo(10 + 200 - (200 - margin - 10));
+    expect(placement.y).toBeCloseTo(20 + margin);
+    expect(placement.rotate).toBe(90);
+  });
+
+  it("180度・270度回転したページでも見た目の位置に置く", () => {
+    const upsideDown = placeStamp(cropBox, 180, text, "bottom-left");
+    expect(upsideDown.x).toBeCloseTo(10 + 200 - margin);
+    expect(upsideDown.y).toBeCloseTo(20 + 100 - margin);
+    expect(upsideDown.rotate).toBe(180);
+
+    const left = placeStamp(cropBox, -90, text, "bottom-left");
+    expect(left.x).toBeCloseTo(10 + margin);
+    expect(left.y).toBeCloseTo(20 + 100 - margin);
+    expect(left.rotate).toBe(270);
+  });
+});
@@ -0,0 +1,162 @@
+import { mmToPoints } from "./page-size";
+import type { PageBox } from "./skew";
+
+export type StampPosition =
+  | "top-left"
+  | "top-center"
+  | "top-right"
+  | "center"
+  | "bottom-left"
+  | "bottom-center"
+  | "bottom-right";
+
+/** 1ページに押す1つのスタンプ */
+export type PageStamp = {
+  /** {n}: 連番、{date}: 保存した日付、{file}: ファイル名（拡張子なし）。それ以外はそのまま押す */
+  template: string;
+  position: StampPosition;
+  /** 文字の大きさ（pt） */
+  fontSize: number;
+  /** 不透明度（0〜1） */
+  opacity: number;
+};
+
+export type StampSettings = {
+  stamps: PageStamp[];
+  /** 出力の1ページ目の連番 */
+  startNumber: number;
+  /** 連番の桁数（足りない分は0で埋める） */
+  digits: number;
+};
+
+export type StampOptions = StampSettings & {
+  fileName: string;
+  /** 未指定なら保存した日付 */
+  date?: Date;
+};
+
+export const STAMP_POSITION_OPTIONS: Array<{ value: StampPosition; label: string }> = [
+  { value: "top-left", label: "左上" },
+  { value: "top-center", label: "上中央" },
+  { value: "top-right", label: "右上" },
+  { value: "center", label: "中央" },
+  { value: "bottom-left", label: "左下" },
+  { value: "bottom-center", label: "下中央" },
+  { value: "bottom-right", label: "右下" },
+];
+
+export const DEFAULT_PAGE_STAMP: PageStamp = {
+  template: "{n}",
+  position: "bottom-right",
+  fontSize: 10,
+  opacity: 1,
+};
+
+export const DEFAULT_STAMP_SETTINGS: StampSettings = {
+  stamps: [DEFAULT_PAGE_STAMP],
+  startNumber: 1,
+  digits: 6,
+};
+
+export const MIN_STAMP_FONT_SIZE = 4;
+export const MAX_STAMP_FONT_SIZE = 144;
+export const MAX_STAMP_DIGITS = 12;
+
+/** 用紙の端からスタンプまでの余白 */
+const STAMP_MARGIN_MM = 10;
+
+/** 標準フォント（Helvetica）で描ける文字だけを受け付ける */
+const PRINTABLE_ASCII = /^[\x20-\x7e]*$/;
+const UNPRINTABLE_RUN = /[^\x20-\x7e]+/g;
+
+export const assertStampSettings = (settings: StampSettings): void => {
+  if (!Number.isSafeInteger(settings.startNumber) || settings.startNumber < 0) {
+    throw new Error("開始番号は0以上の整数で指定してください");
+  }
+  if (!Number.isInteger(settings.digits) || settings.digits < 1 || settings.digits > MAX_STAMP_DIGITS) {
+    throw new Error(`桁数は1〜${MAX_STAMP_DIGITS}で指定してください`);
+  }
+  for (const stamp of settings.stamps) {
+    if (!stamp.template.trim()) {
+      throw new Error("スタンプの文字を入力してください");
+    }
+    if (
+      !Number.isFinite(stamp.fontSize) ||
+      stamp.fontSize < MIN_STAMP_FONT_SIZE ||
+      stamp.fontSize > MAX_STAMP_FONT_SIZE
+    ) {
+      throw new Error(`文字の大きさは${MIN_STAMP_FONT_SIZE}〜${MAX_STAMP_FONT_SIZE}ptで指定してください`);
+    }
+    if (!Number.isFinite(stamp.opacity) || stamp.opacity <= 0 || stamp.opacity > 1) {
+      throw new Error("不透明度は1〜100%で指定してください");
+    }
+  }
+};
+
+/** 日付を YYYY-MM-DD（ローカル時刻）にする */
+export const formatStampDate = (date: Date): string =>
+  [
+    String(date.getFullYear()).padStart(4, "0"),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+/**
+ * {file} に差し込むファイル名（拡張子なし）。日本語など標準フォントで描けない文字の並びは「_」に置き換え、
+ * 置き換えたかを replaced で返す。
+ */
+export const formatStampFileName = (fileName: string): { text: string; replaced: boolean } => {
+  const name = fileName.replace(/\.pdf$/i, "");
+  const text = name.replace(UNPRINTABLE_RUN, "_");
+  return { text, replaced: text !== name };
+};
+
+/**
+ * 出力の index 番目（0始まり）のページに押す文字を作る。
+ * {file} の描けない文字は置き換え、テンプレートそのものが標準フォントで描けない文字を含めばエラーにする。
+ */
+export const formatStampText = (template: string, index: number, options: StampOptions): string => {
+  const number = String(options.startNumber + index).padStart(options.digits, "0");
+  const text = template.replace(/\{(n|date|file)\}/g, (_, token: string) => {
+    if (token === "n") return number;
+    if (token === "date") return formatStampDate(options.date ?? new Date());
+    return formatStampFileName(options.fileName).text;
+  });
+  if (!PRINTABLE_ASCII.test(text)) {
+    throw new Error(`スタンプに使えるのは半角の英数字と記号だけです: ${text}`);
+  }
+  return text;
+};
+
+/**
+ * 見た目の向きで position に文字を置くための、回転前の座標での描画位置と回転角（反時計回り）を返す。
+ * cropBox は表示領域、rotation は /Rotate（時計回り）、text は文字の幅と高さ（pt）。
+ */
+export const placeStamp = (
+  cropBox: PageBox,
+  rotation: number,
+  text: { width: number; height: number },
+  position: StampPosition
+): { x: number; y: number; rotate: number } => {
+  const normalized = ((rotation % 360) + 360) % 360;
+  const quarter = normalized === 90 || normalized === 270;
+  const width = quarter ? cropBox.height : cropBox.width;
+  const height = quarter ? cropBox.width : cropBox.height;
+  const margin = mmToPoints(STAMP_MARGIN_MM);
+  const [vertical, horizontal] = position === "center" ? ["center", "center"] : position.split("-");
+  // 見た目の向きでの位置（左下が原点）
+  const u =
+    horizontal === "left" ? margin : horizontal === "right" ? width - margin - text.width : (width - text.width) / 2;
+  const v =
+    vertical === "bottom" ? margin : vertical === "top" ? height - margin - text.height : (height - text.height) / 2;
+  // 時計回りに回して表示されるので、回転前の座標に戻す
+  const [px, py] =
+    normalized === 90
+      ? [cropBox.width - v, u]
+      : normalized === 180
+        ? [cropBox.width - u, cropBox.height - v]
+        : normalized === 270
+          ? [v, cropBox.height - u]
+          : [u, v];
+  return { x: cropBox.x + px, y: cropBox.y + py, rotate: normalized };
+};
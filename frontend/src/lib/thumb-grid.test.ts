@@ -1,5 +1,10 @@
 import { describe, expect, it } from "vitest";
-import { calculateThumbGridWindow } from "./thumb-grid";
+import {
+  calculateAutoScrollDelta,
+  calculateThumbGridWindow,
+  resolveThumbGridInsertIndex,
+  resolveThumbGridRowTop,
+} from "./thumb-grid";
 
 describe("calculateThumbGridWindow", () => {
   it("必要なページ番号とパディングを計算する", () => {
@@ -54,4 +59,86 @@ describe("calculateThumbGridWindow", () => {
 
     expect(result.pageNumbers).toEqual([1, 2, 3, 4]);
   });
+
+  it("並び順を指定すると表示位置に対応するページ番号を返す", () => {
+    const result = calculateThumbGridWindow({
+      numPages: 4,
+      containerWidth: 300,
+      viewportHeight: 100,
+      scrollTop: 110,
+      rowHeight: 100,
+      minWidth: 90,
+      gridGap: 10,
+      gridPadding: 10,
+      rowBuffer: 0,
+      pageOrder: [4, 3, 2, 1],
+    });
+
+    expect(result.startIndex).toBe(2);
+    expect(result.pageNumbers).toEqual([2, 1]);
+  });
+
+  it("並び順を指定するとその長さで並べ、欠番や numPages を超える番号も扱える", () => {
+    const result = calculateThumbGridWindow({
+      numPages: 6,
+      containerWidth: 300,
+      viewportHeight: 1000,
+      scrollTop: 0,
+      rowHeight: 100,
+      minWidth: 90,
+      gridGap: 10,
+      gridPadding: 10,
+      rowBuffer: 0,
+      pageOrder: [1, 6, 2, 3],
+    });
+
+    expect(result.pageNumbers).toEqual([1, 6, 2, 3]);
+    expect(result.paddingBottom).toBe(0);
+  });
+});
+
+describe("resolveThumbGridInsertIndex", () => {
+  const base = {
+    numPages: 5,
+    containerWidth: 320,
+    rowHeight: 100,
+    minWidth: 90,
+    gridGap: 10,
+    gridPadding: 10,
+  };
+
+  it("カードの左半分なら直前、右半分なら直後の位置を返す", () => {
+    // 3列（列幅 ≒ 93.3）
+    expect(resolveThumbGridInsertIndex({ ...base, x: 20, y: 20 })).toBe(0);
+    expect(resolveThumbGridInsertIndex({ ...base, x: 90, y: 20 })).toBe(1);
+    expect(resolveThumbGridInsertIndex({ ...base, x: 130, y: 130 })).toBe(4);
+  });
+
+  it("末尾を超える位置はページ数にクランプする", () => {
+    expect(resolveThumbGridInsertIndex({ ...base, x: 300, y: 900 })).toBe(5);
+  });
+});
+
+describe("resolveThumbGridRowTop", () => {
+  it("カードのある行の上端を返す", () => {
+    const base = { containerWidth: 320, rowHeight: 100, minWidth: 90, gridGap: 10, gridPadding: 10 };
+    // 3列
+    expect(resolveThumbGridRowTop({ ...base, index: 2 })).toBe(0);
+    expect(resolveThumbGridRowTop({ ...base, index: 3 })).toBe(110);
+    expect(resolveThumbGridRowTop({ ...base, index: 7 })).toBe(220);
+  });
+});
+
+describe("calculateAutoScrollDelta", () => {
+  const base = { viewportTop: 100, viewportHeight: 400, edgeSize: 40, maxSpeed: 20 };
+
+  it("上下端に近いほど速くスクロールする", () => {
+    expect(calculateAutoScrollDelta({ ...base, pointerY: 100 })).toBe(-20);
+    expect(calculateAutoScrollDelta({ ...base, pointerY: 120 })).toBe(-10);
+    expect(calculateAutoScrollDelta({ ...base, pointerY: 490 })).toBe(15);
+  });
+
+  it("中央付近ではスクロールしない", () => {
+    expect(calculateAutoScrollDelta({ ...base, pointerY: 300 })).toBe(0);
+  });
 });
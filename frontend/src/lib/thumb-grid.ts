@@ -1,5 +1,7 @@
 export type ThumbGridWindow = {
   pageNumbers: number[];
+  /** pageNumbers[0] の並び順上の位置（0始まり） */
+  startIndex: number;
   paddingTop: number;
   paddingBottom: number;
 };
@@ -16,6 +18,21 @@ export type ThumbGridParams = {
   rowBuffer: number;
   fallbackWidth?: number;
   fallbackHeight?: number;
+  /**
+   * 表示順のページ番号。未指定なら 1..numPages の順で並べる。
+   * 指定した場合は配列の長さだけ並べる（追加ページの取り消しで番号に欠番があってもよい）
+   */
+  pageOrder?: number[];
+};
+
+export type ThumbGridPointParams = Pick<
+  ThumbGridParams,
+  "numPages" | "containerWidth" | "rowHeight" | "minWidth" | "gridGap" | "gridPadding" | "fallbackWidth"
+> & {
+  /** グリッドのスクロール内容上のX座標（左端=0） */
+  x: number;
+  /** グリッドのスクロール内容上のY座標（上端=0、scrollTop込み） */
+  y: number;
 };
 
 const resolveDimension = (value: number, fallback?: number): number => {
@@ -24,6 +41,12 @@ const resolveDimension = (value: number, fallback?: number): number => {
   return 0;
 };
 
+const resolveColumns = (containerWidth: number, minWidth: number, gridGap: number, gridPadding: number) => {
+  const innerWidth = Math.max(0, containerWidth - gridPadding * 2);
+  const columns = Math.max(1, Math.floor((innerWidth + gridGap) / (minWidth + gridGap)));
+  return { innerWidth, columns };
+};
+
 export const calculateThumbGridWindow = (params: ThumbGridParams): ThumbGridWindow => {
   const {
     numPages,
@@ -37,11 +60,14 @@ export const calculateThumbGridWindow = (params: ThumbGridParams): ThumbGridWind
     rowBuffer,
     fallbackWidth,
     fallbackHeight,
+    pageOrder,
   } = params;
+  const itemCount = pageOrder ? pageOrder.length : numPages;
 
-  if (numPages <= 0) {
+  if (itemCount <= 0) {
     return {
       pageNumbers: [],
+      startIndex: 0,
       paddingTop: 0,
       paddingBottom: 0,
     };
@@ -49,25 +75,93 @@ export const calculateThumbGridWindow = (params: ThumbGridParams): ThumbGridWind
 
   const resolvedWidth = resolveDimension(containerWidth, fallbackWidth);
   const resolvedHeight = resolveDimension(viewportHeight, fallbackHeight);
-  const innerWidth = Math.max(0, resolvedWidth - gridPadding * 2);
-  const columns = Math.max(1, Math.floor((innerWidth + gridGap) / (minWidth + gridGap)));
+  const { columns } = resolveColumns(resolvedWidth, minWidth, gridGap, gridPadding);
   const rowStride = rowHeight + gridGap;
-  const totalRows = Math.ceil(numPages / columns);
+  const totalRows = Math.ceil(itemCount / columns);
   const startRow = Math.max(0, Math.floor(scrollTop / rowStride) - rowBuffer);
   const endRow = Math.min(
     totalRows - 1,
     Math.floor((scrollTop + resolvedHeight) / rowStride) + rowBuffer
   );
   const startIndex = startRow * columns;
-  const endIndex = Math.min(numPages, (endRow + 1) * columns);
+  const endIndex = Math.min(itemCount, (endRow + 1) * columns);
   const pageNumbers: number[] = [];
   for (let index = startIndex; index < endIndex; index += 1) {
-    pageNumbers.push(index + 1);
+    pageNumbers.push(pageOrder?.[index] ?? index + 1);
   }
 
   return {
     pageNumbers,
+    startIndex,
     paddingTop: startRow * rowStride,
     paddingBottom: Math.max(0, (totalRows - endRow - 1) * rowStride),
   };
 };
+
+/**
+ * グリッド上の座標から、ドロップ時の挿入位置（0..numPages）を求める。
+ * カードの右半分ならその直後、左半分なら直前に挿入する。
+ */
+export const resolveThumbGridInsertIndex = (params: ThumbGridPointParams): number => {
+  const { numPages, containerWidth, rowHeight, minWidth, gridGap, gridPadding, fallbackWidth, x, y } = params;
+  if (numPages <= 0) return 0;
+
+  const resolvedWidth = resolveDimension(containerWidth, fallbackWidth);
+  const { innerWidth, columns } = resolveColumns(resolvedWidth, minWidth, gridGap, gridPadding);
+  const columnWidth = Math.max(1, (innerWidth - gridGap * (columns - 1)) / columns);
+  const columnStride = columnWidth + gridGap;
+  const rowStride = rowHeight + gridGap;
+
+  const localX = Math.max(0, x - gridPadding);
+  const localY = Math.max(0, y - gridPadding);
+  const column = Math.min(columns - 1, Math.floor(localX / columnStride));
+  const row = Math.floor(localY / rowStride);
+  const offsetInColumn = localX - column * columnStride;
+  const after = offsetInColumn > columnWidth / 2 ? 1 : 0;
+  return Math.min(numPages, row * columns + column + after);
+};
+
+export type ThumbGridRowParams = Pick<
+  ThumbGridParams,
+  "containerWidth" | "rowHeight" | "minWidth" | "gridGap" | "gridPadding" | "fallbackWidth"
+> & {
+  /** 並び順上の位置（0始まり） */
+  index: number;
+};
+
+/**
+ * 並び順の index 番目のカードがある行の上端を返す（その行を先頭に表示するスクロール位置）。
+ */
+export const resolveThumbGridRowTop = (params: ThumbGridRowParams): number => {
+  const { containerWidth, rowHeight, minWidth, gridGap, gridPadding, fallbackWidth, index } = params;
+  const resolvedWidth = resolveDimension(containerWidth, fallbackWidth);
+  const { columns } = resolveColumns(resolvedWidth, minWidth, gridGap, gridPadding);
+  return Math.floor(Math.max(0, index) / columns) * (rowHeight + gridGap);
+};
+
+export type AutoScrollParams = {
+  pointerY: number;
+  viewportTop: number;
+  viewportHeight: number;
+  edgeSize: number;
+  maxSpeed: number;
+};
+
+/**
+ * ドラッグ中のポインタがグリッド上下端に近いほど速くスクロールする量を返す（上方向は負）。
+ */
+export const calculateAutoScrollDelta = (params: AutoScrollParams): number => {
+  const { pointerY, viewportTop, viewportHeight, edgeSize, maxSpeed } = params;
+  if (edgeSize <= 0 || viewportHeight <= 0) return 0;
+  const topDistance = pointerY - viewportTop;
+  const bottomDistance = viewportTop + viewportHeight - pointerY;
+  if (topDistance < edgeSize) {
+    const ratio = Math.min(1, (edgeSize - Math.max(0, topDistance)) / edgeSize);
+    return -Math.ceil(maxSpeed * ratio);
+  }
+  if (bottomDistance < edgeSize) {
+    const ratio = Math.min(1, (edgeSize - Math.max(0, bottomDistance)) / edgeSize);
+    return Math.ceil(maxSpeed * ratio);
+  }
+  return 0;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { crc32, createZip } from "./zip";
+
+const readBlob = (blob: Blob): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(blob);
+  });
+
+describe("crc32", () => {
+  it("既知の値と一致する", () => {
+    expect(crc32(new TextEncoder().encode("hello"))).toBe(0x3610a686);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe("createZip", () => {
+  it("無圧縮のエントリとセントラルディレクトリを書き出す", async () => {
+    const data = new TextEncoder().encode("hello");
+    const blob = createZip(
+      [
+        { name: "分割_1.pdf", data },
+        { name: "b.pdf", data: new Uint8Array([1, 2, 3]) },
+      ],
+      new Date(2026, 9, 19, 12, 0, 0)
+    );
+    const view = new DataView(await readBlob(blob));
+    const name = new TextEncoder().encode("分割_1.pdf");
+
+    expect(blob.type).toBe("application/zip");
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true)).toBe(0x0800);
+    expect(view.getUint16(8, true)).toBe(0);
+    expect(view.getUint32(14, true)).toBe(0x3610a686);
+    expect(view.getUint32(18, true)).toBe(5);
+    expect(view.getUint16(26, true)).toBe(name.length);
+
+    const end = view.byteLength - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+    const secondCentral = centralOffset + 46 + name.length;
+    expect(view.getUint32(secondCentral + 42, true)).toBe(30 + name.length + 5);
+  });
+
+  it("エントリが無い場合はエラーにする", () => {
+    expect(() => createZip([])).toThrow("ZIPに格納するファイルがありません");
+  });
+});
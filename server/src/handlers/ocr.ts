@@ -138,3 +138,51 @@ export const createOcrHandler = (
     }
   };
 };
+
+export const createSkewHandler = (
+  config: AppConfig,
+  detector: OrientationDetector
+): RequestHandler => {
+  return async (req, res, next) => {
+    const logger = req.app.locals.logger as Logger | undefined;
+    const context = createOcrLogContext();
+
+    try {
+      if (!config.ocrEnabled) {
+        throw new RequestError(503, "ocr_disabled", "OCRは無効化されています");
+      }
+      if (!detector.estimateSkew) {
+        throw new RequestError(501, "skew_unsupported", "傾き推定に対応していません");
+      }
+
+      const payload = extractImagePayload(req);
+      context.bufferBytes = payload.buffer.length;
+      context.mimeType = payload.mimeType ?? null;
+
+      const result = await promiseWithTimeout(
+        detector.estimateSkew({ buffer: payload.buffer, mimeType: payload.mimeType }),
+        config.ocrTimeoutMs
+      );
+      const durationMs = Date.now() - context.startedAt;
+
+      logger?.info("skew_request_completed", {
+        requestId: context.requestId,
+        durationMs,
+        angle: result.angle,
+        confidence: result.confidence,
+        bufferBytes: context.bufferBytes,
+      });
+
+      res.json({
+        success: true,
+        angle: result.angle,
+        confidence: result.confidence,
+        processingMs: durationMs,
+      });
+    } catch (error) {
+      const durationMs = Date.now() - context.startedAt;
+      logRequestFailed(logger, context, error, durationMs);
+      next(error);
+    }
+  };
+};
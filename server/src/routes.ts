@@ -2,7 +2,7 @@ import { Router } from "express";
 import { AppConfig } from "./config";
 import { createHealthHandler } from "./handlers/health";
 import { createLogsHandler } from "./handlers/logs";
-import { createOcrHandler } from "./handlers/ocr";
+import { createOcrHandler, createSkewHandler } from "./handlers/ocr";
 import { uploadMiddleware } from "./middleware";
 import { OrientationDetector } from "./services/orientation";
 
@@ -11,6 +11,7 @@ export const createApiRouter = (config: AppConfig, detector: OrientationDetector
 
   router.get("/health", createHealthHandler(config));
   router.post("/ocr/orientation", uploadMiddleware.single("file"), createOcrHandler(config, detector));
+  router.post("/ocr/skew", uploadMiddleware.single("file"), createSkewHandler(config, detector));
   router.post("/logs", createLogsHandler());
 
   return router;
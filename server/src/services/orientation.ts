@@ -16,10 +16,25 @@ export type OrientationInput = {
   signal?: AbortSignal;
 };
 
+export type SkewResult = {
+  /** 内容の傾き（度）。画像上で時計回りに傾いている場合が正。推定できなければ null */
+  angle: number | null;
+  confidence: number;
+};
+
 export interface OrientationDetector {
   detect: (input: OrientationInput) => Promise<OrientationResult>;
+  /** 90°単位より細かい傾きを推定する（未対応の検出器では未定義） */
+  estimateSkew?: (input: OrientationInput) => Promise<SkewResult>;
 }
 
+/** 8bitグレースケール画像（1画素1バイト、行優先） */
+export type GrayImage = {
+  width: number;
+  height: number;
+  data: Uint8Array;
+};
+
 type RecognizeResult = {
   data?: {
     text?: string;
@@ -33,9 +48,12 @@ type RecognizeFn = (buffer: Buffer) => Promise<RecognizeResult>;
 
 type RotateFn = (buffer: Buffer, degrees: Exclude<Orientation, null>) => Promise<Buffer>;
 
+type DecodeGrayFn = (buffer: Buffer) => Promise<GrayImage>;
+
 export type CreateTesseractDetectorOptions = {
   recognize?: RecognizeFn;
   rotate?: RotateFn;
+  decodeGray?: DecodeGrayFn;
 };
 
 const normalizeRotation = (degrees: number | null | undefined): Orientation => {
@@ -299,9 +317,149 @@ const detectWithTesseract = async (
   return { rotation, confidence, textSample };
 };
 
+const SKEW_MAX_ANGLE = 5;
+const SKEW_COARSE_STEP = 0.5;
+const SKEW_FINE_STEP = 0.1;
+const SKEW_MIN_CONFIDENCE = 0.2;
+const SKEW_MIN_INK_RATIO = 0.002;
+const SKEW_MAX_INK_RATIO = 0.4;
+const SKEW_ANALYSIS_WIDTH = 1000;
+
+/**
+ * 大津の方法で二値化しきい値を求める。
+ */
+const resolveOtsuThreshold = (data: Uint8Array): number => {
+  const histogram = new Array<number>(256).fill(0);
+  for (let index = 0; index < data.length; index += 1) {
+    histogram[data[index]] += 1;
+  }
+  const total = data.length;
+  let sumAll = 0;
+  for (let value = 0; value < 256; value += 1) {
+    sumAll += value * histogram[value];
+  }
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let threshold = 128;
+  for (let value = 0; value < 256; value += 1) {
+    weightBackground += histogram[value];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += value * histogram[value];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = value;
+    }
+  }
+  return threshold;
+};
+
+/**
+ * 角度 angle（度）で傾けた行方向に黒画素を投影し、プロファイルの鋭さ（各行の二乗和）を返す。
+ * 文字行が投影方向とそろうほど値が大きくなる。
+ */
+const scoreProjectionProfile = (
+  inkX: Int32Array,
+  inkY: Int32Array,
+  height: number,
+  width: number,
+  angle: number
+): number => {
+  const slope = Math.tan((angle * Math.PI) / 180);
+  const offset = Math.ceil(Math.abs(slope) * width);
+  const bins = new Float64Array(height + offset * 2 + 1);
+  for (let index = 0; index < inkX.length; index += 1) {
+    const bin = Math.round(inkY[index] - inkX[index] * slope) + offset;
+    bins[bin] += 1;
+  }
+  let score = 0;
+  for (let index = 0; index < bins.length; index += 1) {
+    score += bins[index] * bins[index];
+  }
+  return score;
+};
+
+/**
+ * 投影プロファイル法で ±5° の範囲の傾きを推定する。
+ * 粗い刻みで探索した後、最良角の周辺を細かい刻みで探索する。
+ */
+export const estimateSkewAngle = (image: GrayImage): SkewResult => {
+  const { width, height, data } = image;
+  if (width < 2 || height < 2 || data.length < width * height) {
+    return { angle: null, confidence: 0 };
+  }
+
+  const threshold = resolveOtsuThreshold(data);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y += 1) {
+    const row = y * width;
+    for (let x = 0; x < width; x += 1) {
+      if (data[row + x] <= threshold) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  const inkRatio = xs.length / (width * height);
+  if (inkRatio < SKEW_MIN_INK_RATIO || inkRatio > SKEW_MAX_INK_RATIO) {
+    return { angle: null, confidence: 0 };
+  }
+  const inkX = Int32Array.from(xs);
+  const inkY = Int32Array.from(ys);
+
+  const scores: number[] = [];
+  let bestAngle = 0;
+  let bestScore = -1;
+  const evaluate = (angle: number) => {
+    const score = scoreProjectionProfile(inkX, inkY, height, width, angle);
+    scores.push(score);
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  };
+
+  for (let angle = -SKEW_MAX_ANGLE; angle <= SKEW_MAX_ANGLE + 1e-9; angle += SKEW_COARSE_STEP) {
+    evaluate(Number(angle.toFixed(2)));
+  }
+  const coarseScores = scores.slice();
+  const coarseBest = bestAngle;
+  for (let delta = -SKEW_COARSE_STEP; delta <= SKEW_COARSE_STEP + 1e-9; delta += SKEW_FINE_STEP) {
+    const angle = Number((coarseBest + delta).toFixed(2));
+    if (Math.abs(angle) > SKEW_MAX_ANGLE) continue;
+    evaluate(angle);
+  }
+
+  // 最良角のスコアが全体の平均からどれだけ突出しているかを信頼度とする
+  const meanScore = coarseScores.reduce((total, score) => total + score, 0) / coarseScores.length;
+  const confidence = bestScore > 0 ? Math.max(0, Math.min(1, (bestScore - meanScore) / bestScore)) : 0;
+  if (confidence < SKEW_MIN_CONFIDENCE) {
+    return { angle: null, confidence };
+  }
+  return { angle: Number(bestAngle.toFixed(1)), confidence };
+};
+
+const decodeGrayWithSharp: DecodeGrayFn = async (buffer) => {
+  const { data, info } = await sharp(buffer)
+    .flatten({ background: "#ffffff" })
+    .greyscale()
+    .resize({ width: SKEW_ANALYSIS_WIDTH, withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { width: info.width, height: info.height, data: new Uint8Array(data.buffer, data.byteOffset, data.length) };
+};
+
 export const createTesseractDetector = ({
   recognize,
   rotate,
+  decodeGray,
 }: CreateTesseractDetectorOptions = {}): OrientationDetector => {
   const recognizeFn: RecognizeFn =
     recognize ??
@@ -345,5 +503,12 @@ export const createTesseractDetector = ({
 
       return pageNumberResult;
     },
+    async estimateSkew({ buffer, signal }) {
+      if (signal?.aborted) {
+        throw new Error("OCR処理が中断されました");
+      }
+      const image = await (decodeGray ?? decodeGrayWithSharp)(buffer);
+      return estimateSkewAngle(image);
+    },
   };
 };
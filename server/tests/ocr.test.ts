@@ -271,3 +271,61 @@ describe("POST /api/ocr/orientation", () => {
     });
   });
 });
+
+describe("POST /api/ocr/skew", () => {
+  it("OCRが無効化されている場合は503を返す", async () => {
+    const detector: OrientationDetector = {
+      detect: async () => ({ rotation: null, confidence: 0 }),
+      estimateSkew: async () => ({ angle: 1.5, confidence: 0.8 }),
+    };
+    const app = buildApp(detector, { ocrEnabled: false });
+
+    const res = await request(app)
+      .post("/api/ocr/skew")
+      .send({ imageBase64: samplePngBase64 });
+
+    expect(res.status).toBe(503);
+    expect(res.body.success).toBe(false);
+  });
+
+  it("傾き推定に対応していない検出器なら501を返す", async () => {
+    const detector: OrientationDetector = {
+      detect: async () => ({ rotation: null, confidence: 0 }),
+    };
+    const app = buildApp(detector);
+
+    const res = await request(app)
+      .post("/api/ocr/skew")
+      .send({ imageBase64: samplePngBase64 });
+
+    expect(res.status).toBe(501);
+    expect(res.body).toMatchObject({
+      success: false,
+      code: "skew_unsupported",
+    });
+  });
+
+  it("推定した傾き角度と信頼度を返す", async () => {
+    const estimateSkew = vi.fn(async () => ({ angle: -2.3, confidence: 0.74 }));
+    const detector: OrientationDetector = {
+      detect: async () => ({ rotation: null, confidence: 0 }),
+      estimateSkew,
+    };
+    const app = buildApp(detector);
+
+    const res = await request(app)
+      .post("/api/ocr/skew")
+      .send({ imageBase64: samplePngBase64 });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      success: true,
+      angle: -2.3,
+      confidence: 0.74,
+    });
+    expect(typeof res.body.processingMs).toBe("number");
+    expect(estimateSkew).toHaveBeenCalledWith(
+      expect.objectContaining({ buffer: expect.any(Buffer) })
+    );
+  });
+});
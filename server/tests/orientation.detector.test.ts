@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from "vitest";
-import { createTesseractDetector } from "../src/services/orientation";
+import { createTesseractDetector, estimateSkewAngle, type GrayImage } from "../src/services/orientation";
 
 const baseBuffer = Buffer.from("image");
 
@@ -71,3 +71,52 @@ describe("createTesseractDetector", () => {
     expect(result.confidence).toBe(0);
   });
 });
+
+const createTiltedLinesImage = (angle: number, width = 400, height = 300): GrayImage => {
+  const data = new Uint8Array(width * height).fill(255);
+  const slope = Math.tan((angle * Math.PI) / 180);
+  for (let base = 20; base < height - 20; base += 24) {
+    for (let x = 20; x < width - 20; x += 1) {
+      // 文字行に見立てた破線（単語間の空白を含む）
+      if (x % 40 > 32) continue;
+      const y = Math.round(base + x * slope);
+      for (let dy = 0; dy < 4; dy += 1) {
+        if (y + dy >= 0 && y + dy < height) data[(y + dy) * width + x] = 0;
+      }
+    }
+  }
+  return { width, height, data };
+};
+
+describe("estimateSkewAngle", () => {
+  it("時計回りに傾いた文字行の角度を正の値で推定する", () => {
+    const result = estimateSkewAngle(createTiltedLinesImage(2));
+
+    expect(result.angle).not.toBeNull();
+    expect(result.angle!).toBeCloseTo(2, 0);
+    expect(result.confidence).toBeGreaterThan(0.2);
+  });
+
+  it("反時計回りの傾きは負の値になる", () => {
+    const result = estimateSkewAngle(createTiltedLinesImage(-3.5));
+
+    expect(result.angle!).toBeGreaterThan(-3.8);
+    expect(result.angle!).toBeLessThan(-3.2);
+  });
+
+  it("黒画素がほとんど無い画像は推定しない", () => {
+    const blank = { width: 100, height: 100, data: new Uint8Array(100 * 100).fill(255) };
+
+    expect(estimateSkewAngle(blank)).toEqual({ angle: null, confidence: 0 });
+  });
+
+  it("検出器の estimateSkew は画像をグレースケールに変換して推定する", async () => {
+    const decodeGray = vi.fn(async () => createTiltedLinesImage(1.5));
+    const detector = createTesseractDetector({ decodeGray });
+
+    const result = await detector.estimateSkew!({ buffer: baseBuffer });
+
+    expect(decodeGray).toHaveBeenCalledWith(baseBuffer);
+    expect(result.angle!).toBeCloseTo(1.5, 0);
+  });
+});